@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { MockEmbeddingProvider, cosineSimilarity } from '../../src/services/embeddings/index.js';
+
+describe('Embedding Providers', () => {
+  describe('MockEmbeddingProvider', () => {
+    const provider = new MockEmbeddingProvider();
+
+    it('should return one normalized vector per text', async () => {
+      const embeddings = await provider.embed(['Revisar el presupuesto', 'Enviar el informe']);
+
+      expect(embeddings).toHaveLength(2);
+      for (const embedding of embeddings) {
+        expect(embedding).toHaveLength(provider.getDimensions());
+        const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+        expect(norm).toBeCloseTo(1, 5);
+      }
+    });
+
+    it('should be deterministic', async () => {
+      const [first] = await provider.embed(['Reunión con el equipo de ventas']);
+      const [second] = await provider.embed(['Reunión con el equipo de ventas']);
+
+      expect(first).toEqual(second);
+    });
+
+    it('should ignore accents and inflections', async () => {
+      const [query, accented, unrelated] = await provider.embed([
+        'reunion presupuestos',
+        'La reunión sobre el presupuesto',
+        'Comprar leche y pan',
+      ]);
+
+      expect(cosineSimilarity(query, accented)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+      expect(cosineSimilarity(query, accented)).toBeGreaterThan(0.5);
+    });
+
+    it('should return a zero vector for text without words', async () => {
+      const [embedding] = await provider.embed(['...']);
+
+      expect(embedding.every(value => value === 0)).toBe(true);
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('should be 1 for identical directions and 0 for orthogonal vectors', () => {
+      expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 10);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    });
+
+    it('should be 0 when a vector is empty', () => {
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { OpenAILLMProvider } from '../../src/services/llm/index.js';
+import {
+  checkSummaryOutput,
+  salvageSummaryOutput,
+  validateSummaryOutput,
+} from '../../src/services/llm/summary-output.js';
+
+const validOutput = {
+  tlDr: 'Reunión de planificación',
+  bullets: ['Se revisó el presupuesto'],
+  actions: [{ text: 'Enviar el acta', priority: 'high', category: 'reunión' }],
+};
+
+const openAIResponse = (content: string) => ({
+  ok: true,
+  json: async () => ({
+    choices: [{ message: { content } }],
+    usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+  }),
+});
+
+describe('checkSummaryOutput', () => {
+  it('should accept JSON wrapped in a code fence', () => {
+    const result = checkSummaryOutput('```json\n' + JSON.stringify(validOutput) + '\n```');
+
+    expect(result).toEqual({ success: true, data: validOutput, clamped: undefined });
+  });
+
+  it('should clamp bullets and actions over the limits', () => {
+    const result = checkSummaryOutput(JSON.stringify({
+      ...validOutput,
+      bullets: Array.from({ length: 8 }, (_, index) => `Punto ${index}`),
+      actions: Array.from({ length: 12 }, (_, index) => ({ text: `Acción ${index}` })),
+    }));
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.bullets).toHaveLength(5);
+      expect(result.data.actions).toHaveLength(10);
+      expect(result.clamped).toEqual({ bullets: 3, actions: 2 });
+    }
+  });
+
+  it('should report schema problems with their path', () => {
+    const result = checkSummaryOutput(JSON.stringify({ ...validOutput, actions: [{ text: 'x', priority: 'urgent' }] }));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]).toMatch(/^actions\.0\.priority/);
+    }
+  });
+
+  it('should reject partial JSON', () => {
+    expect(checkSummaryOutput('{"tlDr": "Reunión", "bullets": ["a"')).toEqual({
+      success: false,
+      errors: ['No JSON object found in response'],
+    });
+  });
+});
+
+describe('salvageSummaryOutput', () => {
+  it('should keep valid items and drop invalid fields', () => {
+    expect(salvageSummaryOutput({
+      tlDr: '',
+      bullets: ['Punto', 3, ''],
+      actions: [{ text: 'Llamar a Ana', priority: 'urgent' }, 'Enviar acta', { priority: 'low' }],
+    })).toEqual({
+      tlDr: 'Punto',
+      bullets: ['Punto'],
+      actions: [{ text: 'Llamar a Ana' }, { text: 'Enviar acta' }],
+    });
+  });
+
+  it('should give up without a TL;DR or bullets', () => {
+    expect(salvageSummaryOutput({ actions: [] })).toBeNull();
+  });
+});
+
+describe('validateSummaryOutput', () => {
+  it('should ask the model to repair invalid output', async () => {
+    const repair = jest.fn(async () => JSON.stringify(validOutput));
+
+    const { output, validation } = await validateSummaryOutput('{"tlDr": 42}', repair);
+
+    expect(output).toEqual(validOutput);
+    expect(repair).toHaveBeenCalledTimes(1);
+    expect(validation).toEqual(expect.objectContaining({ attempts: 2, repaired: true, salvaged: false }));
+    expect(validation.failures).toHaveLength(1);
+  });
+
+  it('should stop repairing after the attempt limit and salvage', async () => {
+    const repair = jest.fn(async () => '{"tlDr": "Resumen", "bullets": "no es una lista", "actions": []}');
+
+    const { output, validation } = await validateSummaryOutput('sin json', repair);
+
+    expect(repair).toHaveBeenCalledTimes(2);
+    expect(output).toEqual({ tlDr: 'Resumen', bullets: [], actions: [] });
+    expect(validation).toEqual(expect.objectContaining({ attempts: 3, salvaged: true }));
+  });
+
+  it('should fail when nothing can be salvaged', async () => {
+    await expect(validateSummaryOutput('sin json')).rejects.toThrow('Invalid summary output');
+  });
+});
+
+describe('OpenAILLMProvider', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock<any>;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should re-ask the model with the validation errors and record them', async () => {
+    fetchMock
+      .mockResolvedValueOnce(openAIResponse('{"tlDr": "Reunión", "bullets": [], "actions": [{"priority": "high"}]}'))
+      .mockResolvedValueOnce(openAIResponse(JSON.stringify(validOutput)));
+
+    const result = await new OpenAILLMProvider().summarize('transcripción');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const repairBody = JSON.parse((fetchMock.mock.calls[1][1] as any).body);
+    expect(repairBody.messages).toHaveLength(4);
+    expect(repairBody.messages[3].content).toContain('actions.0.text');
+
+    expect(result.actions).toEqual([
+      expect.objectContaining({ text: 'Enviar el acta', priority: 'high', category: 'reunión' })
+    ]);
+    expect(result.metadata?.validation).toEqual(expect.objectContaining({ attempts: 2, repaired: true }));
+  });
+});
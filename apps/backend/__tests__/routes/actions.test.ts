@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { actionsRoutes } from '../../src/routes/actions.js';
+import { searchService } from '../../src/services/search.service.js';
+
+jest.mock('../../src/middleware/auth.middleware.js', () => ({
+  authMiddleware: jest.fn(async (request: any) => {
+    request.user = { id: 'user-1', email: 'test@example.com' };
+  }),
+  getUserId: (request: any) => request.user.id,
+}));
+
+jest.mock('../../src/services/search.service.js', () => ({
+  searchService: {
+    indexNote: jest.fn(),
+  },
+}));
+
+const prisma = new PrismaClient() as any;
+
+describe('Actions Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    await app.register(actionsRoutes, { prefix: '/api/v1/actions' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should update an action of a live note', async () => {
+    prisma.action.findFirst.mockResolvedValue({ id: 'action-1', noteId: 'note-1', userId: 'user-1' });
+    prisma.action.update.mockResolvedValue({
+      id: 'action-1',
+      noteId: 'note-1',
+      text: 'Enviar propuesta',
+      done: true,
+      dueSuggested: null,
+      priority: 'medium',
+      category: null,
+      createdAt: new Date('2024-03-01T10:00:00Z'),
+      updatedAt: new Date('2024-03-01T10:00:00Z'),
+    });
+
+    const response = await app.inject({ method: 'PATCH', url: '/api/v1/actions/action-1', payload: { done: true } });
+
+    expect(response.statusCode).toBe(200);
+    expect(prisma.action.findFirst).toHaveBeenCalledWith({
+      where: { id: 'action-1', userId: 'user-1', note: { deletedAt: null } }
+    });
+  });
+
+  it('should not update an action of a trashed note', async () => {
+    // The note filter leaves nothing to find once the note is in the trash
+    prisma.action.findFirst.mockResolvedValue(null);
+
+    const response = await app.inject({ method: 'PATCH', url: '/api/v1/actions/action-1', payload: { done: true } });
+
+    expect(response.statusCode).not.toBe(200);
+    expect(prisma.action.findFirst).toHaveBeenCalledWith({
+      where: { id: 'action-1', userId: 'user-1', note: { deletedAt: null } }
+    });
+    expect(prisma.action.update).not.toHaveBeenCalled();
+    expect(searchService.indexNote).not.toHaveBeenCalled();
+  });
+
+  it('should not delete an action of a trashed note', async () => {
+    prisma.action.findFirst.mockResolvedValue(null);
+
+    const response = await app.inject({ method: 'DELETE', url: '/api/v1/actions/action-1' });
+
+    expect(response.statusCode).not.toBe(204);
+    expect(prisma.action.findFirst).toHaveBeenCalledWith({
+      where: { id: 'action-1', userId: 'user-1', note: { deletedAt: null } }
+    });
+    expect(prisma.action.delete).not.toHaveBeenCalled();
+    expect(prisma.auditEvent.create).not.toHaveBeenCalled();
+  });
+});
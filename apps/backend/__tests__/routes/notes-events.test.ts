@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PrismaClient } from '@prisma/client';
+import { notesRoutes } from '../../src/routes/notes.js';
+import { noteEventsService } from '../../src/services/events.service.js';
+
+jest.mock('../../src/middleware/auth.middleware.js', () => ({
+  authMiddleware: jest.fn(async (request: any) => {
+    request.user = { id: 'user-1', email: 'test@example.com' };
+  }),
+  getUserId: (request: any) => request.user.id,
+}));
+
+jest.mock('../../src/services/queue.service.js', () => ({
+  getQueueService: () => ({}),
+}));
+
+const prisma = new PrismaClient() as any;
+
+const URL_PATH = '/api/v1/notes/note-1/events';
+
+function noteDetail(status: string) {
+  return {
+    id: 'note-1',
+    title: 'Reunión de ventas',
+    status,
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    tags: [],
+    transcript: null,
+    summary: null,
+    actions: [],
+  };
+}
+
+// Events of an SSE body, without the keep-alive comments
+function parseEvents(body: string) {
+  return body.split('\n\n').filter(block => block.startsWith('event:')).map(block => {
+    const [event, data] = block.split('\n');
+    return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+  });
+}
+
+async function until(condition: () => boolean) {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('GET /notes/:id/events', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    await app.register(notesRoutes, { prefix: '/api/v1/notes' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should stream status, progress and the completed note, then close', async () => {
+    prisma.note.findFirst
+      .mockResolvedValueOnce({ id: 'note-1', status: 'transcribing' })
+      .mockResolvedValueOnce(noteDetail('transcribing'))
+      .mockResolvedValueOnce(noteDetail('summarizing'))
+      .mockResolvedValueOnce(noteDetail('ready'));
+
+    const response = app.inject({ method: 'GET', url: URL_PATH });
+    await until(() => noteEventsService.subscriberCount('note-1') === 1);
+
+    noteEventsService.publishJobEvent({ type: 'progress', noteId: 'note-1', jobId: 'job-1', queueName: 'transcribe', progress: 40 });
+    noteEventsService.publishJobEvent({ type: 'completed', noteId: 'note-1', jobId: 'job-2', queueName: 'summarize' });
+
+    // The stream ends by itself once the note is ready
+    const { statusCode, headers, body } = await response;
+
+    expect(statusCode).toBe(200);
+    expect(headers['content-type']).toBe('text/event-stream');
+    expect(parseEvents(body)).toEqual([
+      { event: 'status', data: { id: 'note-1', status: 'transcribing' } },
+      { event: 'progress', data: { jobId: 'job-1', stage: 'transcribe', progress: 40 } },
+      { event: 'job', data: { jobId: 'job-2', stage: 'summarize', type: 'completed' } },
+      { event: 'status', data: { id: 'note-1', status: 'summarizing' } },
+      { event: 'status', data: { id: 'note-1', status: 'ready' } },
+      { event: 'completed', data: expect.objectContaining({ id: 'note-1', status: 'ready' }) },
+    ]);
+    expect(noteEventsService.subscriberCount('note-1')).toBe(0);
+  });
+
+  it('should report the job error and close when processing fails', async () => {
+    prisma.note.findFirst
+      .mockResolvedValueOnce({ id: 'note-1', status: 'transcribing' })
+      .mockResolvedValueOnce(noteDetail('transcribing'))
+      .mockResolvedValueOnce(noteDetail('error'));
+
+    const response = app.inject({ method: 'GET', url: URL_PATH });
+    await until(() => noteEventsService.subscriberCount('note-1') === 1);
+
+    noteEventsService.publishJobEvent({ type: 'failed', noteId: 'note-1', jobId: 'job-1', queueName: 'transcribe', error: 'STT timeout' });
+
+    const events = parseEvents((await response).body);
+
+    expect(events.slice(-2)).toEqual([
+      { event: 'status', data: { id: 'note-1', status: 'error' } },
+      { event: 'failed', data: { message: 'STT timeout' } },
+    ]);
+    expect(noteEventsService.subscriberCount('note-1')).toBe(0);
+  });
+
+  it('should not open a stream for a note of another user or in the trash', async () => {
+    prisma.note.findFirst.mockResolvedValueOnce(null);
+
+    const response = await app.inject({ method: 'GET', url: URL_PATH });
+
+    expect(response.statusCode).toBe(404);
+    expect(prisma.note.findFirst.mock.calls[0][0].where).toEqual({ id: 'note-1', userId: 'user-1', deletedAt: null });
+    expect(noteEventsService.subscriberCount('note-1')).toBe(0);
+  });
+
+  it('should drop the listener and heartbeat when the client disconnects', async () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+    const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
+    prisma.note.findFirst
+      .mockResolvedValueOnce({ id: 'note-1', status: 'transcribing' })
+      .mockResolvedValue(noteDetail('transcribing'));
+
+    await app.listen({ port: 0, host: '127.0.0.1' });
+    const { port } = app.server.address() as AddressInfo;
+
+    // A real connection, so the client can go away mid-stream
+    const request = http.get({ host: '127.0.0.1', port, path: URL_PATH });
+    const response = await new Promise<http.IncomingMessage>(resolve => request.on('response', resolve));
+    await new Promise(resolve => response.once('data', resolve));
+
+    expect(noteEventsService.subscriberCount('note-1')).toBe(1);
+    const heartbeatCall = setIntervalSpy.mock.calls.findIndex(([, delay]) => delay === 15000);
+    expect(heartbeatCall).toBeGreaterThanOrEqual(0);
+
+    request.on('error', () => undefined);
+    request.destroy();
+    await until(() => noteEventsService.subscriberCount('note-1') === 0);
+
+    expect(clearIntervalSpy).toHaveBeenCalledWith(setIntervalSpy.mock.results[heartbeatCall].value);
+
+    setIntervalSpy.mockRestore();
+    clearIntervalSpy.mockRestore();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { notesRoutes } from '../../src/routes/notes.js';
+
+jest.mock('../../src/middleware/auth.middleware.js', () => ({
+  authMiddleware: jest.fn(async (request: any) => {
+    request.user = { id: 'user-1', email: 'test@example.com' };
+  }),
+  getUserId: (request: any) => request.user.id,
+}));
+
+jest.mock('../../src/services/queue.service.js', () => ({
+  getQueueService: () => ({}),
+}));
+
+const prisma = new PrismaClient() as any;
+
+describe('GET /notes/:id', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    await app.register(notesRoutes, { prefix: '/api/v1/notes' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should return the transcript segments in position order', async () => {
+    prisma.note.findFirst.mockResolvedValue({
+      id: 'note-1',
+      title: 'Reunión de ventas',
+      status: 'ready',
+      createdAt: new Date('2024-03-01T10:00:00Z'),
+      tags: [],
+      transcript: {
+        id: 'transcript-1',
+        text: 'Hola. Empezamos.',
+        language: 'es',
+        confidence: 0.9,
+        // Prisma returns them sorted by position, as the query asks
+        segments: [
+          { id: 'seg-1', position: 0, start: 0, end: 1.2, text: 'Hola.', confidence: 0.95 },
+          { id: 'seg-2', position: 1, start: 1.2, end: 3.4, text: 'Empezamos.', confidence: null },
+        ],
+      },
+      summary: null,
+      actions: [],
+      media: [],
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/api/v1/notes/note-1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(prisma.note.findFirst.mock.calls[0][0].include.transcript).toEqual({
+      include: { segments: { orderBy: { position: 'asc' } } }
+    });
+    expect(response.json().transcript.segments).toEqual([
+      { id: 'seg-1', start: 0, end: 1.2, text: 'Hola.', confidence: 0.95 },
+      { id: 'seg-2', start: 1.2, end: 3.4, text: 'Empezamos.' },
+    ]);
+  });
+});
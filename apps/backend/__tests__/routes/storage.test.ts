@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { mkdtempSync } from 'fs';
+import { readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { storageRoutes } from '../../src/routes/storage.js';
+import { defaultStorageDriver } from '../../src/services/storage.js';
+
+// The driver is created on first use, so this must be set before any request
+const storageRoot = mkdtempSync(path.join(os.tmpdir(), 'notas-storage-routes-'));
+process.env.STORAGE_DRIVER = 'local';
+process.env.STORAGE_LOCAL_PATH = storageRoot;
+process.env.API_PUBLIC_URL = 'http://localhost:4000';
+process.env.STORAGE_SIGNING_SECRET = 'test-signing-secret';
+
+/**
+ * Path and query of a signed URL, as app.inject expects them
+ */
+async function signedPath(key: string, method: 'GET' | 'PUT', expiresIn = 60, contentType?: string): Promise<string> {
+  const url = new URL(await defaultStorageDriver().getSignedUrl(key, method, expiresIn, contentType));
+  return `${url.pathname}${url.search}`;
+}
+
+describe('Storage Routes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false });
+    await app.register(storageRoutes, { prefix: '/api/v1/storage' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  it('should store a PUT upload and serve it back on a signed GET', async () => {
+    const put = await app.inject({
+      method: 'PUT',
+      url: await signedPath('audio/user-1/note.webm', 'PUT', 60, 'audio/webm'),
+      headers: { 'content-type': 'audio/webm' },
+      payload: Buffer.from('audio bytes'),
+    });
+
+    expect(put.statusCode).toBe(200);
+    expect(put.headers.etag).toBeDefined();
+
+    const get = await app.inject({ method: 'GET', url: await signedPath('audio/user-1/note.webm', 'GET') });
+
+    expect(get.statusCode).toBe(200);
+    expect(get.headers['content-type']).toBe('audio/webm');
+    expect(get.body).toBe('audio bytes');
+  });
+
+  it('should reject an expired signature', async () => {
+    const response = await app.inject({ method: 'GET', url: await signedPath('audio/user-1/note.webm', 'GET', -1) });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error.code).toBe('SIGNED_URL_INVALID');
+  });
+
+  it('should reject a tampered signature', async () => {
+    const url = await signedPath('audio/user-1/note.webm', 'GET');
+    const tampered = url.replace(/signature=([0-9a-f])/, (_match, first) => `signature=${first === 'a' ? 'b' : 'a'}`);
+
+    const response = await app.inject({ method: 'GET', url: tampered });
+
+    expect(tampered).not.toBe(url);
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should reject a URL signed for another key', async () => {
+    const url = await signedPath('audio/user-2/other.webm', 'GET');
+
+    const response = await app.inject({ method: 'GET', url: url.replace('user-2/other', 'user-1/note') });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should reject a GET signature used to upload', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: await signedPath('audio/user-1/replaced.webm', 'GET'),
+      headers: { 'content-type': 'audio/webm' },
+      payload: Buffer.from('replacement'),
+    });
+
+    expect(response.statusCode).toBe(403);
+    await expect(defaultStorageDriver().headObject('audio/user-1/replaced.webm')).rejects.toThrow();
+  });
+
+  it('should reject an upload with another content type than the signed one', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: await signedPath('audio/user-1/typed.webm', 'PUT', 60, 'audio/webm'),
+      headers: { 'content-type': 'text/html' },
+      payload: '<script></script>',
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(await readdir(path.join(storageRoot, 'objects', 'audio', 'user-1'))).not.toContain('typed.webm');
+  });
+
+  it('should require the signature query', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/storage/audio/user-1/note.webm' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return 404 for a signed URL to a missing file', async () => {
+    const response = await app.inject({ method: 'GET', url: await signedPath('audio/user-1/missing.webm', 'GET') });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json().error.code).toBe('MEDIA_NOT_FOUND');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import {
+  AccountDeletionService,
+  deletionDate,
+  userStorageFolders,
+} from '../../src/services/account-deletion.service.js';
+import { storageService } from '../../src/services/storage.service.js';
+
+jest.mock('../../src/services/storage.service.js', () => ({
+  storageService: {
+    deleteFolder: jest.fn(),
+    deleteFile: jest.fn(),
+  },
+}));
+
+const prisma = new PrismaClient() as any;
+const storage = storageService as any;
+
+const user = {
+  id: 'user-1',
+  email: 'ana@example.com',
+  password: bcrypt.hashSync('secreto123', 4),
+  deletionScheduledAt: null,
+};
+
+describe('deletionDate', () => {
+  it('should add the grace period in days', () => {
+    expect(deletionDate(new Date('2024-03-01T10:00:00Z'), 30).toISOString()).toBe('2024-03-31T10:00:00.000Z');
+  });
+});
+
+describe('userStorageFolders', () => {
+  it('should cover audio and exports of the user', () => {
+    expect(userStorageFolders('user-1')).toEqual(['audio/user-1', 'exports/user-1']);
+  });
+});
+
+describe('AccountDeletionService', () => {
+  it('should reject a wrong password', async () => {
+    prisma.user.findUnique.mockResolvedValue(user);
+
+    await expect(new AccountDeletionService().scheduleDeletion('user-1', 'otra')).rejects.toThrow('AUTH_INVALID_CREDENTIALS');
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('should schedule the deletion and record it', async () => {
+    prisma.user.findUnique.mockResolvedValue(user);
+
+    const scheduledAt = await new AccountDeletionService().scheduleDeletion('user-1', 'secreto123');
+
+    expect(scheduledAt.getTime()).toBeGreaterThan(Date.now());
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { deletionScheduledAt: scheduledAt }
+    });
+    expect(prisma.auditEvent.create.mock.calls[0][0].data.type).toBe('account_deletion_scheduled');
+  });
+
+  it('should keep the date of a pending deletion', async () => {
+    const pending = new Date('2024-04-01T00:00:00Z');
+    prisma.user.findUnique.mockResolvedValue({ ...user, deletionScheduledAt: pending });
+
+    await expect(new AccountDeletionService().scheduleDeletion('user-1', 'secreto123')).resolves.toEqual(pending);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('should only record a cancellation when a deletion was pending', async () => {
+    prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(new AccountDeletionService().cancelDeletion('user-1')).resolves.toBe(false);
+    expect(prisma.auditEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should purge files, anonymize audit events and delete the user', async () => {
+    prisma.user.findUnique.mockResolvedValue(user);
+    prisma.media.findMany.mockResolvedValue([
+      { storageKey: 'audio/user-1/nota.webm' },
+      { storageKey: 'uploads/antigua.mp3' },
+    ]);
+    prisma.$transaction.mockResolvedValue([{ count: 4 }, user]);
+    storage.deleteFolder.mockResolvedValue(2);
+
+    await new AccountDeletionService().purgeAccount('user-1');
+
+    expect(storage.deleteFolder).toHaveBeenCalledWith('audio/user-1');
+    expect(storage.deleteFolder).toHaveBeenCalledWith('exports/user-1');
+    expect(storage.deleteFile).toHaveBeenCalledTimes(1);
+    expect(storage.deleteFile).toHaveBeenCalledWith('uploads/antigua.mp3');
+    expect(prisma.auditEvent.updateMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { userId: 'user-1' },
+          { metadata: { path: ['email'], equals: 'ana@example.com' } }
+        ]
+      },
+      data: { userId: null, ipAddress: null, userAgent: null, metadata: 'DbNull' }
+    });
+    expect(prisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user-1' } });
+
+    const deleted = prisma.auditEvent.create.mock.calls[0][0].data;
+    expect(deleted.type).toBe('account_deleted');
+    expect(deleted.userId).toBeUndefined();
+    expect(deleted.metadata).toEqual({ files: 5, anonymizedEvents: 4 });
+  });
+
+  it('should leave the account in place when storage fails', async () => {
+    prisma.user.findUnique.mockResolvedValue(user);
+    prisma.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+    storage.deleteFolder.mockRejectedValue(new Error('Failed to delete folder: timeout'));
+
+    await expect(new AccountDeletionService().purgeDueAccounts(new Date())).resolves.toBe(0);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
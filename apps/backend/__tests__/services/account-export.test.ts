@@ -0,0 +1,183 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import {
+  AccountExportService,
+  buildAccountArchive,
+  parseAccountArchive,
+  type AccountNote,
+} from '../../src/services/account-export.service.js';
+import { createZip, readZip } from '../../src/services/export/zip.js';
+import { storageService } from '../../src/services/storage.service.js';
+
+jest.mock('../../src/services/storage.service.js', () => ({
+  storageService: {
+    uploadFile: jest.fn(),
+    deleteFile: jest.fn(),
+    getSignedUrl: jest.fn(),
+  },
+}));
+
+const prisma = new PrismaClient() as any;
+const storage = storageService as any;
+
+const note: AccountNote = {
+  id: 'note-1',
+  title: 'Reunión de equipo',
+  status: 'ready',
+  tags: ['trabajo', 'q1'],
+  createdAt: new Date('2024-03-13T08:30:00Z'),
+  updatedAt: new Date('2024-03-13T09:00:00Z'),
+  transcript: {
+    text: 'Hola a todos.',
+    language: 'es',
+    confidence: 0.9,
+    provider: 'mock',
+    createdAt: new Date('2024-03-13T08:35:00Z'),
+    segments: [{ start: 0, end: 2.5, text: 'Hola a todos.', confidence: null }],
+    revisions: [{ version: 1, text: 'Hola a todos.', source: 'stt', restoredFromVersion: null, createdAt: new Date('2024-03-13T08:35:00Z') }],
+  },
+  summary: {
+    tlDr: 'Saludo inicial.',
+    bullets: ['Saludo'],
+    provider: 'mock',
+    style: 'minutes',
+    createdAt: new Date('2024-03-13T08:40:00Z'),
+  },
+  actions: [{
+    text: 'Enviar acta',
+    done: false,
+    dueSuggested: new Date('2024-03-15T09:00:00Z'),
+    dueConfidence: 0.8,
+    priority: 'high',
+    category: 'seguimiento',
+    createdAt: new Date('2024-03-13T08:40:00Z'),
+  }],
+  media: [{ id: 'media-1', filename: 'abc.mp3', originalName: 'reunion.mp3', size: 4, contentType: 'audio/mpeg' }],
+};
+
+const openAudio = async () => Readable.from([Buffer.from([1, 2, 3, 4])]);
+
+function archiveOf(notes: AccountNote[]): Promise<Buffer> {
+  return buffer(buildAccountArchive({ email: 'ana@example.com' }, notes, openAudio, 'UTC'));
+}
+
+describe('buildAccountArchive', () => {
+  it('should write a manifest, the note as JSON and Markdown, and its audio', async () => {
+    const archive = await archiveOf([note]);
+    const names = readZip(archive).map(entry => entry.name);
+
+    expect(names).toEqual([
+      'manifest.json',
+      'notes/reunion-de-equipo-note-1/note.json',
+      'notes/reunion-de-equipo-note-1/note.md',
+      'notes/reunion-de-equipo-note-1/audio/abc.mp3',
+    ]);
+  });
+
+  it('should read back what it wrote', async () => {
+    const archive = await archiveOf([note]);
+    const { manifest, notes, files } = parseAccountArchive(archive);
+
+    expect(manifest.counts).toEqual({ notes: 1, transcripts: 1, summaries: 1, actions: 1, media: 1 });
+    expect(manifest.tags).toEqual(['q1', 'trabajo']);
+    expect(notes[0].actions[0].dueSuggested).toBe('2024-03-15T09:00:00.000Z');
+    expect(notes[0].transcript?.segments).toEqual([{ start: 0, end: 2.5, text: 'Hola a todos.', confidence: null }]);
+    expect(files.get(notes[0].media[0].path)).toEqual(Buffer.from([1, 2, 3, 4]));
+  });
+});
+
+describe('parseAccountArchive', () => {
+  it('should reject files that are not ZIP archives', () => {
+    expect(() => parseAccountArchive(Buffer.from('not a zip'))).toThrow('IMPORT_ARCHIVE_INVALID');
+  });
+
+  it('should reject archives without a valid manifest', () => {
+    const archive = createZip([{ name: 'manifest.json', data: JSON.stringify({ format: 'otro' }) }]);
+
+    expect(() => parseAccountArchive(archive)).toThrow('IMPORT_ARCHIVE_INVALID');
+  });
+
+  it('should reject archives with missing audio files', async () => {
+    const entries = readZip(await archiveOf([note]));
+    const archive = createZip(entries.filter(entry => !entry.name.includes('/audio/')));
+
+    expect(() => parseAccountArchive(archive)).toThrow('IMPORT_ARCHIVE_INVALID');
+  });
+});
+
+describe('readZip', () => {
+  it('should detect corrupted entries', () => {
+    const archive = createZip([{ name: 'hola.txt', data: 'hola' }]);
+    const centralDirectory = archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    archive.writeUInt32LE(0, centralDirectory + 16); // CRC of the first entry
+
+    expect(() => readZip(archive)).toThrow('IMPORT_ARCHIVE_INVALID');
+  });
+
+  it('should reject archives that extract to more than the limit before inflating them', () => {
+    const archive = createZip([{ name: 'ceros.bin', data: Buffer.alloc(1024 * 1024) }]);
+
+    expect(() => readZip(archive, 1024)).toThrow('IMPORT_ARCHIVE_INVALID');
+    expect(readZip(archive, 1024 * 1024)[0].data).toHaveLength(1024 * 1024);
+  });
+
+  it('should stop inflating an entry at the size the archive declares', () => {
+    const archive = createZip([{ name: 'ceros.bin', data: Buffer.alloc(1024 * 1024) }]);
+    const centralDirectory = archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    archive.writeUInt32LE(10, centralDirectory + 24); // Uncompressed size of the first entry
+
+    expect(() => readZip(archive, 1024)).toThrow('IMPORT_ARCHIVE_INVALID');
+  });
+});
+
+describe('AccountExportService', () => {
+  it('should create every note in one transaction and remove all uploaded audio when it fails', async () => {
+    const archive = await archiveOf([note, { ...note, id: 'note-2', title: 'Llamada' }]);
+    storage.uploadFile
+      .mockResolvedValueOnce({ key: 'audio/user-1/a.mp3', url: 'url-a' })
+      .mockResolvedValueOnce({ key: 'audio/user-1/b.mp3', url: 'url-b' });
+    prisma.note.create.mockImplementation((args: any) => args);
+    prisma.$transaction.mockRejectedValue(new Error('deadlock'));
+    storage.deleteFile.mockResolvedValue(undefined);
+
+    await expect(new AccountExportService().importArchive('user-1', archive)).rejects.toThrow('deadlock');
+
+    const [operations] = prisma.$transaction.mock.calls[0];
+    expect(operations).toHaveLength(2);
+    expect(operations[1].data.media.create[0].storageKey).toBe('audio/user-1/b.mp3');
+    expect(storage.deleteFile).toHaveBeenCalledWith('audio/user-1/a.mp3');
+    expect(storage.deleteFile).toHaveBeenCalledWith('audio/user-1/b.mp3');
+    expect(prisma.auditEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should return the running export instead of starting another', async () => {
+    const running = {
+      id: 'export-1',
+      status: 'processing',
+      storageKey: null,
+      size: null,
+      error: null,
+      expiresAt: null,
+      completedAt: null,
+      createdAt: new Date('2024-03-13T08:30:00Z'),
+    };
+    prisma.accountExport.findFirst.mockResolvedValue(running);
+
+    const result = await new AccountExportService().requestExport('user-1');
+
+    expect(result.id).toBe('export-1');
+    expect(result.status).toBe('processing');
+    expect(prisma.accountExport.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject exports of other users', async () => {
+    prisma.accountExport.findFirst.mockResolvedValue(null);
+
+    await expect(new AccountExportService().getExport('user-1', 'export-2')).rejects.toThrow('EXPORT_NOT_FOUND');
+    expect(prisma.accountExport.findFirst).toHaveBeenCalledWith({
+      where: { id: 'export-2', userId: 'user-1' }
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  ActionsService,
+  buildActionOrderBy,
+  buildActionWhere,
+  buildCursorWhere,
+  decodeCursor,
+  encodeCursor,
+} from '../../src/services/actions.service.js';
+
+const prisma = new PrismaClient() as any;
+
+describe('buildActionWhere', () => {
+  it('should only filter by user and live notes without filters', () => {
+    expect(buildActionWhere('user-1', {})).toEqual({ userId: 'user-1', note: { deletedAt: null } });
+  });
+
+  it('should filter by priority, category and status', () => {
+    expect(buildActionWhere('user-1', { priority: 'high', category: 'Reunión', done: false })).toEqual({
+      userId: 'user-1',
+      note: { deletedAt: null },
+      priority: 'high',
+      category: { equals: 'Reunión', mode: 'insensitive' },
+      done: false,
+    });
+  });
+
+  it('should filter by note tag and due range', () => {
+    const dueFrom = new Date('2024-03-01T00:00:00Z');
+    const dueTo = new Date('2024-03-31T00:00:00Z');
+
+    expect(buildActionWhere('user-1', { tag: 'ventas', dueFrom, dueTo })).toEqual({
+      userId: 'user-1',
+      note: { deletedAt: null, tags: { has: 'ventas' } },
+      dueSuggested: { gte: dueFrom, lte: dueTo },
+    });
+  });
+
+  it('should treat open actions past their due date as overdue', () => {
+    const now = new Date('2024-03-13T09:00:00Z');
+
+    expect(buildActionWhere('user-1', { overdue: true }, now)).toEqual({
+      userId: 'user-1',
+      note: { deletedAt: null },
+      AND: [{ done: false }, { dueSuggested: { lt: now } }],
+    });
+    expect(buildActionWhere('user-1', { overdue: false }, now)).toEqual({
+      userId: 'user-1',
+      note: { deletedAt: null },
+      OR: [{ done: true }, { dueSuggested: null }, { dueSuggested: { gte: now } }],
+    });
+  });
+});
+
+describe('buildActionOrderBy', () => {
+  it('should sort by creation date by default', () => {
+    expect(buildActionOrderBy({})).toEqual([{ createdAt: 'asc' }, { id: 'asc' }]);
+  });
+
+  it('should put high priority first unless an order is given', () => {
+    expect(buildActionOrderBy({ sort: 'priority' })[0]).toEqual({ priority: 'desc' });
+    expect(buildActionOrderBy({ sort: 'priority', order: 'asc' })[0]).toEqual({ priority: 'asc' });
+  });
+
+  it('should leave actions without a due date last', () => {
+    expect(buildActionOrderBy({ sort: 'due' })[0]).toEqual({ dueSuggested: { sort: 'asc', nulls: 'last' } });
+  });
+});
+
+describe('action cursors', () => {
+  const keys = [
+    { field: 'priority' as const, direction: 'desc' as const },
+    { field: 'createdAt' as const, direction: 'asc' as const },
+    { field: 'id' as const, direction: 'asc' as const },
+  ];
+
+  it('should round-trip the sort values of an action', () => {
+    const cursor = encodeCursor(keys, { id: 'action-1', priority: 'medium', dueSuggested: null, createdAt: new Date('2024-03-13T09:00:00Z') });
+
+    expect(decodeCursor(cursor, keys)).toEqual(['medium', '2024-03-13T09:00:00.000Z', 'action-1']);
+  });
+
+  it('should ignore malformed cursors and cursors for another sort', () => {
+    const cursor = encodeCursor(keys, { id: 'action-1', priority: 'medium', dueSuggested: null, createdAt: new Date() });
+
+    expect(decodeCursor('not-a-cursor', keys)).toBeNull();
+    expect(decodeCursor(cursor, [{ field: 'createdAt', direction: 'asc' }, { field: 'id', direction: 'asc' }])).toBeNull();
+  });
+
+  it('should continue after the cursor on each sort key', () => {
+    const createdAt = new Date('2024-03-13T09:00:00Z');
+
+    expect(buildCursorWhere(keys, ['medium', createdAt.toISOString(), 'action-1'])).toEqual({
+      OR: [
+        { AND: [{ priority: { in: ['low'] } }] },
+        { AND: [{ priority: 'medium' }, { createdAt: { gt: createdAt } }] },
+        { AND: [{ priority: 'medium' }, { createdAt }, { id: { gt: 'action-1' } }] },
+      ],
+    });
+  });
+
+  it('should keep undated actions after dated ones', () => {
+    const due = [{ field: 'dueSuggested' as const, direction: 'asc' as const }, { field: 'id' as const, direction: 'asc' as const }];
+    const dueSuggested = new Date('2024-03-15T17:00:00Z');
+
+    expect(buildCursorWhere(due, [dueSuggested.toISOString(), 'action-1']).OR[0]).toEqual({
+      AND: [{ OR: [{ dueSuggested: { gt: dueSuggested } }, { dueSuggested: null }] }],
+    });
+    expect(buildCursorWhere(due, [null, 'action-1'])).toEqual({
+      OR: [{ AND: [{ dueSuggested: null }, { id: { gt: 'action-1' } }] }],
+    });
+  });
+});
+
+describe('ActionsService', () => {
+  let actionsService: ActionsService;
+
+  beforeEach(() => {
+    actionsService = new ActionsService();
+  });
+
+  it('should list the filtered actions of a note', async () => {
+    prisma.note.findFirst.mockResolvedValue({ id: 'note-1', userId: 'user-1' });
+    prisma.action.findMany.mockResolvedValue([]);
+
+    await actionsService.listNoteActions('user-1', 'note-1', { priority: 'low', sort: 'priority' });
+
+    expect(prisma.action.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', note: { deletedAt: null }, priority: 'low', noteId: 'note-1' },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }, { id: 'asc' }],
+    });
+  });
+
+  it('should page actions across notes', async () => {
+    const actions = [1, 2, 3].map(n => ({
+      id: `action-${n}`,
+      createdAt: new Date(`2024-03-1${n}T09:00:00Z`),
+      note: { id: 'note-1', title: 'Reunión', tags: [] },
+    }));
+    prisma.action.findMany.mockResolvedValue(actions);
+
+    const page = await actionsService.listActions('user-1', { done: false, limit: 2 });
+
+    expect(prisma.action.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', note: { deletedAt: null }, done: false },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: 3,
+      include: { note: { select: { id: true, title: true, tags: true } } },
+    });
+    expect(page.items.map(action => action.id)).toEqual(['action-1', 'action-2']);
+    expect(decodeCursor(page.cursor!, [
+      { field: 'createdAt', direction: 'asc' },
+      { field: 'id', direction: 'asc' },
+    ])).toEqual(['2024-03-12T09:00:00.000Z', 'action-2']);
+  });
+
+  it('should end the listing on the last page', async () => {
+    prisma.action.findMany.mockResolvedValue([]);
+
+    const page = await actionsService.listActions('user-1');
+
+    expect(page).toEqual({ items: [], cursor: null });
+  });
+
+  it('should reject notes of other users', async () => {
+    prisma.note.findFirst.mockResolvedValue(null);
+
+    await expect(actionsService.listNoteActions('user-1', 'note-2')).rejects.toThrow('NOTE_NOT_FOUND');
+    expect(prisma.action.findMany).not.toHaveBeenCalled();
+  });
+});
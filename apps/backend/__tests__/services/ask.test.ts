@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { MockEmbeddingProvider } from '../../src/services/embeddings/index.js';
+import { AskService, buildAskPrompt, extractCitations } from '../../src/services/ask.service.js';
+
+const prisma = new PrismaClient() as any;
+const provider = new MockEmbeddingProvider();
+
+const passages = [
+  { noteId: 'note-1', noteTitle: 'Reunión semanal', text: 'Aprobamos el presupuesto del trimestre.', start: 0, end: 65 },
+  { noteId: 'note-2', noteTitle: null, text: 'Comprar leche y pan.', start: null, end: null },
+];
+
+describe('buildAskPrompt', () => {
+  it('should number passages with their title and time range', () => {
+    const prompt = buildAskPrompt('¿Qué se aprobó?', passages);
+
+    expect(prompt).toContain('[1] Reunión semanal (0:00-1:05)\nAprobamos el presupuesto del trimestre.');
+    expect(prompt).toContain('[2] Nota sin título\nComprar leche y pan.');
+    expect(prompt.endsWith('Pregunta:\n¿Qué se aprobó?')).toBe(true);
+  });
+});
+
+describe('extractCitations', () => {
+  it('should map markers to passages once, in order of appearance', () => {
+    const citations = extractCitations('Se aprobó el presupuesto [2][1]. Ver también [1] y [7].', passages);
+
+    expect(citations.map(citation => citation.index)).toEqual([2, 1]);
+    expect(citations[1]).toEqual({ index: 1, ...passages[0] });
+  });
+});
+
+describe('AskService', () => {
+  let askService: AskService;
+
+  beforeEach(() => {
+    askService = new AskService();
+  });
+
+  it('should answer from the note transcript with citations', async () => {
+    prisma.note.findFirst.mockResolvedValue({
+      id: 'note-1',
+      title: 'Reunión semanal',
+      transcript: {
+        text: '',
+        segments: [
+          { text: 'Hablamos del viaje a Lima.', start: 0, end: 10 },
+          { text: 'Aprobamos el presupuesto del trimestre.', start: 10, end: 20 },
+        ]
+      }
+    });
+
+    const result = await askService.askNote({ noteId: 'note-1', userId: 'user-1', question: '¿Qué pasó con el presupuesto?' });
+
+    expect(result.answer).toContain('[1]');
+    expect(result.citations).toEqual([
+      expect.objectContaining({ index: 1, noteId: 'note-1', start: 0, end: 20 })
+    ]);
+    expect(prisma.note.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'note-1', userId: 'user-1', deletedAt: null }
+    }));
+  });
+
+  it('should fail when the note has no transcript', async () => {
+    prisma.note.findFirst.mockResolvedValue({ id: 'note-1', title: null, transcript: null });
+
+    await expect(askService.askNote({ noteId: 'note-1', userId: 'user-1', question: '¿Algo?' }))
+      .rejects.toThrow('TRANSCRIPT_NOT_FOUND');
+  });
+
+  it('should answer across notes using semantic matches', async () => {
+    const [embedding] = await provider.embed(['Aprobamos el presupuesto del trimestre.']);
+    prisma.transcriptChunk.findMany.mockResolvedValue([
+      { id: 'chunk-1', text: 'Aprobamos el presupuesto del trimestre.', start: 5, end: 15, embedding, transcript: { noteId: 'note-1' } },
+    ]);
+    prisma.note.findMany.mockResolvedValue([{ id: 'note-1', title: 'Reunión semanal' }]);
+
+    const result = await askService.askLibrary({ userId: 'user-1', question: '¿Qué pasó con el presupuesto?' });
+
+    expect(result.citations).toEqual([
+      { index: 1, noteId: 'note-1', noteTitle: 'Reunión semanal', text: 'Aprobamos el presupuesto del trimestre.', start: 5, end: 15 }
+    ]);
+  });
+
+  it('should not call the model when nothing matches', async () => {
+    prisma.transcriptChunk.findMany.mockResolvedValue([]);
+    prisma.note.findMany.mockResolvedValue([]);
+
+    const result = await askService.askLibrary({ userId: 'user-1', question: '¿Qué pasó con el presupuesto?' });
+
+    expect(result).toEqual({ answer: 'No encontré información sobre eso en tus notas.', citations: [] });
+  });
+});
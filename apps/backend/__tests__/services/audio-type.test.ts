@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectAudioType, isCompatibleAudioType } from '../../src/services/audio-type.js';
+
+function bytes(...parts: Array<string | number[]>): Buffer {
+  return Buffer.concat(parts.map((part) => typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)));
+}
+
+describe('detectAudioType', () => {
+  it('should recognize each supported format from its header', () => {
+    expect(detectAudioType(bytes('ID3', [0x04, 0x00]))).toBe('audio/mpeg');
+    expect(detectAudioType(bytes([0xff, 0xfb, 0x90, 0x64]))).toBe('audio/mpeg');
+    expect(detectAudioType(bytes('RIFF', [0x24, 0x08, 0x00, 0x00], 'WAVEfmt '))).toBe('audio/wav');
+    expect(detectAudioType(bytes([0x00, 0x00, 0x00, 0x20], 'ftypM4A '))).toBe('audio/mp4');
+    expect(detectAudioType(bytes([0xff, 0xf1, 0x50, 0x80]))).toBe('audio/aac');
+    expect(detectAudioType(bytes('OggS', [0x00, 0x02]))).toBe('audio/ogg');
+    expect(detectAudioType(bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84], 'webm'))).toBe('audio/webm');
+    expect(detectAudioType(bytes('fLaC', [0x00, 0x00, 0x00, 0x22]))).toBe('audio/flac');
+  });
+
+  it('should not recognize files that are not audio', () => {
+    expect(detectAudioType(bytes('%PDF-1.7'))).toBeNull();
+    expect(detectAudioType(bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a]))).toBeNull();
+    expect(detectAudioType(bytes('RIFF', [0x24, 0x08, 0x00, 0x00], 'AVI '))).toBeNull();
+    expect(detectAudioType(bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x88], 'matroska'))).toBeNull();
+    expect(detectAudioType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('isCompatibleAudioType', () => {
+  it('should accept aliases and ignore parameters of the declared type', () => {
+    expect(isCompatibleAudioType('audio/webm;codecs=opus', 'audio/webm')).toBe(true);
+    expect(isCompatibleAudioType('audio/x-m4a', 'audio/mp4')).toBe(true);
+    expect(isCompatibleAudioType('Audio/MP3', 'audio/mpeg')).toBe(true);
+  });
+
+  it('should reject a declared type the content does not match', () => {
+    expect(isCompatibleAudioType('audio/mpeg', 'audio/wav')).toBe(false);
+    expect(isCompatibleAudioType('audio/flac', 'audio/ogg')).toBe(false);
+  });
+});
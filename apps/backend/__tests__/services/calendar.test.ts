@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  CalendarService,
+  buildActionsCalendar,
+  escapeText,
+  foldLine,
+  type CalendarAction,
+} from '../../src/services/calendar.service.js';
+
+const prisma = new PrismaClient() as any;
+
+const now = new Date('2024-03-13T08:30:00Z');
+
+const action = (overrides: Partial<CalendarAction> = {}): CalendarAction => ({
+  id: 'action-1',
+  text: 'Enviar presupuesto',
+  done: false,
+  dueSuggested: new Date('2024-03-15T09:00:00Z'),
+  priority: 'high',
+  category: null,
+  createdAt: new Date('2024-03-10T10:00:00Z'),
+  updatedAt: new Date('2024-03-12T18:00:00Z'),
+  note: { id: 'note-1', title: 'Reunión, lunes' },
+  ...overrides,
+});
+
+const build = (actions: CalendarAction[], type: 'event' | 'todo') =>
+  buildActionsCalendar(actions, { type, baseUrl: 'https://app.test', now }).split('\r\n');
+
+describe('escapeText', () => {
+  it('should escape iCalendar special characters', () => {
+    expect(escapeText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+  });
+});
+
+describe('foldLine', () => {
+  it('should keep short lines as they are', () => {
+    expect(foldLine('SUMMARY:Llamar')).toBe('SUMMARY:Llamar');
+  });
+
+  it('should fold lines at 75 octets without splitting characters', () => {
+    const folded = foldLine(`SUMMARY:${'ñ'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBe(2);
+    expect(Buffer.byteLength(lines[0])).toBe(74); // 'SUMMARY:' plus 33 two-byte characters
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.map((line, index) => (index ? line.slice(1) : line)).join('')).toBe(`SUMMARY:${'ñ'.repeat(60)}`);
+  });
+});
+
+describe('buildActionsCalendar', () => {
+  it('should publish actions as events with the note title and link', () => {
+    const lines = build([action({ category: 'Ventas' })], 'event');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('BEGIN:VEVENT');
+    expect(lines).toContain('UID:action-1@notas-voz');
+    expect(lines).toContain('DTSTAMP:20240313T083000Z');
+    expect(lines).toContain('DTSTART:20240315T090000Z');
+    expect(lines).toContain('DTEND:20240315T093000Z');
+    expect(lines).toContain('SUMMARY:Enviar presupuesto');
+    expect(lines).toContain('DESCRIPTION:Nota: Reunión\\, lunes\\nhttps://app.test/dashboard/notes/note-1');
+    expect(lines).toContain('URL:https://app.test/dashboard/notes/note-1');
+    expect(lines).toContain('PRIORITY:1');
+    expect(lines).toContain('CATEGORIES:Ventas');
+    expect(lines[lines.length - 2]).toBe('END:VCALENDAR');
+    expect(lines[lines.length - 1]).toBe('');
+  });
+
+  it('should mark completed actions in event titles', () => {
+    const lines = build([action({ done: true })], 'event');
+
+    expect(lines).toContain('SUMMARY:✓ Enviar presupuesto');
+  });
+
+  it('should publish actions as to-dos with their completion', () => {
+    const pending = build([action()], 'todo');
+    const done = build([action({ done: true })], 'todo');
+
+    expect(pending).toContain('BEGIN:VTODO');
+    expect(pending).toContain('DUE:20240315T090000Z');
+    expect(pending).toContain('STATUS:NEEDS-ACTION');
+    expect(done).toContain('STATUS:COMPLETED');
+    expect(done).toContain('COMPLETED:20240312T180000Z');
+  });
+});
+
+describe('CalendarService', () => {
+  let calendarService: CalendarService;
+
+  beforeEach(() => {
+    calendarService = new CalendarService();
+  });
+
+  it('should export the dated actions of the feed owner', async () => {
+    prisma.userSettings.findUnique.mockResolvedValue({ userId: 'user-1' });
+    prisma.action.findMany.mockResolvedValue([action()]);
+
+    const calendar = await calendarService.exportFeed('token-1', 'todo');
+
+    expect(prisma.userSettings.findUnique).toHaveBeenCalledWith({ where: { calendarFeedToken: 'token-1' } });
+    expect(prisma.action.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user-1', dueSuggested: { not: null }, note: { deletedAt: null } },
+    }));
+    expect(calendar).toContain('BEGIN:VTODO');
+  });
+
+  it('should reject unknown feed tokens', async () => {
+    prisma.userSettings.findUnique.mockResolvedValue(null);
+
+    await expect(calendarService.exportFeed('revoked', 'event')).rejects.toThrow('CALENDAR_FEED_NOT_FOUND');
+    expect(prisma.action.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should replace the feed token', async () => {
+    prisma.userSettings.upsert.mockResolvedValue({});
+
+    const token = await calendarService.rotateFeedToken('user-1');
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(prisma.userSettings.upsert).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      create: { userId: 'user-1', calendarFeedToken: token },
+      update: { calendarFeedToken: token },
+    });
+  });
+});
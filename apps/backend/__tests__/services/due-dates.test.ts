@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { extractActionDueDates, extractDueDate, zonedTimeToUtc } from '../../src/services/due-dates.js';
+
+// Recorded on Wednesday 13 March 2024 at 10:00 in Madrid (UTC+1)
+const context = { reference: new Date('2024-03-13T09:00:00Z'), timezone: 'Europe/Madrid' };
+
+const dueIn = (text: string, ctx = context) => extractDueDate(text, ctx)?.date.toISOString();
+
+describe('extractDueDate', () => {
+  // Dates must depend on the recording date only, never on the current time
+  beforeAll(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2030-06-01T12:00:00Z'));
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('should read weekdays as the next occurrence', () => {
+    expect(dueIn('Enviar el informe para el viernes')).toBe('2024-03-15T17:00:00.000Z');
+    expect(dueIn('Revisar el contrato el miércoles')).toBe('2024-03-20T17:00:00.000Z');
+  });
+
+  it('should skip the current week for "next" weekdays', () => {
+    expect(dueIn('Call the vendor next Tuesday')).toBe('2024-03-19T17:00:00.000Z');
+    expect(dueIn('Call the vendor next Thursday', {
+      ...context,
+      reference: new Date('2024-03-11T09:00:00Z'), // Monday
+    })).toBe('2024-03-21T17:00:00.000Z');
+  });
+
+  it('should combine a day with a time', () => {
+    const match = extractDueDate('Llamar a Ana mañana a las 10', context);
+
+    expect(match?.date.toISOString()).toBe('2024-03-14T09:00:00.000Z');
+    expect(match?.phrase).toBe('mañana a las 10');
+    expect(match?.confidence).toBe(0.95);
+  });
+
+  it('should not read "por la mañana" as tomorrow', () => {
+    expect(dueIn('Mañana por la mañana revisar el acta')).toBe('2024-03-14T08:00:00.000Z');
+  });
+
+  it('should resolve the end of the month and explicit dates', () => {
+    expect(dueIn('Cerrar el presupuesto a fin de mes')).toBe('2024-03-31T16:00:00.000Z'); // Summer time from the 31st
+    expect(dueIn('Entregar el 2 de abril')).toBe('2024-04-02T16:00:00.000Z');
+    expect(dueIn('Send it by March 20th at 3pm')).toBe('2024-03-20T14:00:00.000Z');
+    expect(dueIn('Renovar el 10 de marzo')).toBe('2025-03-10T17:00:00.000Z');
+  });
+
+  it('should resolve relative periods', () => {
+    expect(dueIn('Tenerlo en dos semanas')).toBe('2024-03-27T17:00:00.000Z');
+    expect(dueIn('Follow up in 3 days')).toBe('2024-03-16T17:00:00.000Z');
+    expect(dueIn('Planificar la semana que viene')).toBe('2024-03-18T17:00:00.000Z');
+  });
+
+  it('should resolve dates in the user timezone', () => {
+    // 23:30 UTC on the 13th is still the afternoon of the 13th in Mexico City
+    expect(dueIn('tomorrow', { reference: new Date('2024-03-13T23:30:00Z'), timezone: 'America/Mexico_City' }))
+      .toBe('2024-03-15T00:00:00.000Z');
+  });
+
+  it('should ignore past days and text without dates', () => {
+    expect(extractDueDate('Como se habló el viernes pasado', context)).toBeNull();
+    expect(extractDueDate('As we said last Friday', context)).toBeNull();
+    expect(extractDueDate('Preparar la demo para 3 clientes', context)).toBeNull();
+  });
+
+  it('should prefer the deadline over other mentions', () => {
+    const match = extractDueDate('Mañana empiezo el informe para el 20 de marzo', context);
+
+    expect(match?.date.toISOString()).toBe('2024-03-20T17:00:00.000Z');
+    expect(match?.confidence).toBe(0.95);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('should follow daylight saving changes', () => {
+    expect(zonedTimeToUtc({ year: 2024, month: 3, day: 9 }, 10, 0, 'America/New_York').toISOString())
+      .toBe('2024-03-09T15:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2024, month: 3, day: 10 }, 10, 0, 'America/New_York').toISOString())
+      .toBe('2024-03-10T14:00:00.000Z');
+  });
+});
+
+describe('extractActionDueDates', () => {
+  const transcript = 'Hablamos del proyecto. Ana enviará el presupuesto al cliente el jueves a las 12. Luego repasamos las lecciones aprendidas.';
+
+  it('should take the date from the action text first', () => {
+    const [action] = extractActionDueDates([{ text: 'Llamar al proveedor pasado mañana' }], transcript, context);
+
+    expect(action.dueSuggested?.toISOString()).toBe('2024-03-15T17:00:00.000Z');
+    expect(action.dueConfidence).toBe(0.9);
+  });
+
+  it('should read the date from the matching transcript sentence', () => {
+    const [action] = extractActionDueDates([{ text: 'Enviar el presupuesto al cliente' }], transcript, context);
+
+    expect(action.dueSuggested?.toISOString()).toBe('2024-03-14T11:00:00.000Z');
+    expect(action.dueConfidence).toBe(0.85);
+  });
+
+  it('should leave actions without a date mention undated', () => {
+    const [action] = extractActionDueDates([{ text: 'Documentar las lecciones aprendidas' }], transcript, context);
+
+    expect(action.dueSuggested).toBeUndefined();
+    expect(action.dueConfidence).toBeUndefined();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { JobEvent, NoteEventsService } from '../../src/services/events.service.js';
+
+const progress: JobEvent = { type: 'progress', noteId: 'note-1', jobId: 'job-1', queueName: 'transcribe', progress: 40 };
+
+describe('NoteEventsService', () => {
+  it('should deliver job events to the subscribers of their note', () => {
+    const events = new NoteEventsService();
+    const listener = jest.fn();
+    const other = jest.fn();
+    events.subscribe('note-1', listener);
+    events.subscribe('note-2', other);
+
+    events.publishJobEvent(progress);
+
+    expect(listener).toHaveBeenCalledWith(progress);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering once unsubscribed', () => {
+    const events = new NoteEventsService();
+    const listener = jest.fn();
+    const remaining = jest.fn();
+    const unsubscribe = events.subscribe('note-1', listener);
+    events.subscribe('note-1', remaining);
+
+    unsubscribe();
+    events.publishJobEvent(progress);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(remaining).toHaveBeenCalledTimes(1);
+    expect(events.subscriberCount('note-1')).toBe(1);
+  });
+});
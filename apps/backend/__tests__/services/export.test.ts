@@ -0,0 +1,187 @@
+import { describe, it, expect } from '@jest/globals';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { PrismaClient } from '@prisma/client';
+import { ExportService, exportFilename, renderNote } from '../../src/services/export/index.js';
+import { buildNoteDocument, type ExportNote } from '../../src/services/export/document.js';
+import { renderMarkdown } from '../../src/services/export/markdown.js';
+import { renderSrt, renderVtt } from '../../src/services/export/subtitles.js';
+import { wrapText } from '../../src/services/export/pdf.js';
+import { createZip, createZipStream, crc32, readZip } from '../../src/services/export/zip.js';
+
+const prisma = new PrismaClient() as any;
+
+const note: ExportNote = {
+  title: 'Reunión de equipo',
+  tags: ['trabajo', 'q1'],
+  createdAt: new Date('2024-03-13T08:30:00Z'),
+  transcript: {
+    text: 'Hola a todos.\n\nRepasamos el presupuesto.',
+    segments: [
+      { start: 0, end: 2.5, text: 'Hola a todos.' },
+      { start: 2.5, end: 3661.25, text: 'Repasamos --> el presupuesto.' },
+    ],
+  },
+  summary: { tlDr: 'Se revisó el presupuesto.', bullets: ['Presupuesto aprobado', 'Nueva fecha'] },
+  actions: [
+    { text: 'Enviar acta', done: true, dueSuggested: null },
+    { text: 'Llamar al proveedor', done: false, dueSuggested: new Date('2024-03-15T09:00:00Z') },
+  ],
+};
+
+describe('renderMarkdown', () => {
+  it('should include the title, tags, summary, checklist and transcript', () => {
+    const markdown = renderMarkdown(buildNoteDocument(note, 'Europe/Madrid'));
+
+    expect(markdown).toBe([
+      '# Reunión de equipo',
+      '',
+      'Fecha: 13 mar 2024, 9:30  ',
+      'Etiquetas: trabajo, q1',
+      '',
+      '## TL;DR',
+      '',
+      'Se revisó el presupuesto.',
+      '',
+      '## Puntos clave',
+      '',
+      '- Presupuesto aprobado',
+      '- Nueva fecha',
+      '',
+      '## Acciones',
+      '',
+      '- [x] Enviar acta',
+      '- [ ] Llamar al proveedor (vence 15 mar 2024, 10:00)',
+      '',
+      '## Transcripción',
+      '',
+      'Hola a todos.',
+      '',
+      'Repasamos el presupuesto.',
+      '',
+    ].join('\n'));
+  });
+
+  it('should skip sections the note does not have', () => {
+    const markdown = renderMarkdown(buildNoteDocument(
+      { ...note, title: null, tags: [], summary: null, actions: [], transcript: null },
+      'UTC'
+    ));
+
+    expect(markdown).toBe('# Nota sin título\n\nFecha: 13 mar 2024, 8:30\n');
+  });
+});
+
+describe('subtitles', () => {
+  it('should build SRT cues from the transcript segments', () => {
+    expect(renderSrt(note.transcript!.segments)).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nHola a todos.\n\n' +
+      '2\n00:00:02,500 --> 01:01:01,250\nRepasamos -> el presupuesto.\n'
+    );
+  });
+
+  it('should build WebVTT cues from the transcript segments', () => {
+    expect(renderVtt(note.transcript!.segments)).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.000 --> 00:00:02.500\nHola a todos.\n\n' +
+      '00:00:02.500 --> 01:01:01.250\nRepasamos -> el presupuesto.\n'
+    );
+  });
+
+  it('should require transcript segments', () => {
+    expect(() => renderNote({ ...note, transcript: null }, 'srt', 'UTC')).toThrow('TRANSCRIPT_NOT_FOUND');
+  });
+});
+
+describe('renderNote', () => {
+  it('should render a PDF document', () => {
+    const pdf = renderNote(note, 'pdf', 'UTC') as Buffer;
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/BaseFont /Helvetica');
+  });
+
+  it('should package a DOCX document', () => {
+    const docx = renderNote(note, 'docx', 'UTC') as Buffer;
+
+    expect(docx.readUInt32LE(0)).toBe(0x04034b50);
+    expect(docx.toString('latin1')).toContain('[Content_Types].xml');
+    expect(docx.toString('latin1')).toContain('word/document.xml');
+  });
+});
+
+describe('wrapText', () => {
+  it('should wrap at the available width and split long words', () => {
+    const style = { font: 'F1', size: 10 };
+    const lines = wrapText(`uno dos tres ${'x'.repeat(40)}`, 100, style);
+
+    expect(lines.map(line => Buffer.from(line).toString('latin1'))).toEqual([
+      'uno dos tres',
+      'x'.repeat(20),
+      'x'.repeat(20),
+    ]);
+  });
+
+  it('should encode accented characters as WinAnsi', () => {
+    const [line] = wrapText('Año ñú', 500, { font: 'F1', size: 10 });
+
+    expect(line).toEqual([0x41, 0xf1, 0x6f, 0x20, 0xf1, 0xfa]);
+  });
+});
+
+describe('createZip', () => {
+  it('should store deflated entries with their CRC', () => {
+    const zip = createZip([{ name: 'hola.txt', data: 'hola' }]);
+    const compressedSize = zip.readUInt32LE(18);
+    const data = zlib.inflateRawSync(zip.subarray(30 + 8, 30 + 8 + compressedSize));
+
+    expect(data.toString()).toBe('hola');
+    expect(zip.readUInt32LE(14)).toBe(crc32(Buffer.from('hola')));
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZipStream', () => {
+  it('should stream entries that read back like an in-memory archive', async () => {
+    const audio = Buffer.alloc(3 * 1024 * 1024, 7);
+    const zip = await buffer(createZipStream([
+      { name: 'hola.txt', data: 'hola' },
+      { name: 'audio/nota.webm', data: async () => Readable.from([audio.subarray(0, 1024), audio.subarray(1024)]) },
+    ]));
+
+    const [text, file] = readZip(zip);
+    expect(text).toEqual({ name: 'hola.txt', data: Buffer.from('hola') });
+    expect(file.name).toBe('audio/nota.webm');
+    expect((file.data as Buffer).equals(audio)).toBe(true);
+  });
+
+  it('should fail when an entry cannot be read', async () => {
+    const zip = createZipStream([
+      { name: 'audio/nota.webm', data: async () => Readable.from((async function* () { yield Buffer.from('a'); throw new Error('NoSuchKey'); })()) },
+    ]);
+
+    await expect(buffer(zip)).rejects.toThrow('NoSuchKey');
+  });
+});
+
+describe('exportFilename', () => {
+  it('should build a safe file name from the note title', () => {
+    expect(exportFilename('Reunión: equipo / Q1', 'pdf')).toBe('reunion-equipo-q1.pdf');
+    expect(exportFilename(null, 'md')).toBe('nota-sin-titulo.md');
+    expect(exportFilename('¿?', 'vtt')).toBe('nota.vtt');
+  });
+});
+
+describe('ExportService', () => {
+  it('should reject notes of other users', async () => {
+    prisma.note.findFirst.mockResolvedValue(null);
+
+    await expect(new ExportService().exportNote('user-1', 'note-2', 'md')).rejects.toThrow('NOTE_NOT_FOUND');
+    expect(prisma.note.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'note-2', userId: 'user-1', deletedAt: null },
+    }));
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { emailService } from '../../src/services/email.js';
+import {
+  NotificationService,
+  isDigestDue,
+  isReminderDue,
+} from '../../src/services/notifications.service.js';
+
+const prisma = new PrismaClient() as any;
+
+// Wednesday 13 March 2024, 09:30 in Madrid (UTC+1)
+const now = new Date('2024-03-13T08:30:00Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+const digestSchedule = { digestFrequency: 'daily' as const, digestHour: 8, lastDigestAt: null };
+
+describe('isReminderDue', () => {
+  it('should remind once the action is within the lead time', () => {
+    expect(isReminderDue(hoursFromNow(20), 24, now)).toBe(true);
+    expect(isReminderDue(hoursFromNow(30), 24, now)).toBe(false);
+  });
+
+  it('should not remind about actions already past due', () => {
+    expect(isReminderDue(hoursFromNow(-1), 24, now)).toBe(false);
+  });
+});
+
+describe('isDigestDue', () => {
+  it('should wait for the local send hour', () => {
+    expect(isDigestDue(digestSchedule, 'Europe/Madrid', now)).toBe(true);
+    expect(isDigestDue({ ...digestSchedule, digestHour: 10 }, 'Europe/Madrid', now)).toBe(false);
+    expect(isDigestDue(digestSchedule, 'America/New_York', now)).toBe(false); // 04:30 there
+  });
+
+  it('should send once per local day', () => {
+    expect(isDigestDue({ ...digestSchedule, lastDigestAt: new Date('2024-03-13T07:00:00Z') }, 'Europe/Madrid', now))
+      .toBe(false);
+    // 23:30 on the 12th in Madrid, although it's the same UTC day
+    expect(isDigestDue({ ...digestSchedule, lastDigestAt: new Date('2024-03-12T22:30:00Z') }, 'Europe/Madrid', now))
+      .toBe(true);
+  });
+
+  it('should send weekly digests on Mondays only', () => {
+    const weekly = { ...digestSchedule, digestFrequency: 'weekly' as const };
+
+    expect(isDigestDue(weekly, 'Europe/Madrid', now)).toBe(false);
+    expect(isDigestDue(weekly, 'Europe/Madrid', new Date('2024-03-11T08:30:00Z'))).toBe(true);
+  });
+
+  it('should not send when the digest is off', () => {
+    expect(isDigestDue({ ...digestSchedule, digestFrequency: null }, 'Europe/Madrid', now)).toBe(false);
+  });
+});
+
+describe('NotificationService', () => {
+  let notificationService: NotificationService;
+
+  const reminderAction = (id: string, dueSuggested: Date, settings: Record<string, unknown> | null) => ({
+    id,
+    text: `Acción ${id}`,
+    dueSuggested,
+    userId: `user-${id}`,
+    note: { id: 'note-1', title: 'Reunión' },
+    user: { email: `${id}@test.com`, settings },
+  });
+
+  beforeEach(() => {
+    notificationService = new NotificationService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send reminders within each user lead time', async () => {
+    const sendReminder = jest.spyOn(emailService, 'sendActionReminderEmail').mockResolvedValue(undefined);
+    prisma.action.findMany.mockResolvedValue([
+      reminderAction('a', hoursFromNow(2), { remindersEnabled: true, reminderLeadHours: 3, timezone: 'Europe/Madrid' }),
+      reminderAction('b', hoursFromNow(20), { remindersEnabled: true, reminderLeadHours: 3, timezone: null }),
+      reminderAction('c', hoursFromNow(2), { remindersEnabled: false, reminderLeadHours: 24, timezone: null }),
+    ]);
+    prisma.action.updateMany.mockResolvedValue({ count: 1 });
+    prisma.userSettings.findUnique.mockResolvedValue({ unsubscribeToken: 'token-a' });
+
+    await expect(notificationService.sendDueReminders(now)).resolves.toBe(1);
+
+    expect(prisma.action.updateMany).toHaveBeenCalledTimes(1);
+    expect(sendReminder).toHaveBeenCalledWith(
+      'a@test.com',
+      [{ text: 'Acción a', due: hoursFromNow(2), noteId: 'note-1', noteTitle: 'Reunión' }],
+      { timezone: 'Europe/Madrid', unsubscribeUrl: expect.stringContaining('/unsubscribe?token=token-a&list=reminders') }
+    );
+  });
+
+  it('should skip actions another run already reminded', async () => {
+    const sendReminder = jest.spyOn(emailService, 'sendActionReminderEmail').mockResolvedValue(undefined);
+    prisma.action.findMany.mockResolvedValue([reminderAction('a', hoursFromNow(2), null)]);
+    prisma.action.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(notificationService.sendDueReminders(now)).resolves.toBe(0);
+    expect(sendReminder).not.toHaveBeenCalled();
+  });
+
+  it('should release reminders that failed to send', async () => {
+    jest.spyOn(emailService, 'sendActionReminderEmail').mockRejectedValue(new Error('Failed to send email'));
+    prisma.action.findMany.mockResolvedValue([reminderAction('a', hoursFromNow(2), null)]);
+    prisma.action.updateMany.mockResolvedValue({ count: 1 });
+    prisma.userSettings.findUnique.mockResolvedValue({ unsubscribeToken: 'token-a' });
+
+    await expect(notificationService.sendDueReminders(now)).resolves.toBe(0);
+    expect(prisma.action.updateMany).toHaveBeenLastCalledWith({
+      where: { id: { in: ['a'] }, reminderSentAt: now },
+      data: { reminderSentAt: null },
+    });
+  });
+
+  it('should turn off the list of an unsubscribe link', async () => {
+    prisma.userSettings.findUnique.mockResolvedValue({ id: 'settings-1' });
+
+    await notificationService.unsubscribe('token-a', 'digest');
+
+    expect(prisma.userSettings.update).toHaveBeenCalledWith({
+      where: { id: 'settings-1' },
+      data: { digestFrequency: null },
+    });
+  });
+
+  it('should reject unknown unsubscribe tokens', async () => {
+    prisma.userSettings.findUnique.mockResolvedValue(null);
+
+    await expect(notificationService.unsubscribe('unknown', 'reminders')).rejects.toThrow('UNSUBSCRIBE_TOKEN_INVALID');
+    expect(prisma.userSettings.update).not.toHaveBeenCalled();
+  });
+});
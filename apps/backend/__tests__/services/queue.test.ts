@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { MemoryQueueService, QueueJob, TranscribeJobData } from '../../src/services/queue.service.js';
+
+const prisma = new PrismaClient() as any;
+
+const jobOptions = {
+  removeOnComplete: 50,
+  removeOnFail: 20,
+  attempts: 3,
+  backoff: { type: 'exponential' as const, delay: 10 },
+};
+
+const transcribeData: TranscribeJobData = {
+  noteId: 'note-1',
+  mediaId: 'media-1',
+  storageKey: 'audio/user-1/test.mp3',
+  userId: 'user-1',
+};
+
+const waitFor = async (predicate: () => boolean | Promise<boolean>, timeout = 2000) => {
+  const start = Date.now();
+  while (!(await predicate())) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('MemoryQueueService', () => {
+  let queueService: MemoryQueueService;
+  let jobCounter: number;
+
+  beforeEach(() => {
+    jobCounter = 0;
+    prisma.processingJob.create.mockImplementation(async () => ({ id: `job-${++jobCounter}` }));
+    prisma.processingJob.update.mockResolvedValue({});
+    queueService = new MemoryQueueService(jobOptions);
+  });
+
+  afterEach(async () => {
+    await queueService.close();
+  });
+
+  it('should process queued jobs and mark them completed', async () => {
+    const processed: string[] = [];
+    queueService.createWorker('transcribe', async job => {
+      processed.push(job.data.noteId);
+      await job.updateProgress(100);
+    }, { concurrency: 1 });
+
+    const jobId = await queueService.addTranscribeJob(transcribeData);
+
+    await waitFor(async () => (await queueService.getJobStatus('transcribe', jobId)).status === 'completed');
+
+    expect(processed).toEqual(['note-1']);
+    expect((await queueService.getJobStatus('transcribe', jobId)).progress).toBe(100);
+    expect(prisma.processingJob.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: jobId },
+        data: expect.objectContaining({ status: 'completed' }),
+      })
+    );
+  });
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    const attemptTimes: number[] = [];
+    queueService.createWorker('transcribe', async (job: QueueJob<TranscribeJobData>) => {
+      attemptTimes.push(Date.now());
+      if (job.attemptsMade < 2) {
+        throw new Error('STT_FAILURE');
+      }
+    }, { concurrency: 1 });
+
+    const jobId = await queueService.addTranscribeJob(transcribeData);
+
+    await waitFor(async () => (await queueService.getJobStatus('transcribe', jobId)).status === 'completed');
+
+    expect(attemptTimes).toHaveLength(3);
+    expect(attemptTimes[1] - attemptTimes[0]).toBeGreaterThanOrEqual(9);
+    expect(attemptTimes[2] - attemptTimes[1]).toBeGreaterThanOrEqual(19);
+  });
+
+  it('should mark jobs failed after exhausting attempts', async () => {
+    queueService.createWorker('transcribe', async () => {
+      throw new Error('STT_FAILURE');
+    }, { concurrency: 1 });
+
+    const jobId = await queueService.addTranscribeJob(transcribeData);
+
+    await waitFor(async () => (await queueService.getJobStatus('transcribe', jobId)).status === 'failed');
+
+    const status = await queueService.getJobStatus('transcribe', jobId);
+    expect(status.error).toBe('STT_FAILURE');
+    expect((await queueService.getQueueStats('transcribe')).failed).toBe(1);
+  });
+
+  it('should respect worker concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    queueService.createWorker('transcribe', async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+    }, { concurrency: 2 });
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => queueService.addTranscribeJob(transcribeData)));
+
+    await waitFor(async () => (await queueService.getQueueStats('transcribe')).completed === 5);
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should hold jobs while paused and cancel waiting jobs', async () => {
+    const processed: string[] = [];
+    await queueService.pauseQueue('transcribe');
+    queueService.createWorker('transcribe', async job => {
+      processed.push(job.id!);
+    }, { concurrency: 1 });
+
+    const firstId = await queueService.addTranscribeJob(transcribeData);
+    const secondId = await queueService.addTranscribeJob(transcribeData);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect((await queueService.getQueueStats('transcribe')).waiting).toBe(2);
+
+    expect(await queueService.cancelJob('transcribe', firstId)).toBe(true);
+    expect(await queueService.cancelJob('transcribe', 'missing')).toBe(false);
+
+    await queueService.resumeQueue('transcribe');
+    await waitFor(() => processed.length === 1);
+
+    expect(processed).toEqual([secondId]);
+    expect((await queueService.getJobStatus('transcribe', firstId)).status).toBe('not_found');
+  });
+
+  it('should clean finished jobs', async () => {
+    queueService.createWorker('transcribe', async () => {}, { concurrency: 1 });
+
+    const jobId = await queueService.addTranscribeJob(transcribeData);
+    await waitFor(async () => (await queueService.getJobStatus('transcribe', jobId)).status === 'completed');
+
+    await queueService.cleanOldJobs('transcribe', 0);
+
+    expect((await queueService.getQueueStats('transcribe')).completed).toBe(0);
+  });
+
+  it('should run transcode jobs on their own queue, recorded as ffmpeg jobs', async () => {
+    const processed: string[] = [];
+    queueService.createWorker('transcode', async job => {
+      processed.push(job.data.storageKey);
+    }, { concurrency: 1 });
+
+    const jobId = await queueService.addTranscodeJob(transcribeData);
+
+    await waitFor(async () => (await queueService.getJobStatus('transcode', jobId)).status === 'completed');
+
+    expect(processed).toEqual(['audio/user-1/test.mp3']);
+    expect(prisma.processingJob.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'transcode', provider: 'ffmpeg' }),
+    });
+    expect((await queueService.getQueueStats('transcribe')).completed).toBe(0);
+  });
+
+  it('should report healthy without Redis', async () => {
+    expect(queueService.name).toBe('memory');
+    expect((await queueService.healthCheck()).status).toBe('ok');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { SearchService, parseSearchCursor } from '../../src/services/search.service.js';
+
+const prisma = new PrismaClient() as any;
+
+const searchRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  rank: 0.5,
+  title_snippet: null,
+  transcript_snippet: null,
+  summary_snippet: null,
+  actions_snippet: null,
+  ...overrides,
+});
+
+describe('parseSearchCursor', () => {
+  it('should start from the first result without a cursor', () => {
+    expect(parseSearchCursor()).toBe(0);
+  });
+
+  it('should parse a numeric offset', () => {
+    expect(parseSearchCursor('20')).toBe(20);
+  });
+
+  it('should ignore invalid cursors', () => {
+    expect(parseSearchCursor('2024-01-01T00:00:00.000Z')).toBe(0);
+    expect(parseSearchCursor('-10')).toBe(0);
+  });
+});
+
+describe('SearchService', () => {
+  let searchService: SearchService;
+
+  beforeEach(() => {
+    searchService = new SearchService();
+  });
+
+  it('should return matches in rank order with their highlights', async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      searchRow('note-1', {
+        rank: 0.9,
+        title_snippet: 'Reunión de <mark>presupuesto</mark>',
+        transcript_snippet: 'revisamos el <mark>presupuesto</mark> anual',
+      }),
+      searchRow('note-2', {
+        rank: 0.2,
+        actions_snippet: 'Enviar <mark>presupuestos</mark> a finanzas',
+      }),
+    ]);
+
+    const result = await searchService.searchNotes({ userId: 'user-1', query: 'presupuesto', limit: 10 });
+
+    expect(result.cursor).toBeNull();
+    expect(result.items).toEqual([
+      {
+        id: 'note-1',
+        rank: 0.9,
+        highlights: [
+          { field: 'title', snippet: 'Reunión de <mark>presupuesto</mark>' },
+          { field: 'transcript', snippet: 'revisamos el <mark>presupuesto</mark> anual' },
+        ],
+      },
+      {
+        id: 'note-2',
+        rank: 0.2,
+        highlights: [
+          { field: 'actions', snippet: 'Enviar <mark>presupuestos</mark> a finanzas' },
+        ],
+      },
+    ]);
+  });
+
+  it('should return a cursor for the next page when more results exist', async () => {
+    prisma.$queryRaw.mockResolvedValue([searchRow('note-1'), searchRow('note-2'), searchRow('note-3')]);
+
+    const result = await searchService.searchNotes({
+      userId: 'user-1',
+      query: 'reunión',
+      limit: 2,
+      cursor: '4',
+    });
+
+    expect(result.items.map(item => item.id)).toEqual(['note-1', 'note-2']);
+    expect(result.cursor).toBe('6');
+  });
+});
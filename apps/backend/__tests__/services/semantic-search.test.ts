@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { MockEmbeddingProvider } from '../../src/services/embeddings/index.js';
+import { SemanticSearchService, chunkTranscript } from '../../src/services/semantic-search.service.js';
+
+const prisma = new PrismaClient() as any;
+const provider = new MockEmbeddingProvider();
+
+const words = (count: number, word = 'palabra') => Array.from({ length: count }, () => word).join(' ');
+
+describe('chunkTranscript', () => {
+  it('should group segments into chunks that keep their timestamps', () => {
+    const segments = [
+      { text: words(50), start: 0, end: 10 },
+      { text: words(40), start: 10, end: 20 },
+      { text: words(30), start: 20, end: 30 },
+    ];
+
+    expect(chunkTranscript('', segments)).toEqual([
+      { text: `${words(50)} ${words(40)}`, start: 0, end: 20 },
+      { text: words(30), start: 20, end: 30 },
+    ]);
+  });
+
+  it('should split on sentences when there are no segments', () => {
+    const text = `${words(70)}. ${words(20)}. Última frase.`;
+
+    expect(chunkTranscript(text)).toEqual([
+      { text: `${words(70)}. ${words(20)}.`, start: null, end: null },
+      { text: 'Última frase.', start: null, end: null },
+    ]);
+  });
+
+  it('should return no chunks for an empty transcript', () => {
+    expect(chunkTranscript('   ')).toEqual([]);
+  });
+});
+
+describe('SemanticSearchService', () => {
+  let semanticSearchService: SemanticSearchService;
+
+  const chunk = async (id: string, noteId: string, text: string) => {
+    const [embedding] = await provider.embed([text]);
+    return { id, text, start: 0, end: 5, embedding, transcript: { noteId } };
+  };
+
+  beforeEach(() => {
+    semanticSearchService = new SemanticSearchService();
+  });
+
+  it('should rank notes by their closest passage', async () => {
+    prisma.transcriptChunk.findMany.mockResolvedValue([
+      await chunk('chunk-1', 'note-1', 'Comprar leche y pan para el desayuno'),
+      await chunk('chunk-2', 'note-2', 'Revisamos el presupuesto del trimestre con finanzas'),
+      await chunk('chunk-3', 'note-2', 'El presupuesto anual necesita aprobación'),
+      await chunk('chunk-4', 'note-3', 'Reunión de presupuestos y gastos'),
+    ]);
+
+    const results = await semanticSearchService.search({ userId: 'user-1', query: 'presupuesto', limit: 10 });
+
+    expect(results.map(result => result.noteId)).not.toContain('note-1');
+    expect(results[0].passages[0].score).toBe(results[0].score);
+    expect(results.find(result => result.noteId === 'note-2')?.passages).toHaveLength(2);
+    expect(prisma.transcriptChunk.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ transcript: { note: { userId: 'user-1', deletedAt: null } } })
+    }));
+  });
+
+  it('should scan the chunks in batches and keep the best passages of each note', async () => {
+    const batch = await Promise.all(Array.from({ length: 500 }, (_, index) =>
+      chunk(`chunk-${index}`, 'note-1', index % 2 ? 'presupuesto anual' : 'presupuesto')
+    ));
+    prisma.transcriptChunk.findMany
+      .mockResolvedValueOnce(batch)
+      .mockResolvedValueOnce([await chunk('chunk-500', 'note-2', 'presupuesto')]);
+
+    const results = await semanticSearchService.search({ userId: 'user-1', query: 'presupuesto', limit: 10 });
+
+    expect(prisma.transcriptChunk.findMany).toHaveBeenCalledTimes(2);
+    expect(prisma.transcriptChunk.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      take: 500,
+      cursor: { id: 'chunk-499' },
+      skip: 1,
+    }));
+    expect(results.map(result => result.noteId)).toEqual(['note-1', 'note-2']);
+    expect(results[0].passages).toHaveLength(3);
+  });
+
+  it('should limit the number of notes', async () => {
+    prisma.transcriptChunk.findMany.mockResolvedValue([
+      await chunk('chunk-1', 'note-1', 'presupuesto'),
+      await chunk('chunk-2', 'note-2', 'presupuesto anual'),
+    ]);
+
+    const results = await semanticSearchService.search({ userId: 'user-1', query: 'presupuesto', limit: 1 });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].noteId).toBe('note-1');
+  });
+});
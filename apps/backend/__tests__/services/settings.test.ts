@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { SettingsService } from '../../src/services/settings.service.js';
+import { buildSummaryPrompt, SUMMARY_STYLE_INSTRUCTIONS } from '../../src/services/llm/prompts.js';
+
+const prisma = new PrismaClient() as any;
+
+const template = { id: 'template-1', name: 'Riesgos', prompt: 'Destaca los riesgos', userId: 'user-1' };
+
+describe('buildSummaryPrompt', () => {
+  it('should use the style instructions and keep the response format', () => {
+    const prompt = buildSummaryPrompt({ style: 'standup', language: 'inglés' });
+
+    expect(prompt).toContain(SUMMARY_STYLE_INSTRUCTIONS.standup);
+    expect(prompt).toContain('"tlDr"');
+    expect(prompt).toContain('debe estar en inglés');
+  });
+
+  it('should replace the style instructions with a custom prompt', () => {
+    const prompt = buildSummaryPrompt({ style: 'minutes', customPrompt: 'Destaca los riesgos' });
+
+    expect(prompt).toContain('Destaca los riesgos');
+    expect(prompt).not.toContain(SUMMARY_STYLE_INSTRUCTIONS.minutes);
+    expect(prompt).toContain('"actions"');
+  });
+});
+
+describe('SettingsService', () => {
+  let settingsService: SettingsService;
+
+  beforeEach(() => {
+    settingsService = new SettingsService();
+  });
+
+  it('should return defaults when the user has no settings', async () => {
+    prisma.userSettings.findUnique.mockResolvedValue(null);
+
+    await expect(settingsService.getSettings('user-1')).resolves.toEqual({
+      summaryStyle: null,
+      promptTemplateId: null,
+      timezone: null,
+      remindersEnabled: true,
+      reminderLeadHours: 24,
+      digestFrequency: null,
+      digestHour: 8,
+    });
+  });
+
+  it('should fall back to the default timezone', async () => {
+    prisma.userSettings.findUnique.mockResolvedValue({ summaryStyle: null, promptTemplateId: null, timezone: null });
+
+    await expect(settingsService.getTimezone('user-1')).resolves.toBe('UTC');
+  });
+
+  it('should reject a default template owned by someone else', async () => {
+    prisma.promptTemplate.findFirst.mockResolvedValue(null);
+
+    await expect(settingsService.updateSettings('user-1', { promptTemplateId: 'template-2' }))
+      .rejects.toThrow('TEMPLATE_NOT_FOUND');
+    expect(prisma.userSettings.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the saved defaults', async () => {
+    prisma.userSettings.findUnique.mockResolvedValue({ summaryStyle: 'lecture', promptTemplateId: 'template-1' });
+    prisma.promptTemplate.findFirst.mockResolvedValue(template);
+
+    await expect(settingsService.resolveSummaryPreferences('user-1')).resolves.toEqual({
+      style: 'lecture',
+      templateId: 'template-1',
+      customPrompt: 'Destaca los riesgos',
+    });
+  });
+
+  it('should ignore the saved defaults when a style is chosen', async () => {
+    const preferences = await settingsService.resolveSummaryPreferences('user-1', { style: 'interview' });
+
+    expect(preferences).toEqual({ style: 'interview' });
+    expect(prisma.userSettings.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should only use templates of the user', async () => {
+    prisma.promptTemplate.findFirst.mockResolvedValue(null);
+
+    await expect(settingsService.resolveSummaryPreferences('user-1', { templateId: 'template-2' }))
+      .rejects.toThrow('TEMPLATE_NOT_FOUND');
+    expect(prisma.promptTemplate.findFirst).toHaveBeenCalledWith({
+      where: { id: 'template-2', userId: 'user-1' }
+    });
+  });
+});
@@ -1,92 +1,181 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
-import { storageService } from '../../src/services/storage.js';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { StorageService } from '../../src/services/storage.service.js';
+import { LocalStorageDriver, S3StorageDriver, StorageDriver } from '../../src/services/storage.js';
 import { createAudioBuffer } from '../utils/testHelpers.js';
 
-// Mock AWS SDK
-const mockS3Send = jest.fn();
+// In-memory bucket behind the mocked S3 client
+interface FakeObject {
+  body: Buffer;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+const mockBucket = new Map<string, FakeObject>();
+const mockMultipart = new Map<string, { key: string; contentType?: string; parts: Map<number, Buffer> }>();
+const mockS3Send = jest.fn<(command: any) => Promise<any>>();
 const mockS3Client = {
   send: mockS3Send,
 };
 
-jest.mock('@aws-sdk/client-s3', () => ({
-  S3Client: jest.fn(() => mockS3Client),
-  PutObjectCommand: jest.fn(),
-  GetObjectCommand: jest.fn(),
-  DeleteObjectCommand: jest.fn(),
-  HeadObjectCommand: jest.fn(),
-}));
+jest.mock('@aws-sdk/client-s3', () => {
+  const command = (type: string) => jest.fn(function (this: any, input: any) {
+    this.type = type;
+    this.input = input;
+  });
+
+  return {
+    S3Client: jest.fn(() => mockS3Client),
+    PutObjectCommand: command('PutObject'),
+    GetObjectCommand: command('GetObject'),
+    DeleteObjectCommand: command('DeleteObject'),
+    DeleteObjectsCommand: command('DeleteObjects'),
+    HeadObjectCommand: command('HeadObject'),
+    ListObjectsV2Command: command('ListObjectsV2'),
+    CreateMultipartUploadCommand: command('CreateMultipartUpload'),
+    UploadPartCommand: command('UploadPart'),
+    CompleteMultipartUploadCommand: command('CompleteMultipartUpload'),
+    AbortMultipartUploadCommand: command('AbortMultipartUpload'),
+  };
+});
 
 jest.mock('@aws-sdk/s3-request-presigner', () => ({
-  getSignedUrl: jest.fn(),
+  getSignedUrl: jest.fn(async (_client: unknown, command: any) => `https://s3.test/test-bucket/${command.input.Key}?x-id=${command.type}&X-Amz-Signature=abc`),
 }));
 
 // Import mocked modules
-import { PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
-describe('StorageService', () => {
-  beforeEach(() => {
-    jest.clearAllMocks();
-    mockS3Send.mockReset();
+const notFound = () => Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey' });
+
+async function fakeS3(command: any): Promise<any> {
+  const input = command.input;
+
+  switch (command.type) {
+    case 'PutObject': {
+      const body = Buffer.isBuffer(input.Body) ? input.Body : await buffer(input.Body);
+      mockBucket.set(input.Key, { body, contentType: input.ContentType, metadata: input.Metadata });
+      return { ETag: '"etag"' };
+    }
+    case 'GetObject': {
+      const object = mockBucket.get(input.Key);
+      if (!object) throw notFound();
+      return {
+        Body: Object.assign(Readable.from([object.body]), {
+          transformToByteArray: async () => new Uint8Array(object.body),
+        }),
+        ContentType: object.contentType,
+        ContentLength: object.body.length,
+      };
+    }
+    case 'HeadObject': {
+      const object = mockBucket.get(input.Key);
+      if (!object) throw notFound();
+      return {
+        ContentLength: object.body.length,
+        ContentType: object.contentType,
+        LastModified: new Date(),
+        ETag: '"etag"',
+        Metadata: object.metadata,
+      };
+    }
+    case 'DeleteObject':
+      mockBucket.delete(input.Key);
+      return {};
+    case 'DeleteObjects':
+      input.Delete.Objects.forEach((object: { Key: string }) => mockBucket.delete(object.Key));
+      return {};
+    case 'ListObjectsV2':
+      return {
+        Contents: [...mockBucket.keys()].filter(key => key.startsWith(input.Prefix)).map(Key => ({ Key })),
+        IsTruncated: false,
+      };
+    case 'CreateMultipartUpload': {
+      const uploadId = `upload-${mockMultipart.size + 1}`;
+      mockMultipart.set(uploadId, { key: input.Key, contentType: input.ContentType, parts: new Map() });
+      return { UploadId: uploadId };
+    }
+    case 'UploadPart': {
+      const upload = mockMultipart.get(input.UploadId);
+      if (!upload) throw new Error('NoSuchUpload');
+      upload.parts.set(input.PartNumber, input.Body);
+      return { ETag: `"part-${input.PartNumber}"` };
+    }
+    case 'CompleteMultipartUpload': {
+      const upload = mockMultipart.get(input.UploadId)!;
+      const body = Buffer.concat(input.MultipartUpload.Parts.map((part: { PartNumber: number }) => upload.parts.get(part.PartNumber)!));
+      mockBucket.set(upload.key, { body, contentType: upload.contentType });
+      mockMultipart.delete(input.UploadId);
+      return { ETag: '"complete"' };
+    }
+    case 'AbortMultipartUpload':
+      mockMultipart.delete(input.UploadId);
+      return {};
+  }
+
+  throw new Error(`Unexpected command ${command.type}`);
+}
+
+let localRoot: string;
+
+const drivers: Array<[string, () => Promise<StorageDriver>]> = [
+  ['S3StorageDriver', async () => new S3StorageDriver({
+    region: 'us-east-1',
+    accessKeyId: 'testkey',
+    secretAccessKey: 'testsecret',
+    bucket: 'test-bucket',
+  })],
+  ['LocalStorageDriver', async () => {
+    localRoot = await mkdtemp(path.join(os.tmpdir(), 'notas-storage-'));
+    return new LocalStorageDriver({ root: localRoot, baseUrl: 'http://localhost:4000/api/v1/storage', signingSecret: 'test-secret' });
+  }],
+];
+
+beforeEach(() => {
+  mockBucket.clear();
+  mockMultipart.clear();
+  mockS3Send.mockReset();
+  mockS3Send.mockImplementation(fakeS3);
+});
+
+afterEach(async () => {
+  if (localRoot) {
+    await rm(localRoot, { recursive: true, force: true });
+  }
+});
+
+describe.each(drivers)('StorageService on %s', (_name, createDriver) => {
+  let storageService: StorageService;
+
+  beforeEach(async () => {
+    storageService = new StorageService(await createDriver());
   });
 
   describe('uploadFile', () => {
     it('should upload file successfully', async () => {
-      const buffer = createAudioBuffer(1024);
-      const filename = 'test-audio.mp3';
-      const mimetype = 'audio/mpeg';
+      const audio = createAudioBuffer(1024);
 
-      mockS3Send.mockResolvedValue({
-        $metadata: { httpStatusCode: 200 },
-        ETag: '"mock-etag"',
-      });
-
-      const result = await storageService.uploadFile(buffer, filename, mimetype);
-
-      expect(PutObjectCommand).toHaveBeenCalledWith({
-        Bucket: process.env.STORAGE_BUCKET,
-        Key: expect.stringMatching(/^uploads\/.*\.mp3$/),
-        Body: buffer,
-        ContentType: mimetype,
-        Metadata: {
-          originalName: filename,
-          uploadedAt: expect.any(String),
-        },
-      });
+      const result = await storageService.uploadFile(audio, 'test-audio.mp3', { contentType: 'audio/mpeg' });
 
-      expect(mockS3Send).toHaveBeenCalledWith(expect.any(Object));
       expect(result).toMatchObject({
         key: expect.stringMatching(/^uploads\/.*\.mp3$/),
         size: 1024,
-        etag: '"mock-etag"',
+        etag: expect.any(String),
         url: expect.stringContaining('uploads/'),
       });
-    });
-
-    it('should handle upload errors', async () => {
-      const buffer = createAudioBuffer(1024);
-      const filename = 'test-audio.mp3';
-      const mimetype = 'audio/mpeg';
-
-      mockS3Send.mockRejectedValue(new Error('S3 upload failed'));
-
-      await expect(
-        storageService.uploadFile(buffer, filename, mimetype)
-      ).rejects.toThrow('S3 upload failed');
+      expect(await storageService.downloadFile(result.key)).toEqual(audio);
     });
 
     it('should generate unique keys for same filename', async () => {
-      const buffer = createAudioBuffer(1024);
-      const filename = 'duplicate.mp3';
-      const mimetype = 'audio/mpeg';
+      const audio = createAudioBuffer(1024);
 
-      mockS3Send.mockResolvedValue({
-        $metadata: { httpStatusCode: 200 },
-        ETag: '"mock-etag"',
-      });
-
-      const result1 = await storageService.uploadFile(buffer, filename, mimetype);
-      const result2 = await storageService.uploadFile(buffer, filename, mimetype);
+      const result1 = await storageService.uploadFile(audio, 'duplicate.mp3');
+      const result2 = await storageService.uploadFile(audio, 'duplicate.mp3');
 
       expect(result1.key).not.toBe(result2.key);
       expect(result1.key).toMatch(/^uploads\/.*\.mp3$/);
@@ -95,228 +184,237 @@ describe('StorageService', () => {
   });
 
   describe('downloadFile', () => {
-    it('should download file successfully', async () => {
-      const mockStream = {
-        pipe: jest.fn(),
-        on: jest.fn(),
-        transformToByteArray: jest.fn().mockResolvedValue(new Uint8Array([1, 2, 3, 4])),
-      };
-
-      mockS3Send.mockResolvedValue({
-        Body: mockStream,
-        ContentType: 'audio/mpeg',
-        ContentLength: 4,
-      });
-
-      const result = await storageService.downloadFile('uploads/test-file.mp3');
+    it('should download a file and stream it', async () => {
+      const { key } = await storageService.uploadFile(Buffer.from([1, 2, 3, 4]), 'test-file.mp3');
 
-      expect(GetObjectCommand).toHaveBeenCalledWith({
-        Bucket: process.env.STORAGE_BUCKET,
-        Key: 'uploads/test-file.mp3',
-      });
-
-      expect(mockS3Send).toHaveBeenCalledWith(expect.any(Object));
-      expect(result).toMatchObject({
-        buffer: expect.any(Buffer),
-        contentType: 'audio/mpeg',
-        contentLength: 4,
-      });
+      expect(await storageService.downloadFile(key)).toEqual(Buffer.from([1, 2, 3, 4]));
+      expect(await buffer(await storageService.getFileStream(key))).toEqual(Buffer.from([1, 2, 3, 4]));
     });
 
     it('should handle download errors', async () => {
-      mockS3Send.mockRejectedValue(new Error('File not found'));
-
-      await expect(
-        storageService.downloadFile('uploads/nonexistent.mp3')
-      ).rejects.toThrow('File not found');
+      await expect(storageService.downloadFile('uploads/nonexistent.mp3')).rejects.toThrow('Failed to download file');
+      await expect(storageService.getFileStream('uploads/nonexistent.mp3')).rejects.toThrow('Failed to get file stream');
     });
+  });
 
-    it('should handle stream errors', async () => {
-      const mockStream = {
-        transformToByteArray: jest.fn().mockRejectedValue(new Error('Stream error')),
-      };
+  describe('uploadStream', () => {
+    it('should store a stream of unknown length as one file', async () => {
+      const chunks = [Buffer.alloc(6 * 1024 * 1024, 1), Buffer.alloc(3 * 1024 * 1024, 2)];
 
-      mockS3Send.mockResolvedValue({
-        Body: mockStream,
-        ContentType: 'audio/mpeg',
-        ContentLength: 1024,
-      });
+      const result = await storageService.uploadStream(Readable.from(chunks), 'exports/user-1/export.zip', 'application/zip');
+
+      expect(result.size).toBe(9 * 1024 * 1024);
+      expect((await storageService.downloadFile('exports/user-1/export.zip')).equals(Buffer.concat(chunks))).toBe(true);
+    });
+
+    it('should leave nothing behind when the stream fails', async () => {
+      async function* failing() {
+        yield Buffer.from('partial');
+        throw new Error('boom');
+      }
 
       await expect(
-        storageService.downloadFile('uploads/corrupt-file.mp3')
-      ).rejects.toThrow('Stream error');
+        storageService.uploadStream(Readable.from(failing()), 'exports/user-1/broken.zip', 'application/zip')
+      ).rejects.toThrow('Failed to upload stream: boom');
+      expect(await storageService.fileExists('exports/user-1/broken.zip')).toBe(false);
     });
   });
 
   describe('deleteFile', () => {
     it('should delete file successfully', async () => {
-      mockS3Send.mockResolvedValue({
-        $metadata: { httpStatusCode: 204 },
-      });
+      const { key } = await storageService.uploadFile(createAudioBuffer(1024), 'test-file.mp3');
 
-      await storageService.deleteFile('uploads/test-file.mp3');
+      await storageService.deleteFile(key);
 
-      expect(DeleteObjectCommand).toHaveBeenCalledWith({
-        Bucket: process.env.STORAGE_BUCKET,
-        Key: 'uploads/test-file.mp3',
-      });
-
-      expect(mockS3Send).toHaveBeenCalledWith(expect.any(Object));
+      expect(await storageService.fileExists(key)).toBe(false);
     });
 
-    it('should handle deletion errors gracefully', async () => {
-      mockS3Send.mockRejectedValue(new Error('Delete failed'));
-
-      // Deletion errors should not throw
-      await expect(
-        storageService.deleteFile('uploads/nonexistent.mp3')
-      ).resolves.not.toThrow();
+    it('should handle missing file gracefully', async () => {
+      await expect(storageService.deleteFile('uploads/missing.mp3')).resolves.toBeUndefined();
     });
 
-    it('should handle missing file gracefully', async () => {
-      mockS3Send.mockRejectedValue(new Error('NoSuchKey'));
+    it('should delete every file under a folder and nothing beside it', async () => {
+      await storageService.uploadFile(createAudioBuffer(16), 'a.mp3', { folder: 'audio/user-1' });
+      await storageService.uploadFile(createAudioBuffer(16), 'b.mp3', { folder: 'audio/user-1/transcoded' });
+      const sibling = await storageService.uploadFile(createAudioBuffer(16), 'c.mp3', { folder: 'audio/user-10' });
 
-      await expect(
-        storageService.deleteFile('uploads/missing.mp3')
-      ).resolves.not.toThrow();
+      expect(await storageService.deleteFolder('audio/user-1')).toBe(2);
+      expect(await storageService.fileExists(sibling.key)).toBe(true);
     });
   });
 
   describe('fileExists', () => {
     it('should return true for existing file', async () => {
-      mockS3Send.mockResolvedValue({
-        ContentLength: 1024,
-        LastModified: new Date(),
-      });
-
-      const result = await storageService.fileExists('uploads/existing-file.mp3');
-
-      expect(HeadObjectCommand).toHaveBeenCalledWith({
-        Bucket: process.env.STORAGE_BUCKET,
-        Key: 'uploads/existing-file.mp3',
-      });
+      const { key } = await storageService.uploadFile(createAudioBuffer(1024), 'existing-file.mp3');
 
-      expect(result).toBe(true);
+      expect(await storageService.fileExists(key)).toBe(true);
     });
 
     it('should return false for non-existing file', async () => {
-      mockS3Send.mockRejectedValue(new Error('NotFound'));
-
-      const result = await storageService.fileExists('uploads/nonexistent.mp3');
-
-      expect(result).toBe(false);
-    });
-
-    it('should handle other errors as false', async () => {
-      mockS3Send.mockRejectedValue(new Error('Access denied'));
-
-      const result = await storageService.fileExists('uploads/access-denied.mp3');
-
-      expect(result).toBe(false);
+      expect(await storageService.fileExists('uploads/nonexistent.mp3')).toBe(false);
     });
   });
 
   describe('getFileInfo', () => {
     it('should return file information', async () => {
-      const mockDate = new Date('2024-01-01T00:00:00Z');
-      mockS3Send.mockResolvedValue({
-        ContentLength: 1024,
-        ContentType: 'audio/mpeg',
-        LastModified: mockDate,
-        Metadata: {
-          originalName: 'test-audio.mp3',
-          uploadedAt: mockDate.toISOString(),
-        },
+      const { key } = await storageService.uploadFile(createAudioBuffer(1024), 'test-audio.mp3', {
+        contentType: 'audio/mpeg',
+        metadata: { 'note-id': 'note-1' },
       });
 
-      const result = await storageService.getFileInfo('uploads/test-file.mp3');
+      const result = await storageService.getFileInfo(key);
 
-      expect(HeadObjectCommand).toHaveBeenCalledWith({
-        Bucket: process.env.STORAGE_BUCKET,
-        Key: 'uploads/test-file.mp3',
-      });
-
-      expect(result).toEqual({
+      expect(result).toMatchObject({
         size: 1024,
         contentType: 'audio/mpeg',
-        lastModified: mockDate,
-        metadata: {
-          originalName: 'test-audio.mp3',
-          uploadedAt: mockDate.toISOString(),
-        },
+        metadata: expect.objectContaining({
+          'original-name': 'test-audio.mp3',
+          'upload-timestamp': expect.any(String),
+          'note-id': 'note-1',
+        }),
       });
+      // fs dates come from outside the test realm, so check the value rather than the class
+      expect(result!.lastModified.getTime()).toBeLessThanOrEqual(Date.now());
     });
 
     it('should return null for non-existing file', async () => {
-      mockS3Send.mockRejectedValue(new Error('NotFound'));
+      expect(await storageService.getFileInfo('uploads/nonexistent.mp3')).toBeNull();
+    });
+  });
 
-      const result = await storageService.getFileInfo('uploads/nonexistent.mp3');
+  describe('getSignedUrl', () => {
+    it('should generate signed URLs for download and upload', async () => {
+      const download = await storageService.getSignedUrl('uploads/test.mp3');
+      const upload = await storageService.getSignedUrl('uploads/test.mp3', { method: 'PUT', expiresIn: 1800, contentType: 'audio/mpeg' });
 
-      expect(result).toBeNull();
+      expect(download).toContain('uploads/test.mp3?');
+      expect(upload).toContain('uploads/test.mp3?');
+      expect(upload).not.toBe(download);
     });
+  });
+});
+
+describe('S3StorageDriver requests', () => {
+  let storageService: StorageService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    storageService = new StorageService(await drivers[0][1]());
+  });
 
-    it('should handle errors gracefully', async () => {
-      mockS3Send.mockRejectedValue(new Error('Access denied'));
+  it('should send the bucket, key, type and metadata of uploads', async () => {
+    const audio = createAudioBuffer(1024);
 
-      const result = await storageService.getFileInfo('uploads/access-denied.mp3');
+    const result = await storageService.uploadFile(audio, 'test-audio.mp3', { contentType: 'audio/mpeg' });
 
-      expect(result).toBeNull();
+    expect(PutObjectCommand).toHaveBeenCalledWith({
+      Bucket: 'test-bucket',
+      Key: result.key,
+      Body: audio,
+      ContentType: 'audio/mpeg',
+      Metadata: {
+        'original-name': 'test-audio.mp3',
+        'upload-timestamp': expect.any(String),
+      },
     });
   });
 
-  describe('getSignedUrl', () => {
-    it('should generate signed URL for download', async () => {
-      const mockUrl = 'https://bucket.s3.amazonaws.com/uploads/test.mp3?signature=abc123';
-      (getSignedUrl as jest.Mock).mockResolvedValue(mockUrl);
+  it('should pass S3 errors on', async () => {
+    mockS3Send.mockRejectedValue(new Error('S3 upload failed'));
 
-      const result = await storageService.getSignedUrl('uploads/test.mp3', 'GET', 3600);
+    await expect(storageService.uploadFile(createAudioBuffer(1024), 'test-audio.mp3')).rejects.toThrow('S3 upload failed');
+    await expect(storageService.deleteFile('uploads/test.mp3')).rejects.toThrow('Failed to delete file');
+  });
 
-      expect(getSignedUrl).toHaveBeenCalledWith(
-        mockS3Client,
-        expect.any(Object), // GetObjectCommand
-        { expiresIn: 3600 }
-      );
+  it('should report other errors as a missing file on existence checks', async () => {
+    mockS3Send.mockRejectedValue(new Error('Access denied'));
 
-      expect(result).toBe(mockUrl);
-    });
+    expect(await storageService.fileExists('uploads/access-denied.mp3')).toBe(false);
+    expect(await storageService.getFileInfo('uploads/access-denied.mp3')).toBeNull();
+    expect(HeadObjectCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'uploads/access-denied.mp3' });
+  });
 
-    it('should generate signed URL for upload', async () => {
-      const mockUrl = 'https://bucket.s3.amazonaws.com/uploads/test.mp3?signature=def456';
-      (getSignedUrl as jest.Mock).mockResolvedValue(mockUrl);
+  it('should presign with the requested expiration, one hour by default', async () => {
+    await storageService.getSignedUrl('uploads/test.mp3');
+    await storageService.getSignedUrl('uploads/test.mp3', { method: 'PUT', expiresIn: 1800 });
 
-      const result = await storageService.getSignedUrl('uploads/test.mp3', 'PUT', 1800);
+    expect(getSignedUrl).toHaveBeenNthCalledWith(1, mockS3Client, expect.objectContaining({ type: 'GetObject' }), { expiresIn: 3600 });
+    expect(getSignedUrl).toHaveBeenNthCalledWith(2, mockS3Client, expect.objectContaining({ type: 'PutObject' }), { expiresIn: 1800 });
+  });
 
-      expect(getSignedUrl).toHaveBeenCalledWith(
-        mockS3Client,
-        expect.any(Object), // PutObjectCommand
-        { expiresIn: 1800 }
-      );
+  it('should handle signing errors', async () => {
+    (getSignedUrl as jest.Mock<any>).mockRejectedValueOnce(new Error('Signing failed'));
 
-      expect(result).toBe(mockUrl);
-    });
+    await expect(storageService.getSignedUrl('uploads/test.mp3')).rejects.toThrow('Signing failed');
+  });
+});
 
-    it('should use default expiration', async () => {
-      const mockUrl = 'https://bucket.s3.amazonaws.com/uploads/test.mp3?signature=ghi789';
-      (getSignedUrl as jest.Mock).mockResolvedValue(mockUrl);
+describe('LocalStorageDriver', () => {
+  let driver: LocalStorageDriver;
 
-      await storageService.getSignedUrl('uploads/test.mp3', 'GET');
+  beforeEach(async () => {
+    driver = await drivers[1][1]() as LocalStorageDriver;
+  });
 
-      expect(getSignedUrl).toHaveBeenCalledWith(
-        mockS3Client,
-        expect.any(Object),
-        { expiresIn: 3600 } // Default 1 hour
-      );
-    });
+  it('should refuse keys that leave the storage root', async () => {
+    for (const key of ['../outside.mp3', 'audio/../../outside.mp3', '..', '']) {
+      await expect(driver.putObject(key, Buffer.from('x'), 'audio/mpeg')).rejects.toThrow('Invalid storage key');
+      await expect(driver.getObject(key)).rejects.toThrow('Invalid storage key');
+      await expect(driver.deleteObject(key)).rejects.toThrow('Invalid storage key');
+      await expect(driver.getSignedUrl(key, 'GET', 60)).rejects.toThrow('Invalid storage key');
+    }
+    await expect(driver.uploadPart('audio/a.mp3', '../../objects', 1, Buffer.from('x'))).rejects.toThrow('Invalid storage key');
 
-    it('should handle signing errors', async () => {
-      (getSignedUrl as jest.Mock).mockRejectedValue(new Error('Signing failed'));
+    expect(await readdir(path.dirname(localRoot))).not.toContain('outside.mp3');
+  });
 
-      await expect(
-        storageService.getSignedUrl('uploads/test.mp3', 'GET')
-      ).rejects.toThrow('Signing failed');
-    });
+  it('should join multipart uploads in part order and clean up their parts', async () => {
+    const uploadId = await driver.createMultipartUpload('audio/user-1/long.webm', 'audio/webm', { 'note-id': 'note-1' });
+    const parts = [
+      await driver.uploadPart('audio/user-1/long.webm', uploadId, 2, Buffer.from('world')),
+      await driver.uploadPart('audio/user-1/long.webm', uploadId, 1, Buffer.from('hello ')),
+    ];
+
+    await driver.completeMultipartUpload('audio/user-1/long.webm', uploadId, parts);
+
+    const object = await driver.getObject('audio/user-1/long.webm');
+    expect(object.buffer.toString()).toBe('hello world');
+    expect(object.contentType).toBe('audio/webm');
+    expect((await driver.headObject('audio/user-1/long.webm')).metadata).toEqual({ 'note-id': 'note-1' });
+    expect(await readdir(path.join(localRoot, 'multipart'))).toEqual([]);
   });
 
+  it('should reject parts of an aborted upload', async () => {
+    const uploadId = await driver.createMultipartUpload('audio/user-1/long.webm', 'audio/webm');
+
+    await driver.abortMultipartUpload('audio/user-1/long.webm', uploadId);
+
+    await expect(driver.uploadPart('audio/user-1/long.webm', uploadId, 1, Buffer.from('x'))).rejects.toThrow();
+  });
+
+  it('should only accept unexpired signatures for the signed method, key and content type', async () => {
+    const check = async (url: string, method: 'GET' | 'PUT', key: string, contentType?: string) => {
+      const { searchParams } = new URL(url);
+      return driver.verifySignature(method, key, Number(searchParams.get('expires')), searchParams.get('signature')!, contentType);
+    };
+    const get = await driver.getSignedUrl('audio/a.mp3', 'GET', 60);
+    const put = await driver.getSignedUrl('audio/a.mp3', 'PUT', 60, 'audio/mpeg');
+    const expired = await driver.getSignedUrl('audio/a.mp3', 'GET', -1);
+
+    expect(await check(get, 'GET', 'audio/a.mp3')).toBe(true);
+    expect(await check(put, 'PUT', 'audio/a.mp3', 'audio/mpeg')).toBe(true);
+
+    expect(await check(expired, 'GET', 'audio/a.mp3')).toBe(false);
+    expect(await check(get, 'PUT', 'audio/a.mp3')).toBe(false);
+    expect(await check(get, 'GET', 'audio/b.mp3')).toBe(false);
+    expect(await check(put, 'PUT', 'audio/a.mp3', 'audio/wav')).toBe(false);
+    expect(driver.verifySignature('GET', 'audio/a.mp3', Math.floor(Date.now() / 1000) + 60, 'f'.repeat(64))).toBe(false);
+  });
+});
+
+describe('StorageService checks', () => {
+  const storageService = new StorageService(new LocalStorageDriver({ root: os.tmpdir(), baseUrl: 'http://localhost', signingSecret: 's' }));
+
   describe('validateFileType', () => {
     it('should accept valid audio types', () => {
       const validTypes = [
@@ -358,7 +456,7 @@ describe('StorageService', () => {
     it('should accept files within size limit', () => {
       const validSizes = [
         1024,        // 1KB
-        1024 * 1024, // 1MB  
+        1024 * 1024, // 1MB
         10 * 1024 * 1024, // 10MB
         25 * 1024 * 1024, // 25MB (at limit)
       ];
@@ -388,10 +486,10 @@ describe('StorageService', () => {
     });
   });
 
-  describe('generateStorageKey', () => {
+  describe('generateKey', () => {
     it('should generate unique keys', () => {
-      const key1 = storageService.generateStorageKey('test.mp3');
-      const key2 = storageService.generateStorageKey('test.mp3');
+      const key1 = storageService.generateKey('test.mp3');
+      const key2 = storageService.generateKey('test.mp3');
 
       expect(key1).not.toBe(key2);
       expect(key1).toMatch(/^uploads\/.*\.mp3$/);
@@ -400,17 +498,15 @@ describe('StorageService', () => {
 
     it('should preserve file extensions', () => {
       const extensions = ['mp3', 'wav', 'm4a', 'ogg'];
-      
+
       extensions.forEach(ext => {
-        const key = storageService.generateStorageKey(`test.${ext}`);
-        expect(key).toEndWith(`.${ext}`);
-        expect(key).toMatch(/^uploads\/.*$/);
+        const key = storageService.generateKey(`test.${ext}`);
+        expect(key).toMatch(new RegExp(`^uploads/.*\\.${ext}$`));
       });
     });
 
     it('should handle files without extensions', () => {
-      const key = storageService.generateStorageKey('audiofile');
-      expect(key).toMatch(/^uploads\/.*audiofile$/);
+      expect(storageService.generateKey('audiofile')).toMatch(/^uploads\/\d{4}-\d{2}-\d{2}\/[\w-]+$/);
     });
 
     it('should sanitize filenames', () => {
@@ -418,14 +514,14 @@ describe('StorageService', () => {
         '../../../etc/passwd',
         'file with spaces.mp3',
         'file@#$%^&*().mp3',
+        'notes.mp3/../../../etc/passwd',
       ];
 
       dangerousNames.forEach(name => {
-        const key = storageService.generateStorageKey(name);
-        expect(key).toMatch(/^uploads\/[a-zA-Z0-9_-]+/);
+        const key = storageService.generateKey(name, 'audio/user-1');
+        expect(key).toMatch(/^audio\/user-1\/\d{4}-\d{2}-\d{2}\/[\w-]+(\.[a-zA-Z0-9]+)?$/);
         expect(key).not.toContain('..');
-        expect(key).not.toContain('/');
       });
     });
   });
-});
\ No newline at end of file
+});
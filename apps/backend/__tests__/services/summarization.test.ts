@@ -0,0 +1,134 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { LLMProvider, SummarizationResult } from '../../src/services/llm/index.js';
+import {
+  SummarizationService,
+  chunkText,
+  dedupeActions,
+  dedupeBullets,
+  mergeChunkActions,
+} from '../../src/services/summarization.service.js';
+
+const sentence = (index: number) => `Frase número ${index} de la reunión con bastante contenido.`;
+
+// Provider with a tiny context window so a few sentences already need chunking
+const createProvider = (maxTokens: number) => {
+  let call = 0;
+  const summarize = jest.fn(async (text: string): Promise<SummarizationResult> => {
+    call++;
+    return {
+      tlDr: `Resumen ${call}`,
+      bullets: ['Se revisó el presupuesto', `Punto ${call}`],
+      actions: [{ text: 'Enviar el acta', priority: call === 2 ? 'high' : 'low' }],
+      metadata: { provider: 'fake', inputTokens: Math.ceil(text.length / 4), outputTokens: 10 },
+    };
+  });
+
+  const provider: LLMProvider = {
+    name: 'fake',
+    summarize,
+    chat: jest.fn() as any,
+    getSupportedModels: () => ['fake'],
+    getMaxTokens: () => maxTokens,
+  };
+
+  return { provider, summarize };
+};
+
+describe('chunkText', () => {
+  it('should pack sentences into chunks under the token limit', () => {
+    const text = Array.from({ length: 10 }, (_, index) => sentence(index)).join(' ');
+    const chunks = chunkText(text, 40);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.length <= 160)).toBe(true);
+    expect(chunks.join(' ')).toBe(text);
+  });
+
+  it('should cut sentences longer than the limit on words', () => {
+    const chunks = chunkText(Array.from({ length: 100 }, () => 'palabra').join(' '), 20);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.length <= 80)).toBe(true);
+  });
+});
+
+describe('dedupe', () => {
+  it('should drop bullets that differ only in case, accents or punctuation', () => {
+    expect(dedupeBullets(['Revisión del presupuesto.', 'revision del presupuesto', 'Nuevo punto']))
+      .toEqual(['Revisión del presupuesto.', 'Nuevo punto']);
+  });
+
+  it('should keep the highest priority and earliest due date of repeated actions', () => {
+    const actions = dedupeActions([
+      { text: 'Enviar el acta', priority: 'low', dueSuggested: new Date('2024-01-10') },
+      { text: 'enviar el acta', priority: 'high', dueSuggested: new Date('2024-01-05') },
+      { text: 'Llamar a Ana' },
+    ]);
+
+    expect(actions).toEqual([
+      { text: 'Enviar el acta', priority: 'high', dueSuggested: new Date('2024-01-05') },
+      { text: 'Llamar a Ana' },
+    ]);
+  });
+});
+
+describe('mergeChunkActions', () => {
+  it('should not repeat chunk actions the merge pass rephrased', () => {
+    const actions = mergeChunkActions(
+      [{ text: 'Enviar el acta a todo el equipo', priority: 'medium' }],
+      [
+        { text: 'Enviar el acta al equipo', priority: 'high' },
+        { text: 'Reservar la sala para el jueves' },
+      ]
+    );
+
+    expect(actions).toEqual([
+      { text: 'Enviar el acta a todo el equipo', priority: 'high' },
+      { text: 'Reservar la sala para el jueves' },
+    ]);
+  });
+
+  it('should stop at the action limit', () => {
+    const chunkActions = Array.from({ length: 15 }, (_, index) => ({ text: `Tarea ${index}` }));
+
+    expect(mergeChunkActions([{ text: 'Enviar el acta' }], chunkActions)).toHaveLength(10);
+  });
+});
+
+describe('SummarizationService', () => {
+  it('should summarize short texts in a single call', async () => {
+    const { provider, summarize } = createProvider(4096);
+    const onProgress = jest.fn();
+
+    const result = await new SummarizationService(provider).summarize(sentence(1), { onProgress });
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(result.tlDr).toBe('Resumen 1');
+    expect(onProgress).toHaveBeenCalledWith({ completed: 1, total: 1 });
+  });
+
+  it('should map over chunks and merge the partial summaries', async () => {
+    const { provider, summarize } = createProvider(4000);
+    const service = new SummarizationService(provider);
+    const onProgress = jest.fn();
+
+    // 4000 * 0.75 - 1500 - 1000 tokens per chunk
+    expect(service.getChunkTokens()).toBe(500);
+
+    const text = Array.from({ length: 80 }, (_, index) => sentence(index)).join(' ');
+    const result = await service.summarize(text, { onProgress });
+
+    const chunkCount = result.metadata?.chunks;
+    expect(chunkCount).toBeGreaterThan(1);
+    expect(summarize).toHaveBeenCalledTimes(chunkCount + 1);
+    expect(summarize.mock.calls[chunkCount][0]).toContain('Parte 1: Resumen 1');
+
+    expect(result.tlDr).toBe(`Resumen ${chunkCount + 1}`);
+    expect(result.bullets).toEqual(['Se revisó el presupuesto', `Punto ${chunkCount + 1}`]);
+    expect(result.actions).toEqual([{ text: 'Enviar el acta', priority: 'high' }]);
+    expect(result.metadata).toEqual(expect.objectContaining({ strategy: 'map-reduce', outputTokens: (chunkCount + 1) * 10 }));
+
+    expect(onProgress).toHaveBeenCalledTimes(chunkCount + 1);
+    expect(onProgress).toHaveBeenLastCalledWith({ completed: chunkCount + 1, total: chunkCount + 1 });
+  });
+});
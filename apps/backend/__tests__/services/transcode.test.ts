@@ -0,0 +1,78 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { readFileSync, writeFileSync } from 'fs';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { TranscodeService } from '../../src/services/transcode.service.js';
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+
+const mockSpawn = spawn as unknown as jest.Mock;
+
+const mp3 = { contentType: 'audio/mpeg', extension: 'mp3', codec: 'libmp3lame', sampleRate: 16000, channels: 1, bitRate: '32k' };
+
+// Fake ffprobe answers with the given probes in order; fake ffmpeg writes its output file
+function fakeTools(probes: object[], inputs: string[] = []) {
+  mockSpawn.mockImplementation((command: any, args: any) => {
+    const child: any = new EventEmitter();
+    child.stdout = new EventEmitter();
+    child.stderr = new EventEmitter();
+    child.kill = jest.fn();
+
+    setImmediate(() => {
+      if (command === 'ffprobe') {
+        child.stdout.emit('data', Buffer.from(JSON.stringify(probes.shift())));
+      } else {
+        inputs.push(readFileSync(args[args.indexOf('-i') + 1], 'utf8'));
+        writeFileSync(args[args.length - 1], 'converted');
+      }
+      child.emit('close', 0, null);
+    });
+
+    return child;
+  });
+}
+
+describe('TranscodeService', () => {
+  it('should convert to the provider format with normalized loudness', async () => {
+    const inputs: string[] = [];
+    fakeTools([{
+      streams: [{ codec_name: 'aac', sample_rate: '44100', channels: 2 }],
+      format: { duration: '62.5' },
+    }], inputs);
+
+    const prepared = await new TranscodeService().prepare(Readable.from([Buffer.from('m4'), Buffer.from('a')]), mp3, buffer);
+
+    const [, args] = mockSpawn.mock.calls[1] as [string, string[]];
+    expect(args).toEqual(expect.arrayContaining(['-af', 'loudnorm=I=-16:TP=-1.5:LRA=11', '-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', '32k']));
+    expect(args[args.length - 1]).toMatch(/output\.mp3$/);
+    expect(inputs).toEqual(['m4a']);
+    expect(prepared.output.toString()).toBe('converted');
+    expect(prepared.contentType).toBe('audio/mpeg');
+    expect(prepared.probe).toEqual({ durationSeconds: 62.5, codec: 'aac', sampleRate: 44100, channels: 2 });
+  });
+
+  it('should read the duration from the converted file when the upload has none', async () => {
+    fakeTools([
+      { streams: [{ codec_name: 'opus', sample_rate: '48000', channels: 1 }], format: { duration: 'N/A' } },
+      { streams: [{ codec_name: 'mp3', sample_rate: '16000', channels: 1 }], format: { duration: '12.04' } },
+    ]);
+
+    const prepared = await new TranscodeService().prepare(Readable.from([Buffer.from('webm')]), mp3, buffer);
+
+    expect(mockSpawn).toHaveBeenCalledTimes(3);
+    expect(prepared.probe).toEqual({ durationSeconds: 12.04, codec: 'opus', sampleRate: 48000, channels: 1 });
+  });
+
+  it('should reject files without an audio stream', async () => {
+    fakeTools([{ streams: [], format: { duration: '3' } }]);
+    const store = jest.fn(buffer);
+
+    await expect(new TranscodeService().prepare(Readable.from([Buffer.from('png')]), mp3, store)).rejects.toThrow('No audio stream found');
+    expect(mockSpawn).toHaveBeenCalledTimes(1);
+    expect(store).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { diffWords, realignSegments, TranscriptService } from '../../src/services/transcript.service.js';
+
+const prisma = new PrismaClient() as any;
+
+describe('diffWords', () => {
+  it('should report no changes for identical texts', () => {
+    expect(diffWords('hola mundo', 'hola  mundo')).toEqual([
+      { type: 'equal', text: 'hola mundo' },
+    ]);
+  });
+
+  it('should detect replaced words', () => {
+    expect(diffWords('reunión con el equipo de ventas', 'reunión con el equipo de marketing')).toEqual([
+      { type: 'equal', text: 'reunión con el equipo de' },
+      { type: 'delete', text: 'ventas' },
+      { type: 'insert', text: 'marketing' },
+    ]);
+  });
+
+  it('should detect insertions and deletions', () => {
+    expect(diffWords('revisar el presupuesto mañana', 'revisar presupuesto anual mañana')).toEqual([
+      { type: 'equal', text: 'revisar' },
+      { type: 'delete', text: 'el' },
+      { type: 'equal', text: 'presupuesto' },
+      { type: 'insert', text: 'anual' },
+      { type: 'equal', text: 'mañana' },
+    ]);
+  });
+});
+
+describe('realignSegments', () => {
+  const segments = [
+    { text: 'Buenos días a todos.' },
+    { text: 'Hoy revisamos el presupuesto.' },
+    { text: 'Juan enviará el informe.' },
+  ];
+
+  it('should keep segments untouched when the text is unchanged', () => {
+    const text = segments.map(s => s.text).join(' ');
+    expect(realignSegments(segments, text)).toEqual(segments.map(s => s.text));
+  });
+
+  it('should apply a correction to the segment that contained the word', () => {
+    const result = realignSegments(
+      segments,
+      'Buenos días a todos. Hoy revisamos el presupuesto anual. Juana enviará el informe.'
+    );
+
+    expect(result).toEqual([
+      'Buenos días a todos.',
+      'Hoy revisamos el presupuesto anual.',
+      'Juana enviará el informe.',
+    ]);
+  });
+
+  it('should attach pure insertions to the preceding segment', () => {
+    const result = realignSegments(
+      segments,
+      'Buenos días a todos. Bienvenidos. Hoy revisamos el presupuesto. Juan enviará el informe.'
+    );
+
+    expect(result[0]).toBe('Buenos días a todos. Bienvenidos.');
+    expect(result[1]).toBe('Hoy revisamos el presupuesto.');
+  });
+
+  it('should return an empty text for segments whose words were removed', () => {
+    const result = realignSegments(segments, 'Buenos días a todos. Juan enviará el informe.');
+
+    expect(result).toEqual(['Buenos días a todos.', '', 'Juan enviará el informe.']);
+  });
+
+  it('should put restored words back into the segment they were removed from', () => {
+    const edited = [{ text: 'Buenos días a todos.' }, { text: '' }, { text: 'Juan enviará el informe.' }];
+    const text = segments.map(s => s.text).join(' ');
+
+    expect(realignSegments(edited, text)).toEqual(segments.map(s => s.text));
+  });
+});
+
+describe('TranscriptService', () => {
+  let transcriptService: TranscriptService;
+
+  beforeEach(() => {
+    transcriptService = new TranscriptService();
+    prisma.transcript.findUniqueOrThrow = jest.fn();
+    prisma.$transaction.mockImplementation(async (fn: any) => fn(prisma));
+    prisma.transcriptRevision.create.mockImplementation(async ({ data }: any) => ({ id: `rev-${data.version}`, ...data }));
+    prisma.transcript.update.mockResolvedValue({});
+    prisma.transcriptSegment.update.mockResolvedValue({});
+  });
+
+  it('should save the provider segments in their order with the STT transcript', async () => {
+    prisma.transcript.create.mockResolvedValue({ id: 'transcript-1' });
+
+    await transcriptService.createFromStt('note-1', 'openai', {
+      text: 'Hola. Empezamos.',
+      language: 'es',
+      confidence: 0.9,
+      segments: [
+        { start: 0, end: 1.2, text: 'Hola.', confidence: 0.95 },
+        { start: 1.2, end: 3.4, text: 'Empezamos.' },
+      ],
+    });
+
+    const { data } = prisma.transcript.create.mock.calls[0][0];
+    expect(data).toEqual(expect.objectContaining({ text: 'Hola. Empezamos.', provider: 'openai', noteId: 'note-1' }));
+    expect(data.segments.create).toEqual([
+      { position: 0, start: 0, end: 1.2, text: 'Hola.', confidence: 0.95 },
+      { position: 1, start: 1.2, end: 3.4, text: 'Empezamos.', confidence: undefined },
+    ]);
+    expect(data.revisions.create).toEqual({ version: 1, text: 'Hola. Empezamos.', source: 'stt' });
+  });
+
+  it('should save an STT transcript without segments when the provider has none', async () => {
+    prisma.transcript.create.mockResolvedValue({ id: 'transcript-1' });
+
+    await transcriptService.createFromStt('note-1', 'mock', { text: 'Hola.', language: 'es', confidence: 0.9 });
+
+    expect(prisma.transcript.create.mock.calls[0][0].data.segments).toEqual({ create: [] });
+  });
+
+  it('should save the original text as version 1 before the first edit', async () => {
+    const createdAt = new Date('2024-01-01T10:00:00Z');
+    prisma.transcript.findUniqueOrThrow.mockResolvedValue({
+      id: 'transcript-1',
+      text: 'Hola mundo',
+      createdAt,
+      segments: [{ id: 'seg-1', text: 'Hola mundo' }],
+      revisions: [],
+    });
+
+    const revision = await transcriptService.updateText({
+      transcriptId: 'transcript-1',
+      text: 'Hola a todo el mundo',
+      authorId: 'user-1',
+      source: 'edit',
+    });
+
+    expect(prisma.transcriptRevision.create).toHaveBeenNthCalledWith(1, {
+      data: { transcriptId: 'transcript-1', version: 1, text: 'Hola mundo', source: 'stt', createdAt },
+    });
+    expect(revision).toMatchObject({ version: 2, source: 'edit', authorId: 'user-1' });
+    expect(prisma.transcriptSegment.update).toHaveBeenCalledWith({
+      where: { id: 'seg-1' },
+      data: { text: 'Hola a todo el mundo' },
+    });
+    expect(prisma.transcript.update).toHaveBeenCalledWith({
+      where: { id: 'transcript-1' },
+      data: { text: 'Hola a todo el mundo' },
+    });
+  });
+
+  it('should increment the version and keep emptied segments without text', async () => {
+    prisma.transcript.findUniqueOrThrow.mockResolvedValue({
+      id: 'transcript-1',
+      text: 'Primera parte. Segunda parte.',
+      createdAt: new Date(),
+      segments: [
+        { id: 'seg-1', text: 'Primera parte.' },
+        { id: 'seg-2', text: 'Segunda parte.' },
+      ],
+      revisions: [{ version: 3 }],
+    });
+
+    const revision = await transcriptService.updateText({
+      transcriptId: 'transcript-1',
+      text: 'Primera parte.',
+      authorId: 'user-1',
+      source: 'restore',
+      restoredFromVersion: 1,
+    });
+
+    expect(prisma.transcriptRevision.create).toHaveBeenCalledTimes(1);
+    expect(revision).toMatchObject({ version: 4, source: 'restore', restoredFromVersion: 1 });
+    expect(prisma.transcriptSegment.delete).not.toHaveBeenCalled();
+    expect(prisma.transcriptSegment.update).toHaveBeenCalledTimes(1);
+    expect(prisma.transcriptSegment.update).toHaveBeenCalledWith({
+      where: { id: 'seg-2' },
+      data: { text: '' },
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { TrashService, trashPurgeDate } from '../../src/services/trash.service.js';
+import { storageService } from '../../src/services/storage.service.js';
+
+jest.mock('../../src/services/storage.service.js', () => ({
+  storageService: {
+    deleteFile: jest.fn(),
+  },
+}));
+
+const prisma = new PrismaClient() as any;
+const storage = storageService as any;
+
+const trashedNote = {
+  id: 'note-1',
+  userId: 'user-1',
+  deletedAt: new Date('2024-03-01T10:00:00Z'),
+  media: [{ storageKey: 'audio/user-1/reunion.webm' }],
+};
+
+describe('trashPurgeDate', () => {
+  it('should add the retention in days', () => {
+    expect(trashPurgeDate(new Date('2024-03-01T10:00:00Z'), 30).toISOString()).toBe('2024-03-31T10:00:00.000Z');
+  });
+});
+
+describe('TrashService', () => {
+  it('should move a note to the trash without touching its files', async () => {
+    prisma.note.findFirst.mockResolvedValue({ id: 'note-1', userId: 'user-1', deletedAt: null });
+
+    const deletedAt = await new TrashService().trashNote('user-1', 'note-1');
+
+    expect(prisma.note.findFirst).toHaveBeenCalledWith({
+      where: { id: 'note-1', userId: 'user-1', deletedAt: null }
+    });
+    expect(prisma.note.update).toHaveBeenCalledWith({ where: { id: 'note-1' }, data: { deletedAt } });
+    expect(prisma.note.delete).not.toHaveBeenCalled();
+    expect(storage.deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('should only restore notes in the trash', async () => {
+    prisma.note.findFirst.mockResolvedValue(null);
+
+    await expect(new TrashService().restoreNote('user-1', 'note-1')).rejects.toThrow('NOTE_NOT_FOUND');
+    expect(prisma.note.findFirst).toHaveBeenCalledWith({
+      where: { id: 'note-1', userId: 'user-1', deletedAt: { not: null } }
+    });
+    expect(prisma.note.update).not.toHaveBeenCalled();
+  });
+
+  it('should delete the files before the note', async () => {
+    prisma.note.findFirst.mockResolvedValue(trashedNote);
+
+    await new TrashService().deleteNote('user-1', 'note-1');
+
+    expect(storage.deleteFile).toHaveBeenCalledWith('audio/user-1/reunion.webm');
+    expect(prisma.note.delete).toHaveBeenCalledWith({ where: { id: 'note-1' } });
+    expect(prisma.auditEvent.create.mock.calls[0][0].data).toEqual(expect.objectContaining({
+      type: 'note_deleted',
+      metadata: { noteId: 'note-1', files: 1 }
+    }));
+  });
+
+  it('should purge notes past the retention and keep the ones whose files fail', async () => {
+    const failing = { ...trashedNote, id: 'note-2', media: [{ storageKey: 'audio/user-1/otra.webm' }] };
+    prisma.note.findMany.mockResolvedValue([trashedNote, failing]);
+    storage.deleteFile.mockImplementation(async (key: string) => {
+      if (key === 'audio/user-1/otra.webm') throw new Error('Failed to delete file: timeout');
+    });
+
+    const purged = await new TrashService().purgeExpired(new Date('2024-04-15T10:00:00Z'));
+
+    expect(purged).toBe(1);
+    expect(prisma.note.findMany.mock.calls[0][0].where).toEqual({
+      deletedAt: { lte: new Date('2024-03-16T10:00:00Z') }
+    });
+    expect(prisma.note.delete).toHaveBeenCalledTimes(1);
+    expect(prisma.note.delete).toHaveBeenCalledWith({ where: { id: 'note-1' } });
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Readable } from 'stream';
+import { PrismaClient } from '@prisma/client';
+import { UploadService, UPLOAD_CHUNK_SIZE, expectedChunkLength } from '../../src/services/upload.service.js';
+import { storageService } from '../../src/services/storage.service.js';
+
+jest.mock('../../src/services/storage.service.js', () => ({
+  storageService: {
+    generateKey: jest.fn(() => 'audio/user-1/2024-03-01/abc.webm'),
+    createMultipartUpload: jest.fn(),
+    uploadPart: jest.fn(),
+    completeMultipartUpload: jest.fn(),
+    abortMultipartUpload: jest.fn(),
+    getSignedUrl: jest.fn(),
+    getFileMetadata: jest.fn(),
+    getFileStream: jest.fn(),
+    getPublicUrl: jest.fn(),
+    deleteFile: jest.fn(),
+  },
+}));
+
+const prisma = new PrismaClient() as any;
+const storage = storageService as any;
+
+const MB = 1024 * 1024;
+
+// Start of a WebM file: EBML magic, then the DocType
+const WEBM_HEADER = Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84]), Buffer.from('webm')]);
+
+const session = {
+  id: 'upload-1',
+  noteId: 'note-1',
+  userId: 'user-1',
+  filename: 'reunion.webm',
+  contentType: 'audio/webm',
+  size: 20 * MB,
+  offset: 8 * MB,
+  chunkSize: 8 * MB,
+  method: 'chunked',
+  storageKey: 'audio/user-1/2024-03-01/abc.webm',
+  storageUploadId: 's3-upload-1',
+  parts: [{ partNumber: 1, etag: '"etag-1"' }],
+  detectedType: 'audio/webm',
+  status: 'active',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+};
+
+describe('expectedChunkLength', () => {
+  it('should expect full chunks until the last one', () => {
+    expect(expectedChunkLength(20 * MB, 8 * MB, 8 * MB)).toBe(8 * MB);
+    expect(expectedChunkLength(20 * MB, 8 * MB, 16 * MB)).toBe(4 * MB);
+  });
+});
+
+describe('UploadService', () => {
+  it('should start a multipart upload for a live note', async () => {
+    prisma.note.findFirst.mockResolvedValue({ id: 'note-1', userId: 'user-1' });
+    prisma.uploadSession.findMany.mockResolvedValue([]);
+    storage.createMultipartUpload.mockResolvedValue('s3-upload-1');
+    prisma.uploadSession.create.mockImplementation(async ({ data }: any) => ({
+      id: 'upload-1',
+      offset: 0,
+      status: 'active',
+      ...data,
+    }));
+
+    const created = await new UploadService().createSession('user-1', 'note-1', {
+      filename: 'reunion.webm',
+      contentType: 'audio/webm',
+      size: 20 * MB,
+    });
+
+    expect(storage.createMultipartUpload).toHaveBeenCalledWith(
+      'audio/user-1/2024-03-01/abc.webm',
+      'audio/webm',
+      { metadata: { noteId: 'note-1', userId: 'user-1' } }
+    );
+    expect(created).toEqual(expect.objectContaining({ offset: 0, chunkSize: UPLOAD_CHUNK_SIZE, size: 20 * MB }));
+    expect(prisma.note.update).toHaveBeenCalledWith({ where: { id: 'note-1' }, data: { status: 'uploading' } });
+  });
+
+  it('should reject files that are not audio', async () => {
+    prisma.note.findFirst.mockResolvedValue({ id: 'note-1', userId: 'user-1' });
+
+    await expect(new UploadService().createSession('user-1', 'note-1', {
+      filename: 'informe.pdf',
+      contentType: 'application/pdf',
+      size: MB,
+    })).rejects.toThrow('UNSUPPORTED_MEDIA_TYPE');
+    expect(storage.createMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it('should store a chunk as the next part and advance the offset', async () => {
+    prisma.uploadSession.findFirst.mockResolvedValue(session);
+    storage.uploadPart.mockResolvedValue({ partNumber: 2, etag: '"etag-2"' });
+    prisma.uploadSession.updateMany.mockResolvedValue({ count: 1 });
+
+    const updated = await new UploadService().appendChunk('user-1', 'note-1', 'upload-1', 8 * MB, Buffer.alloc(8 * MB));
+
+    expect(storage.uploadPart).toHaveBeenCalledWith(session.storageKey, 's3-upload-1', 2, expect.any(Buffer));
+    const update = prisma.uploadSession.updateMany.mock.calls[0][0];
+    expect(update.where).toEqual({ id: 'upload-1', offset: 8 * MB, status: 'active' });
+    expect(update.data.parts).toEqual([
+      { partNumber: 1, etag: '"etag-1"' },
+      { partNumber: 2, etag: '"etag-2"' },
+    ]);
+    expect(updated.offset).toBe(16 * MB);
+  });
+
+  it('should reject a chunk that does not start at the current offset', async () => {
+    prisma.uploadSession.findFirst.mockResolvedValue(session);
+
+    await expect(
+      new UploadService().appendChunk('user-1', 'note-1', 'upload-1', 0, Buffer.alloc(8 * MB))
+    ).rejects.toThrow('UPLOAD_OFFSET_MISMATCH');
+    expect(storage.uploadPart).not.toHaveBeenCalled();
+  });
+
+  it('should reject a short chunk that is not the last one', async () => {
+    prisma.uploadSession.findFirst.mockResolvedValue(session);
+
+    await expect(
+      new UploadService().appendChunk('user-1', 'note-1', 'upload-1', 8 * MB, Buffer.alloc(MB))
+    ).rejects.toThrow('UPLOAD_CHUNK_INVALID');
+  });
+
+  it('should abort the upload when the first chunk is not audio of the declared type', async () => {
+    prisma.uploadSession.findFirst.mockResolvedValue({ ...session, offset: 0, parts: [], detectedType: null });
+
+    await expect(
+      new UploadService().appendChunk('user-1', 'note-1', 'upload-1', 0, Buffer.concat([Buffer.from('%PDF-1.7\n'), Buffer.alloc(8 * MB - 9)]))
+    ).rejects.toThrow('AUDIO_CONTENT_INVALID');
+    expect(storage.uploadPart).not.toHaveBeenCalled();
+    expect(storage.abortMultipartUpload).toHaveBeenCalledWith(session.storageKey, 's3-upload-1');
+    expect(prisma.uploadSession.update).toHaveBeenCalledWith({ where: { id: 'upload-1' }, data: { status: 'aborted' } });
+  });
+
+  it('should report a mismatch when a concurrent retry stored the chunk first', async () => {
+    prisma.uploadSession.findFirst.mockResolvedValue(session);
+    storage.uploadPart.mockResolvedValue({ partNumber: 2, etag: '"etag-2"' });
+    prisma.uploadSession.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      new UploadService().appendChunk('user-1', 'note-1', 'upload-1', 8 * MB, Buffer.alloc(8 * MB))
+    ).rejects.toThrow('UPLOAD_OFFSET_MISMATCH');
+  });
+
+  it('should not complete until every byte is in', async () => {
+    prisma.uploadSession.findFirst.mockResolvedValue(session);
+    prisma.uploadSession.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(new UploadService().completeSession('user-1', 'note-1', 'upload-1')).rejects.toThrow('UPLOAD_INCOMPLETE');
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled();
+    // The session goes back to active so the client can send the rest
+    expect(prisma.uploadSession.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'upload-1', status: 'completing' },
+      data: { status: 'active' }
+    });
+  });
+
+  it('should attach the file once when two requests complete the same session', async () => {
+    const complete = { ...session, offset: session.size };
+    prisma.uploadSession.findFirst.mockResolvedValue(complete);
+    // Both requests found the session active; the second loses the claim
+    prisma.uploadSession.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    storage.completeMultipartUpload.mockResolvedValue({ url: 'http://localhost:9000/test-bucket/abc.webm' });
+    prisma.$transaction.mockImplementation(async (operations: any[]) => operations);
+    prisma.media.create.mockImplementation(({ data }: any) => ({ id: 'media-1', ...data }));
+    prisma.note.update.mockReturnValue({ id: 'note-1', status: 'uploaded' });
+
+    const results = await Promise.allSettled([
+      new UploadService().completeSession('user-1', 'note-1', 'upload-1'),
+      new UploadService().completeSession('user-1', 'note-1', 'upload-1'),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('UPLOAD_NOT_FOUND');
+    expect(prisma.uploadSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'upload-1', status: 'active' },
+      data: { status: 'completing' }
+    });
+    expect(storage.completeMultipartUpload).toHaveBeenCalledTimes(1);
+    expect(prisma.media.create).toHaveBeenCalledTimes(1);
+    expect(prisma.auditEvent.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sign a PUT for direct uploads with the announced content type', async () => {
+    prisma.note.findFirst.mockResolvedValue({ id: 'note-1', userId: 'user-1' });
+    prisma.uploadSession.findMany.mockResolvedValue([]);
+    storage.getSignedUrl.mockResolvedValue('https://bucket.example.com/signed-put');
+    prisma.uploadSession.create.mockImplementation(async ({ data }: any) => ({
+      id: 'upload-2',
+      offset: 0,
+      status: 'active',
+      ...data,
+    }));
+
+    const direct = await new UploadService().createDirectUpload('user-1', 'note-1', {
+      filename: 'reunion.webm',
+      contentType: 'audio/webm',
+      size: 20 * MB,
+    });
+
+    expect(storage.getSignedUrl).toHaveBeenCalledWith('audio/user-1/2024-03-01/abc.webm', {
+      method: 'PUT',
+      contentType: 'audio/webm',
+      expiresIn: 3600
+    });
+    expect(storage.createMultipartUpload).not.toHaveBeenCalled();
+    expect(direct.key).toBe('audio/user-1/2024-03-01/abc.webm');
+    expect(direct.uploadUrl).toBe('https://bucket.example.com/signed-put');
+    expect(direct.upload.method).toBe('direct');
+  });
+
+  it('should complete a direct upload with the size storage reports', async () => {
+    const direct = { ...session, method: 'direct', offset: 0, storageUploadId: null };
+    prisma.uploadSession.findFirst.mockResolvedValue(direct);
+    prisma.uploadSession.updateMany.mockResolvedValue({ count: 1 });
+    storage.getFileMetadata.mockResolvedValue({ size: 19 * MB, contentType: 'audio/webm' });
+    storage.getFileStream.mockResolvedValue(Readable.from([WEBM_HEADER]));
+    storage.getPublicUrl.mockResolvedValue('http://localhost:9000/test-bucket/abc.webm');
+    prisma.$transaction.mockImplementation(async (operations: any[]) => operations);
+    prisma.media.create.mockImplementation(({ data }: any) => ({ id: 'media-1', ...data }));
+    prisma.note.update.mockReturnValue({ id: 'note-1', status: 'uploaded' });
+
+    const { media } = await new UploadService().completeSession('user-1', 'note-1', 'upload-1');
+
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled();
+    expect(media.size).toBe(19 * MB);
+    expect(media.detectedType).toBe('audio/webm');
+    expect(media.storageKey).toBe(session.storageKey);
+  });
+
+  it('should not complete a direct upload before the file is in storage', async () => {
+    prisma.uploadSession.findFirst.mockResolvedValue({ ...session, method: 'direct', offset: 0 });
+    prisma.uploadSession.updateMany.mockResolvedValue({ count: 1 });
+    storage.getFileMetadata.mockRejectedValue(new Error('Failed to get file metadata: NotFound'));
+
+    await expect(new UploadService().completeSession('user-1', 'note-1', 'upload-1')).rejects.toThrow('UPLOAD_INCOMPLETE');
+    expect(prisma.media.create).not.toHaveBeenCalled();
+  });
+
+  it('should abort expired sessions and reset their notes', async () => {
+    prisma.uploadSession.findMany.mockResolvedValue([session]);
+    const now = new Date('2024-03-02T10:00:00Z');
+
+    const aborted = await new UploadService().abortExpired(now);
+
+    expect(aborted).toBe(1);
+    expect(prisma.uploadSession.findMany.mock.calls[0][0].where).toEqual({
+      status: 'active',
+      expiresAt: { lte: now }
+    });
+    expect(storage.abortMultipartUpload).toHaveBeenCalledWith(session.storageKey, 's3-upload-1');
+    expect(prisma.uploadSession.update).toHaveBeenCalledWith({ where: { id: 'upload-1' }, data: { status: 'aborted' } });
+    expect(prisma.note.updateMany).toHaveBeenCalledWith({
+      where: { id: 'note-1', status: 'uploading' },
+      data: { status: 'idle' }
+    });
+  });
+});
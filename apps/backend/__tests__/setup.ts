@@ -8,6 +8,7 @@ process.env.JWT_ACCESS_SECRET = 'test-access-secret';
 process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
 process.env.JWT_ACCESS_EXPIRES_IN = '15m';
 process.env.JWT_REFRESH_EXPIRES_IN = '7d';
+process.env.STORAGE_DRIVER = 's3';
 process.env.STORAGE_ENDPOINT = 'http://localhost:9000';
 process.env.STORAGE_BUCKET = 'test-bucket';
 process.env.STORAGE_ACCESS_KEY = 'testkey';
@@ -65,6 +66,12 @@ jest.mock('@aws-sdk/client-s3', () => ({
   GetObjectCommand: jest.fn(),
   DeleteObjectCommand: jest.fn(),
   HeadObjectCommand: jest.fn(),
+  ListObjectsV2Command: jest.fn(),
+  DeleteObjectsCommand: jest.fn(),
+  CreateMultipartUploadCommand: jest.fn(),
+  UploadPartCommand: jest.fn(),
+  CompleteMultipartUploadCommand: jest.fn(),
+  AbortMultipartUploadCommand: jest.fn(),
 }));
 
 jest.mock('@aws-sdk/s3-request-presigner', () => ({
@@ -159,14 +166,17 @@ jest.mock('@prisma/client', () => {
       findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       delete: jest.fn(),
       count: jest.fn(),
     },
     note: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       delete: jest.fn(),
       count: jest.fn(),
     },
@@ -184,6 +194,35 @@ jest.mock('@prisma/client', () => {
       update: jest.fn(),
       delete: jest.fn(),
     },
+    transcriptSegment: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    transcriptChunk: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    transcriptRevision: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    userSettings: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    promptTemplate: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
     summary: {
       findUnique: jest.fn(),
       findMany: jest.fn(),
@@ -193,14 +232,38 @@ jest.mock('@prisma/client', () => {
     },
     action: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       findMany: jest.fn(),
+      count: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       delete: jest.fn(),
     },
     auditEvent: {
       create: jest.fn(),
       findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    processingJob: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findMany: jest.fn(),
+    },
+    accountExport: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    uploadSession: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
     },
     refreshToken: {
       findUnique: jest.fn(),
@@ -216,12 +279,20 @@ jest.mock('@prisma/client', () => {
       delete: jest.fn(),
     },
     $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
     $connect: jest.fn().mockResolvedValue(undefined),
     $disconnect: jest.fn().mockResolvedValue(undefined),
   };
 
   return {
     PrismaClient: jest.fn(() => mockPrisma),
+    Prisma: {
+      sql: jest.fn((strings: TemplateStringsArray, ...values: unknown[]) => ({ strings, values })),
+      raw: jest.fn((value: string) => ({ raw: value })),
+      empty: { strings: [''], values: [] },
+      DbNull: 'DbNull',
+    },
   };
 });
 
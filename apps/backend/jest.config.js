@@ -6,8 +6,10 @@ export default {
   testEnvironment: 'node',
   
   // Module resolution
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    // Sources import with .js extensions, as ESM output needs
+    '^(\\.{1,2}/.*)\\.js$': '$1',
     '^@notas-voz/schemas$': '<rootDir>/../../packages/schemas/src/index.ts',
   },
   
@@ -62,7 +64,12 @@ export default {
     '^.+\\.ts$': ['ts-jest', {
       useESM: true,
     }],
+    // ESM-only dependencies
+    '^.+/nanoid/.+\\.js$': ['ts-jest', {
+      useESM: true,
+    }],
   },
+  transformIgnorePatterns: ['/node_modules/(?!(\\.pnpm/nanoid@[^/]+/node_modules/)?nanoid/)'],
   
   // Module file extensions
   moduleFileExtensions: ['ts', 'js', 'json'],
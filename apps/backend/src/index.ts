@@ -11,6 +11,14 @@ import { notesRoutes } from './routes/notes.js';
 import { authRoutes } from './routes/auth.js';
 import { actionsRoutes } from './routes/actions.js';
 import { adminRoutes } from './routes/admin.js';
+import { askRoutes } from './routes/ask.js';
+import { settingsRoutes } from './routes/settings.js';
+import { accountRoutes } from './routes/account.js';
+import { storageRoutes } from './routes/storage.js';
+import { getQueueDriver } from './services/queue.service.js';
+import { getStorageDriver } from './services/storage.js';
+import { WorkerManager } from './workers/index.js';
+import { searchService } from './services/search.service.js';
 
 const fastify = Fastify({
   logger: {
@@ -87,6 +95,12 @@ await fastify.register(authRoutes, { prefix: `${apiPrefix}/auth` });
 await fastify.register(notesRoutes, { prefix: `${apiPrefix}/notes` });
 await fastify.register(actionsRoutes, { prefix: `${apiPrefix}/actions` });
 await fastify.register(adminRoutes, { prefix: `${apiPrefix}/admin` });
+await fastify.register(askRoutes, { prefix: `${apiPrefix}/ask` });
+await fastify.register(settingsRoutes, { prefix: `${apiPrefix}/settings` });
+await fastify.register(accountRoutes, { prefix: `${apiPrefix}/account` });
+if (getStorageDriver() === 'local') {
+  await fastify.register(storageRoutes, { prefix: `${apiPrefix}/storage` });
+}
 
 // Middleware de correlation ID
 fastify.addHook('onRequest', async (request, reply) => {
@@ -130,12 +144,23 @@ const start = async () => {
   try {
     const port = Number(process.env.PORT) || 4000;
     const host = process.env.NODE_ENV === 'production' ? '0.0.0.0' : 'localhost';
+
+    await searchService.ensureSearchIndex();
     
     await fastify.listen({ port, host });
     
     fastify.log.info(
       `🚀 Server started on http://${host}:${port}`
     );
+
+    // The in-memory queue only exists in this process, so its workers must run here too
+    if (getQueueDriver() === 'memory') {
+      const workerManager = new WorkerManager();
+      fastify.addHook('onClose', async () => {
+        await workerManager.shutdown();
+      });
+      fastify.log.info('⚙️ In-process workers started (QUEUE_DRIVER=memory)');
+    }
     
     fastify.log.info('Available routes:');
     fastify.log.info(`  GET ${apiPrefix}/health - Health check`);
@@ -146,6 +171,11 @@ const start = async () => {
     fastify.log.info(`  ${apiPrefix}/notes/* - Notes management`);
     fastify.log.info(`  ${apiPrefix}/actions/* - Actions management`);
     fastify.log.info(`  ${apiPrefix}/admin/* - Admin endpoints`);
+    fastify.log.info(`  POST ${apiPrefix}/ask - Ask questions across notes`);
+    fastify.log.info(`  GET/PATCH ${apiPrefix}/settings - Summary defaults and prompt templates`);
+    if (getStorageDriver() === 'local') {
+      fastify.log.info(`  GET/PUT ${apiPrefix}/storage/* - Signed file URLs (STORAGE_DRIVER=local)`);
+    }
     
   } catch (err) {
     fastify.log.error(err);
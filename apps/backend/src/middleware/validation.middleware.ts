@@ -1,6 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { ZodSchema, ZodError } from 'zod';
+import { ZodSchema, ZodType, ZodTypeDef, ZodError } from 'zod';
 import { ApiError, ERROR_CODES } from '@notas-voz/schemas';
+import { detectAudioType, isCompatibleAudioType } from '../services/audio-type.js';
 
 /**
  * Validation middleware factory
@@ -36,9 +37,10 @@ export function validateBody<T>(schema: ZodSchema<T>) {
 }
 
 /**
- * Query parameter validation middleware
+ * Query parameter validation middleware. Query strings get parsed into other
+ * types (defaults, booleans), so the schema's input and output may differ.
  */
-export function validateQuery<T>(schema: ZodSchema<T>) {
+export function validateQuery<T, Input = T>(schema: ZodType<T, ZodTypeDef, Input>) {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const validatedQuery = schema.parse(request.query);
@@ -111,13 +113,14 @@ export function validateFileUpload(
 ) {
   const {
     maxSize = 25 * 1024 * 1024, // 25MB default
-    allowedMimeTypes = ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/ogg'],
+    allowedMimeTypes = ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/flac'],
     required = true
   } = options;
 
   return async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const data = await request.file();
+      // Per-request limit, so routes can accept more than the global default
+      const data = await request.file({ limits: { fileSize: maxSize } });
 
       if (!data && required) {
         return reply.status(400).send({
@@ -149,6 +152,37 @@ export function validateFileUpload(
           } as ApiError);
         }
 
+        // Audio is judged by its bytes, not by the type the client declared.
+        // The buffer is kept, so handlers calling toBuffer() get it back.
+        if (data.mimetype.startsWith('audio/')) {
+          let buffer: Buffer;
+          try {
+            buffer = await data.toBuffer();
+          } catch (error) {
+            if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+              return reply.status(413).send({
+                error: {
+                  code: ERROR_CODES.FILE_TOO_LARGE,
+                  message: `File size exceeds limit of ${Math.round(maxSize / 1024 / 1024)}MB`,
+                }
+              } as ApiError);
+            }
+            throw error;
+          }
+
+          const detectedType = detectAudioType(buffer);
+          if (!detectedType || !isCompatibleAudioType(data.mimetype, detectedType)) {
+            return reply.status(415).send({
+              error: {
+                code: ERROR_CODES.AUDIO_CONTENT_INVALID,
+                message: 'File content is not audio of the declared type',
+              }
+            } as ApiError);
+          }
+
+          (data as any).detectedType = detectedType;
+        }
+
         // Attach file data to request
         (request as any).uploadedFile = data;
       }
@@ -208,6 +242,150 @@ export function handleApiError(error: any, request: FastifyRequest, reply: Fasti
     } as ApiError);
   }
 
+  if (error.message === 'MEDIA_NOT_FOUND') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.MEDIA_NOT_FOUND,
+        message: 'Media not found',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'TRANSCRIPT_NOT_FOUND') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.TRANSCRIPT_NOT_FOUND,
+        message: 'Transcript not found',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'REVISION_NOT_FOUND') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.REVISION_NOT_FOUND,
+        message: 'Transcript revision not found',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'TEMPLATE_NOT_FOUND') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.TEMPLATE_NOT_FOUND,
+        message: 'Prompt template not found',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'UNSUBSCRIBE_TOKEN_INVALID') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.UNSUBSCRIBE_TOKEN_INVALID,
+        message: 'Unsubscribe link is invalid',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'CALENDAR_FEED_NOT_FOUND') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.CALENDAR_FEED_NOT_FOUND,
+        message: 'Calendar feed not found',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'EXPORT_NOT_FOUND') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.EXPORT_NOT_FOUND,
+        message: 'Account export not found',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'IMPORT_ARCHIVE_INVALID') {
+    return reply.status(400).send({
+      error: {
+        code: ERROR_CODES.IMPORT_ARCHIVE_INVALID,
+        message: 'The file is not a valid account export archive',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'FILE_TOO_LARGE') {
+    return reply.status(413).send({
+      error: {
+        code: ERROR_CODES.FILE_TOO_LARGE,
+        message: 'File size exceeds the upload limit',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'UNSUPPORTED_MEDIA_TYPE') {
+    return reply.status(415).send({
+      error: {
+        code: ERROR_CODES.UNSUPPORTED_MEDIA_TYPE,
+        message: 'File type not supported',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'AUDIO_CONTENT_INVALID') {
+    return reply.status(415).send({
+      error: {
+        code: ERROR_CODES.AUDIO_CONTENT_INVALID,
+        message: 'File content is not audio of the declared type',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'UPLOAD_NOT_FOUND') {
+    return reply.status(404).send({
+      error: {
+        code: ERROR_CODES.UPLOAD_NOT_FOUND,
+        message: 'Upload session not found or expired',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'UPLOAD_OFFSET_MISMATCH') {
+    return reply.status(409).send({
+      error: {
+        code: ERROR_CODES.UPLOAD_OFFSET_MISMATCH,
+        message: 'Chunk offset does not match the bytes received so far',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'UPLOAD_CHUNK_INVALID') {
+    return reply.status(400).send({
+      error: {
+        code: ERROR_CODES.UPLOAD_CHUNK_INVALID,
+        message: 'Chunk size does not match the upload session',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'UPLOAD_INCOMPLETE') {
+    return reply.status(409).send({
+      error: {
+        code: ERROR_CODES.UPLOAD_INCOMPLETE,
+        message: 'Not every chunk of the file has been received',
+      }
+    } as ApiError);
+  }
+
+  if (error.message === 'SIGNED_URL_INVALID') {
+    return reply.status(403).send({
+      error: {
+        code: ERROR_CODES.SIGNED_URL_INVALID,
+        message: 'Signed URL is invalid or expired',
+      }
+    } as ApiError);
+  }
+
   if (error.message === 'LLM_FAILURE') {
     return reply.status(503).send({
       error: {
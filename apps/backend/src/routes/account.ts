@@ -0,0 +1,103 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import {
+  validateParams,
+  validateFileUpload,
+  handleApiError
+} from '../middleware/validation.middleware.js';
+import { authMiddleware, getUserId } from '../middleware/auth.middleware.js';
+import { accountExportService } from '../services/account-export.service.js';
+
+const ExportParamsSchema = z.object({
+  id: z.string()
+});
+
+// Archives carry the original audio, so they are allowed well above the audio upload limit
+const IMPORT_MAX_SIZE = parseInt(process.env.ACCOUNT_IMPORT_MAX_SIZE_MB || '200') * 1024 * 1024;
+
+export const accountRoutes: FastifyPluginAsync = async (fastify) => {
+
+  // Start an export of the whole account; reuses an export that is still running
+  fastify.post('/exports', {
+    preHandler: [authMiddleware]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const accountExport = await accountExportService.requestExport(userId);
+
+      return reply.status(202).send(accountExport);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Recent exports, newest first
+  fastify.get('/exports', {
+    preHandler: [authMiddleware]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const items = await accountExportService.listExports(userId);
+
+      return reply.send({ items });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Export status, with a download link once the archive is ready
+  fastify.get('/exports/:id', {
+    preHandler: [authMiddleware, validateParams(ExportParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      return reply.send(await accountExportService.getExport(userId, id));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Restore an export archive into the account, with new IDs
+  fastify.post('/import', {
+    preHandler: [
+      authMiddleware,
+      validateFileUpload({
+        maxSize: IMPORT_MAX_SIZE,
+        allowedMimeTypes: ['application/zip', 'application/x-zip-compressed']
+      })
+    ]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const fileData = request.uploadedFile;
+
+      let archive: Buffer;
+      try {
+        archive = await fileData.toBuffer();
+      } catch (error) {
+        if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+          throw new Error('FILE_TOO_LARGE');
+        }
+        throw error;
+      }
+
+      const result = await accountExportService.importArchive(
+        userId,
+        archive,
+        request.headers['x-correlation-id'] as string
+      );
+
+      return reply.status(201).send(result);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+};
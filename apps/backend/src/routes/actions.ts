@@ -1,16 +1,23 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { 
+  ActionPrioritySchema,
+  ActionSortSchema,
+  CalendarEntryTypeSchema,
   CreateActionRequestSchema,
   UpdateActionRequestSchema
 } from '@notas-voz/schemas';
 import { 
   validateBody, 
   validateParams,
+  validateQuery,
   handleApiError 
 } from '../middleware/validation.middleware.js';
 import { authMiddleware, getUserId } from '../middleware/auth.middleware.js';
+import { searchService } from '../services/search.service.js';
+import { actionsService } from '../services/actions.service.js';
+import { calendarService } from '../services/calendar.service.js';
 
 const prisma = new PrismaClient();
 
@@ -23,8 +30,199 @@ const NoteParamsSchema = z.object({
   id: z.string()
 });
 
+// Calendar apps expect feed URLs to end in .ics
+const CalendarFeedParamsSchema = z.object({
+  token: z.string().transform(token => token.replace(/\.ics$/, ''))
+});
+
+// Schema for query parameters
+const ActionsQuerySchema = z.object({
+  priority: ActionPrioritySchema.optional(),
+  category: z.string().trim().min(1).optional(),
+  done: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  sort: ActionSortSchema.default('createdAt'),
+  order: z.enum(['asc', 'desc']).optional()
+});
+
+const ActionsInboxQuerySchema = ActionsQuerySchema.extend({
+  overdue: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+  tag: z.string().trim().min(1).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const CalendarQuerySchema = z.object({
+  type: CalendarEntryTypeSchema.default('event')
+});
+
+/**
+ * Format an action for API responses
+ */
+function formatAction(action: any) {
+  return {
+    id: action.id,
+    text: action.text,
+    done: action.done,
+    due_suggested: action.dueSuggested?.toISOString(),
+    due_confidence: action.dueConfidence,
+    priority: action.priority,
+    category: action.category,
+    createdAt: action.createdAt.toISOString()
+  };
+}
+
+/**
+ * Public URL of a calendar feed, next to the route serving the request
+ */
+function calendarFeedUrl(request: FastifyRequest, token: string) {
+  const origin = process.env.API_PUBLIC_URL || `${request.protocol}://${request.hostname}`;
+  const path = request.url.split('?')[0].replace(/\/feed$/, '');
+  return `${origin}${path}/feed/${token}.ics`;
+}
+
 export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
 
+  // List actions across all notes with the note they belong to
+  fastify.get('/', {
+    preHandler: [authMiddleware, validateQuery(ActionsInboxQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const { items, cursor } = await actionsService.listActions(userId, request.validatedQuery);
+
+      return reply.status(200).send({
+        items: items.map(action => ({
+          ...formatAction(action),
+          note: {
+            id: action.note.id,
+            title: action.note.title,
+            tags: action.note.tags
+          }
+        })),
+        cursor
+      });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Download the dated actions as an iCalendar file
+  fastify.get('/export.ics', {
+    preHandler: [authMiddleware, validateQuery(CalendarQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { type } = request.validatedQuery;
+
+      const calendar = await calendarService.exportCalendar(userId, type);
+
+      return reply
+        .status(200)
+        .header('Content-Type', 'text/calendar; charset=utf-8')
+        .header('Content-Disposition', 'attachment; filename="acciones.ics"')
+        .send(calendar);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Get the calendar feed URL, if the feed is on
+  fastify.get('/feed', {
+    preHandler: [authMiddleware]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const token = await calendarService.getFeedToken(userId);
+
+      return reply.status(200).send({
+        url: token ? calendarFeedUrl(request, token) : null
+      });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Turn on the calendar feed or replace its URL
+  fastify.post('/feed', {
+    preHandler: [authMiddleware]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const token = await calendarService.rotateFeedToken(userId);
+
+      return reply.status(200).send({
+        url: calendarFeedUrl(request, token)
+      });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Turn off the calendar feed
+  fastify.delete('/feed', {
+    preHandler: [authMiddleware]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      await calendarService.revokeFeedToken(userId);
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Calendar feed for subscriptions; the token in the URL is the only auth
+  fastify.get('/feed/:token', {
+    preHandler: [validateParams(CalendarFeedParamsSchema), validateQuery(CalendarQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const { token } = request.validatedParams;
+      const { type } = request.validatedQuery;
+
+      const calendar = await calendarService.exportFeed(token, type);
+
+      return reply
+        .status(200)
+        .header('Content-Type', 'text/calendar; charset=utf-8')
+        .header('Cache-Control', 'private, max-age=300')
+        .send(calendar);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // List the actions of a note, filtered and sorted
+  fastify.get('/notes/:id/actions', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateQuery(ActionsQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id: noteId } = request.validatedParams;
+
+      const actions = await actionsService.listNoteActions(userId, noteId, request.validatedQuery);
+
+      return reply.status(200).send({
+        items: actions.map(formatAction)
+      });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
   // Create action for a note
   fastify.post('/notes/:id/actions', {
     preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateBody(CreateActionRequestSchema)]
@@ -32,11 +230,11 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
     try {
       const userId = getUserId(request);
       const { id: noteId } = request.validatedParams;
-      const { text, due_suggested } = request.validatedBody;
+      const { text, due_suggested, priority, category } = request.validatedBody;
 
       // Check if note exists and belongs to user
       const note = await prisma.note.findFirst({
-        where: { id: noteId, userId }
+        where: { id: noteId, userId, deletedAt: null }
       });
 
       if (!note) {
@@ -49,11 +247,15 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
           text,
           done: false,
           dueSuggested: due_suggested ? new Date(due_suggested) : undefined,
+          priority,
+          category,
           noteId,
           userId
         }
       });
 
+      await searchService.indexNote(noteId);
+
       // Create audit event
       await prisma.auditEvent.create({
         data: {
@@ -68,13 +270,7 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
         }
       });
 
-      return reply.status(201).send({
-        id: action.id,
-        text: action.text,
-        done: action.done,
-        due_suggested: action.dueSuggested?.toISOString(),
-        createdAt: action.createdAt.toISOString()
-      });
+      return reply.status(201).send(formatAction(action));
 
     } catch (error) {
       return handleApiError(error, request, reply);
@@ -88,11 +284,11 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
     try {
       const userId = getUserId(request);
       const { id } = request.validatedParams;
-      const { text, done, due_suggested } = request.validatedBody;
+      const { text, done, due_suggested, priority, category } = request.validatedBody;
 
-      // Check if action exists and belongs to user
+      // Check if action exists and belongs to user; actions of trashed notes are read-only
       const existingAction = await prisma.action.findFirst({
-        where: { id, userId }
+        where: { id, userId, note: { deletedAt: null } }
       });
 
       if (!existingAction) {
@@ -106,11 +302,19 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
           ...(text !== undefined && { text }),
           ...(done !== undefined && { done }),
           ...(due_suggested !== undefined && { 
-            dueSuggested: due_suggested ? new Date(due_suggested) : null 
-          })
+            dueSuggested: due_suggested ? new Date(due_suggested) : null,
+            dueConfidence: null, // Dates set by the user aren't guesses
+            reminderSentAt: null
+          }),
+          ...(priority !== undefined && { priority }),
+          ...(category !== undefined && { category })
         }
       });
 
+      if (text !== undefined) {
+        await searchService.indexNote(existingAction.noteId);
+      }
+
       // Create audit event
       await prisma.auditEvent.create({
         data: {
@@ -120,18 +324,12 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
           correlationId: request.headers['x-correlation-id'] as string,
           metadata: {
             actionId: updatedAction.id,
-            changes: { text, done, due_suggested }
+            changes: { text, done, due_suggested, priority, category }
           }
         }
       });
 
-      return reply.status(200).send({
-        id: updatedAction.id,
-        text: updatedAction.text,
-        done: updatedAction.done,
-        due_suggested: updatedAction.dueSuggested?.toISOString(),
-        createdAt: updatedAction.createdAt.toISOString()
-      });
+      return reply.status(200).send(formatAction(updatedAction));
 
     } catch (error) {
       return handleApiError(error, request, reply);
@@ -146,9 +344,9 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
       const userId = getUserId(request);
       const { id } = request.validatedParams;
 
-      // Check if action exists and belongs to user
+      // Check if action exists and belongs to user, outside the trash
       const action = await prisma.action.findFirst({
-        where: { id, userId }
+        where: { id, userId, note: { deletedAt: null } }
       });
 
       if (!action) {
@@ -160,6 +358,8 @@ export const actionsRoutes: FastifyPluginAsync = async (fastify) => {
         where: { id }
       });
 
+      await searchService.indexNote(action.noteId);
+
       // Create audit event
       await prisma.auditEvent.create({
         data: {
@@ -1,5 +1,5 @@
 import { FastifyPluginAsync } from 'fastify';
-import { getQueueService } from '../services/queue.service.js';
+import { getQueueService, NoteQueueName } from '../services/queue.service.js';
 import { authMiddleware } from '../middleware/auth.middleware.js';
 
 const queueService = getQueueService();
@@ -11,12 +11,14 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
     preHandler: [authMiddleware] // In production, add admin role check
   }, async (request, reply) => {
     try {
-      const [transcribeStats, summarizeStats] = await Promise.all([
+      const [transcodeStats, transcribeStats, summarizeStats] = await Promise.all([
+        queueService.getQueueStats('transcode'),
         queueService.getQueueStats('transcribe'),
         queueService.getQueueStats('summarize')
       ]);
 
       return reply.status(200).send({
+        transcode: transcodeStats,
         transcribe: transcribeStats,
         summarize: summarizeStats,
         timestamp: new Date().toISOString()
@@ -38,16 +40,16 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
     try {
       const { queueName } = request.params as { queueName: string };
 
-      if (!['transcribe', 'summarize'].includes(queueName)) {
+      if (!['transcode', 'transcribe', 'summarize'].includes(queueName)) {
         return reply.status(400).send({
           error: {
             code: 'VALIDATION_ERROR',
-            message: 'Invalid queue name. Must be transcribe or summarize.'
+            message: 'Invalid queue name. Must be transcode, transcribe or summarize.'
           }
         });
       }
 
-      const stats = await queueService.getQueueStats(queueName as 'transcribe' | 'summarize');
+      const stats = await queueService.getQueueStats(queueName as NoteQueueName);
 
       return reply.status(200).send({
         queue: queueName,
@@ -71,16 +73,16 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
     try {
       const { queueName } = request.params as { queueName: string };
 
-      if (!['transcribe', 'summarize'].includes(queueName)) {
+      if (!['transcode', 'transcribe', 'summarize'].includes(queueName)) {
         return reply.status(400).send({
           error: {
             code: 'VALIDATION_ERROR',
-            message: 'Invalid queue name. Must be transcribe or summarize.'
+            message: 'Invalid queue name. Must be transcode, transcribe or summarize.'
           }
         });
       }
 
-      await queueService.pauseQueue(queueName as 'transcribe' | 'summarize');
+      await queueService.pauseQueue(queueName as NoteQueueName);
 
       return reply.status(200).send({
         message: `Queue ${queueName} paused successfully`,
@@ -103,16 +105,16 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
     try {
       const { queueName } = request.params as { queueName: string };
 
-      if (!['transcribe', 'summarize'].includes(queueName)) {
+      if (!['transcode', 'transcribe', 'summarize'].includes(queueName)) {
         return reply.status(400).send({
           error: {
             code: 'VALIDATION_ERROR',
-            message: 'Invalid queue name. Must be transcribe or summarize.'
+            message: 'Invalid queue name. Must be transcode, transcribe or summarize.'
           }
         });
       }
 
-      await queueService.resumeQueue(queueName as 'transcribe' | 'summarize');
+      await queueService.resumeQueue(queueName as NoteQueueName);
 
       return reply.status(200).send({
         message: `Queue ${queueName} resumed successfully`,
@@ -135,16 +137,16 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
     try {
       const { queueName } = request.params as { queueName: string };
 
-      if (!['transcribe', 'summarize'].includes(queueName)) {
+      if (!['transcode', 'transcribe', 'summarize'].includes(queueName)) {
         return reply.status(400).send({
           error: {
             code: 'VALIDATION_ERROR',
-            message: 'Invalid queue name. Must be transcribe or summarize.'
+            message: 'Invalid queue name. Must be transcode, transcribe or summarize.'
           }
         });
       }
 
-      await queueService.cleanOldJobs(queueName as 'transcribe' | 'summarize');
+      await queueService.cleanOldJobs(queueName as NoteQueueName);
 
       return reply.status(200).send({
         message: `Old jobs in queue ${queueName} cleaned successfully`,
@@ -0,0 +1,29 @@
+import { FastifyPluginAsync } from 'fastify';
+import { AskRequestSchema } from '@notas-voz/schemas';
+import {
+  validateBody,
+  handleApiError
+} from '../middleware/validation.middleware.js';
+import { authMiddleware, getUserId } from '../middleware/auth.middleware.js';
+import { askService } from '../services/ask.service.js';
+
+export const askRoutes: FastifyPluginAsync = async (fastify) => {
+
+  // Ask a question across all of the user's notes
+  fastify.post('/', {
+    preHandler: [authMiddleware, validateBody(AskRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { question } = request.validatedBody;
+
+      const result = await askService.askLibrary({ userId, question });
+
+      return reply.status(200).send(result);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+};
@@ -4,11 +4,14 @@ import {
   RegisterRequestSchema,
   ResetRequestSchema,
   ResetConfirmRequestSchema,
+  DeleteAccountRequestSchema,
   TokenResponseSchema,
   AuthResponseSchema
 } from '@notas-voz/schemas';
 import { validateBody, handleApiError } from '../middleware/validation.middleware.js';
+import { authMiddleware, getUserId } from '../middleware/auth.middleware.js';
 import { authService } from '../services/auth.service.js';
+import { accountDeletionService } from '../services/account-deletion.service.js';
 import { nanoid } from 'nanoid';
 
 export const authRoutes: FastifyPluginAsync = async (fastify) => {
@@ -147,4 +150,31 @@ export const authRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Schedule account deletion; logging in before the date cancels it
+  fastify.delete('/account', {
+    preHandler: [authMiddleware, validateBody(DeleteAccountRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { password } = request.validatedBody;
+
+      const deletionScheduledAt = await accountDeletionService.scheduleDeletion(
+        userId,
+        password,
+        request.headers['x-correlation-id'] as string
+      );
+
+      // The session ends here
+      reply.clearCookie('refreshToken', {
+        path: '/'
+      });
+
+      return reply.status(202).send({
+        deletionScheduledAt: deletionScheduledAt.toISOString()
+      });
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
 };
\ No newline at end of file
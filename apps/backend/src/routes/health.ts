@@ -1,12 +1,14 @@
 import { FastifyPluginAsync } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import { storageService } from '../services/storage.service.js';
+import { getStorageDriver } from '../services/storage.js';
 import { getQueueService } from '../services/queue.service.js';
 import { sttProvider } from '../services/stt/index.js';
 import { llmProvider } from '../services/llm/index.js';
 
 const prisma = new PrismaClient();
 const queueService = getQueueService();
+const storageProvider = getStorageDriver() === 'local' ? 'local-disk' : 's3-compatible';
 
 export const healthRoutes: FastifyPluginAsync = async (fastify) => {
   
@@ -61,13 +63,13 @@ export const healthRoutes: FastifyPluginAsync = async (fastify) => {
       storageHealth = { 
         status: 'ok', 
         responseTime: `${storageResponseTime}ms`,
-        provider: 's3-compatible'
+        provider: storageProvider
       };
     } catch (error) {
       storageHealth = { 
         status: 'error', 
         error: error instanceof Error ? error.message : 'Unknown error',
-        provider: 's3-compatible'
+        provider: storageProvider
       };
     }
 
@@ -78,24 +80,26 @@ export const healthRoutes: FastifyPluginAsync = async (fastify) => {
       queueHealth = {
         status: queueHealthCheck.status,
         responseTime: queueHealthCheck.responseTime ? `${queueHealthCheck.responseTime}ms` : undefined,
-        provider: 'redis'
+        provider: queueService.name
       };
     } catch (error) {
       queueHealth = { 
         status: 'error', 
         error: error instanceof Error ? error.message : 'Unknown error',
-        provider: 'redis'
+        provider: queueService.name
       };
     }
 
     // Get queue statistics
     let queueStats;
     try {
-      const [transcribeStats, summarizeStats] = await Promise.all([
+      const [transcodeStats, transcribeStats, summarizeStats] = await Promise.all([
+        queueService.getQueueStats('transcode'),
         queueService.getQueueStats('transcribe'),
         queueService.getQueueStats('summarize')
       ]);
       queueStats = {
+        transcode: transcodeStats,
         transcribe: transcribeStats,
         summarize: summarizeStats
       };
@@ -1,9 +1,15 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { 
   CreateNoteRequestSchema,
   UpdateNoteRequestSchema,
+  UpdateTranscriptRequestSchema,
+  RestoreTranscriptRevisionRequestSchema,
+  AskRequestSchema,
+  SummarizeNoteRequestSchema,
+  NoteExportFormatSchema,
+  CreateUploadSessionRequestSchema,
   NOTE_STATUSES
 } from '@notas-voz/schemas';
 import { 
@@ -16,6 +22,16 @@ import {
 import { authMiddleware, getUserId } from '../middleware/auth.middleware.js';
 import { storageService } from '../services/storage.service.js';
 import { getQueueService } from '../services/queue.service.js';
+import { noteEventsService, JobEvent } from '../services/events.service.js';
+import { transcriptService, diffWords, tokenize } from '../services/transcript.service.js';
+import { searchService, SearchMatch } from '../services/search.service.js';
+import { semanticSearchService } from '../services/semantic-search.service.js';
+import { askService } from '../services/ask.service.js';
+import { settingsService } from '../services/settings.service.js';
+import { exportService } from '../services/export/index.js';
+import { trashService, trashPurgeDate } from '../services/trash.service.js';
+import { uploadService, UPLOAD_CHUNK_SIZE } from '../services/upload.service.js';
+import { TRANSCODE_ENABLED } from '../services/transcode.service.js';
 import { nanoid } from 'nanoid';
 
 const prisma = new PrismaClient();
@@ -26,6 +42,16 @@ const NoteParamsSchema = z.object({
   id: z.string()
 });
 
+const RevisionParamsSchema = z.object({
+  id: z.string(),
+  revisionId: z.string()
+});
+
+const RevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional()
+});
+
 // Schema for query parameters
 const NotesQuerySchema = z.object({
   cursor: z.string().optional(),
@@ -34,8 +60,240 @@ const NotesQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(10)
 });
 
+const ExportQuerySchema = z.object({
+  format: NoteExportFormatSchema.default('md')
+});
+
+const TrashQuerySchema = z.object({
+  cursor: z.string().datetime().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20)
+});
+
+const UploadParamsSchema = z.object({
+  id: z.string(),
+  uploadId: z.string()
+});
+
+const UploadChunkQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0)
+});
+
+const SemanticSearchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+  limit: z.coerce.number().min(1).max(50).default(10)
+});
+
+// Interval between SSE keep-alive comments
+const SSE_HEARTBEAT_MS = 15000;
+
+// Lifetime in seconds of signed audio playback URLs
+const AUDIO_URL_EXPIRES_IN = 3600;
+
+// Relations loaded for note lists and search results
+const NOTE_LIST_INCLUDE = {
+  transcript: true,
+  summary: true,
+  actions: {
+    orderBy: { createdAt: 'asc' as const }
+  },
+  media: true
+};
+
+/**
+ * Format a note from a list query (transcript, summary and actions included)
+ */
+function formatNoteListItem(note: any) {
+  return {
+    id: note.id,
+    title: note.title || 'Untitled Note',
+    status: note.status,
+    createdAt: note.createdAt.toISOString(),
+    tags: note.tags,
+    transcript: note.transcript ? {
+      id: note.transcript.id,
+      text: note.transcript.text,
+      language: note.transcript.language,
+      confidence: note.transcript.confidence
+    } : null,
+    summary: note.summary ? {
+      id: note.summary.id,
+      tl_dr: note.summary.tlDr,
+      bullets: note.summary.bullets,
+      style: note.summary.style,
+      actions: note.actions.map((action: any) => ({
+        id: action.id,
+        text: action.text,
+        done: action.done,
+        due_suggested: action.dueSuggested?.toISOString(),
+        due_confidence: action.dueConfidence,
+        priority: action.priority,
+        category: action.category,
+        createdAt: action.createdAt.toISOString()
+      }))
+    } : null,
+    actions: note.actions.map((action: any) => ({
+      id: action.id,
+      text: action.text,
+      done: action.done,
+      due_suggested: action.dueSuggested?.toISOString(),
+      due_confidence: action.dueConfidence,
+      priority: action.priority,
+      category: action.category,
+      createdAt: action.createdAt.toISOString()
+    }))
+  };
+}
+
+/**
+ * Format a note with its transcript, summary and actions for API responses
+ */
+function formatNoteDetail(note: any) {
+  return {
+    id: note.id,
+    title: note.title,
+    status: note.status,
+    createdAt: note.createdAt.toISOString(),
+    tags: note.tags,
+    transcript: note.transcript ? {
+      id: note.transcript.id,
+      text: note.transcript.text,
+      language: note.transcript.language,
+      confidence: note.transcript.confidence,
+      segments: note.transcript.segments?.map((segment: any) => ({
+        id: segment.id,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+        confidence: segment.confidence ?? undefined
+      }))
+    } : null,
+    summary: note.summary ? {
+      id: note.summary.id,
+      tl_dr: note.summary.tlDr,
+      bullets: note.summary.bullets,
+      style: note.summary.style,
+      actions: note.actions.map((action: any) => ({
+        id: action.id,
+        text: action.text,
+        done: action.done,
+        due_suggested: action.dueSuggested?.toISOString(),
+        due_confidence: action.dueConfidence,
+        priority: action.priority,
+        category: action.category,
+        createdAt: action.createdAt.toISOString()
+      }))
+    } : null,
+    actions: note.actions.map((action: any) => ({
+      id: action.id,
+      text: action.text,
+      done: action.done,
+      due_suggested: action.dueSuggested?.toISOString(),
+      due_confidence: action.dueConfidence,
+      priority: action.priority,
+      category: action.category,
+      createdAt: action.createdAt.toISOString()
+    }))
+  };
+}
+
+/**
+ * Format a transcript revision for API responses
+ */
+function formatRevision(revision: any) {
+  return {
+    id: revision.id,
+    version: revision.version,
+    source: revision.source,
+    restoredFromVersion: revision.restoredFromVersion,
+    author: revision.author ? {
+      id: revision.author.id,
+      email: revision.author.email
+    } : null,
+    createdAt: revision.createdAt.toISOString()
+  };
+}
+
+/**
+ * Format the media record and note returned once an audio upload finishes
+ */
+function formatUploadResponse(media: any, note: any) {
+  return {
+    media: {
+      id: media.id,
+      filename: media.filename,
+      size: media.size,
+      contentType: media.contentType
+    },
+    note: formatNoteDetail(note)
+  };
+}
+
+/**
+ * Load a note with everything formatNoteDetail needs
+ */
+async function findNoteDetail(id: string, userId: string) {
+  return prisma.note.findFirst({
+    where: { id, userId, deletedAt: null },
+    include: {
+      transcript: {
+        include: {
+          segments: { orderBy: { position: 'asc' } }
+        }
+      },
+      summary: true,
+      actions: {
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+}
+
+/**
+ * Queue summarization of the current transcript text and mark the note as summarizing
+ */
+async function requeueSummarization(noteId: string, transcript: { id: string; text: string }, userId: string) {
+  const preferences = await settingsService.resolveSummaryPreferences(userId);
+
+  await queueService.addSummarizeJob({
+    noteId,
+    transcriptId: transcript.id,
+    transcriptText: transcript.text,
+    userId,
+    options: {
+      language: 'español',
+      ...preferences
+    }
+  });
+
+  await prisma.note.update({
+    where: { id: noteId },
+    data: { status: 'summarizing' }
+  });
+}
+
+/**
+ * Re-embed a note's transcript after an edit. Semantic search is auxiliary,
+ * so a provider failure is logged instead of failing the edit.
+ */
+async function refreshEmbeddings(noteId: string, request: FastifyRequest) {
+  try {
+    await semanticSearchService.indexNote(noteId);
+  } catch (error) {
+    request.log.warn({
+      error: error instanceof Error ? error.message : error,
+      noteId,
+      correlationId: request.headers['x-correlation-id']
+    }, 'Failed to refresh transcript embeddings');
+  }
+}
+
 export const notesRoutes: FastifyPluginAsync = async (fastify) => {
 
+  // Upload chunks arrive as raw bytes
+  fastify.addContentTypeParser('application/octet-stream', { parseAs: 'buffer' }, (request, body, done) => {
+    done(null, body);
+  });
+
   // List notes with pagination and search
   fastify.get('/', {
     preHandler: [authMiddleware, validateQuery(NotesQuerySchema)]
@@ -44,83 +302,65 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
       const userId = getUserId(request);
       const { cursor, query, tag, limit } = request.validatedQuery;
 
-      // Build where clause
-      const where: any = {
-        userId
-      };
+      let items;
+      let nextCursor: string | null;
+      let matches: Map<string, SearchMatch> | null = null;
 
-      // Add search filter
       if (query) {
-        where.OR = [
-          { title: { contains: query, mode: 'insensitive' } },
-          { transcript: { text: { contains: query, mode: 'insensitive' } } }
-        ];
-      }
-
-      // Add tag filter
-      if (tag) {
-        where.tags = {
-          has: tag
+        // Full-text search: results come back ordered by relevance
+        const results = await searchService.searchNotes({ userId, query, tag, limit, cursor });
+        matches = new Map(results.items.map(match => [match.id, match]));
+
+        const notes = await prisma.note.findMany({
+          where: { id: { in: results.items.map(match => match.id) }, userId, deletedAt: null },
+          include: NOTE_LIST_INCLUDE
+        });
+        const notesById = new Map(notes.map(note => [note.id, note]));
+
+        items = results.items
+          .map(match => notesById.get(match.id))
+          .filter((note): note is NonNullable<typeof note> => !!note);
+        nextCursor = results.cursor;
+      } else {
+        // Build where clause
+        const where: any = {
+          userId,
+          deletedAt: null
         };
-      }
 
-      // Add cursor for pagination
-      if (cursor) {
-        where.createdAt = { lt: new Date(cursor) };
-      }
+        // Add tag filter
+        if (tag) {
+          where.tags = {
+            has: tag
+          };
+        }
 
-      // Fetch notes with relations
-      const notes = await prisma.note.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        take: limit + 1, // Fetch one extra to determine if there's a next page
-        include: {
-          transcript: true,
-          summary: true,
-          actions: {
-            orderBy: { createdAt: 'asc' }
-          },
-          media: true
+        // Add cursor for pagination
+        if (cursor) {
+          where.createdAt = { lt: new Date(cursor) };
         }
-      });
 
-      // Determine if there's a next page
-      const hasNextPage = notes.length > limit;
-      const items = hasNextPage ? notes.slice(0, -1) : notes;
-      const nextCursor = hasNextPage ? items[items.length - 1]?.createdAt?.toISOString() : null;
+        // Fetch notes with relations
+        const notes = await prisma.note.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: limit + 1, // Fetch one extra to determine if there's a next page
+          include: NOTE_LIST_INCLUDE
+        });
+
+        // Determine if there's a next page
+        const hasNextPage = notes.length > limit;
+        items = hasNextPage ? notes.slice(0, -1) : notes;
+        nextCursor = hasNextPage ? items[items.length - 1]?.createdAt?.toISOString() : null;
+      }
 
       // Format response
       const formattedNotes = items.map(note => ({
-        id: note.id,
-        title: note.title || 'Untitled Note',
-        status: note.status,
-        createdAt: note.createdAt.toISOString(),
-        tags: note.tags,
-        transcript: note.transcript ? {
-          id: note.transcript.id,
-          text: note.transcript.text,
-          language: note.transcript.language,
-          confidence: note.transcript.confidence
-        } : null,
-        summary: note.summary ? {
-          id: note.summary.id,
-          tl_dr: note.summary.tlDr,
-          bullets: note.summary.bullets,
-          actions: note.actions.map(action => ({
-            id: action.id,
-            text: action.text,
-            done: action.done,
-            due_suggested: action.dueSuggested?.toISOString(),
-            createdAt: action.createdAt.toISOString()
-          }))
-        } : null,
-        actions: note.actions.map(action => ({
-          id: action.id,
-          text: action.text,
-          done: action.done,
-          due_suggested: action.dueSuggested?.toISOString(),
-          createdAt: action.createdAt.toISOString()
-        }))
+        ...formatNoteListItem(note),
+        search: matches?.has(note.id) ? {
+          rank: matches.get(note.id)!.rank,
+          highlights: matches.get(note.id)!.highlights
+        } : undefined
       }));
 
       return reply.status(200).send({
@@ -133,6 +373,111 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Notes in the trash, most recently deleted first
+  fastify.get('/trash', {
+    preHandler: [authMiddleware, validateQuery(TrashQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { cursor, limit } = request.validatedQuery;
+
+      const notes = await prisma.note.findMany({
+        where: {
+          userId,
+          deletedAt: cursor ? { lt: new Date(cursor) } : { not: null }
+        },
+        orderBy: { deletedAt: 'desc' },
+        take: limit + 1, // Fetch one extra to determine if there's a next page
+        include: NOTE_LIST_INCLUDE
+      });
+
+      const hasNextPage = notes.length > limit;
+      const items = hasNextPage ? notes.slice(0, -1) : notes;
+
+      return reply.status(200).send({
+        items: items.map(note => ({
+          ...formatNoteListItem(note),
+          deletedAt: note.deletedAt!.toISOString(),
+          purgeAt: trashPurgeDate(note.deletedAt!).toISOString()
+        })),
+        cursor: hasNextPage ? items[items.length - 1].deletedAt!.toISOString() : null
+      });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Take a note out of the trash
+  fastify.post('/trash/:id/restore', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      await trashService.restoreNote(userId, id, request.headers['x-correlation-id'] as string);
+
+      const note = await findNoteDetail(id, userId);
+      if (!note) {
+        throw new Error('NOTE_NOT_FOUND');
+      }
+
+      return reply.status(200).send(formatNoteDetail(note));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Delete a note in the trash for good, with its audio
+  fastify.delete('/trash/:id', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      await trashService.deleteNote(userId, id, request.headers['x-correlation-id'] as string);
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Semantic search over transcript passages
+  fastify.get('/search/semantic', {
+    preHandler: [authMiddleware, validateQuery(SemanticSearchQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { q, limit } = request.validatedQuery;
+
+      const matches = await semanticSearchService.search({ userId, query: q, limit });
+
+      const notes = await prisma.note.findMany({
+        where: { id: { in: matches.map(match => match.noteId) }, userId, deletedAt: null },
+        include: NOTE_LIST_INCLUDE
+      });
+      const notesById = new Map(notes.map(note => [note.id, note]));
+
+      const items = matches
+        .filter(match => notesById.has(match.noteId))
+        .map(match => ({
+          note: formatNoteListItem(notesById.get(match.noteId)),
+          score: match.score,
+          passages: match.passages
+        }));
+
+      return reply.status(200).send({ items });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
   // Create a new note
   fastify.post('/', {
     preHandler: [authMiddleware, validateBody(CreateNoteRequestSchema)]
@@ -150,6 +495,8 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         }
       });
 
+      await searchService.indexNote(note.id);
+
       // Create audit event
       await prisma.auditEvent.create({
         data: {
@@ -185,9 +532,13 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
       const { id } = request.validatedParams;
 
       const note = await prisma.note.findFirst({
-        where: { id, userId },
+        where: { id, userId, deletedAt: null },
         include: {
-          transcript: true,
+          transcript: {
+            include: {
+              segments: { orderBy: { position: 'asc' } }
+            }
+          },
           summary: true,
           actions: {
             orderBy: { createdAt: 'asc' }
@@ -200,37 +551,153 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         throw new Error('NOTE_NOT_FOUND');
       }
 
+      return reply.status(200).send(formatNoteDetail(note));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Stream processing events for a note (Server-Sent Events)
+  fastify.get('/:id/events', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      const note = await prisma.note.findFirst({
+        where: { id, userId, deletedAt: null },
+        select: { id: true, status: true }
+      });
+
+      if (!note) {
+        throw new Error('NOTE_NOT_FOUND');
+      }
+
+      // Take over the raw response, keeping headers set by hooks (CORS, correlation ID)
+      reply.hijack();
+      for (const [name, value] of Object.entries(reply.getHeaders())) {
+        if (value !== undefined) {
+          reply.raw.setHeader(name, value);
+        }
+      }
+      reply.raw.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+
+      let closed = false;
+      let lastStatus = note.status;
+      let lastError: string | undefined;
+      let pendingCheck = Promise.resolve();
+
+      const sendEvent = (event: string, data: unknown) => {
+        if (!closed) {
+          reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
+
+      const heartbeat = setInterval(() => {
+        if (!closed) reply.raw.write(': ping\n\n');
+      }, SSE_HEARTBEAT_MS);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        reply.raw.end();
+      };
+
+      // Re-read the note and emit status changes; finish the stream on a terminal status
+      const checkStatus = async () => {
+        if (closed) return;
+
+        const current = await findNoteDetail(id, userId);
+
+        if (!current) {
+          sendEvent('failed', { code: 'NOTE_NOT_FOUND', message: 'Note not found' });
+          return close();
+        }
+
+        if (current.status !== lastStatus) {
+          lastStatus = current.status;
+          sendEvent('status', { id, status: current.status });
+        }
+
+        if (current.status === 'ready') {
+          sendEvent('completed', formatNoteDetail(current));
+          close();
+        } else if (current.status === 'error') {
+          sendEvent('failed', { message: lastError || 'Processing failed' });
+          close();
+        }
+      };
+
+      const scheduleCheck = () => {
+        pendingCheck = pendingCheck.then(checkStatus).catch(error => {
+          request.log.error({ error, noteId: id }, 'Failed to check note status for SSE');
+        });
+      };
+
+      const unsubscribe = noteEventsService.subscribe(id, (event: JobEvent) => {
+        if (event.type === 'progress') {
+          sendEvent('progress', { jobId: event.jobId, stage: event.queueName, progress: event.progress });
+        } else {
+          if (event.error) lastError = event.error;
+          sendEvent('job', { jobId: event.jobId, stage: event.queueName, type: event.type, error: event.error });
+        }
+
+        scheduleCheck();
+      });
+
+      request.raw.on('close', close);
+
+      sendEvent('status', { id, status: note.status });
+      scheduleCheck();
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Get a short-lived URL to play the note audio
+  fastify.get('/:id/audio', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      const note = await prisma.note.findFirst({
+        where: { id, userId, deletedAt: null },
+        include: {
+          media: {
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          }
+        }
+      });
+
+      if (!note) {
+        throw new Error('NOTE_NOT_FOUND');
+      }
+
+      const media = note.media[0];
+      if (!media) {
+        throw new Error('MEDIA_NOT_FOUND');
+      }
+
+      const expiresIn = AUDIO_URL_EXPIRES_IN;
+      const url = await storageService.getSignedUrl(media.storageKey, { expiresIn });
+
       return reply.status(200).send({
-        id: note.id,
-        title: note.title,
-        status: note.status,
-        createdAt: note.createdAt.toISOString(),
-        tags: note.tags,
-        transcript: note.transcript ? {
-          id: note.transcript.id,
-          text: note.transcript.text,
-          language: note.transcript.language,
-          confidence: note.transcript.confidence
-        } : null,
-        summary: note.summary ? {
-          id: note.summary.id,
-          tl_dr: note.summary.tlDr,
-          bullets: note.summary.bullets,
-          actions: note.actions.map(action => ({
-            id: action.id,
-            text: action.text,
-            done: action.done,
-            due_suggested: action.dueSuggested?.toISOString(),
-            createdAt: action.createdAt.toISOString()
-          }))
-        } : null,
-        actions: note.actions.map(action => ({
-          id: action.id,
-          text: action.text,
-          done: action.done,
-          due_suggested: action.dueSuggested?.toISOString(),
-          createdAt: action.createdAt.toISOString()
-        }))
+        url,
+        contentType: media.contentType,
+        expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString()
       });
 
     } catch (error) {
@@ -238,6 +705,28 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Download the note as Markdown, PDF, DOCX or subtitles
+  fastify.get('/:id/export', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateQuery(ExportQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+      const { format } = request.validatedQuery;
+
+      const file = await exportService.exportNote(userId, id, format);
+
+      return reply
+        .status(200)
+        .header('Content-Type', file.contentType)
+        .header('Content-Disposition', `attachment; filename="${file.filename}"`)
+        .send(file.data);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
   // Update a note
   fastify.patch('/:id', {
     preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateBody(UpdateNoteRequestSchema)]
@@ -249,7 +738,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
 
       // Check if note exists and belongs to user
       const existingNote = await prisma.note.findFirst({
-        where: { id, userId }
+        where: { id, userId, deletedAt: null }
       });
 
       if (!existingNote) {
@@ -272,6 +761,10 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         }
       });
 
+      if (title !== undefined) {
+        await searchService.indexNote(id);
+      }
+
       // Create audit event
       await prisma.auditEvent.create({
         data: {
@@ -298,11 +791,15 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
           id: updatedNote.summary.id,
           tl_dr: updatedNote.summary.tlDr,
           bullets: updatedNote.summary.bullets,
+          style: updatedNote.summary.style,
           actions: updatedNote.actions.map(action => ({
             id: action.id,
             text: action.text,
             done: action.done,
             due_suggested: action.dueSuggested?.toISOString(),
+            due_confidence: action.dueConfidence,
+            priority: action.priority,
+            category: action.category,
             createdAt: action.createdAt.toISOString()
           }))
         } : null,
@@ -311,6 +808,9 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
           text: action.text,
           done: action.done,
           due_suggested: action.dueSuggested?.toISOString(),
+          due_confidence: action.dueConfidence,
+          priority: action.priority,
+          category: action.category,
           createdAt: action.createdAt.toISOString()
         }))
       });
@@ -320,7 +820,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Delete a note
+  // Move a note to the trash; it can be restored until the purge
   fastify.delete('/:id', {
     preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
   }, async (request, reply) => {
@@ -328,41 +828,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
       const userId = getUserId(request);
       const { id } = request.validatedParams;
 
-      // Check if note exists and belongs to user
-      const note = await prisma.note.findFirst({
-        where: { id, userId },
-        include: { media: true }
-      });
-
-      if (!note) {
-        throw new Error('NOTE_NOT_FOUND');
-      }
-
-      // Delete associated files from storage
-      if (note.media.length > 0) {
-        await Promise.all(
-          note.media.map(media => 
-            storageService.deleteFile(media.storageKey).catch(error => {
-              console.error(`Failed to delete file ${media.storageKey}:`, error);
-            })
-          )
-        );
-      }
-
-      // Delete note (cascade will delete related records)
-      await prisma.note.delete({
-        where: { id }
-      });
-
-      // Create audit event
-      await prisma.auditEvent.create({
-        data: {
-          type: 'note_deleted',
-          userId,
-          noteId: id,
-          correlationId: request.headers['x-correlation-id'] as string
-        }
-      });
+      await trashService.trashNote(userId, id, request.headers['x-correlation-id'] as string);
 
       return reply.status(204).send();
 
@@ -378,7 +844,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
       validateParams(NoteParamsSchema),
       validateFileUpload({
         maxSize: 25 * 1024 * 1024, // 25MB
-        allowedMimeTypes: ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/ogg']
+        allowedMimeTypes: ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/flac']
       })
     ]
   }, async (request, reply) => {
@@ -389,7 +855,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
 
       // Check if note exists and belongs to user
       const note = await prisma.note.findFirst({
-        where: { id, userId }
+        where: { id, userId, deletedAt: null }
       });
 
       if (!note) {
@@ -402,12 +868,8 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         data: { status: 'uploading' }
       });
 
-      // Convert file stream to buffer
-      const chunks: Buffer[] = [];
-      for await (const chunk of fileData.file) {
-        chunks.push(chunk as Buffer);
-      }
-      const fileBuffer = Buffer.concat(chunks);
+      // Already read by the upload validation to check its content
+      const fileBuffer: Buffer = await fileData.toBuffer();
 
       // Upload to storage
       const uploadResult = await storageService.uploadFile(
@@ -431,6 +893,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
           originalName: fileData.filename,
           size: fileBuffer.length,
           contentType: fileData.mimetype,
+          detectedType: fileData.detectedType,
           storageKey: uploadResult.key,
           storageUrl: uploadResult.url,
           noteId: id
@@ -458,46 +921,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         }
       });
 
-      return reply.status(200).send({
-        media: {
-          id: media.id,
-          filename: media.filename,
-          size: media.size,
-          contentType: media.contentType
-        },
-        note: {
-          id: updatedNote.id,
-          title: updatedNote.title,
-          status: updatedNote.status,
-          createdAt: updatedNote.createdAt.toISOString(),
-          tags: updatedNote.tags,
-          transcript: updatedNote.transcript ? {
-            id: updatedNote.transcript.id,
-            text: updatedNote.transcript.text,
-            language: updatedNote.transcript.language,
-            confidence: updatedNote.transcript.confidence
-          } : null,
-          summary: updatedNote.summary ? {
-            id: updatedNote.summary.id,
-            tl_dr: updatedNote.summary.tlDr,
-            bullets: updatedNote.summary.bullets,
-            actions: updatedNote.actions.map(action => ({
-              id: action.id,
-              text: action.text,
-              done: action.done,
-              due_suggested: action.dueSuggested?.toISOString(),
-              createdAt: action.createdAt.toISOString()
-            }))
-          } : null,
-          actions: updatedNote.actions.map(action => ({
-            id: action.id,
-            text: action.text,
-            done: action.done,
-            due_suggested: action.dueSuggested?.toISOString(),
-            createdAt: action.createdAt.toISOString()
-          }))
-        }
-      });
+      return reply.status(200).send(formatUploadResponse(media, updatedNote));
 
     } catch (error) {
       // Reset note status on error
@@ -513,6 +937,131 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Start a resumable upload
+  fastify.post('/:id/uploads', {
+    preHandler: [
+      authMiddleware,
+      validateParams(NoteParamsSchema),
+      validateBody(CreateUploadSessionRequestSchema)
+    ]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      const session = await uploadService.createSession(userId, id, request.validatedBody);
+
+      return reply.status(201).send(session);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Start an upload straight to storage with a presigned PUT URL
+  fastify.post('/:id/uploads/direct', {
+    preHandler: [
+      authMiddleware,
+      validateParams(NoteParamsSchema),
+      validateBody(CreateUploadSessionRequestSchema)
+    ]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      const upload = await uploadService.createDirectUpload(userId, id, request.validatedBody);
+
+      return reply.status(201).send(upload);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Get a resumable upload, mainly to learn the offset to resume from
+  fastify.get('/:id/uploads/:uploadId', {
+    preHandler: [authMiddleware, validateParams(UploadParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id, uploadId } = request.validatedParams;
+
+      const session = await uploadService.getSession(userId, id, uploadId);
+
+      return reply.status(200).send(session);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Send the chunk that starts at the given offset
+  fastify.put('/:id/uploads/:uploadId', {
+    bodyLimit: UPLOAD_CHUNK_SIZE,
+    preHandler: [
+      authMiddleware,
+      validateParams(UploadParamsSchema),
+      validateQuery(UploadChunkQuerySchema)
+    ]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id, uploadId } = request.validatedParams;
+      const { offset } = request.validatedQuery;
+
+      if (!Buffer.isBuffer(request.body)) {
+        throw new Error('UPLOAD_CHUNK_INVALID');
+      }
+
+      const session = await uploadService.appendChunk(userId, id, uploadId, offset, request.body);
+
+      return reply.status(200).send(session);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Finish an upload once every chunk is in, or once the direct PUT to storage is done
+  fastify.post('/:id/uploads/:uploadId/complete', {
+    preHandler: [authMiddleware, validateParams(UploadParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id, uploadId } = request.validatedParams;
+
+      const { media, note } = await uploadService.completeSession(
+        userId,
+        id,
+        uploadId,
+        request.headers['x-correlation-id'] as string
+      );
+
+      return reply.status(200).send(formatUploadResponse(media, note));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Cancel an upload and discard what reached storage
+  fastify.delete('/:id/uploads/:uploadId', {
+    preHandler: [authMiddleware, validateParams(UploadParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id, uploadId } = request.validatedParams;
+
+      await uploadService.abortSession(userId, id, uploadId);
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
   // Start transcription
   fastify.post('/:id/transcribe', {
     preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
@@ -523,7 +1072,7 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
 
       // Check if note exists and belongs to user
       const note = await prisma.note.findFirst({
-        where: { id, userId },
+        where: { id, userId, deletedAt: null },
         include: { media: true }
       });
 
@@ -542,8 +1091,8 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
       // Get the latest media file
       const media = note.media[note.media.length - 1];
 
-      // Queue transcription job
-      await queueService.addTranscribeJob({
+      // Queue transcription, behind a transcoding step when ffmpeg is in use
+      const jobData = {
         noteId: id,
         mediaId: media.id,
         storageKey: media.storageKey,
@@ -551,7 +1100,12 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         options: {
           language: 'es' // Default to Spanish, can be made configurable
         }
-      });
+      };
+      if (TRANSCODE_ENABLED) {
+        await queueService.addTranscodeJob(jobData);
+      } else {
+        await queueService.addTranscribeJob(jobData);
+      }
 
       // Update note status
       const updatedNote = await prisma.note.update({
@@ -582,15 +1136,16 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Start summarization
   fastify.post('/:id/summarize', {
-    preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateBody(SummarizeNoteRequestSchema.optional())]
   }, async (request, reply) => {
     try {
       const userId = getUserId(request);
       const { id } = request.validatedParams;
+      const { style, templateId, saveAsDefault } = request.validatedBody ?? {};
 
       // Check if note exists and belongs to user
       const note = await prisma.note.findFirst({
-        where: { id, userId },
+        where: { id, userId, deletedAt: null },
         include: { transcript: true }
       });
 
@@ -602,6 +1157,16 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         throw new Error('Note must be transcribed before summarization');
       }
 
+      // Without an explicit style or template the user's saved defaults apply
+      const preferences = await settingsService.resolveSummaryPreferences(userId, { style, templateId });
+
+      if (saveAsDefault && (style || templateId)) {
+        await settingsService.updateSettings(userId, {
+          summaryStyle: style ?? null,
+          promptTemplateId: templateId ?? null
+        });
+      }
+
       // Queue summarization job
       await queueService.addSummarizeJob({
         noteId: id,
@@ -609,7 +1174,8 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
         transcriptText: note.transcript.text,
         userId,
         options: {
-          language: 'español' // Default to Spanish
+          language: 'español', // Default to Spanish
+          ...preferences
         }
       });
 
@@ -645,4 +1211,267 @@ export const notesRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-};
\ No newline at end of file
+  // Edit the transcript text, keeping a revision history
+  fastify.patch('/:id/transcript', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateBody(UpdateTranscriptRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+      const { text, resummarize } = request.validatedBody;
+
+      const note = await prisma.note.findFirst({
+        where: { id, userId, deletedAt: null },
+        include: { transcript: true }
+      });
+
+      if (!note) {
+        throw new Error('NOTE_NOT_FOUND');
+      }
+
+      if (!note.transcript) {
+        throw new Error('TRANSCRIPT_NOT_FOUND');
+      }
+
+      if (text !== note.transcript.text) {
+        const revision = await transcriptService.updateText({
+          transcriptId: note.transcript.id,
+          text,
+          authorId: userId,
+          source: 'edit'
+        });
+
+        await searchService.indexNote(id);
+
+        await prisma.auditEvent.create({
+          data: {
+            type: 'transcript_updated',
+            userId,
+            noteId: id,
+            correlationId: request.headers['x-correlation-id'] as string,
+            metadata: {
+              transcriptId: note.transcript.id,
+              version: revision.version
+            }
+          }
+        });
+      }
+
+      if (resummarize) {
+        await requeueSummarization(id, { id: note.transcript.id, text }, userId);
+      } else {
+        // The summarization job re-embeds the transcript; otherwise refresh the vectors here
+        await refreshEmbeddings(id, request);
+      }
+
+      const updatedNote = await findNoteDetail(id, userId);
+
+      return reply.status(resummarize ? 202 : 200).send(formatNoteDetail(updatedNote));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // List transcript revisions, newest first
+  fastify.get('/:id/transcript/revisions', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      const note = await prisma.note.findFirst({
+        where: { id, userId, deletedAt: null },
+        include: {
+          transcript: {
+            include: {
+              revisions: {
+                orderBy: { version: 'desc' },
+                include: { author: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (!note) {
+        throw new Error('NOTE_NOT_FOUND');
+      }
+
+      if (!note.transcript) {
+        throw new Error('TRANSCRIPT_NOT_FOUND');
+      }
+
+      return reply.status(200).send({
+        items: note.transcript.revisions.map(formatRevision)
+      });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Word-level diff between two transcript revisions
+  fastify.get('/:id/transcript/diff', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateQuery(RevisionDiffQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+      const { from, to } = request.validatedQuery;
+
+      const note = await prisma.note.findFirst({
+        where: { id, userId, deletedAt: null },
+        include: { transcript: true }
+      });
+
+      if (!note) {
+        throw new Error('NOTE_NOT_FOUND');
+      }
+
+      if (!note.transcript) {
+        throw new Error('TRANSCRIPT_NOT_FOUND');
+      }
+
+      // Default to the latest revision against the one before it
+      const latest = await prisma.transcriptRevision.findFirst({
+        where: { transcriptId: note.transcript.id },
+        orderBy: { version: 'desc' }
+      });
+
+      if (!latest) {
+        throw new Error('REVISION_NOT_FOUND');
+      }
+
+      const toVersion = to ?? latest.version;
+      const fromVersion = from ?? Math.max(toVersion - 1, 1);
+
+      const revisions = await prisma.transcriptRevision.findMany({
+        where: {
+          transcriptId: note.transcript.id,
+          version: { in: [fromVersion, toVersion] }
+        }
+      });
+
+      const fromRevision = revisions.find(revision => revision.version === fromVersion);
+      const toRevision = revisions.find(revision => revision.version === toVersion);
+
+      if (!fromRevision || !toRevision) {
+        throw new Error('REVISION_NOT_FOUND');
+      }
+
+      const changes = diffWords(fromRevision.text, toRevision.text);
+
+      return reply.status(200).send({
+        from: fromVersion,
+        to: toVersion,
+        changes,
+        stats: {
+          added: changes
+            .filter(change => change.type === 'insert')
+            .reduce((total, change) => total + tokenize(change.text).length, 0),
+          removed: changes
+            .filter(change => change.type === 'delete')
+            .reduce((total, change) => total + tokenize(change.text).length, 0)
+        }
+      });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Restore the transcript text from a previous revision
+  fastify.post('/:id/transcript/revisions/:revisionId/restore', {
+    preHandler: [
+      authMiddleware,
+      validateParams(RevisionParamsSchema),
+      validateBody(RestoreTranscriptRevisionRequestSchema.default({}))
+    ]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id, revisionId } = request.validatedParams;
+      const { resummarize } = request.validatedBody;
+
+      const note = await prisma.note.findFirst({
+        where: { id, userId, deletedAt: null },
+        include: { transcript: true }
+      });
+
+      if (!note) {
+        throw new Error('NOTE_NOT_FOUND');
+      }
+
+      if (!note.transcript) {
+        throw new Error('TRANSCRIPT_NOT_FOUND');
+      }
+
+      const revision = await prisma.transcriptRevision.findFirst({
+        where: { id: revisionId, transcriptId: note.transcript.id }
+      });
+
+      if (!revision) {
+        throw new Error('REVISION_NOT_FOUND');
+      }
+
+      const restored = await transcriptService.updateText({
+        transcriptId: note.transcript.id,
+        text: revision.text,
+        authorId: userId,
+        source: 'restore',
+        restoredFromVersion: revision.version
+      });
+
+      await searchService.indexNote(id);
+
+      await prisma.auditEvent.create({
+        data: {
+          type: 'transcript_restored',
+          userId,
+          noteId: id,
+          correlationId: request.headers['x-correlation-id'] as string,
+          metadata: {
+            transcriptId: note.transcript.id,
+            version: restored.version,
+            restoredFromVersion: revision.version
+          }
+        }
+      });
+
+      if (resummarize) {
+        await requeueSummarization(id, { id: note.transcript.id, text: revision.text }, userId);
+      } else {
+        // The summarization job re-embeds the transcript; otherwise refresh the vectors here
+        await refreshEmbeddings(id, request);
+      }
+
+      const updatedNote = await findNoteDetail(id, userId);
+
+      return reply.status(resummarize ? 202 : 200).send(formatNoteDetail(updatedNote));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Ask a question about a note's transcript
+  fastify.post('/:id/ask', {
+    preHandler: [authMiddleware, validateParams(NoteParamsSchema), validateBody(AskRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+      const { question } = request.validatedBody;
+
+      const result = await askService.askNote({ noteId: id, userId, question });
+
+      return reply.status(200).send(result);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+};
@@ -0,0 +1,146 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import {
+  UpdateUserSettingsRequestSchema,
+  CreatePromptTemplateRequestSchema,
+  UpdatePromptTemplateRequestSchema,
+  UnsubscribeRequestSchema
+} from '@notas-voz/schemas';
+import {
+  validateBody,
+  validateParams,
+  handleApiError
+} from '../middleware/validation.middleware.js';
+import { authMiddleware, getUserId } from '../middleware/auth.middleware.js';
+import { settingsService } from '../services/settings.service.js';
+import { notificationService } from '../services/notifications.service.js';
+
+const TemplateParamsSchema = z.object({
+  id: z.string()
+});
+
+function formatTemplate(template: any) {
+  return {
+    id: template.id,
+    name: template.name,
+    prompt: template.prompt,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString()
+  };
+}
+
+export const settingsRoutes: FastifyPluginAsync = async (fastify) => {
+
+  // Get the user's settings
+  fastify.get('/', {
+    preHandler: [authMiddleware]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      return reply.send(await settingsService.getSettings(userId));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Update the user's settings
+  fastify.patch('/', {
+    preHandler: [authMiddleware, validateBody(UpdateUserSettingsRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const settings = await settingsService.updateSettings(userId, request.validatedBody);
+
+      return reply.send(settings);
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Turn off reminder or digest emails from an email link, without signing in
+  fastify.post('/unsubscribe', {
+    preHandler: [validateBody(UnsubscribeRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const { token, list } = request.validatedBody;
+
+      await notificationService.unsubscribe(token, list);
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // List saved prompt templates
+  fastify.get('/prompt-templates', {
+    preHandler: [authMiddleware]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const templates = await settingsService.listTemplates(userId);
+
+      return reply.send({ items: templates.map(formatTemplate) });
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Save a new prompt template
+  fastify.post('/prompt-templates', {
+    preHandler: [authMiddleware, validateBody(CreatePromptTemplateRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+
+      const template = await settingsService.createTemplate(userId, request.validatedBody);
+
+      return reply.status(201).send(formatTemplate(template));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Update a prompt template
+  fastify.patch('/prompt-templates/:id', {
+    preHandler: [authMiddleware, validateParams(TemplateParamsSchema), validateBody(UpdatePromptTemplateRequestSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      const template = await settingsService.updateTemplate(userId, id, request.validatedBody);
+
+      return reply.send(formatTemplate(template));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Delete a prompt template
+  fastify.delete('/prompt-templates/:id', {
+    preHandler: [authMiddleware, validateParams(TemplateParamsSchema)]
+  }, async (request, reply) => {
+    try {
+      const userId = getUserId(request);
+      const { id } = request.validatedParams;
+
+      await settingsService.deleteTemplate(userId, id);
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+};
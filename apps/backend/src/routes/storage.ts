@@ -0,0 +1,83 @@
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import type { Readable } from 'stream';
+import { validateQuery, handleApiError } from '../middleware/validation.middleware.js';
+import { defaultStorageDriver, LocalStorageDriver, SignedUrlMethod } from '../services/storage.js';
+
+// Signed URLs carry their own auth, like S3 presigned URLs
+const SignedUrlQuerySchema = z.object({
+  expires: z.coerce.number().int(),
+  signature: z.string().min(1)
+});
+
+/**
+ * Key of the request, once its signature checks out
+ */
+function verifiedKey(request: FastifyRequest, method: SignedUrlMethod, contentType?: string): string {
+  const key = (request.params as { '*': string })['*'];
+  const { expires, signature } = request.validatedQuery;
+  const storageDriver = defaultStorageDriver();
+
+  if (!(storageDriver instanceof LocalStorageDriver)
+    || !storageDriver.verifySignature(method, key, expires, signature, contentType)) {
+    throw new Error('SIGNED_URL_INVALID');
+  }
+
+  return key;
+}
+
+// Serves the signed URLs of the local storage driver; only registered when STORAGE_DRIVER=local
+export const storageRoutes: FastifyPluginAsync = async (fastify) => {
+
+  // Uploads are raw file bytes of any type; stream them to disk instead of buffering
+  fastify.removeAllContentTypeParsers();
+  fastify.addContentTypeParser('*', (request, payload, done) => {
+    done(null, payload);
+  });
+
+  // Download a file
+  fastify.get('/*', {
+    preHandler: [validateQuery(SignedUrlQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const key = verifiedKey(request, 'GET');
+      const storageDriver = defaultStorageDriver();
+
+      const file = await storageDriver.headObject(key).catch(() => {
+        throw new Error('MEDIA_NOT_FOUND');
+      });
+
+      return reply
+        .status(200)
+        .header('Content-Type', file.contentType)
+        .header('Content-Length', file.size)
+        .header('ETag', file.etag)
+        // The frontend plays audio from another origin
+        .header('Cross-Origin-Resource-Policy', 'cross-origin')
+        .send(await storageDriver.getObjectStream(key));
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+
+  // Upload a file to a signed PUT URL
+  fastify.put('/*', {
+    preHandler: [validateQuery(SignedUrlQuerySchema)]
+  }, async (request, reply) => {
+    try {
+      const contentType = request.headers['content-type'] || '';
+      const key = verifiedKey(request, 'PUT', contentType);
+
+      const result = await defaultStorageDriver().putObject(key, request.body as Readable, contentType);
+
+      return reply
+        .status(200)
+        .header('ETag', result.etag)
+        .send();
+
+    } catch (error) {
+      return handleApiError(error, request, reply);
+    }
+  });
+};
@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import { nanoid } from 'nanoid';
+import { searchService } from '../services/search.service.js';
+import { semanticSearchService } from '../services/semantic-search.service.js';
 
 const prisma = new PrismaClient();
 
@@ -65,6 +67,14 @@ async function main() {
           language: 'es',
           confidence: 0.95,
           provider: 'mock',
+          segments: {
+            create: [
+              { position: 0, start: 0, end: 6.4, text: 'Buenos días equipo. Hoy vamos a revisar el progreso del MVP y definir las próximas tareas.', confidence: 0.96 },
+              { position: 1, start: 6.4, end: 11.2, text: 'Primero, necesitamos completar la documentación técnica para el viernes.', confidence: 0.95 },
+              { position: 2, start: 11.2, end: 16.5, text: 'Segundo, el equipo de QA debe revisar los casos de prueba antes del lunes.', confidence: 0.94 },
+              { position: 3, start: 16.5, end: 22.8, text: 'Tercero, debemos coordinar con el equipo de diseño para los ajustes finales de la interfaz.', confidence: 0.95 },
+            ],
+          },
         },
       },
       summary: {
@@ -84,18 +94,24 @@ async function main() {
             text: 'Completar documentación técnica del MVP',
             done: false,
             dueSuggested: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // 3 days from now
+            priority: 'high',
+            category: 'documentación',
             userId: testUser.id,
           },
           {
             text: 'Revisar casos de prueba con equipo QA',
             done: false,
             dueSuggested: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000), // 5 days from now
+            priority: 'medium',
+            category: 'calidad',
             userId: testUser.id,
           },
           {
             text: 'Coordinar ajustes de UI con diseño',
             done: false,
             dueSuggested: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
+            priority: 'low',
+            category: 'diseño',
             userId: testUser.id,
           },
         ],
@@ -205,6 +221,10 @@ async function main() {
   });
 
   console.log('✅ Created sample notes and data');
+
+  // Index the sample notes for full-text search
+  await searchService.ensureSearchIndex();
+  await semanticSearchService.indexNote(note1.id);
   
   // Log summary
   const userCount = await prisma.user.count();
@@ -0,0 +1,204 @@
+import bcrypt from 'bcryptjs';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { storageService } from './storage.service.js';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between the request and the purge; 0 purges on the next scheduler run
+const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10);
+
+// How often the scheduler looks for accounts past their grace period
+const PURGE_INTERVAL_MS = parseInt(process.env.ACCOUNT_PURGE_INTERVAL_MS || '3600000', 10);
+
+export function deletionDate(requestedAt: Date, graceDays = DELETION_GRACE_DAYS): Date {
+  return new Date(requestedAt.getTime() + graceDays * DAY_MS);
+}
+
+/**
+ * Storage folders that only hold files of one user
+ */
+export function userStorageFolders(userId: string): string[] {
+  return [`audio/${userId}`, `exports/${userId}`];
+}
+
+/**
+ * Account deletion: scheduled on request, cancelled by logging in during the
+ * grace period and purged afterwards by a scheduler in the worker process
+ */
+export class AccountDeletionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(intervalMs = PURGE_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.runOnce(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.purgeDueAccounts(now);
+    } catch (error) {
+      console.error('❌ Account purge run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Schedule the deletion after checking the password again. Asking again
+   * while a deletion is pending keeps the original date.
+   */
+  async scheduleDeletion(userId: string, password: string, correlationId?: string): Promise<Date> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      throw new Error('AUTH_INVALID_CREDENTIALS');
+    }
+
+    if (user.deletionScheduledAt) {
+      return user.deletionScheduledAt;
+    }
+
+    const deletionScheduledAt = deletionDate(new Date());
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { deletionScheduledAt }
+    });
+
+    await prisma.auditEvent.create({
+      data: {
+        type: 'account_deletion_scheduled',
+        userId,
+        correlationId: correlationId || nanoid(),
+        metadata: { deletionScheduledAt: deletionScheduledAt.toISOString() }
+      }
+    });
+
+    return deletionScheduledAt;
+  }
+
+  /**
+   * Cancel a pending deletion. Returns whether there was one.
+   */
+  async cancelDeletion(userId: string): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, deletionScheduledAt: { not: null } },
+      data: { deletionScheduledAt: null }
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await prisma.auditEvent.create({
+      data: {
+        type: 'account_deletion_cancelled',
+        userId,
+        correlationId: nanoid(),
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Purge every account past its grace period. Returns the number purged;
+   * an account that fails is retried on the next run.
+   */
+  async purgeDueAccounts(now = new Date()): Promise<number> {
+    const users = await prisma.user.findMany({
+      where: { deletionScheduledAt: { lte: now } },
+      select: { id: true }
+    });
+
+    let purged = 0;
+    for (const user of users) {
+      try {
+        await this.purgeAccount(user.id);
+        purged++;
+      } catch (error) {
+        console.error(`❌ Failed to purge account ${user.id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Delete the user's files, anonymize their audit trail and delete the user;
+   * everything else they own goes with it through cascading deletes
+   */
+  async purgeAccount(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return;
+    }
+
+    // Files go first, so a storage failure leaves the account to retry
+    const folders = userStorageFolders(userId);
+    let files = 0;
+    for (const folder of folders) {
+      files += await storageService.deleteFolder(folder);
+    }
+
+    // Media stored outside the user's folders, such as older uploads
+    const media = await prisma.media.findMany({
+      where: { note: { userId } },
+      select: { storageKey: true }
+    });
+    for (const { storageKey } of media) {
+      if (!folders.some(folder => storageKey.startsWith(`${folder}/`))) {
+        await storageService.deleteFile(storageKey);
+        files++;
+      }
+    }
+
+    // Events stay for auditing, without anything that points back to the person.
+    // Failed logins and reset requests only carry the email in their metadata.
+    const [anonymized] = await prisma.$transaction([
+      prisma.auditEvent.updateMany({
+        where: {
+          OR: [
+            { userId },
+            { metadata: { path: ['email'], equals: user.email.toLowerCase() } }
+          ]
+        },
+        data: { userId: null, ipAddress: null, userAgent: null, metadata: Prisma.DbNull }
+      }),
+      prisma.user.delete({
+        where: { id: userId }
+      }),
+    ]);
+
+    await prisma.auditEvent.create({
+      data: {
+        type: 'account_deleted',
+        correlationId: nanoid(),
+        metadata: { files, anonymizedEvents: anonymized.count }
+      }
+    });
+
+    console.log(`🗑️ Purged account ${userId} (${files} files)`);
+  }
+}
+
+export const accountDeletionService = new AccountDeletionService();
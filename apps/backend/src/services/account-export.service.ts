@@ -0,0 +1,579 @@
+import { PrismaClient, type AccountExport as AccountExportRecord } from '@prisma/client';
+import type { Readable } from 'stream';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import {
+  ActionPrioritySchema,
+  NoteStatusSchema,
+  SummaryStyleSchema,
+  type AccountExport,
+  type AccountImportResponse,
+} from '@notas-voz/schemas';
+import { buildNoteDocument } from './export/document.js';
+import { exportSlug } from './export/index.js';
+import { renderMarkdown } from './export/markdown.js';
+import { createZipStream, readZip, type ZipStreamEntry } from './export/zip.js';
+import { getQueueService } from './queue.service.js';
+import { settingsService } from './settings.service.js';
+import { storageService } from './storage.service.js';
+import { searchService } from './search.service.js';
+import { semanticSearchService } from './semantic-search.service.js';
+
+const prisma = new PrismaClient();
+
+export const ARCHIVE_FORMAT = 'notas-voz-export';
+export const ARCHIVE_VERSION = 1;
+
+const EXPORT_TTL_DAYS = parseInt(process.env.ACCOUNT_EXPORT_TTL_DAYS || '7');
+const DOWNLOAD_URL_TTL = 60 * 60; // 1 hour
+
+// Audio barely compresses, so a real archive extracts to little more than its upload size
+const IMPORT_MAX_EXTRACTED_SIZE = parseInt(process.env.ACCOUNT_IMPORT_MAX_EXTRACTED_MB || '400') * 1024 * 1024;
+
+// Processing can't resume after an import, so in-flight notes come back as failed
+const IN_FLIGHT_STATUSES = ['uploading', 'transcribing', 'summarizing'];
+
+// note.json inside the archive. Dates are ISO strings; IDs are only kept for reference.
+const ArchiveNoteSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  status: NoteStatusSchema,
+  tags: z.array(z.string()),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  transcript: z.object({
+    text: z.string(),
+    language: z.string(),
+    confidence: z.number(),
+    provider: z.string(),
+    createdAt: z.string().datetime(),
+    segments: z.array(z.object({
+      start: z.number(),
+      end: z.number(),
+      text: z.string(),
+      confidence: z.number().nullable(),
+    })),
+    revisions: z.array(z.object({
+      version: z.number().int(),
+      text: z.string(),
+      source: z.string(),
+      restoredFromVersion: z.number().int().nullable(),
+      createdAt: z.string().datetime(),
+    })),
+  }).nullable(),
+  summary: z.object({
+    tlDr: z.string(),
+    bullets: z.array(z.string()),
+    provider: z.string(),
+    style: SummaryStyleSchema.nullable(),
+    createdAt: z.string().datetime(),
+  }).nullable(),
+  actions: z.array(z.object({
+    text: z.string(),
+    done: z.boolean(),
+    dueSuggested: z.string().datetime().nullable(),
+    dueConfidence: z.number().nullable(),
+    priority: ActionPrioritySchema,
+    category: z.string().nullable(),
+    createdAt: z.string().datetime(),
+  })),
+  media: z.array(z.object({
+    filename: z.string(),
+    originalName: z.string().nullable(),
+    size: z.number().int(),
+    contentType: z.string(),
+    path: z.string(), // Audio file inside the archive
+  })),
+});
+
+const ArchiveManifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().min(1).max(ARCHIVE_VERSION),
+  exportedAt: z.string().datetime(),
+  account: z.object({ email: z.string() }),
+  counts: z.object({
+    notes: z.number().int(),
+    transcripts: z.number().int(),
+    summaries: z.number().int(),
+    actions: z.number().int(),
+    media: z.number().int(),
+  }),
+  tags: z.array(z.string()),
+  notes: z.array(z.object({
+    id: z.string(),
+    title: z.string().nullable(),
+    path: z.string(), // Folder with note.json, note.md and the audio
+  })),
+});
+
+export type ArchiveNote = z.infer<typeof ArchiveNoteSchema>;
+export type ArchiveManifest = z.infer<typeof ArchiveManifestSchema>;
+
+// Note as loaded from the database, with everything that goes into the archive
+export interface AccountNote {
+  id: string;
+  title: string | null;
+  status: ArchiveNote['status'];
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  transcript: {
+    text: string;
+    language: string;
+    confidence: number;
+    provider: string;
+    createdAt: Date;
+    segments: Array<{ start: number; end: number; text: string; confidence: number | null }>;
+    revisions: Array<{ version: number; text: string; source: string; restoredFromVersion: number | null; createdAt: Date }>;
+  } | null;
+  summary: {
+    tlDr: string;
+    bullets: string[];
+    provider: string;
+    style: NonNullable<ArchiveNote['summary']>['style'];
+    createdAt: Date;
+  } | null;
+  actions: Array<{
+    text: string;
+    done: boolean;
+    dueSuggested: Date | null;
+    dueConfidence: number | null;
+    priority: ArchiveNote['actions'][number]['priority'];
+    category: string | null;
+    createdAt: Date;
+  }>;
+  media: Array<{ id: string; filename: string; originalName: string | null; size: number; contentType: string }>;
+}
+
+function toArchiveNote(note: AccountNote, folder: string): ArchiveNote {
+  return {
+    id: note.id,
+    title: note.title,
+    status: note.status,
+    tags: note.tags,
+    createdAt: note.createdAt.toISOString(),
+    updatedAt: note.updatedAt.toISOString(),
+    transcript: note.transcript && {
+      text: note.transcript.text,
+      language: note.transcript.language,
+      confidence: note.transcript.confidence,
+      provider: note.transcript.provider,
+      createdAt: note.transcript.createdAt.toISOString(),
+      segments: note.transcript.segments.map(({ start, end, text, confidence }) => ({ start, end, text, confidence })),
+      revisions: note.transcript.revisions.map(revision => ({
+        version: revision.version,
+        text: revision.text,
+        source: revision.source,
+        restoredFromVersion: revision.restoredFromVersion,
+        createdAt: revision.createdAt.toISOString(),
+      })),
+    },
+    summary: note.summary && {
+      tlDr: note.summary.tlDr,
+      bullets: note.summary.bullets,
+      provider: note.summary.provider,
+      style: note.summary.style,
+      createdAt: note.summary.createdAt.toISOString(),
+    },
+    actions: note.actions.map(action => ({
+      text: action.text,
+      done: action.done,
+      dueSuggested: action.dueSuggested?.toISOString() ?? null,
+      dueConfidence: action.dueConfidence,
+      priority: action.priority,
+      category: action.category,
+      createdAt: action.createdAt.toISOString(),
+    })),
+    media: note.media.map(media => ({
+      filename: media.filename,
+      originalName: media.originalName,
+      size: media.size,
+      contentType: media.contentType,
+      path: `${folder}/audio/${media.filename}`,
+    })),
+  };
+}
+
+/**
+ * ZIP with a manifest plus, for each note, its data as JSON, a Markdown
+ * rendering and the original audio files. The archive is streamed and each
+ * audio file is only opened when its turn comes, so memory stays flat
+ * however much audio the account holds.
+ */
+export function buildAccountArchive(
+  account: { email: string },
+  notes: AccountNote[],
+  openAudio: (media: AccountNote['media'][number]) => Promise<Readable>,
+  timezone: string,
+  exportedAt: Date = new Date()
+): Readable {
+  const entries: ZipStreamEntry[] = [];
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    account: { email: account.email },
+    counts: {
+      notes: notes.length,
+      transcripts: notes.filter(note => note.transcript).length,
+      summaries: notes.filter(note => note.summary).length,
+      actions: notes.reduce((sum, note) => sum + note.actions.length, 0),
+      media: notes.reduce((sum, note) => sum + note.media.length, 0),
+    },
+    tags: [...new Set(notes.flatMap(note => note.tags))].sort(),
+    notes: [],
+  };
+
+  for (const note of notes) {
+    const folder = `notes/${exportSlug(note.title)}-${note.id}`;
+    const archiveNote = toArchiveNote(note, folder);
+
+    manifest.notes.push({ id: note.id, title: note.title, path: folder });
+    entries.push(
+      { name: `${folder}/note.json`, data: JSON.stringify(archiveNote, null, 2) },
+      { name: `${folder}/note.md`, data: renderMarkdown(buildNoteDocument(note, timezone)) }
+    );
+
+    note.media.forEach((media, index) => {
+      entries.push({ name: archiveNote.media[index].path, data: () => openAudio(media) });
+    });
+  }
+
+  return createZipStream([{ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) }, ...entries], exportedAt);
+}
+
+/**
+ * Read and validate an account archive. Any missing or malformed part
+ * throws IMPORT_ARCHIVE_INVALID before anything is written.
+ */
+export function parseAccountArchive(archive: Buffer): {
+  manifest: ArchiveManifest;
+  notes: ArchiveNote[];
+  files: Map<string, Buffer>;
+} {
+  const files = new Map<string, Buffer>();
+  for (const entry of readZip(archive, IMPORT_MAX_EXTRACTED_SIZE)) {
+    files.set(entry.name, entry.data as Buffer);
+  }
+
+  const readJson = <T>(name: string, schema: z.ZodType<T>): T => {
+    const data = files.get(name);
+    if (!data) {
+      throw new Error('IMPORT_ARCHIVE_INVALID');
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString('utf8'));
+    } catch {
+      throw new Error('IMPORT_ARCHIVE_INVALID');
+    }
+
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      throw new Error('IMPORT_ARCHIVE_INVALID');
+    }
+    return result.data;
+  };
+
+  const manifest = readJson('manifest.json', ArchiveManifestSchema);
+  const notes = manifest.notes.map(entry => readJson(`${entry.path}/note.json`, ArchiveNoteSchema));
+
+  for (const note of notes) {
+    if (note.media.some(media => !files.has(media.path))) {
+      throw new Error('IMPORT_ARCHIVE_INVALID');
+    }
+  }
+
+  return { manifest, notes, files };
+}
+
+/**
+ * Asynchronous export of everything in an account, and import of those
+ * archives into another account (or another instance) with new IDs
+ */
+export class AccountExportService {
+  async requestExport(userId: string): Promise<AccountExport> {
+    // Asking again while an export is running returns that export
+    const running = await prisma.accountExport.findFirst({
+      where: { userId, status: { in: ['pending', 'processing', 'retrying'] } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (running) {
+      return this.serialize(running);
+    }
+
+    const record = await prisma.accountExport.create({
+      data: { userId }
+    });
+
+    await getQueueService().addExportJob({ exportId: record.id, userId });
+
+    return this.serialize(record);
+  }
+
+  async listExports(userId: string): Promise<AccountExport[]> {
+    const records = await prisma.accountExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 10
+    });
+
+    return Promise.all(records.map(record => this.serialize(record)));
+  }
+
+  async getExport(userId: string, exportId: string): Promise<AccountExport> {
+    const record = await prisma.accountExport.findFirst({
+      where: { id: exportId, userId }
+    });
+
+    if (!record) {
+      throw new Error('EXPORT_NOT_FOUND');
+    }
+
+    return this.serialize(record);
+  }
+
+  /**
+   * Build the archive and store it. Runs in the export worker; only the
+   * newest archive of an account is kept in storage.
+   */
+  async processExport(exportId: string): Promise<void> {
+    const record = await prisma.accountExport.findUnique({
+      where: { id: exportId },
+      include: { user: { select: { email: true } } }
+    });
+
+    if (!record) {
+      return; // The account was deleted while the job waited
+    }
+
+    const { userId } = record;
+
+    await prisma.accountExport.update({
+      where: { id: exportId },
+      data: { status: 'processing', error: null }
+    });
+
+    try {
+      const notes = await prisma.note.findMany({
+        where: { userId, deletedAt: null },
+        include: {
+          transcript: {
+            include: {
+              segments: { orderBy: { position: 'asc' } },
+              revisions: { orderBy: { version: 'asc' } }
+            }
+          },
+          summary: true,
+          actions: { orderBy: { createdAt: 'asc' } },
+          media: { orderBy: { createdAt: 'asc' } }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      const timezone = await settingsService.getTimezone(userId);
+      const now = new Date();
+      const mediaKeys = new Map(notes.flatMap(note => note.media.map(media => [media.id, media.storageKey])));
+
+      // Audio streams from storage into the archive, and the archive to storage
+      const archive = buildAccountArchive(
+        record.user,
+        notes,
+        media => storageService.getFileStream(mediaKeys.get(media.id)!),
+        timezone,
+        now
+      );
+
+      const upload = await storageService.uploadStream(
+        archive,
+        storageService.generateKey(`notas-voz-${now.toISOString().slice(0, 10)}.zip`, `exports/${userId}`),
+        'application/zip',
+        { metadata: { exportId, userId } }
+      );
+
+      await this.deletePreviousArchives(userId, exportId);
+
+      await prisma.accountExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'completed',
+          storageKey: upload.key,
+          size: upload.size,
+          completedAt: now,
+          expiresAt: new Date(now.getTime() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000)
+        }
+      });
+
+      await prisma.auditEvent.create({
+        data: {
+          type: 'account_exported',
+          userId,
+          correlationId: nanoid(),
+          metadata: { exportId, notes: notes.length, size: upload.size }
+        }
+      });
+    } catch (error) {
+      await prisma.accountExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Restore an archive into the account. Every record gets a new ID; the
+   * returned map links the note IDs in the archive to the new ones. The audio
+   * is uploaded first and the notes are created in one transaction, so a
+   * failure leaves nothing behind and the import can simply be retried.
+   */
+  async importArchive(userId: string, archive: Buffer, correlationId?: string): Promise<AccountImportResponse> {
+    const { notes, files } = parseAccountArchive(archive);
+    const uploads: Array<{ key: string; url: string }> = [];
+
+    let created: Array<{ id: string }>;
+    try {
+      for (const item of notes.flatMap(note => note.media)) {
+        uploads.push(await storageService.uploadFile(files.get(item.path)!, item.originalName || item.filename, {
+          contentType: item.contentType,
+          folder: `audio/${userId}`,
+          metadata: { userId, importedAt: new Date().toISOString() }
+        }));
+      }
+
+      // Uploads are in note order, so each note's follow the previous note's
+      let first = 0;
+      created = await prisma.$transaction(notes.map(note => {
+        const noteUploads = uploads.slice(first, first + note.media.length);
+        first += note.media.length;
+
+        return prisma.note.create({
+          data: {
+            title: note.title,
+            status: IN_FLIGHT_STATUSES.includes(note.status) ? 'error' : note.status,
+            tags: note.tags,
+            createdAt: new Date(note.createdAt),
+            userId,
+            transcript: note.transcript ? {
+              create: {
+                text: note.transcript.text,
+                language: note.transcript.language,
+                confidence: note.transcript.confidence,
+                provider: note.transcript.provider,
+                createdAt: new Date(note.transcript.createdAt),
+                segments: {
+                  create: note.transcript.segments.map((segment, position) => ({ position, ...segment }))
+                },
+                revisions: {
+                  create: note.transcript.revisions.map(revision => ({
+                    ...revision,
+                    authorId: revision.source === 'stt' ? null : userId,
+                    createdAt: new Date(revision.createdAt)
+                  }))
+                }
+              }
+            } : undefined,
+            summary: note.summary ? {
+              create: { ...note.summary, createdAt: new Date(note.summary.createdAt) }
+            } : undefined,
+            actions: {
+              create: note.actions.map(action => ({
+                ...action,
+                dueSuggested: action.dueSuggested ? new Date(action.dueSuggested) : null,
+                createdAt: new Date(action.createdAt),
+                userId
+              }))
+            },
+            media: {
+              create: note.media.map((item, index) => ({
+                filename: noteUploads[index].key.split('/').pop() || item.filename,
+                originalName: item.originalName,
+                size: item.size,
+                contentType: item.contentType,
+                storageKey: noteUploads[index].key,
+                storageUrl: noteUploads[index].url
+              }))
+            }
+          },
+          select: { id: true }
+        });
+      }));
+    } catch (error) {
+      await Promise.all(uploads.map(upload => storageService.deleteFile(upload.key).catch(() => undefined)));
+      throw error;
+    }
+
+    const idMap: Record<string, string> = {};
+    notes.forEach((note, index) => {
+      idMap[note.id] = created[index].id;
+    });
+
+    for (const { id } of created) {
+      await searchService.indexNote(id);
+
+      // Embeddings can be rebuilt later; a provider failure doesn't fail the import
+      try {
+        await semanticSearchService.indexNote(id);
+      } catch (error) {
+        console.error(`⚠️ Embedding failed for imported note ${id}:`, error);
+      }
+    }
+
+    const actions = notes.reduce((sum, note) => sum + note.actions.length, 0);
+    const media = uploads.length;
+
+    await prisma.auditEvent.create({
+      data: {
+        type: 'account_imported',
+        userId,
+        correlationId,
+        metadata: { notes: notes.length, actions, media }
+      }
+    });
+
+    return { notes: notes.length, actions, media, idMap };
+  }
+
+  private async deletePreviousArchives(userId: string, exportId: string): Promise<void> {
+    const previous = await prisma.accountExport.findMany({
+      where: { userId, id: { not: exportId }, storageKey: { not: null } }
+    });
+
+    for (const record of previous) {
+      await storageService.deleteFile(record.storageKey!).catch(error => {
+        console.error(`Failed to delete export ${record.storageKey}:`, error);
+      });
+    }
+
+    if (previous.length > 0) {
+      await prisma.accountExport.updateMany({
+        where: { id: { in: previous.map(record => record.id) } },
+        data: { storageKey: null }
+      });
+    }
+  }
+
+  private async serialize(record: AccountExportRecord): Promise<AccountExport> {
+    const available = record.storageKey !== null && record.expiresAt !== null && record.expiresAt > new Date();
+
+    return {
+      id: record.id,
+      // Retries are an internal detail; the export is still running
+      status: record.status === 'retrying' ? 'processing' : record.status,
+      size: record.size,
+      error: record.error,
+      url: available ? await storageService.getSignedUrl(record.storageKey!, { expiresIn: DOWNLOAD_URL_TTL }) : null,
+      createdAt: record.createdAt.toISOString(),
+      completedAt: record.completedAt?.toISOString() ?? null,
+      expiresAt: record.expiresAt?.toISOString() ?? null,
+    };
+  }
+}
+
+export const accountExportService = new AccountExportService();
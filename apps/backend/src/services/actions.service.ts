@@ -0,0 +1,222 @@
+import { PrismaClient, type Action } from '@prisma/client';
+import type { ActionPriority, ActionSort } from '@notas-voz/schemas';
+
+const prisma = new PrismaClient();
+
+// Same order as the ActionPriority enum, which Postgres sorts by
+const PRIORITY_ORDER: ActionPriority[] = ['low', 'medium', 'high'];
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export interface ActionFilters {
+  priority?: ActionPriority;
+  category?: string;
+  done?: boolean;
+  overdue?: boolean;
+  dueFrom?: Date;
+  dueTo?: Date;
+  tag?: string;   // Tag of the parent note
+  sort?: ActionSort;
+  order?: 'asc' | 'desc';
+}
+
+type SortField = 'priority' | 'dueSuggested' | 'createdAt' | 'id';
+type CursorValue = string | null;
+
+interface SortKey {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Prisma filter for an action listing; categories match regardless of case.
+ * Overdue actions are open ones whose due date has passed. Actions of notes
+ * in the trash are left out.
+ */
+export function buildActionWhere(userId: string, filters: ActionFilters, now = new Date()) {
+  const dueRange = {
+    ...(filters.dueFrom && { gte: filters.dueFrom }),
+    ...(filters.dueTo && { lte: filters.dueTo }),
+  };
+
+  return {
+    userId,
+    ...(filters.priority && { priority: filters.priority }),
+    ...(filters.category && { category: { equals: filters.category, mode: 'insensitive' as const } }),
+    ...(filters.done !== undefined && { done: filters.done }),
+    note: { deletedAt: null, ...(filters.tag && { tags: { has: filters.tag } }) },
+    ...(Object.keys(dueRange).length > 0 && { dueSuggested: dueRange }),
+    ...(filters.overdue === true && { AND: [{ done: false }, { dueSuggested: { lt: now } }] }),
+    ...(filters.overdue === false && {
+      OR: [{ done: true }, { dueSuggested: null }, { dueSuggested: { gte: now } }]
+    }),
+  };
+}
+
+/**
+ * Keys an action listing is sorted by, ending in the id so the order is total.
+ * Priority sorts high first unless an order is given.
+ */
+function sortKeys(filters: ActionFilters): SortKey[] {
+  switch (filters.sort) {
+    case 'priority':
+      return [
+        { field: 'priority', direction: filters.order ?? 'desc' },
+        { field: 'createdAt', direction: 'asc' },
+        { field: 'id', direction: 'asc' },
+      ];
+    case 'due':
+      return [
+        { field: 'dueSuggested', direction: filters.order ?? 'asc' },
+        { field: 'createdAt', direction: 'asc' },
+        { field: 'id', direction: 'asc' },
+      ];
+    default:
+      return [
+        { field: 'createdAt', direction: filters.order ?? 'asc' },
+        { field: 'id', direction: filters.order ?? 'asc' },
+      ];
+  }
+}
+
+/**
+ * Prisma ordering for an action listing; actions without a due date always go last
+ */
+export function buildActionOrderBy(filters: ActionFilters) {
+  return sortKeys(filters).map(({ field, direction }) => {
+    switch (field) {
+      case 'priority':
+        return { priority: direction };
+      case 'dueSuggested':
+        return { dueSuggested: { sort: direction, nulls: 'last' as const } };
+      case 'createdAt':
+        return { createdAt: direction };
+      case 'id':
+        return { id: direction };
+    }
+  });
+}
+
+// The fields of an action the sort keys read
+type SortableAction = Pick<Action, 'createdAt' | 'dueSuggested' | 'priority' | 'id'>;
+
+function sortValue(action: SortableAction, field: SortField): CursorValue {
+  const value = action[field];
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+function equalTo(field: SortField, value: CursorValue) {
+  const isDate = field === 'createdAt' || field === 'dueSuggested';
+  return { [field]: isDate && value !== null ? new Date(value) : value };
+}
+
+// Rows strictly after the cursor on one sort key; null when nothing can follow
+function afterValue({ field, direction }: SortKey, value: CursorValue) {
+  const comparison = direction === 'asc' ? 'gt' : 'lt';
+
+  switch (field) {
+    case 'priority': {
+      const rank = PRIORITY_ORDER.indexOf(value as ActionPriority);
+      const following = direction === 'asc' ? PRIORITY_ORDER.slice(rank + 1) : PRIORITY_ORDER.slice(0, rank);
+      return following.length > 0 ? { priority: { in: following } } : null;
+    }
+    case 'dueSuggested':
+      // Undated actions come last in both directions
+      return value === null ? null : { OR: [{ dueSuggested: { [comparison]: new Date(value) } }, { dueSuggested: null }] };
+    case 'createdAt':
+      return { createdAt: { [comparison]: new Date(value as string) } };
+    case 'id':
+      return { id: { [comparison]: value } };
+  }
+}
+
+/**
+ * Keyset condition for the rows that follow a cursor
+ */
+export function buildCursorWhere(keys: SortKey[], values: CursorValue[]) {
+  const branches = keys.flatMap((key, index) => {
+    const after = afterValue(key, values[index]);
+    if (!after) return [];
+    return [{ AND: [...keys.slice(0, index).map((previous, i) => equalTo(previous.field, values[i])), after] }];
+  });
+
+  return { OR: branches };
+}
+
+function sortSignature(keys: SortKey[]): string {
+  return keys.map(key => `${key.field}:${key.direction}`).join(',');
+}
+
+/**
+ * Opaque cursor holding the sort values of the last action of a page, so
+ * pages stay consistent when earlier actions are completed or deleted
+ */
+export function encodeCursor(keys: SortKey[], action: SortableAction): string {
+  const payload = { s: sortSignature(keys), v: keys.map(key => sortValue(action, key.field)) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Sort values stored in a cursor; malformed cursors, or ones created for
+ * another sort, start from the first page
+ */
+export function decodeCursor(cursor: string | undefined, keys: SortKey[]): CursorValue[] | null {
+  if (!cursor) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const valid = payload?.s === sortSignature(keys) && Array.isArray(payload.v) && payload.v.length === keys.length;
+    return valid ? payload.v : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Filtered and sorted access to a user's actions
+ */
+export class ActionsService {
+  async listNoteActions(userId: string, noteId: string, filters: ActionFilters = {}) {
+    const note = await prisma.note.findFirst({
+      where: { id: noteId, userId, deletedAt: null }
+    });
+
+    if (!note) {
+      throw new Error('NOTE_NOT_FOUND');
+    }
+
+    return prisma.action.findMany({
+      where: { ...buildActionWhere(userId, filters), noteId },
+      orderBy: buildActionOrderBy(filters)
+    });
+  }
+
+  /**
+   * Page of actions across all notes, with the note each one comes from
+   */
+  async listActions(userId: string, filters: ActionFilters & { cursor?: string; limit?: number } = {}) {
+    const keys = sortKeys(filters);
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+    const where = buildActionWhere(userId, filters);
+    const after = decodeCursor(filters.cursor, keys);
+
+    const actions = await prisma.action.findMany({
+      where: after ? { AND: [where, buildCursorWhere(keys, after)] } : where,
+      orderBy: buildActionOrderBy(filters),
+      take: limit + 1, // Fetch one extra to determine if there's a next page
+      include: {
+        note: { select: { id: true, title: true, tags: true } }
+      }
+    });
+
+    const hasNextPage = actions.length > limit;
+    const items = hasNextPage ? actions.slice(0, -1) : actions;
+
+    return {
+      items,
+      cursor: hasNextPage ? encodeCursor(keys, items[items.length - 1]) : null,
+    };
+  }
+}
+
+export const actionsService = new ActionsService();
@@ -0,0 +1,191 @@
+import { PrismaClient } from '@prisma/client';
+import { llmProvider, ChatMessage } from './llm/index.js';
+import { semanticSearchService, chunkTranscript } from './semantic-search.service.js';
+
+const prisma = new PrismaClient();
+
+// Passages given to the model when answering about a single note
+const MAX_NOTE_PASSAGES = 8;
+
+// Notes searched when answering over the whole library
+const MAX_LIBRARY_NOTES = 5;
+
+const NO_CONTEXT_ANSWER = 'No encontré información sobre eso en tus notas.';
+
+const SYSTEM_PROMPT = `Eres un asistente que responde preguntas sobre las notas de voz del usuario.
+
+Reglas:
+- Responde solo con información de los pasajes numerados que se te entregan
+- Cita cada afirmación con el número del pasaje entre corchetes, por ejemplo [1] o [2][3]
+- Si los pasajes no contienen la respuesta, dilo claramente y no inventes
+- Responde en español, de forma breve y directa`;
+
+export interface ContextPassage {
+  noteId: string;
+  noteTitle: string | null;
+  text: string;
+  start: number | null;
+  end: number | null;
+}
+
+export interface AskCitation extends ContextPassage {
+  index: number;
+}
+
+export interface AskResult {
+  answer: string;
+  citations: AskCitation[];
+}
+
+function formatTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Number the passages as "[n] Título (m:ss-m:ss)" blocks followed by the question
+ */
+export function buildAskPrompt(question: string, passages: ContextPassage[]): string {
+  const blocks = passages.map((passage, index) => {
+    const time = passage.start !== null && passage.end !== null
+      ? ` (${formatTimestamp(passage.start)}-${formatTimestamp(passage.end)})`
+      : '';
+    return `[${index + 1}] ${passage.noteTitle || 'Nota sin título'}${time}\n${passage.text}`;
+  });
+
+  return `Pasajes:\n\n${blocks.join('\n\n')}\n\nPregunta:\n${question}`;
+}
+
+/**
+ * Map the [n] markers in an answer back to the passages they cite, in order of first appearance
+ */
+export function extractCitations(answer: string, passages: ContextPassage[]): AskCitation[] {
+  const citations: AskCitation[] = [];
+  const seen = new Set<number>();
+
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const index = Number(match[1]);
+    const passage = passages[index - 1];
+
+    if (passage && !seen.has(index)) {
+      seen.add(index);
+      citations.push({ index, ...passage });
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * Question answering over the user's transcripts
+ */
+export class AskService {
+  /**
+   * Answer a question from a single note's transcript
+   */
+  async askNote(params: { noteId: string; userId: string; question: string }): Promise<AskResult> {
+    const { noteId, userId, question } = params;
+
+    const note = await prisma.note.findFirst({
+      where: { id: noteId, userId, deletedAt: null },
+      include: {
+        transcript: {
+          include: { segments: { orderBy: { position: 'asc' } } }
+        }
+      }
+    });
+
+    if (!note) {
+      throw new Error('NOTE_NOT_FOUND');
+    }
+
+    if (!note.transcript) {
+      throw new Error('TRANSCRIPT_NOT_FOUND');
+    }
+
+    const toPassage = (chunk: { text: string; start: number | null; end: number | null }) => ({
+      noteId: note.id,
+      noteTitle: note.title,
+      text: chunk.text,
+      start: chunk.start,
+      end: chunk.end,
+    });
+
+    let passages = chunkTranscript(note.transcript.text, note.transcript.segments).map(toPassage);
+
+    // Long transcripts: keep the passages closest to the question, in transcript order
+    if (passages.length > MAX_NOTE_PASSAGES) {
+      const [match] = await semanticSearchService.search({
+        userId,
+        query: question,
+        limit: 1,
+        noteId,
+        passagesPerNote: MAX_NOTE_PASSAGES,
+      });
+
+      passages = match
+        ? match.passages.map(toPassage).sort((a, b) => (a.start ?? 0) - (b.start ?? 0))
+        : passages.slice(0, MAX_NOTE_PASSAGES);
+    }
+
+    return this.answer(question, passages);
+  }
+
+  /**
+   * Answer a question from the most relevant passages across all of the user's notes
+   */
+  async askLibrary(params: { userId: string; question: string }): Promise<AskResult> {
+    const { userId, question } = params;
+
+    const matches = await semanticSearchService.search({
+      userId,
+      query: question,
+      limit: MAX_LIBRARY_NOTES,
+    });
+
+    const notes = await prisma.note.findMany({
+      where: { id: { in: matches.map(match => match.noteId) }, userId, deletedAt: null },
+      select: { id: true, title: true }
+    });
+    const titles = new Map(notes.map(note => [note.id, note.title]));
+
+    const passages = matches.flatMap(match =>
+      match.passages.map(passage => ({
+        noteId: match.noteId,
+        noteTitle: titles.get(match.noteId) ?? null,
+        text: passage.text,
+        start: passage.start,
+        end: passage.end,
+      }))
+    );
+
+    return this.answer(question, passages);
+  }
+
+  private async answer(question: string, passages: ContextPassage[]): Promise<AskResult> {
+    if (passages.length === 0) {
+      return { answer: NO_CONTEXT_ANSWER, citations: [] };
+    }
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildAskPrompt(question, passages) },
+    ];
+
+    let content: string;
+    try {
+      ({ content } = await llmProvider.chat(messages, { temperature: 0.2, maxTokens: 800 }));
+    } catch (error) {
+      console.error('❌ Ask failed:', error);
+      throw new Error('LLM_FAILURE');
+    }
+
+    return {
+      answer: content.trim(),
+      citations: extractCitations(content, passages),
+    };
+  }
+}
+
+export const askService = new AskService();
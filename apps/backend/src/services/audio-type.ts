@@ -0,0 +1,76 @@
+/**
+ * Audio type detection from the first bytes of a file, so uploads are judged by
+ * their content and not by the Content-Type the client sent
+ */
+
+// Enough for every signature below, the WebM DocType included
+export const AUDIO_SNIFF_BYTES = 64;
+
+// Declared types accepted for each detected type
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  'audio/mpeg': ['audio/mpeg', 'audio/mp3', 'audio/mpeg3', 'audio/x-mpeg'],
+  'audio/wav': ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'],
+  'audio/mp4': ['audio/mp4', 'audio/m4a', 'audio/x-m4a', 'audio/aac'],
+  'audio/aac': ['audio/aac', 'audio/x-aac', 'audio/aacp'],
+  'audio/ogg': ['audio/ogg', 'audio/opus', 'application/ogg'],
+  'audio/webm': ['audio/webm', 'video/webm'],
+  'audio/flac': ['audio/flac', 'audio/x-flac'],
+};
+
+function ascii(buffer: Buffer, offset: number, text: string): boolean {
+  return buffer.length >= offset + text.length
+    && buffer.toString('latin1', offset, offset + text.length) === text;
+}
+
+/**
+ * Audio type of a file from its header, or null when it isn't audio we know
+ */
+export function detectAudioType(header: Buffer): string | null {
+  if (ascii(header, 0, 'ID3')) {
+    return 'audio/mpeg';
+  }
+
+  if (ascii(header, 0, 'RIFF') && ascii(header, 8, 'WAVE')) {
+    return 'audio/wav';
+  }
+
+  // ISO base media: M4A, MP4 and 3GP all start with an ftyp box
+  if (ascii(header, 4, 'ftyp')) {
+    return 'audio/mp4';
+  }
+
+  if (ascii(header, 0, 'OggS')) {
+    return 'audio/ogg';
+  }
+
+  if (ascii(header, 0, 'fLaC')) {
+    return 'audio/flac';
+  }
+
+  // EBML header; WebM says so in its DocType, plain Matroska is not accepted
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) {
+    return header.subarray(0, AUDIO_SNIFF_BYTES).includes('webm', 0, 'latin1') ? 'audio/webm' : null;
+  }
+
+  if (ascii(header, 0, 'ADIF')) {
+    return 'audio/aac';
+  }
+
+  // Frame sync: 11 bits set. ADTS (AAC) has layer 00, MPEG audio layers I-III don't.
+  if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    if ((header[1] & 0x06) === 0) {
+      return (header[1] & 0x10) ? 'audio/aac' : null;
+    }
+    return 'audio/mpeg';
+  }
+
+  return null;
+}
+
+/**
+ * Whether a declared Content-Type fits the detected type; parameters such as codecs are ignored
+ */
+export function isCompatibleAudioType(declared: string, detected: string): boolean {
+  const base = declared.split(';')[0].trim().toLowerCase();
+  return (COMPATIBLE_TYPES[detected] || [detected]).includes(base);
+}
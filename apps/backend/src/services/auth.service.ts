@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import { nanoid } from 'nanoid';
 import crypto from 'crypto';
 import type { User } from '@prisma/client';
+import { accountDeletionService } from './account-deletion.service.js';
 import type { 
   LoginRequest, 
   RegisterRequest, 
@@ -206,6 +207,12 @@ export class AuthService {
       throw new Error('AUTH_INVALID_CREDENTIALS');
     }
 
+    // Logging in during the grace period keeps the account
+    if (user.deletionScheduledAt) {
+      await accountDeletionService.cancelDeletion(user.id);
+      user.deletionScheduledAt = null;
+    }
+
     // Create audit event
     await prisma.auditEvent.create({
       data: {
@@ -237,7 +244,8 @@ export class AuthService {
       where: { id: payload.userId }
     });
 
-    if (!user) {
+    // Sessions end when the account is scheduled for deletion; logging in again cancels it
+    if (!user || user.deletionScheduledAt) {
       throw new Error('AUTH_TOKEN_EXPIRED');
     }
 
@@ -328,7 +336,9 @@ export class AuthService {
       return null;
     }
 
-    return this.getUserById(payload.userId);
+    const user = await this.getUserById(payload.userId);
+
+    return user && !user.deletionScheduledAt ? user : null;
   }
 
   /**
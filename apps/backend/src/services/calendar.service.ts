@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import type { ActionPriority, CalendarEntryType } from '@notas-voz/schemas';
+
+const prisma = new PrismaClient();
+
+const PRODUCT_ID = '-//Notas de Voz//Acciones//ES';
+const CALENDAR_NAME = 'Notas de Voz - Acciones';
+
+// How often calendar apps should refresh a subscribed feed
+const REFRESH_INTERVAL = 'PT1H';
+
+// Actions have a due time but no duration; events get a short slot
+const EVENT_DURATION_MINUTES = 30;
+
+// iCalendar priorities go from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITY: Record<ActionPriority, number> = { high: 1, medium: 5, low: 9 };
+
+// Lines are limited to 75 octets, continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarAction {
+  id: string;
+  text: string;
+  done: boolean;
+  dueSuggested: Date;
+  priority: ActionPriority;
+  category: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  note: { id: string; title: string | null };
+}
+
+export interface CalendarOptions {
+  type: CalendarEntryType;
+  baseUrl: string; // Frontend URL the entries link to
+  now?: Date;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line without splitting multi-byte characters
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function entryLines(action: CalendarAction, options: Required<CalendarOptions>): string[] {
+  const component = options.type === 'todo' ? 'VTODO' : 'VEVENT';
+  const link = `${options.baseUrl}/dashboard/notes/${action.note.id}`;
+  const noteTitle = action.note.title || 'Nota sin título';
+
+  // Events have no completed state, so done actions are marked in the title
+  const summary = options.type === 'event' && action.done ? `✓ ${action.text}` : action.text;
+
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${action.id}@notas-voz`,
+    `DTSTAMP:${formatDateTime(options.now)}`,
+    `CREATED:${formatDateTime(action.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(action.updatedAt)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(`Nota: ${noteTitle}\n${link}`)}`,
+    `URL:${link}`,
+    `PRIORITY:${ICAL_PRIORITY[action.priority]}`,
+  ];
+
+  if (action.category) {
+    lines.push(`CATEGORIES:${escapeText(action.category)}`);
+  }
+
+  if (options.type === 'todo') {
+    lines.push(`DUE:${formatDateTime(action.dueSuggested)}`);
+    if (action.done) {
+      lines.push('STATUS:COMPLETED', `COMPLETED:${formatDateTime(action.updatedAt)}`, 'PERCENT-COMPLETE:100');
+    } else {
+      lines.push('STATUS:NEEDS-ACTION');
+    }
+  } else {
+    const end = new Date(action.dueSuggested.getTime() + EVENT_DURATION_MINUTES * 60 * 1000);
+    lines.push(
+      `DTSTART:${formatDateTime(action.dueSuggested)}`,
+      `DTEND:${formatDateTime(end)}`,
+      'STATUS:CONFIRMED',
+      'TRANSP:TRANSPARENT'
+    );
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+}
+
+/**
+ * iCalendar document (RFC 5545) with one VEVENT or VTODO per action
+ */
+export function buildActionsCalendar(actions: CalendarAction[], options: CalendarOptions): string {
+  const resolved = { ...options, now: options.now ?? new Date() };
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...actions.flatMap(action => entryLines(action, resolved)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Calendar export of a user's dated actions, also published as a feed
+ * behind a secret URL that calendar apps can subscribe to
+ */
+export class CalendarService {
+  async exportCalendar(userId: string, type: CalendarEntryType): Promise<string> {
+    // Done actions stay in the calendar so completing them shows up
+    const actions = await prisma.action.findMany({
+      where: { userId, dueSuggested: { not: null }, note: { deletedAt: null } },
+      include: { note: { select: { id: true, title: true } } },
+      orderBy: { dueSuggested: 'asc' }
+    });
+
+    return buildActionsCalendar(actions as CalendarAction[], {
+      type,
+      baseUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+    });
+  }
+
+  async exportFeed(token: string, type: CalendarEntryType): Promise<string> {
+    const settings = await prisma.userSettings.findUnique({
+      where: { calendarFeedToken: token }
+    });
+
+    if (!settings) {
+      throw new Error('CALENDAR_FEED_NOT_FOUND');
+    }
+
+    return this.exportCalendar(settings.userId, type);
+  }
+
+  async getFeedToken(userId: string): Promise<string | null> {
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+    return settings?.calendarFeedToken ?? null;
+  }
+
+  /**
+   * New feed token; subscriptions with the previous URL stop updating
+   */
+  async rotateFeedToken(userId: string): Promise<string> {
+    const calendarFeedToken = crypto.randomBytes(32).toString('hex');
+
+    await prisma.userSettings.upsert({
+      where: { userId },
+      create: { userId, calendarFeedToken },
+      update: { calendarFeedToken }
+    });
+
+    return calendarFeedToken;
+  }
+
+  async revokeFeedToken(userId: string): Promise<void> {
+    await prisma.userSettings.updateMany({
+      where: { userId },
+      data: { calendarFeedToken: null }
+    });
+  }
+}
+
+export const calendarService = new CalendarService();
@@ -0,0 +1,446 @@
+/**
+ * Due dates read from natural language in Spanish and English ("para el viernes",
+ * "mañana a las 10", "next Tuesday", "fin de mes"), resolved against the time a
+ * note was recorded in the user's timezone
+ */
+
+export interface DueDateContext {
+  reference: Date;   // When the note was recorded
+  timezone: string;  // IANA timezone of the user
+}
+
+export interface DueDateMatch {
+  date: Date;
+  confidence: number; // 0-1
+  phrase: string;     // Text the date was read from
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface DateRule {
+  pattern: RegExp;
+  confidence: number;
+  resolve: (match: RegExpExecArray, today: LocalDate) => LocalDate | null;
+  hour?: number; // Time implied by the phrase itself ("esta noche")
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+  index: number;
+  phrase: string;
+}
+
+// Hour used when a phrase gives a day but no time: the end of the working day
+const DEFAULT_DUE_HOUR = 18;
+
+// Extra confidence when a time or a deadline word ("para", "by") backs the date
+const TIME_BONUS = 0.05;
+const DEADLINE_BONUS = 0.05;
+const MAX_CONFIDENCE = 0.95;
+
+// Share of an action's words a transcript sentence must contain to lend it its date
+const MIN_CONTEXT_OVERLAP = 0.5;
+
+const WEEKDAYS: Record<string, number> = {
+  domingo: 0, lunes: 1, martes: 2, miercoles: 3, jueves: 4, viernes: 5, sabado: 6,
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6,
+  julio: 7, agosto: 8, septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12,
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6,
+  july: 7, august: 8, september: 9, october: 10, november: 11, december: 12,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1, una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7,
+  ocho: 8, nueve: 9, diez: 10, quince: 15, a: 1, an: 1, one: 1, two: 2, three: 3,
+  four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, fifteen: 15,
+};
+
+const WEEKDAY_NAMES = Object.keys(WEEKDAYS).join('|');
+const MONTH_NAMES = Object.keys(MONTHS).join('|');
+const AMOUNT = `\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')}`;
+
+// ==============================================
+// CALENDAR AND TIMEZONE HELPERS
+// ==============================================
+
+export function localParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+function timezoneOffset(date: Date, timezone: string): number {
+  const parts = localParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Instant at which the wall clock in a timezone shows the given local time
+ */
+export function zonedTimeToUtc(local: LocalDate, hour: number, minute: number, timezone: string): Date {
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, hour, minute);
+  const offset = timezoneOffset(new Date(wallClock), timezone);
+  // The offset can change between the guess and the result around DST switches
+  const corrected = timezoneOffset(new Date(wallClock - offset), timezone);
+  return new Date(wallClock - corrected);
+}
+
+function fromUtcDate(date: Date): LocalDate {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function addDays(local: LocalDate, days: number): LocalDate {
+  return fromUtcDate(new Date(Date.UTC(local.year, local.month - 1, local.day + days)));
+}
+
+function addMonths(local: LocalDate, months: number): LocalDate {
+  const target = new Date(Date.UTC(local.year, local.month - 1 + months, 1));
+  const lastDay = daysInMonth(target.getUTCFullYear(), target.getUTCMonth() + 1);
+  return { year: target.getUTCFullYear(), month: target.getUTCMonth() + 1, day: Math.min(local.day, lastDay) };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekday(local: LocalDate): number {
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+}
+
+// Days since the Monday that starts the week
+function daysSinceMonday(local: LocalDate): number {
+  return (weekday(local) + 6) % 7;
+}
+
+function compareDates(a: LocalDate, b: LocalDate): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+function validDate(year: number, month: number, day: number): LocalDate | null {
+  return day >= 1 && day <= daysInMonth(year, month) ? { year, month, day } : null;
+}
+
+// A day and month without a year means the next time that date comes around
+function nextDate(today: LocalDate, month: number, day: number, year?: number): LocalDate | null {
+  if (year) {
+    const date = validDate(year, month, day);
+    return date && compareDates(date, today) >= 0 ? date : null;
+  }
+
+  const date = validDate(today.year, month, day);
+  if (date && compareDates(date, today) >= 0) return date;
+  return validDate(today.year + 1, month, day);
+}
+
+// ==============================================
+// PHRASE RULES
+// ==============================================
+
+/**
+ * Lowercase and strip accents so "miércoles" and "miercoles" read the same.
+ * Keeps the length of NFC text so match positions map back to the original.
+ */
+function fold(text: string): string {
+  return text.normalize('NFC').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function amount(value: string): number {
+  return NUMBER_WORDS[value] ?? Number(value);
+}
+
+const DATE_RULES: DateRule[] = [
+  {
+    pattern: /\b(?:pasado manana|(?:the )?day after tomorrow)\b/g,
+    confidence: 0.9,
+    resolve: (_, today) => addDays(today, 2),
+  },
+  {
+    // "mañana" after "esta", "la" or "por la" means "morning", not "tomorrow"
+    pattern: /(?<!\b(?:esta|la|pasado) )\b(?:manana|tomorrow)\b/g,
+    confidence: 0.9,
+    resolve: (_, today) => addDays(today, 1),
+  },
+  {
+    pattern: /\b(?:esta noche|tonight)\b/g,
+    confidence: 0.8,
+    resolve: (_, today) => today,
+    hour: 21,
+  },
+  {
+    pattern: /\b(?:hoy|today)\b/g,
+    confidence: 0.7,
+    resolve: (_, today) => today,
+  },
+  {
+    // Past days ("last Friday", "el viernes pasado") are skipped
+    pattern: new RegExp(`(?<!\\b(?:last|pasado) )\\b(?:(el|este|this|on|next|el proximo|proximo|the next)\\s+)?(${WEEKDAY_NAMES})\\b(\\s+(?:que viene|proximo))?(?!\\s+pasado)`, 'g'),
+    confidence: 0.8,
+    resolve: (match, today) => {
+      const modifier = match[1];
+      const days = ((WEEKDAYS[match[2]] - weekday(today) + 7) % 7) || 7;
+      const isNext = Boolean(match[3]) || /next|proximo/.test(modifier ?? '');
+      // "next Tuesday" said on Monday skips the Tuesday of the current week
+      const sameWeek = daysSinceMonday(today) + days <= 6;
+      return addDays(today, isNext && sameWeek ? days + 7 : days);
+    },
+  },
+  {
+    pattern: /\b(?:(?:a |al |hacia )?(?:fin|final|finales) (?:de|del) mes|(?:the )?end of (?:the |this )?month)\b/g,
+    confidence: 0.75,
+    resolve: (_, today) => ({ ...today, day: daysInMonth(today.year, today.month) }),
+  },
+  {
+    pattern: /\b(?:(?:fin|final|finales) (?:de|del) ano|(?:the )?end of (?:the |this )?year)\b/g,
+    confidence: 0.7,
+    resolve: (_, today) => ({ year: today.year, month: 12, day: 31 }),
+  },
+  {
+    pattern: /\b(?:(?:este |el )?fin de semana|(?:el )?finde|(?:this |the )?weekend)\b/g,
+    confidence: 0.7,
+    resolve: (_, today) => addDays(today, (6 - weekday(today) + 7) % 7),
+  },
+  {
+    pattern: /\b(?:(?:la )?(?:proxima semana|semana que viene)|next week)\b/g,
+    confidence: 0.6,
+    resolve: (_, today) => addDays(today, 7 - daysSinceMonday(today)),
+  },
+  {
+    pattern: /\b(?:esta semana|this week)\b/g,
+    confidence: 0.6,
+    // Friday of the current week, or today once the week is past it
+    resolve: (_, today) => addDays(today, Math.max(0, 4 - daysSinceMonday(today))),
+  },
+  {
+    pattern: new RegExp(`\\b(?:en|dentro de|in|within)\\s+(${AMOUNT})\\s+(dias?|semanas?|mes(?:es)?|days?|weeks?|months?)\\b`, 'g'),
+    confidence: 0.85,
+    resolve: (match, today) => {
+      const count = amount(match[1]);
+      const unit = match[2];
+      if (/^(?:dia|day)/.test(unit)) return addDays(today, count);
+      if (/^(?:semana|week)/.test(unit)) return addDays(today, count * 7);
+      return addMonths(today, count);
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})\\s+de\\s+(${MONTH_NAMES})(?:\\s+(?:de|del)\\s+(\\d{4}))?\\b`, 'g'),
+    confidence: 0.9,
+    resolve: (match, today) => nextDate(today, MONTHS[match[2]], Number(match[1]), match[3] ? Number(match[3]) : undefined),
+  },
+  {
+    pattern: new RegExp(`\\b(${MONTH_NAMES})\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'g'),
+    confidence: 0.9,
+    resolve: (match, today) => nextDate(today, MONTHS[match[1]], Number(match[2]), match[3] ? Number(match[3]) : undefined),
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAMES})(?:,?\\s+(\\d{4}))?\\b`, 'g'),
+    confidence: 0.9,
+    resolve: (match, today) => nextDate(today, MONTHS[match[2]], Number(match[1]), match[3] ? Number(match[3]) : undefined),
+  },
+  {
+    // "el día 15" or "on the 15th": this month, or next month once it has passed
+    pattern: /\b(?:el dia\s+(\d{1,2})|the\s+(\d{1,2})(?:st|nd|rd|th))\b(?!\s+(?:de|of)\b)/g,
+    confidence: 0.75,
+    resolve: (match, today) => {
+      const day = Number(match[1] ?? match[2]);
+      const date = validDate(today.year, today.month, day);
+      if (date && compareDates(date, today) >= 0) return date;
+      const next = addMonths({ ...today, day: 1 }, 1);
+      return validDate(next.year, next.month, day);
+    },
+  },
+];
+
+const DEADLINE_MARKER = /\b(?:para|antes de|antes del|hasta|a mas tardar|by|before|due|until|no later than)\s+(?:el\s+|la\s+|the\s+|this\s+|on\s+)?$/;
+
+// Hours without am/pm from 1 to 6 are read as afternoon, the usual meaning in meetings
+const TIME_PATTERN = /\b(?:a las?|at)\s+(\d{1,2})(?!\d)(?::(\d{2})|\s+y\s+(media|cuarto))?(?:\s*(?:h|hs|horas)(?![a-z]))?(?:\s*(am|pm|a\.m\.|p\.m\.)(?![a-z])|\s+de la\s+(manana|tarde|noche))?|\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?![a-z])|\b(?:al? )?(mediodia|noon|midday)\b/g;
+
+const PART_OF_DAY_HOURS: Array<[RegExp, number]> = [
+  [/\b(?:por|en) la manana\b|\bin the morning\b|\besta manana\b|\bthis morning\b/, 9],
+  [/\b(?:por|en) la tarde\b|\bin the afternoon\b|\besta tarde\b|\bthis afternoon\b/, 16],
+  [/\b(?:por|en) la noche\b|\bin the evening\b|\bthis evening\b/, 20],
+];
+
+function findTime(text: string): TimeOfDay | null {
+  TIME_PATTERN.lastIndex = 0;
+  const match = TIME_PATTERN.exec(text);
+
+  if (match) {
+    if (match[9]) {
+      return { hour: 12, minute: 0, index: match.index, phrase: match[0] };
+    }
+
+    let hour = Number(match[1] ?? match[6]);
+    let minute = Number(match[2] ?? match[7] ?? 0);
+    if (match[3] === 'media') minute = 30;
+    if (match[3] === 'cuarto') minute = 15;
+    const meridiem = (match[4] ?? match[8] ?? '').replace(/\./g, '');
+    const partOfDay = match[5];
+
+    if (hour > 23 || minute > 59) return null;
+    if ((meridiem === 'pm' || partOfDay === 'tarde' || partOfDay === 'noche') && hour < 12) hour += 12;
+    else if ((meridiem === 'am' || partOfDay === 'manana') && hour === 12) hour = 0;
+    else if (!meridiem && !partOfDay && hour >= 1 && hour <= 6) hour += 12;
+
+    return { hour, minute, index: match.index, phrase: match[0] };
+  }
+
+  for (const [pattern, hour] of PART_OF_DAY_HOURS) {
+    const partMatch = pattern.exec(text);
+    if (partMatch) {
+      return { hour, minute: 0, index: partMatch.index, phrase: partMatch[0] };
+    }
+  }
+
+  return null;
+}
+
+function roundConfidence(confidence: number): number {
+  return Math.round(Math.min(confidence, MAX_CONFIDENCE) * 100) / 100;
+}
+
+/**
+ * First due date mentioned in a text. When several phrases match, the most
+ * reliable one wins, with a bonus for deadline words like "para" or "by".
+ */
+export function extractDueDate(text: string, context: DueDateContext): DueDateMatch | null {
+  const folded = fold(text);
+  const now = localParts(context.reference, context.timezone);
+  const today: LocalDate = { year: now.year, month: now.month, day: now.day };
+  const time = findTime(folded);
+
+  let best: { date: LocalDate; confidence: number; index: number; length: number; hour?: number } | null = null;
+
+  for (const rule of DATE_RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = rule.pattern.exec(folded)) !== null) {
+      const date = rule.resolve(match, today);
+      if (!date) continue;
+
+      const isDeadline = DEADLINE_MARKER.test(folded.slice(0, match.index));
+      const confidence = rule.confidence + (isDeadline ? DEADLINE_BONUS : 0);
+
+      if (!best || confidence > best.confidence) {
+        best = { date, confidence, index: match.index, length: match[0].length, hour: rule.hour };
+      }
+    }
+  }
+
+  const phraseOf = (index: number, length: number) =>
+    text.length === folded.length ? text.slice(index, index + length) : folded.slice(index, index + length);
+
+  if (!best) {
+    if (!time) return null;
+
+    // A time on its own is today, or tomorrow once that time has passed
+    const minutesNow = now.hour * 60 + now.minute;
+    const date = time.hour * 60 + time.minute > minutesNow ? today : addDays(today, 1);
+    return {
+      date: zonedTimeToUtc(date, time.hour, time.minute, context.timezone),
+      confidence: 0.6,
+      phrase: phraseOf(time.index, time.phrase.length),
+    };
+  }
+
+  const hour = time?.hour ?? best.hour ?? DEFAULT_DUE_HOUR;
+  const minute = time?.minute ?? 0;
+  const start = time ? Math.min(best.index, time.index) : best.index;
+  const end = time ? Math.max(best.index + best.length, time.index + time.phrase.length) : best.index + best.length;
+
+  return {
+    date: zonedTimeToUtc(best.date, hour, minute, context.timezone),
+    confidence: roundConfidence(best.confidence + (time ? TIME_BONUS : 0)),
+    phrase: phraseOf(start, end - start).trim(),
+  };
+}
+
+// ==============================================
+// ACTIONS
+// ==============================================
+
+// Crude stem so "enviar" and "enviará" count as the same word
+function stems(text: string): Set<string> {
+  return new Set(
+    fold(text)
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length >= 4)
+      .map(word => word.slice(0, 5))
+  );
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Due date of each action, read from the action text or, failing that, from
+ * the transcript sentence that best matches it. Dates found in the transcript
+ * are discounted by how well the sentence matches the action.
+ */
+export function extractActionDueDates<T extends { text: string }>(
+  actions: T[],
+  transcript: string,
+  context: DueDateContext
+): Array<T & { dueSuggested?: Date; dueConfidence?: number }> {
+  const sentences = splitSentences(transcript).map(sentence => ({ sentence, stems: stems(sentence) }));
+
+  return actions.map(action => {
+    const direct = extractDueDate(action.text, context);
+    if (direct) {
+      return { ...action, dueSuggested: direct.date, dueConfidence: direct.confidence };
+    }
+
+    const actionStems = stems(action.text);
+    if (actionStems.size === 0) return action;
+
+    let best: { sentence: string; overlap: number } | null = null;
+    for (const candidate of sentences) {
+      const shared = [...actionStems].filter(stem => candidate.stems.has(stem)).length;
+      const overlap = shared / actionStems.size;
+      if (overlap >= MIN_CONTEXT_OVERLAP && (!best || overlap > best.overlap)) {
+        best = { sentence: candidate.sentence, overlap };
+      }
+    }
+
+    const fromTranscript = best ? extractDueDate(best.sentence, context) : null;
+    if (!best || !fromTranscript) return action;
+
+    return {
+      ...action,
+      dueSuggested: fromTranscript.date,
+      dueConfidence: roundConfidence(fromTranscript.confidence * best.overlap),
+    };
+  });
+}
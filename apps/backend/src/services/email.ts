@@ -5,6 +5,28 @@ export interface EmailOptions {
   subject: string;
   text?: string;
   html?: string;
+  headers?: Record<string, string>;
+}
+
+export interface ActionEmailItem {
+  text: string;
+  due?: Date | null;
+  noteId: string;
+  noteTitle?: string | null;
+}
+
+export interface ActionEmailOptions {
+  timezone: string;      // Due dates are shown in the user's timezone
+  unsubscribeUrl: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 export class EmailService {
@@ -59,6 +81,7 @@ export class EmailService {
         subject: options.subject,
         text: options.text,
         html: options.html,
+        headers: options.headers,
       });
     } catch (error) {
       console.error('Failed to send email:', error);
@@ -136,6 +159,104 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send a reminder for actions that are due soon
+   */
+  async sendActionReminderEmail(email: string, actions: ActionEmailItem[], options: ActionEmailOptions): Promise<void> {
+    const subject = actions.length === 1
+      ? `Reminder: ${actions[0].text} - Notas de Voz`
+      : `Reminder: ${actions.length} actions due soon - Notas de Voz`;
+
+    await this.sendActionEmail(email, subject, 'These actions are due soon:', [{ actions }], options);
+  }
+
+  /**
+   * Send the periodic digest of a user's overdue and open actions
+   */
+  async sendActionDigestEmail(
+    email: string,
+    digest: { overdue: ActionEmailItem[]; open: ActionEmailItem[]; openCount: number },
+    options: ActionEmailOptions
+  ): Promise<void> {
+    const subject = `Your actions: ${digest.openCount} open, ${digest.overdue.length} overdue - Notas de Voz`;
+
+    await this.sendActionEmail(email, subject, `You have ${digest.openCount} open actions.`, [
+      { title: 'Overdue', actions: digest.overdue },
+      { title: 'Open', actions: digest.open },
+    ], options);
+  }
+
+  private async sendActionEmail(
+    email: string,
+    subject: string,
+    intro: string,
+    sections: Array<{ title?: string; actions: ActionEmailItem[] }>,
+    options: ActionEmailOptions
+  ): Promise<void> {
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const formatDue = (due: Date) => new Intl.DateTimeFormat('en-US', {
+      timeZone: options.timezone,
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    }).format(due);
+    const visibleSections = sections.filter(section => section.actions.length > 0);
+
+    const text = [
+      'Hello,',
+      '',
+      intro,
+      ...visibleSections.flatMap(section => [
+        '',
+        ...(section.title ? [`${section.title}:`] : []),
+        ...section.actions.map(action =>
+          `- ${action.text}${action.due ? ` (due ${formatDue(action.due)})` : ''} - ${baseUrl}/dashboard/notes/${action.noteId}`
+        ),
+      ]),
+      '',
+      `Unsubscribe: ${options.unsubscribeUrl}`,
+    ].join('\n');
+
+    const html = `
+    <div style="max-width: 600px; margin: 0 auto; padding: 20px; font-family: Arial, sans-serif;">
+      <p style="color: #666; line-height: 1.6;">${escapeHtml(intro)}</p>
+      ${visibleSections.map(section => `
+      ${section.title ? `<h3 style="color: #333;">${escapeHtml(section.title)}</h3>` : ''}
+      <ul style="color: #666; line-height: 1.6; padding-left: 20px;">
+        ${section.actions.map(action => `
+        <li>
+          ${escapeHtml(action.text)}${action.due ? ` <span style="color: #999;">(due ${escapeHtml(formatDue(action.due))})</span>` : ''}
+          <br>
+          <a href="${baseUrl}/dashboard/notes/${encodeURIComponent(action.noteId)}" style="color: #007bff; font-size: 14px;">
+            ${escapeHtml(action.noteTitle || 'Open note')}
+          </a>
+        </li>`).join('')}
+      </ul>`).join('')}
+
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${baseUrl}/dashboard/inbox"
+           style="background: #007bff; color: white; padding: 12px 24px;
+                  text-decoration: none; border-radius: 5px; display: inline-block;">
+          Open inbox
+        </a>
+      </div>
+
+      <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+
+      <p style="color: #999; font-size: 12px; text-align: center;">
+        <a href="${escapeHtml(options.unsubscribeUrl)}" style="color: #999;">Unsubscribe</a> from these emails
+      </p>
+    </div>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      text,
+      html,
+      headers: { 'List-Unsubscribe': `<${options.unsubscribeUrl}>` },
+    });
+  }
+
   /**
    * Test email configuration
    */
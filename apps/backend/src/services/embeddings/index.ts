@@ -0,0 +1,160 @@
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+  getDimensions(): number;
+}
+
+/**
+ * Factory function to create embedding provider based on environment
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const provider = process.env.EMBEDDING_PROVIDER || 'mock';
+
+  switch (provider.toLowerCase()) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider();
+    case 'mock':
+    default:
+      return new MockEmbeddingProvider();
+  }
+}
+
+/**
+ * Cosine similarity between two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// 32-bit FNV-1a hash
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Mock Embedding Provider for development/testing
+export class MockEmbeddingProvider implements EmbeddingProvider {
+  name = 'mock';
+  model = 'mock-hash-v1';
+  private dimensions = 256;
+
+  /**
+   * Deterministic feature-hashing embeddings: accent-folded word stems plus their
+   * character trigrams, so inflections and close spellings land near each other.
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    const stems = text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 3)
+      .map(word => word.slice(0, 6));
+
+    for (const stem of stems) {
+      this.addFeature(vector, `w:${stem}`, 1);
+
+      const padded = `^${stem}$`;
+      for (let i = 0; i < padded.length - 2; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.3);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number) {
+    const hash = hashString(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+// OpenAI Embedding Provider
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name = 'openai';
+  model: string;
+  private apiKey: string;
+  private baseURL = 'https://api.openai.com/v1';
+  private batchSize = 100;
+
+  constructor() {
+    this.apiKey = process.env.OPENAI_API_KEY || '';
+    if (!this.apiKey) {
+      throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY environment variable.');
+    }
+    this.model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const embeddings: number[][] = [];
+
+      for (let i = 0; i < texts.length; i += this.batchSize) {
+        const batch = texts.slice(i, i + this.batchSize);
+
+        const response = await fetch(`${this.baseURL}/embeddings`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: this.model,
+            input: batch,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`OpenAI API error: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const sorted = [...data.data].sort((a: any, b: any) => a.index - b.index);
+        embeddings.push(...sorted.map((item: any) => item.embedding as number[]));
+      }
+
+      return embeddings;
+
+    } catch (error) {
+      throw new Error(`OpenAI embeddings failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  getDimensions(): number {
+    return this.model === 'text-embedding-3-large' ? 3072 : 1536;
+  }
+}
+
+// Export the factory function and singleton
+export const embeddingProvider = createEmbeddingProvider();
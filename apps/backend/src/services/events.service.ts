@@ -0,0 +1,50 @@
+import { EventEmitter } from 'events';
+
+export type JobEventType = 'active' | 'progress' | 'completed' | 'failed' | 'retrying';
+
+export interface JobEvent {
+  type: JobEventType;
+  noteId: string;
+  jobId: string;
+  queueName: 'transcode' | 'transcribe' | 'summarize';
+  progress?: number | object;
+  error?: string;
+}
+
+/**
+ * In-process pub/sub for note processing events, consumed by the SSE endpoint
+ */
+export class NoteEventsService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish a job event for the note it belongs to
+   */
+  publishJobEvent(event: JobEvent): void {
+    this.emitter.emit(`note:${event.noteId}`, event);
+  }
+
+  /**
+   * Subscribe to job events of a note. Returns the unsubscribe function.
+   */
+  subscribe(noteId: string, listener: (event: JobEvent) => void): () => void {
+    this.emitter.on(`note:${noteId}`, listener);
+    return () => {
+      this.emitter.off(`note:${noteId}`, listener);
+    };
+  }
+
+  /**
+   * Number of listeners subscribed to a note, i.e. its open SSE connections
+   */
+  subscriberCount(noteId: string): number {
+    return this.emitter.listenerCount(`note:${noteId}`);
+  }
+}
+
+export const noteEventsService = new NoteEventsService();
@@ -0,0 +1,93 @@
+/**
+ * Format-neutral layout of an exported note. Markdown, PDF and DOCX are
+ * rendered from the same blocks so the three exports carry the same content.
+ */
+
+export type DocumentBlock =
+  | { type: 'heading'; level: 1 | 2; text: string }
+  | { type: 'paragraph'; text: string } // Line breaks are kept
+  | { type: 'bullets'; items: string[] }
+  | { type: 'checklist'; items: Array<{ text: string; done: boolean }> };
+
+export interface NoteDocument {
+  title: string;
+  blocks: DocumentBlock[];
+}
+
+export interface TranscriptSegmentExport {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ExportNote {
+  title: string | null;
+  tags: string[];
+  createdAt: Date;
+  transcript: { text: string; segments: TranscriptSegmentExport[] } | null;
+  summary: { tlDr: string; bullets: string[] } | null;
+  actions: Array<{ text: string; done: boolean; dueSuggested: Date | null }>;
+}
+
+export const UNTITLED_NOTE = 'Nota sin título';
+
+function formatDateTime(date: Date, timezone: string) {
+  return new Intl.DateTimeFormat('es-ES', {
+    timeZone: timezone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(date);
+}
+
+export function buildNoteDocument(note: ExportNote, timezone: string): NoteDocument {
+  const title = note.title || UNTITLED_NOTE;
+  const details = [`Fecha: ${formatDateTime(note.createdAt, timezone)}`];
+  if (note.tags.length > 0) {
+    details.push(`Etiquetas: ${note.tags.join(', ')}`);
+  }
+
+  const blocks: DocumentBlock[] = [
+    { type: 'heading', level: 1, text: title },
+    { type: 'paragraph', text: details.join('\n') },
+  ];
+
+  if (note.summary) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'TL;DR' },
+      { type: 'paragraph', text: note.summary.tlDr }
+    );
+
+    if (note.summary.bullets.length > 0) {
+      blocks.push(
+        { type: 'heading', level: 2, text: 'Puntos clave' },
+        { type: 'bullets', items: note.summary.bullets }
+      );
+    }
+  }
+
+  if (note.actions.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Acciones' },
+      {
+        type: 'checklist',
+        items: note.actions.map(action => ({
+          text: action.dueSuggested
+            ? `${action.text} (vence ${formatDateTime(action.dueSuggested, timezone)})`
+            : action.text,
+          done: action.done,
+        })),
+      }
+    );
+  }
+
+  if (note.transcript?.text.trim()) {
+    blocks.push({ type: 'heading', level: 2, text: 'Transcripción' });
+    for (const paragraph of note.transcript.text.split(/\n\s*\n/)) {
+      if (paragraph.trim()) {
+        blocks.push({ type: 'paragraph', text: paragraph.trim() });
+      }
+    }
+  }
+
+  return { title, blocks };
+}
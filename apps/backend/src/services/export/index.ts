@@ -0,0 +1,99 @@
+import { PrismaClient } from '@prisma/client';
+import type { NoteExportFormat } from '@notas-voz/schemas';
+import { settingsService } from '../settings.service.js';
+import { buildNoteDocument, UNTITLED_NOTE, type ExportNote } from './document.js';
+import { renderMarkdown } from './markdown.js';
+import { renderPdf } from './pdf.js';
+import { renderDocx } from './docx.js';
+import { renderSrt, renderVtt } from './subtitles.js';
+
+const prisma = new PrismaClient();
+
+export interface ExportFile {
+  data: Buffer | string;
+  contentType: string;
+  filename: string;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<NoteExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+};
+
+/**
+ * Note title limited to characters safe in any file system
+ */
+export function exportSlug(title: string | null): string {
+  const base = (title || UNTITLED_NOTE)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase()
+    .slice(0, 80);
+
+  return base || 'nota';
+}
+
+export function exportFilename(title: string | null, format: NoteExportFormat): string {
+  return `${exportSlug(title)}.${format}`;
+}
+
+/**
+ * Render a note in a given format
+ */
+export function renderNote(note: ExportNote, format: NoteExportFormat, timezone: string): Buffer | string {
+  switch (format) {
+    case 'md':
+      return renderMarkdown(buildNoteDocument(note, timezone));
+    case 'pdf':
+      return renderPdf(buildNoteDocument(note, timezone));
+    case 'docx':
+      return renderDocx(buildNoteDocument(note, timezone));
+    case 'srt':
+    case 'vtt': {
+      // Subtitles need the timed segments of the transcript
+      const segments = note.transcript?.segments ?? [];
+      if (segments.length === 0) {
+        throw new Error('TRANSCRIPT_NOT_FOUND');
+      }
+      return format === 'srt' ? renderSrt(segments) : renderVtt(segments);
+    }
+  }
+}
+
+export class ExportService {
+  async exportNote(userId: string, noteId: string, format: NoteExportFormat): Promise<ExportFile> {
+    const note = await prisma.note.findFirst({
+      where: { id: noteId, userId, deletedAt: null },
+      include: {
+        transcript: {
+          include: {
+            segments: { orderBy: { position: 'asc' } }
+          }
+        },
+        summary: true,
+        actions: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!note) {
+      throw new Error('NOTE_NOT_FOUND');
+    }
+
+    const timezone = await settingsService.getTimezone(userId);
+
+    return {
+      data: renderNote(note, format, timezone),
+      contentType: EXPORT_CONTENT_TYPES[format],
+      filename: exportFilename(note.title, format),
+    };
+  }
+}
+
+export const exportService = new ExportService();
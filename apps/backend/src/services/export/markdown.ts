@@ -0,0 +1,18 @@
+import type { DocumentBlock, NoteDocument } from './document.js';
+
+function renderBlock(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${block.text}`;
+    case 'paragraph':
+      return block.text.split('\n').join('  \n'); // Hard line breaks
+    case 'bullets':
+      return block.items.map(item => `- ${item}`).join('\n');
+    case 'checklist':
+      return block.items.map(item => `- [${item.done ? 'x' : ' '}] ${item.text}`).join('\n');
+  }
+}
+
+export function renderMarkdown(document: NoteDocument): string {
+  return document.blocks.map(renderBlock).join('\n\n') + '\n';
+}
@@ -0,0 +1,268 @@
+import zlib from 'zlib';
+import type { DocumentBlock, NoteDocument } from './document.js';
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_HEIGHT = 1.4;
+const LIST_INDENT = 14;
+
+const TEXT_STYLE = { font: 'F1', size: 11 };
+const HEADING_STYLES = {
+  1: { font: 'F2', size: 20 },
+  2: { font: 'F2', size: 14 },
+};
+
+// Helvetica glyph widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Bold glyphs are slightly wider; overestimating only wraps a little early
+const BOLD_WIDTH_FACTOR = 1.1;
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      bytes.push(WIN_ANSI_EXTRAS[char]);
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else if (code === 0x09) {
+      bytes.push(0x20);
+    } else {
+      bytes.push(0x3f); // '?' for glyphs the standard fonts don't have
+    }
+  }
+  return bytes;
+}
+
+function charWidth(byte: number): number {
+  if (byte >= 32 && byte <= 126) return HELVETICA_WIDTHS[byte - 32];
+  if (byte >= 0xc0) {
+    // Accented letters are as wide as their base letter
+    const base = String.fromCharCode(byte).normalize('NFD').charCodeAt(0);
+    if (base >= 32 && base <= 126) return HELVETICA_WIDTHS[base - 32];
+  }
+  return 556;
+}
+
+function textWidth(bytes: number[], style: { font: string; size: number }) {
+  const units = bytes.reduce((sum, byte) => sum + charWidth(byte), 0);
+  return (units * style.size * (style.font === 'F2' ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/**
+ * Break text into lines that fit the width, splitting words longer than a line
+ */
+export function wrapText(text: string, width: number, style: { font: string; size: number }): number[][] {
+  const lines: number[][] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line: number[] = [];
+
+    for (const word of paragraph.split(/ +/)) {
+      let bytes = toWinAnsi(word);
+      const candidate = line.length > 0 ? [...line, 0x20, ...bytes] : bytes;
+
+      if (textWidth(candidate, style) <= width) {
+        line = candidate;
+        continue;
+      }
+
+      if (line.length > 0) {
+        lines.push(line);
+      }
+
+      while (textWidth(bytes, style) > width) {
+        let cut = bytes.length - 1;
+        while (cut > 1 && textWidth(bytes.slice(0, cut), style) > width) cut--;
+        lines.push(bytes.slice(0, cut));
+        bytes = bytes.slice(cut);
+      }
+      line = bytes;
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function pdfString(bytes: number[]): string {
+  let result = '(';
+  for (const byte of bytes) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      result += '\\' + String.fromCharCode(byte);
+    } else {
+      result += String.fromCharCode(byte);
+    }
+  }
+  return result + ')';
+}
+
+// Text strings in the document info dictionary are UTF-16BE with a BOM
+function pdfTextString(text: string): string {
+  const utf16 = Buffer.from(text, 'utf16le').swap16();
+  return `<FEFF${utf16.toString('hex').toUpperCase()}>`;
+}
+
+class PageWriter {
+  private readonly pages: string[] = [];
+  private operations: string[] = [];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor() {
+    this.pages.push('');
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  line(bytes: number[], style: { font: string; size: number }, x = MARGIN, marker?: number[]) {
+    const height = style.size * LINE_HEIGHT;
+    if (this.y - height < MARGIN) {
+      this.newPage();
+    }
+    this.y -= height;
+
+    const y = this.y.toFixed(2);
+    if (marker) {
+      this.operations.push(`BT /${style.font} ${style.size} Tf ${MARGIN} ${y} Td ${pdfString(marker)} Tj ET`);
+    }
+    this.operations.push(`BT /${style.font} ${style.size} Tf ${x} ${y} Td ${pdfString(bytes)} Tj ET`);
+  }
+
+  // Keep a heading on the same page as the first line after it
+  ensureSpace(points: number) {
+    if (this.y - points < MARGIN) {
+      this.newPage();
+    }
+  }
+
+  finish(): string[] {
+    this.pages[this.pages.length - 1] = this.operations.join('\n');
+    return this.pages;
+  }
+
+  private newPage() {
+    this.pages[this.pages.length - 1] = this.operations.join('\n');
+    this.pages.push('');
+    this.operations = [];
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+}
+
+function writeListItem(writer: PageWriter, marker: string, text: string) {
+  const markerBytes = toWinAnsi(marker);
+  const lines = wrapText(text, CONTENT_WIDTH - LIST_INDENT, TEXT_STYLE);
+
+  lines.forEach((line, index) => {
+    writer.line(line, TEXT_STYLE, MARGIN + LIST_INDENT, index === 0 ? markerBytes : undefined);
+  });
+}
+
+function writeBlock(writer: PageWriter, block: DocumentBlock) {
+  switch (block.type) {
+    case 'heading': {
+      const style = HEADING_STYLES[block.level];
+      writer.space(style.size * 0.6);
+      writer.ensureSpace(style.size * LINE_HEIGHT + TEXT_STYLE.size * LINE_HEIGHT);
+      for (const line of wrapText(block.text, CONTENT_WIDTH, style)) {
+        writer.line(line, style);
+      }
+      break;
+    }
+    case 'paragraph':
+      for (const line of wrapText(block.text, CONTENT_WIDTH, TEXT_STYLE)) {
+        writer.line(line, TEXT_STYLE);
+      }
+      break;
+    case 'bullets':
+      block.items.forEach(item => writeListItem(writer, '•', item));
+      break;
+    case 'checklist':
+      block.items.forEach(item => writeListItem(writer, item.done ? '[x]' : '[ ]', item.text));
+      break;
+  }
+
+  writer.space(TEXT_STYLE.size * 0.6);
+}
+
+/**
+ * Text-only PDF using the standard Helvetica fonts, so no fonts are embedded
+ */
+export function renderPdf(document: NoteDocument): Buffer {
+  const writer = new PageWriter();
+  document.blocks.forEach(block => writeBlock(writer, block));
+  const pages = writer.finish();
+
+  // Objects 1-5 are fixed; each page adds a page object and its content stream
+  const objects: Buffer[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'));
+  objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`, 'latin1'));
+  objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>', 'latin1'));
+  objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>', 'latin1'));
+  objects.push(Buffer.from(`<< /Title ${pdfTextString(document.title)} /Producer (Notas de Voz) >>`, 'latin1'));
+
+  pages.forEach((content, index) => {
+    const stream = zlib.deflateSync(Buffer.from(content, 'latin1'));
+    objects.push(Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      'latin1'
+    ));
+    objects.push(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      stream,
+      Buffer.from('\nendstream', 'latin1'),
+    ]));
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(xref + '\n', 'latin1'));
+
+  return Buffer.concat(chunks);
+}
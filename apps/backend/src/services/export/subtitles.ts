@@ -0,0 +1,46 @@
+import type { TranscriptSegmentExport } from './document.js';
+
+// 01:02:03.450 with the separator each format uses before the milliseconds
+function formatTimestamp(seconds: number, separator: ',' | '.') {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+// A blank line or an arrow inside the text would end the cue early
+function cueText(text: string) {
+  return text
+    .trim()
+    .replace(/\s*\n\s*/g, '\n')
+    .replace(/-->/g, '->');
+}
+
+function cues(segments: TranscriptSegmentExport[]) {
+  return segments.filter(segment => segment.text.trim());
+}
+
+export function renderSrt(segments: TranscriptSegmentExport[]): string {
+  return cues(segments)
+    .map((segment, index) => [
+      String(index + 1),
+      `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+      cueText(segment.text),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function renderVtt(segments: TranscriptSegmentExport[]): string {
+  const body = cues(segments)
+    .map(segment => [
+      `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}`,
+      cueText(segment.text),
+    ].join('\n'))
+    .join('\n\n');
+
+  return `WEBVTT\n\n${body}\n`;
+}
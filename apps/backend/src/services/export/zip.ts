@@ -0,0 +1,294 @@
+import zlib from 'zlib';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, with forward slashes
+  data: Buffer | string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// Pass the CRC of the data so far to continue it over the next chunk
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, the only timestamps the base format supports
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+interface EntryHeader {
+  name: Buffer;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  day: number;
+}
+
+// Bit 3: CRC and sizes follow the data in a descriptor. Bit 11: UTF-8 file names.
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+// Sizes and offsets are 32 bits without the ZIP64 extension
+const MAX_ZIP_SIZE = 0xffffffff;
+
+function localHeader(entry: EntryHeader): Buffer {
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4); // Version needed to extract
+  local.writeUInt16LE(entry.flags, 6);
+  local.writeUInt16LE(8, 8); // Deflate
+  local.writeUInt16LE(entry.time, 10);
+  local.writeUInt16LE(entry.day, 12);
+  local.writeUInt32LE(entry.crc, 14);
+  local.writeUInt32LE(entry.compressedSize, 18);
+  local.writeUInt32LE(entry.size, 22);
+  local.writeUInt16LE(entry.name.length, 26);
+  local.writeUInt16LE(0, 28);
+  return Buffer.concat([local, entry.name]);
+}
+
+function centralHeader(entry: EntryHeader, offset: number): Buffer {
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4); // Version made by
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(entry.flags, 8);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt16LE(entry.time, 12);
+  central.writeUInt16LE(entry.day, 14);
+  central.writeUInt32LE(entry.crc, 16);
+  central.writeUInt32LE(entry.compressedSize, 20);
+  central.writeUInt32LE(entry.size, 24);
+  central.writeUInt16LE(entry.name.length, 28);
+  central.writeUInt32LE(offset, 42);
+  return Buffer.concat([central, entry.name]);
+}
+
+function endRecord(count: number, centralDirectorySize: number, centralDirectoryOffset: number): Buffer {
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(count, 8);
+  end.writeUInt16LE(count, 10);
+  end.writeUInt32LE(centralDirectorySize, 12);
+  end.writeUInt32LE(centralDirectoryOffset, 16);
+  return end;
+}
+
+/**
+ * Build a ZIP archive in memory, deflating each entry
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, day } = dosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const header: EntryHeader = {
+      name: Buffer.from(entry.name, 'utf8'),
+      flags: FLAG_UTF8,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      time,
+      day,
+    };
+
+    const local = localHeader(header);
+    localParts.push(local, compressed);
+    centralParts.push(centralHeader(header, offset));
+    offset += local.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+
+  return Buffer.concat([...localParts, centralDirectory, endRecord(entries.length, centralDirectory.length, offset)]);
+}
+
+export interface ZipStreamEntry {
+  name: string;
+  data: Buffer | string | (() => Promise<Readable>); // Opened when the entry is written
+}
+
+/**
+ * Stream a ZIP archive, reading and deflating one entry at a time, so
+ * archives far larger than memory can be written. CRC and sizes go in a
+ * data descriptor after each entry.
+ */
+export function createZipStream(entries: Iterable<ZipStreamEntry>, modifiedAt: Date = new Date()): Readable {
+  const { time, day } = dosDateTime(modifiedAt);
+
+  async function* chunks() {
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+    let count = 0;
+
+    for (const entry of entries) {
+      const header: EntryHeader = {
+        name: Buffer.from(entry.name, 'utf8'),
+        flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR,
+        crc: 0,
+        compressedSize: 0,
+        size: 0,
+        time,
+        day,
+      };
+
+      const local = localHeader(header);
+      yield local;
+
+      const source = typeof entry.data === 'function'
+        ? await entry.data()
+        : Readable.from([Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8')]);
+
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          header.crc = crc32(chunk, header.crc);
+          header.size += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      const deflate = zlib.createDeflateRaw();
+
+      // A failing source destroys the deflate stream, which ends the loop below with its error
+      const piped = pipeline(source, counter, deflate);
+      piped.catch(() => undefined);
+
+      for await (const chunk of deflate) {
+        header.compressedSize += chunk.length;
+        yield chunk as Buffer;
+      }
+      await piped;
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(header.crc, 4);
+      descriptor.writeUInt32LE(header.compressedSize, 8);
+      descriptor.writeUInt32LE(header.size, 12);
+      yield descriptor;
+
+      centralParts.push(centralHeader(header, offset));
+      offset += local.length + header.compressedSize + descriptor.length;
+      count++;
+
+      if (header.size > MAX_ZIP_SIZE || offset > MAX_ZIP_SIZE || count > 0xffff) {
+        throw new Error('Archive exceeds the ZIP format limits (4GB, 65535 entries)');
+      }
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    yield centralDirectory;
+    yield endRecord(count, centralDirectory.length, offset);
+  }
+
+  return Readable.from(chunks(), { objectMode: false });
+}
+
+/**
+ * Read the entries of a ZIP archive through its central directory. Only stored
+ * and deflated entries are supported; anything else throws IMPORT_ARCHIVE_INVALID.
+ * Archives whose entries add up to more than maxTotalSize once extracted are
+ * rejected before any entry is inflated, so a zip bomb can't exhaust memory.
+ */
+export function readZip(archive: Buffer, maxTotalSize = Infinity): ZipEntry[] {
+  const invalid = () => new Error('IMPORT_ARCHIVE_INVALID');
+
+  // The end record is followed by a comment of up to 64KB
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw invalid();
+  }
+
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  const records: Array<{ name: string; method: number; crc: number; compressedSize: number; size: number; localOffset: number }> = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > archive.length || archive.readUInt32LE(position) !== 0x02014b50) {
+      throw invalid();
+    }
+
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const record = {
+      name: archive.toString('utf8', position + 46, position + 46 + nameLength),
+      method: archive.readUInt16LE(position + 10),
+      crc: archive.readUInt32LE(position + 16),
+      compressedSize: archive.readUInt32LE(position + 20),
+      size: archive.readUInt32LE(position + 24),
+      localOffset: archive.readUInt32LE(position + 42),
+    };
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (record.name.endsWith('/')) {
+      continue; // Directory entry
+    }
+
+    totalSize += record.size;
+    records.push(record);
+  }
+
+  if (totalSize > maxTotalSize) {
+    throw invalid();
+  }
+
+  return records.map(({ name, method, crc, compressedSize, size, localOffset }) => {
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw invalid();
+    }
+
+    // The local header may carry a different extra field than the central one
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+    if (raw.length !== compressedSize) {
+      throw invalid();
+    }
+
+    let data: Buffer;
+    try {
+      if (method === 0) {
+        data = Buffer.from(raw);
+      } else if (method === 8) {
+        // Inflating past the declared size means the central directory lied
+        data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+      } else {
+        throw invalid();
+      }
+    } catch {
+      throw invalid();
+    }
+
+    if (data.length !== size || crc32(data) !== crc) {
+      throw invalid();
+    }
+
+    return { name, data };
+  });
+}
@@ -1,3 +1,8 @@
+import type { SummaryStyle } from '@notas-voz/schemas';
+import type { LLMSummaryOutput } from '@notas-voz/schemas';
+import { buildSummaryPrompt } from './prompts.js';
+import { validateSummaryOutput, buildRepairPrompt } from './summary-output.js';
+
 export interface SummarizationResult {
   tlDr: string;
   bullets: string[];
@@ -12,9 +17,20 @@ export interface ActionItem {
   category?: string;
 }
 
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatResult {
+  content: string;
+  metadata?: Record<string, any>;
+}
+
 export interface LLMProvider {
   name: string;
   summarize(text: string, options?: SummarizationOptions): Promise<SummarizationResult>;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
   getSupportedModels(): string[];
   getMaxTokens(): number;
 }
@@ -24,7 +40,15 @@ export interface SummarizationOptions {
   language?: string;
   temperature?: number;
   maxTokens?: number;
-  customPrompt?: string;
+  style?: SummaryStyle;
+  customPrompt?: string; // Replaces the style instructions
+}
+
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object where the API supports it
 }
 
 /**
@@ -44,6 +68,34 @@ export function createLLMProvider(): LLMProvider {
   }
 }
 
+/**
+ * Map validated model output to the provider result. Due dates are filled in
+ * later from the transcript wording (see due-dates.ts).
+ */
+function toSummarizationResult(output: LLMSummaryOutput, metadata: Record<string, any>): SummarizationResult {
+  return {
+    tlDr: output.tlDr,
+    bullets: output.bullets,
+    actions: output.actions.map(action => ({
+      text: action.text,
+      priority: action.priority || 'medium',
+      category: action.category ?? undefined,
+    })),
+    metadata,
+  };
+}
+
+/**
+ * Conversation used to ask the model to fix an invalid summary
+ */
+function repairMessages(messages: ChatMessage[], previous: string, errors: string[]): ChatMessage[] {
+  return [
+    ...messages,
+    { role: 'assistant', content: previous },
+    { role: 'user', content: buildRepairPrompt(errors) },
+  ];
+}
+
 // Mock LLM Provider for development/testing
 export class MockLLMProvider implements LLMProvider {
   name = 'mock';
@@ -82,22 +134,61 @@ export class MockLLMProvider implements LLMProvider {
     const randomIndex = Math.floor(Math.random() * mockSummaries.tlDr.length);
     const selectedActions = mockSummaries.actions[Math.floor(Math.random() * mockSummaries.actions.length)];
 
-    // Add suggested due dates to actions
-    const actionsWithDates = selectedActions.map((action, index) => ({
-      ...action,
-      dueSuggested: new Date(Date.now() + (index + 1) * 3 * 24 * 60 * 60 * 1000), // 3, 6, 9 days from now
-    }));
-
-    return {
+    // Same guard as the real providers, applied to the serialized mock response
+    const content = JSON.stringify({
       tlDr: mockSummaries.tlDr[randomIndex],
       bullets: mockSummaries.bullets[randomIndex],
-      actions: actionsWithDates,
+      actions: selectedActions,
+    });
+    const { output, validation } = await validateSummaryOutput(content);
+
+    return toSummarizationResult(output, {
+      provider: 'mock',
+      processingTime: '2.8s',
+      inputTokens: Math.floor(text.length / 4), // Rough token estimation
+      outputTokens: 150,
+      model: 'mock-v1',
+      style: options?.style,
+      validation,
+    });
+  }
+
+  /**
+   * Deterministic answer: quotes the numbered context block ("[n] ...") that shares
+   * the most words with the last line of the conversation, citing it as [n].
+   */
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+    const lastMessage = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const lines = lastMessage.trim().split('\n');
+    const question = lines[lines.length - 1];
+
+    const wordsOf = (text: string) => new Set(
+      text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z0-9]+/).filter(word => word.length > 3)
+    );
+    const questionWords = wordsOf(question);
+
+    let best: { index: string; text: string; overlap: number } | null = null;
+    for (const block of lastMessage.split(/\n\s*\n/)) {
+      const match = block.match(/^\[(\d+)\][^\n]*\n([\s\S]+)$/);
+      if (!match) continue;
+
+      const overlap = [...wordsOf(match[2])].filter(word => questionWords.has(word)).length;
+      if (overlap > 0 && (!best || overlap > best.overlap)) {
+        best = { index: match[1], text: match[2].trim(), overlap };
+      }
+    }
+
+    const content = best
+      ? `Según tus notas: "${best.text.split(/(?<=[.!?])\s+/)[0]}" [${best.index}]`
+      : 'No encontré información sobre eso en tus notas.';
+
+    return {
+      content,
       metadata: {
         provider: 'mock',
-        processingTime: '2.8s',
-        inputTokens: Math.floor(text.length / 4), // Rough token estimation
-        outputTokens: 150,
-        model: 'mock-v1',
+        model: options?.model || 'mock-v1',
+        inputTokens: Math.floor(messages.reduce((sum, message) => sum + message.content.length, 0) / 4),
+        outputTokens: Math.floor(content.length / 4),
       }
     };
   }
@@ -126,96 +217,83 @@ export class OpenAILLMProvider implements LLMProvider {
 
   async summarize(text: string, options?: SummarizationOptions): Promise<SummarizationResult> {
     try {
-      const model = options?.model || process.env.OPENAI_MODEL || 'gpt-4o-mini';
-      const language = options?.language || 'español';
-      
-      const systemPrompt = `Eres un asistente experto en resumir y organizar información. Tu tarea es analizar transcripciones de audio y generar:
-
-1. Un resumen corto (TL;DR) de máximo 100 palabras
-2. Una lista de puntos clave (bullets) - máximo 5 puntos
-3. Una lista de acciones identificadas con prioridad sugerida
-
-Responde ÚNICAMENTE con un JSON válido en este formato:
-{
-  "tlDr": "resumen corto aquí",
-  "bullets": ["punto 1", "punto 2", "punto 3"],
-  "actions": [
-    {
-      "text": "acción a realizar",
-      "priority": "high|medium|low",
-      "category": "desarrollo|reunión|documentación|testing|etc"
-    }
-  ]
-}
-
-El contenido debe estar en ${language}. Si no se identifican acciones claras, devuelve un array vacío para actions.`;
-
-      const userPrompt = `Analiza esta transcripción y genera el resumen estructurado:
-
-${text}`;
-
-      const response = await fetch(`${this.baseURL}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: options?.temperature || 0.3,
-          max_tokens: options?.maxTokens || 1000,
-          response_format: { type: 'json_object' },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
+      const messages: ChatMessage[] = [
+        { role: 'system', content: buildSummaryPrompt(options) },
+        {
+          role: 'user',
+          content: `Analiza esta transcripción y genera el resumen estructurado:
 
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
+${text}`
+        }
+      ];
+      const chatOptions: ChatOptions = {
+        model: options?.model,
+        temperature: options?.temperature || 0.3,
+        maxTokens: options?.maxTokens || 1000,
+        json: true,
+      };
 
-      if (!content) {
-        throw new Error('No response content from OpenAI');
-      }
+      const response = await this.complete(messages, chatOptions);
+      const { output, validation } = await validateSummaryOutput(response.content, async (previous, errors) =>
+        (await this.complete(repairMessages(messages, previous, errors), chatOptions)).content
+      );
 
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch {
-        throw new Error('Invalid JSON response from OpenAI');
-      }
+      return toSummarizationResult(output, { ...response.metadata, validation });
 
-      // Add suggested due dates to actions
-      const actionsWithDates = (parsed.actions || []).map((action: any, index: number) => ({
-        text: action.text,
-        priority: action.priority || 'medium',
-        category: action.category,
-        dueSuggested: new Date(Date.now() + (index + 1) * 3 * 24 * 60 * 60 * 1000), // Stagger dates
-      }));
-
-      return {
-        tlDr: parsed.tlDr || '',
-        bullets: parsed.bullets || [],
-        actions: actionsWithDates,
-        metadata: {
-          provider: 'openai',
-          model,
-          inputTokens: data.usage?.prompt_tokens,
-          outputTokens: data.usage?.completion_tokens,
-          totalTokens: data.usage?.total_tokens,
-        }
-      };
+    } catch (error) {
+      throw new Error(`OpenAI LLM failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+    try {
+      return await this.complete(messages, options);
     } catch (error) {
       throw new Error(`OpenAI LLM failed: ${error instanceof Error ? error.message : error}`);
     }
   }
 
+  private async complete(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+    const model = options?.model || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: options?.temperature ?? 0.2,
+        max_tokens: options?.maxTokens || 1000,
+        ...(options?.json && { response_format: { type: 'json_object' } }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices[0]?.message?.content;
+
+    if (!content) {
+      throw new Error('No response content from OpenAI');
+    }
+
+    return {
+      content,
+      metadata: {
+        provider: 'openai',
+        model,
+        inputTokens: data.usage?.prompt_tokens,
+        outputTokens: data.usage?.completion_tokens,
+        totalTokens: data.usage?.total_tokens,
+      }
+    };
+  }
+
   getSupportedModels(): string[] {
     return [
       'gpt-4o',
@@ -246,99 +324,87 @@ export class AnthropicLLMProvider implements LLMProvider {
 
   async summarize(text: string, options?: SummarizationOptions): Promise<SummarizationResult> {
     try {
-      const model = options?.model || process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307';
-      const language = options?.language || 'español';
-
-      const prompt = `Eres un asistente experto en resumir y organizar información. Analiza esta transcripción de audio y genera un resumen estructurado.
+      const messages: ChatMessage[] = [
+        { role: 'system', content: buildSummaryPrompt(options) },
+        {
+          role: 'user',
+          content: `Transcripción:
+${text}`
+        }
+      ];
+      const chatOptions: ChatOptions = {
+        model: options?.model,
+        temperature: options?.temperature || 0.3,
+        maxTokens: options?.maxTokens || 1000,
+      };
 
-Transcripción:
-${text}
+      const response = await this.complete(messages, chatOptions);
+      const { output, validation } = await validateSummaryOutput(response.content, async (previous, errors) =>
+        (await this.complete(repairMessages(messages, previous, errors), chatOptions)).content
+      );
 
-Genera un resumen en ${language} con el siguiente formato JSON:
+      return toSummarizationResult(output, { ...response.metadata, validation });
 
-{
-  "tlDr": "resumen corto de máximo 100 palabras",
-  "bullets": ["punto clave 1", "punto clave 2", "punto clave 3"],
-  "actions": [
-    {
-      "text": "acción específica a realizar",
-      "priority": "high|medium|low",
-      "category": "desarrollo|reunión|documentación|testing|etc"
+    } catch (error) {
+      throw new Error(`Anthropic LLM failed: ${error instanceof Error ? error.message : error}`);
     }
-  ]
-}
+  }
 
-Reglas:
-- TL;DR: máximo 100 palabras, conciso y claro
-- Bullets: máximo 5 puntos clave
-- Actions: solo acciones específicas y realizables
-- Si no hay acciones claras, devuelve array vacío
-- Responde SOLO con el JSON válido`;
-
-      const response = await fetch(`${this.baseURL}/messages`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: 'user', content: prompt }
-          ],
-          temperature: options?.temperature || 0.3,
-          max_tokens: options?.maxTokens || 1000,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Anthropic API error: ${response.statusText}`);
-      }
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+    try {
+      return await this.complete(messages, options);
+    } catch (error) {
+      throw new Error(`Anthropic LLM failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
-      const data = await response.json();
-      const content = data.content[0]?.text;
+  private async complete(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+    const model = options?.model || process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307';
+
+    // The Messages API takes the system prompt separately from the conversation
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const response = await fetch(`${this.baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model,
+        ...(system && { system }),
+        messages: messages
+          .filter(message => message.role !== 'system')
+          .map(message => ({ role: message.role, content: message.content })),
+        temperature: options?.temperature ?? 0.2,
+        max_tokens: options?.maxTokens || 1000,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.statusText}`);
+    }
 
-      if (!content) {
-        throw new Error('No response content from Anthropic');
-      }
+    const data = await response.json();
+    const content = data.content[0]?.text;
 
-      // Extract JSON from response (Claude sometimes adds explanatory text)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No valid JSON found in Anthropic response');
-      }
+    if (!content) {
+      throw new Error('No response content from Anthropic');
+    }
 
-      let parsed;
-      try {
-        parsed = JSON.parse(jsonMatch[0]);
-      } catch {
-        throw new Error('Invalid JSON response from Anthropic');
+    return {
+      content,
+      metadata: {
+        provider: 'anthropic',
+        model,
+        inputTokens: data.usage?.input_tokens,
+        outputTokens: data.usage?.output_tokens,
       }
-
-      // Add suggested due dates to actions
-      const actionsWithDates = (parsed.actions || []).map((action: any, index: number) => ({
-        text: action.text,
-        priority: action.priority || 'medium',
-        category: action.category,
-        dueSuggested: new Date(Date.now() + (index + 1) * 3 * 24 * 60 * 60 * 1000),
-      }));
-
-      return {
-        tlDr: parsed.tlDr || '',
-        bullets: parsed.bullets || [],
-        actions: actionsWithDates,
-        metadata: {
-          provider: 'anthropic',
-          model,
-          inputTokens: data.usage?.input_tokens,
-          outputTokens: data.usage?.output_tokens,
-        }
-      };
-
-    } catch (error) {
-      throw new Error(`Anthropic LLM failed: ${error instanceof Error ? error.message : error}`);
-    }
+    };
   }
 
   getSupportedModels(): string[] {
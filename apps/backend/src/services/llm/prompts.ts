@@ -0,0 +1,69 @@
+import type { SummaryStyle } from '@notas-voz/schemas';
+
+/**
+ * What each summary style should focus on
+ */
+export const SUMMARY_STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+  minutes: `Redacta un acta de reunión:
+- El TL;DR resume el objetivo de la reunión y las decisiones tomadas
+- Los puntos clave recogen temas tratados, decisiones y responsables mencionados
+- Las acciones son los compromisos acordados, con responsable si se menciona`,
+  lecture: `Redacta apuntes de clase o charla:
+- El TL;DR explica el tema central y la idea principal
+- Los puntos clave recogen conceptos, definiciones y ejemplos importantes
+- Las acciones son tareas, lecturas o ejercicios mencionados`,
+  interview: `Resume una entrevista:
+- El TL;DR presenta a la persona entrevistada y las conclusiones principales
+- Los puntos clave recogen las respuestas más relevantes y citas destacadas
+- Las acciones son seguimientos acordados con la persona entrevistada`,
+  journal: `Resume una entrada de diario personal:
+- El TL;DR recoge lo vivido y cómo se sintió la persona, en primera persona
+- Los puntos clave recogen reflexiones, emociones y aprendizajes
+- Las acciones son propósitos o pendientes que la persona se propone`,
+  standup: `Resume una reunión diaria (standup):
+- El TL;DR indica el estado general del equipo
+- Los puntos clave recogen lo hecho, lo planeado y los bloqueos, agrupados por persona si se mencionan
+- Las acciones son los bloqueos a resolver y los compromisos para hoy`,
+};
+
+const DEFAULT_INSTRUCTIONS = `Analiza la transcripción y genera:
+1. Un resumen corto (TL;DR)
+2. Una lista de puntos clave (bullets)
+3. Una lista de acciones identificadas con prioridad sugerida`;
+
+/**
+ * System prompt for summarization. A custom prompt (user template) replaces the
+ * style instructions; the response format is always appended so parsing keeps working.
+ */
+export function buildSummaryPrompt(options?: {
+  language?: string;
+  style?: SummaryStyle;
+  customPrompt?: string;
+}): string {
+  const language = options?.language || 'español';
+  const instructions = options?.customPrompt
+    || (options?.style ? SUMMARY_STYLE_INSTRUCTIONS[options.style] : DEFAULT_INSTRUCTIONS);
+
+  return `Eres un asistente experto en resumir y organizar información a partir de transcripciones de audio.
+
+${instructions}
+
+Responde ÚNICAMENTE con un JSON válido en este formato:
+{
+  "tlDr": "resumen corto aquí",
+  "bullets": ["punto 1", "punto 2", "punto 3"],
+  "actions": [
+    {
+      "text": "acción a realizar",
+      "priority": "high|medium|low",
+      "category": "desarrollo|reunión|documentación|testing|etc"
+    }
+  ]
+}
+
+Reglas:
+- TL;DR: máximo 100 palabras, conciso y claro
+- Bullets: máximo 5 puntos clave
+- Actions: solo acciones específicas y realizables; si no hay acciones claras, devuelve un array vacío
+- Todo el contenido debe estar en ${language}`;
+}
@@ -0,0 +1,173 @@
+import {
+  LLMSummaryOutputSchema,
+  LLMSummaryActionSchema,
+  LLM_SUMMARY_LIMITS,
+  type LLMSummaryOutput,
+} from '@notas-voz/schemas';
+import type { ZodIssue } from 'zod';
+
+// Times the model is asked to fix its own output before salvaging what is usable
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface SummaryValidation {
+  attempts: number;        // Model responses checked, including repairs
+  failures: string[][];    // Problems found in each rejected response
+  repaired: boolean;       // A repair request produced valid output
+  salvaged: boolean;       // Output was kept partially after repairs ran out
+  clamped?: { bullets?: number; actions?: number }; // Items dropped over the limits
+}
+
+type CheckResult =
+  | { success: true; data: LLMSummaryOutput; clamped?: SummaryValidation['clamped'] }
+  | { success: false; errors: string[]; json?: unknown };
+
+/**
+ * Parse the first JSON object in a model response, tolerating code fences
+ * and explanatory text around it
+ */
+export function extractJson(content: string): unknown {
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('No JSON object found in response');
+  }
+
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    throw new Error('Response is not valid JSON');
+  }
+}
+
+function formatIssue(issue: ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+// Extra bullets and actions are dropped rather than sent back for repair
+function clampLists(json: unknown): { json: unknown; clamped?: SummaryValidation['clamped'] } {
+  if (!json || typeof json !== 'object') {
+    return { json };
+  }
+
+  const output = { ...(json as Record<string, unknown>) };
+  const clamped: NonNullable<SummaryValidation['clamped']> = {};
+
+  for (const key of ['bullets', 'actions'] as const) {
+    const list = output[key];
+    if (Array.isArray(list) && list.length > LLM_SUMMARY_LIMITS[key]) {
+      clamped[key] = list.length - LLM_SUMMARY_LIMITS[key];
+      output[key] = list.slice(0, LLM_SUMMARY_LIMITS[key]);
+    }
+  }
+
+  return { json: output, clamped: Object.keys(clamped).length > 0 ? clamped : undefined };
+}
+
+/**
+ * Check a model response against the shared summary schema
+ */
+export function checkSummaryOutput(content: string): CheckResult {
+  let raw: unknown;
+  try {
+    raw = extractJson(content);
+  } catch (error) {
+    return { success: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const { json, clamped } = clampLists(raw);
+  const result = LLMSummaryOutputSchema.safeParse(json);
+
+  if (!result.success) {
+    return { success: false, errors: result.error.issues.map(formatIssue), json };
+  }
+
+  return { success: true, data: result.data, clamped };
+}
+
+/**
+ * Keep the valid parts of an output that never passed validation. Returns null
+ * when there is not even a TL;DR or a bullet to show.
+ */
+export function salvageSummaryOutput(json: unknown): LLMSummaryOutput | null {
+  if (!json || typeof json !== 'object') {
+    return null;
+  }
+
+  const output = json as Record<string, unknown>;
+  const strings = (value: unknown) => Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim())
+    : [];
+
+  const bullets = strings(output.bullets).slice(0, LLM_SUMMARY_LIMITS.bullets);
+  const tlDr = typeof output.tlDr === 'string' && output.tlDr.trim() ? output.tlDr.trim() : bullets[0];
+
+  if (!tlDr) {
+    return null;
+  }
+
+  const actions = (Array.isArray(output.actions) ? output.actions : [])
+    .map(action => {
+      if (typeof action === 'string') {
+        return LLMSummaryActionSchema.safeParse({ text: action });
+      }
+      const { text, priority, category } = (action ?? {}) as Record<string, unknown>;
+      const parsed = LLMSummaryActionSchema.safeParse({ text, priority, category });
+      // An invalid priority or category shouldn't cost the whole action
+      return parsed.success ? parsed : LLMSummaryActionSchema.safeParse({ text });
+    })
+    .flatMap(parsed => parsed.success ? [parsed.data] : [])
+    .slice(0, LLM_SUMMARY_LIMITS.actions);
+
+  return { tlDr, bullets, actions };
+}
+
+/**
+ * Validate a summary response, asking the model to repair it a bounded number
+ * of times. Providers without a repair channel only get the salvage step.
+ */
+export async function validateSummaryOutput(
+  content: string,
+  repair?: (previous: string, errors: string[]) => Promise<string>
+): Promise<{ output: LLMSummaryOutput; validation: SummaryValidation }> {
+  const validation: SummaryValidation = { attempts: 0, failures: [], repaired: false, salvaged: false };
+  let current = content;
+  let lastJson: unknown;
+
+  while (true) {
+    validation.attempts++;
+    const result = checkSummaryOutput(current);
+
+    if (result.success) {
+      validation.repaired = validation.attempts > 1;
+      if (result.clamped) validation.clamped = result.clamped;
+      return { output: result.data, validation };
+    }
+
+    validation.failures.push(result.errors);
+    if (result.json !== undefined) lastJson = result.json;
+
+    if (!repair || validation.attempts > MAX_REPAIR_ATTEMPTS) {
+      break;
+    }
+
+    console.warn(`⚠️ Summary output failed validation (attempt ${validation.attempts}): ${result.errors.join('; ')}`);
+    current = await repair(current, result.errors);
+  }
+
+  const salvaged = salvageSummaryOutput(lastJson);
+  if (!salvaged) {
+    throw new Error(`Invalid summary output: ${validation.failures[validation.failures.length - 1].join('; ')}`);
+  }
+
+  validation.salvaged = true;
+  return { output: salvaged, validation };
+}
+
+/**
+ * Follow-up turn asking the model to fix a response that failed validation
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `Tu respuesta anterior no cumple el formato requerido:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Devuelve ÚNICAMENTE el JSON corregido, con las claves "tlDr" (texto), "bullets" (máximo ${LLM_SUMMARY_LIMITS.bullets} textos) y "actions" (máximo ${LLM_SUMMARY_LIMITS.actions} objetos con "text", "priority" y "category").`;
+}
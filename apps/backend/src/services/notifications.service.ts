@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import type { DigestFrequency, NotificationList } from '@notas-voz/schemas';
+import { emailService, type ActionEmailItem } from './email.js';
+import { localParts } from './due-dates.js';
+import { buildActionOrderBy, buildActionWhere } from './actions.service.js';
+import { DEFAULT_REMINDER_LEAD_HOURS, DEFAULT_TIMEZONE } from './settings.service.js';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest reminder lead users can choose, bounds the reminder query
+const MAX_REMINDER_LEAD_HOURS = 168;
+
+// Actions listed per section of a digest
+const DIGEST_ITEM_LIMIT = 20;
+
+// How often the scheduler looks for reminders and digests to send
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.NOTIFICATIONS_INTERVAL_MS || '60000', 10);
+
+const NOTE_SUMMARY = { note: { select: { id: true, title: true } } };
+
+interface DigestSchedule {
+  digestFrequency: DigestFrequency | null;
+  digestHour: number;
+  lastDigestAt: Date | null;
+}
+
+/**
+ * A reminder goes out once the action is within the user's lead time of its due date
+ */
+export function isReminderDue(due: Date, leadHours: number, now: Date): boolean {
+  return due > now && due.getTime() - leadHours * HOUR_MS <= now.getTime();
+}
+
+/**
+ * A digest goes out once per local day, from the chosen hour on; weekly ones only on Mondays
+ */
+export function isDigestDue(schedule: DigestSchedule, timezone: string, now: Date): boolean {
+  if (!schedule.digestFrequency) return false;
+
+  const local = localParts(now, timezone);
+  if (local.hour < schedule.digestHour) return false;
+
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+  if (schedule.digestFrequency === 'weekly' && weekday !== 1) return false;
+
+  if (!schedule.lastDigestAt) return true;
+
+  const last = localParts(schedule.lastDigestAt, timezone);
+  return last.year !== local.year || last.month !== local.month || last.day !== local.day;
+}
+
+export function unsubscribeUrl(token: string, list: NotificationList): string {
+  const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${baseUrl}/unsubscribe?token=${token}&list=${list}`;
+}
+
+function toEmailItem(action: any): ActionEmailItem {
+  return {
+    text: action.text,
+    due: action.dueSuggested,
+    noteId: action.note.id,
+    noteTitle: action.note.title,
+  };
+}
+
+/**
+ * Action reminder and digest emails, sent by a scheduler in the worker process
+ */
+export class NotificationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(intervalMs = SCHEDULER_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.runOnce(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now = new Date()): Promise<void> {
+    // A slow run must not overlap the next one
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.sendDueReminders(now);
+      await this.sendDigests(now);
+    } catch (error) {
+      console.error('❌ Notification run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Email each user the open actions that entered their reminder window.
+   * Returns the number of emails sent.
+   */
+  async sendDueReminders(now = new Date()): Promise<number> {
+    const actions = await prisma.action.findMany({
+      where: {
+        done: false,
+        reminderSentAt: null,
+        note: { deletedAt: null },
+        dueSuggested: { gt: now, lte: new Date(now.getTime() + MAX_REMINDER_LEAD_HOURS * HOUR_MS) }
+      },
+      include: {
+        ...NOTE_SUMMARY,
+        user: { select: { email: true, settings: true } }
+      },
+      orderBy: { dueSuggested: 'asc' }
+    });
+
+    const dueByUser = new Map<string, typeof actions>();
+    for (const action of actions) {
+      const settings = action.user.settings;
+      if (settings && !settings.remindersEnabled) continue;
+
+      const leadHours = settings?.reminderLeadHours ?? DEFAULT_REMINDER_LEAD_HOURS;
+      if (!isReminderDue(action.dueSuggested!, leadHours, now)) continue;
+
+      dueByUser.set(action.userId, [...(dueByUser.get(action.userId) ?? []), action]);
+    }
+
+    let sent = 0;
+    for (const [userId, userActions] of dueByUser) {
+      // Claim each action first so a concurrent run doesn't remind it again
+      const claimed = [];
+      for (const action of userActions) {
+        const { count } = await prisma.action.updateMany({
+          where: { id: action.id, reminderSentAt: null },
+          data: { reminderSentAt: now }
+        });
+        if (count > 0) claimed.push(action);
+      }
+
+      if (claimed.length === 0) continue;
+
+      const { user } = claimed[0];
+      try {
+        const token = await this.getUnsubscribeToken(userId);
+        await emailService.sendActionReminderEmail(user.email, claimed.map(toEmailItem), {
+          timezone: user.settings?.timezone ?? DEFAULT_TIMEZONE,
+          unsubscribeUrl: unsubscribeUrl(token, 'reminders'),
+        });
+        sent++;
+      } catch (error) {
+        // Release the actions so the next run retries them
+        await prisma.action.updateMany({
+          where: { id: { in: claimed.map(action => action.id) }, reminderSentAt: now },
+          data: { reminderSentAt: null }
+        });
+        console.error(`❌ Failed to send action reminders to user ${userId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Send the digests whose local send time has come. Returns the number of emails sent.
+   */
+  async sendDigests(now = new Date()): Promise<number> {
+    const subscribers = await prisma.userSettings.findMany({
+      where: { digestFrequency: { not: null } },
+      include: { user: { select: { email: true } } }
+    });
+
+    let sent = 0;
+    for (const settings of subscribers) {
+      const timezone = settings.timezone ?? DEFAULT_TIMEZONE;
+      if (!isDigestDue(settings, timezone, now)) continue;
+
+      // Claim the digest first so a concurrent run doesn't send it again
+      const { count } = await prisma.userSettings.updateMany({
+        where: { id: settings.id, lastDigestAt: settings.lastDigestAt },
+        data: { lastDigestAt: now }
+      });
+      if (count === 0) continue;
+
+      try {
+        const digest = await this.buildDigest(settings.userId, now);
+
+        // Nothing to report
+        if (digest.openCount === 0) continue;
+
+        const token = await this.getUnsubscribeToken(settings.userId);
+        await emailService.sendActionDigestEmail(settings.user.email, digest, {
+          timezone,
+          unsubscribeUrl: unsubscribeUrl(token, 'digest'),
+        });
+        sent++;
+      } catch (error) {
+        // Restore the previous send time so the next run retries it
+        await prisma.userSettings.updateMany({
+          where: { id: settings.id, lastDigestAt: now },
+          data: { lastDigestAt: settings.lastDigestAt }
+        });
+        console.error(`❌ Failed to send action digest to user ${settings.userId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Overdue actions and the other open ones, soonest first
+   */
+  async buildDigest(userId: string, now = new Date()) {
+    const orderBy = buildActionOrderBy({ sort: 'due' });
+
+    const [overdue, open, openCount] = await Promise.all([
+      prisma.action.findMany({
+        where: buildActionWhere(userId, { done: false, overdue: true }, now),
+        include: NOTE_SUMMARY,
+        orderBy,
+        take: DIGEST_ITEM_LIMIT
+      }),
+      prisma.action.findMany({
+        where: buildActionWhere(userId, { done: false, overdue: false }, now),
+        include: NOTE_SUMMARY,
+        orderBy,
+        take: DIGEST_ITEM_LIMIT
+      }),
+      prisma.action.count({ where: { userId, done: false, note: { deletedAt: null } } })
+    ]);
+
+    return {
+      overdue: overdue.map(toEmailItem),
+      open: open.map(toEmailItem),
+      openCount,
+    };
+  }
+
+  /**
+   * Turn off one kind of email for the user an unsubscribe link belongs to
+   */
+  async unsubscribe(token: string, list: NotificationList): Promise<void> {
+    const settings = await prisma.userSettings.findUnique({
+      where: { unsubscribeToken: token }
+    });
+
+    if (!settings) {
+      throw new Error('UNSUBSCRIBE_TOKEN_INVALID');
+    }
+
+    await prisma.userSettings.update({
+      where: { id: settings.id },
+      data: list === 'reminders' ? { remindersEnabled: false } : { digestFrequency: null }
+    });
+  }
+
+  /**
+   * Token for the user's unsubscribe links, created with the first email
+   */
+  private async getUnsubscribeToken(userId: string): Promise<string> {
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+    if (settings?.unsubscribeToken) {
+      return settings.unsubscribeToken;
+    }
+
+    const unsubscribeToken = crypto.randomBytes(32).toString('hex');
+    await prisma.userSettings.upsert({
+      where: { userId },
+      create: { userId, unsubscribeToken },
+      update: { unsubscribeToken }
+    });
+
+    return unsubscribeToken;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -1,16 +1,29 @@
-import { Queue, Worker, Job, QueueEvents } from 'bullmq';
+import { EventEmitter } from 'events';
+import { Queue, Worker, QueueEvents } from 'bullmq';
 import { Redis } from 'ioredis';
 import { PrismaClient } from '@prisma/client';
 import { nanoid } from 'nanoid';
+import type { SummaryStyle } from '@notas-voz/schemas';
+import { noteEventsService, JobEventType } from './events.service.js';
 
 const prisma = new PrismaClient();
 
 // Queue job data interfaces
+export interface TranscodeJobData {
+  noteId: string;
+  mediaId: string;
+  storageKey: string;
+  userId: string;
+  options?: TranscribeJobData['options'];
+}
+
 export interface TranscribeJobData {
   noteId: string;
   mediaId: string;
   storageKey: string;
   userId: string;
+  // Set when storageKey points at a transcoded copy instead of the upload
+  contentType?: string;
   options?: {
     language?: string;
     model?: string;
@@ -25,6 +38,44 @@ export interface SummarizeJobData {
   options?: {
     language?: string;
     model?: string;
+    style?: SummaryStyle;
+    templateId?: string;
+    customPrompt?: string; // Template prompt, resolved when the job is queued
+  };
+}
+
+// Account exports aren't tied to a note; their status lives on AccountExport
+export interface AccountExportJobData {
+  exportId: string;
+  userId: string;
+}
+
+export type QueueName = 'transcode' | 'transcribe' | 'summarize' | 'export';
+
+// Queues whose jobs process a note and report to its subscribers
+export type NoteQueueName = Exclude<QueueName, 'export'>;
+
+export interface QueueJobDataMap {
+  transcode: TranscodeJobData;
+  transcribe: TranscribeJobData;
+  summarize: SummarizeJobData;
+  export: AccountExportJobData;
+}
+
+type QueueJobData = QueueJobDataMap[QueueName];
+
+// Note the job works on; account exports have none
+function jobNoteId(data: QueueJobData): string | undefined {
+  return 'noteId' in data ? data.noteId : undefined;
+}
+
+export interface JobOptions {
+  removeOnComplete: number;
+  removeOnFail: number;
+  attempts: number;
+  backoff: {
+    type: 'exponential';
+    delay: number;
   };
 }
 
@@ -35,25 +86,150 @@ export interface QueueConfig {
     password?: string;
     db?: number;
   };
-  defaultJobOptions: {
-    removeOnComplete: number;
-    removeOnFail: number;
-    attempts: number;
-    backoff: {
-      type: 'exponential';
-      delay: number;
-    };
+  defaultJobOptions: JobOptions;
+}
+
+export interface AddJobOptions {
+  delay?: number;
+  priority?: number;
+  jobId?: string;
+}
+
+/**
+ * Job handed to a worker processor. BullMQ jobs satisfy this shape directly.
+ */
+export interface QueueJob<T> {
+  id?: string;
+  data: T;
+  attemptsMade: number;
+  updateProgress(progress: number | object): Promise<void>;
+}
+
+export type JobProcessor<T> = (job: QueueJob<T>) => Promise<void>;
+
+export interface WorkerOptions {
+  concurrency: number;
+  limiter?: {
+    max: number;
+    duration: number;
   };
 }
 
+export interface QueueWorker {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  close(): Promise<void>;
+  isRunning(): boolean;
+}
+
+export interface JobStatus {
+  status: string;
+  progress?: number | object;
+  error?: string;
+  result?: any;
+}
+
+export interface QueueStats {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
 /**
  * Queue service for managing background jobs
  */
-export class QueueService {
+export interface QueueService {
+  name: string;
+  addTranscodeJob(data: TranscodeJobData, options?: AddJobOptions): Promise<string>;
+  addTranscribeJob(data: TranscribeJobData, options?: AddJobOptions): Promise<string>;
+  addSummarizeJob(data: SummarizeJobData, options?: AddJobOptions): Promise<string>;
+  addExportJob(data: AccountExportJobData, options?: AddJobOptions): Promise<string>;
+  getJobStatus(queueName: QueueName, jobId: string): Promise<JobStatus>;
+  cancelJob(queueName: QueueName, jobId: string): Promise<boolean>;
+  getQueueStats(queueName: QueueName): Promise<QueueStats>;
+  pauseQueue(queueName: QueueName): Promise<void>;
+  resumeQueue(queueName: QueueName): Promise<void>;
+  cleanOldJobs(queueName: QueueName, olderThan?: number): Promise<void>;
+  createWorker<Q extends QueueName>(
+    queueName: Q,
+    processor: JobProcessor<QueueJobDataMap[Q]>,
+    options: WorkerOptions
+  ): QueueWorker;
+  healthCheck(): Promise<{ status: string; responseTime?: number }>;
+  close(): Promise<void>;
+}
+
+// What each stage runs on, as recorded on its processing jobs
+const JOB_PROVIDERS: Record<NoteQueueName, () => string> = {
+  transcode: () => 'ffmpeg',
+  transcribe: () => process.env.STT_PROVIDER || 'mock',
+  summarize: () => process.env.LLM_PROVIDER || 'mock',
+};
+
+/**
+ * Create the processing job record that mirrors a queued job
+ */
+async function createProcessingJob(type: NoteQueueName, data: QueueJobDataMap[NoteQueueName]) {
+  return prisma.processingJob.create({
+    data: {
+      type,
+      status: 'pending',
+      noteId: data.noteId,
+      provider: JOB_PROVIDERS[type](),
+      payload: data as any,
+      attempts: 0,
+      maxAttempts: 3,
+    },
+  });
+}
+
+/**
+ * Update processing job status in database
+ */
+async function updateProcessingJobStatus(
+  jobId: string,
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'retrying',
+  result?: any,
+  error?: string
+): Promise<void> {
+  try {
+    const updateData: any = {
+      status,
+      updatedAt: new Date(),
+    };
+
+    if (status === 'processing') {
+      updateData.startedAt = new Date();
+    } else if (status === 'completed') {
+      updateData.completedAt = new Date();
+      if (result) updateData.result = result;
+    } else if (status === 'failed' || status === 'retrying') {
+      updateData.error = error;
+      updateData.attempts = { increment: 1 };
+    }
+
+    await prisma.processingJob.update({
+      where: { id: jobId },
+      data: updateData,
+    });
+  } catch (err) {
+    console.error(`Failed to update processing job ${jobId}:`, err);
+  }
+}
+
+/**
+ * BullMQ-backed queue service (requires Redis)
+ */
+export class BullMQQueueService implements QueueService {
+  name = 'redis';
   private redis: Redis;
+  private transcodeQueue: Queue<TranscodeJobData>;
   private transcribeQueue: Queue<TranscribeJobData>;
   private summarizeQueue: Queue<SummarizeJobData>;
-  private queueEvents: QueueEvents[];
+  private exportQueue: Queue<AccountExportJobData>;
+  private queueEvents: Array<[NoteQueueName, QueueEvents]>;
+  private workers: Worker[] = [];
 
   constructor(config: QueueConfig) {
     // Initialize Redis connection
@@ -72,40 +248,54 @@ export class QueueService {
       defaultJobOptions: config.defaultJobOptions,
     };
 
+    this.transcodeQueue = new Queue<TranscodeJobData>('transcode', queueOptions);
     this.transcribeQueue = new Queue<TranscribeJobData>('transcribe', queueOptions);
     this.summarizeQueue = new Queue<SummarizeJobData>('summarize', queueOptions);
+    this.exportQueue = new Queue<AccountExportJobData>('export', queueOptions);
 
     // Initialize queue events for monitoring
-    this.queueEvents = [
-      new QueueEvents('transcribe', { connection: this.redis }),
-      new QueueEvents('summarize', { connection: this.redis }),
-    ];
+    const noteQueues: NoteQueueName[] = ['transcode', 'transcribe', 'summarize'];
+    this.queueEvents = noteQueues.map(name => [name, new QueueEvents(name, { connection: this.redis })]);
 
     this.setupEventListeners();
   }
 
   /**
-   * Add transcription job to queue
+   * Add transcoding job to queue
    */
-  async addTranscribeJob(data: TranscribeJobData, options?: {
-    delay?: number;
-    priority?: number;
-    jobId?: string;
-  }): Promise<string> {
+  async addTranscodeJob(data: TranscodeJobData, options?: AddJobOptions): Promise<string> {
     try {
       // Create processing job record
-      const processingJob = await prisma.processingJob.create({
+      const processingJob = await createProcessingJob('transcode', data);
+
+      const job = await this.transcodeQueue.add('transcode-audio', data, {
+        jobId: options?.jobId || processingJob.id,
+        delay: options?.delay,
+        priority: options?.priority || 10,
+      });
+
+      // Update processing job with queue job ID
+      await prisma.processingJob.update({
+        where: { id: processingJob.id },
         data: {
-          type: 'transcribe',
-          status: 'pending',
-          noteId: data.noteId,
-          provider: process.env.STT_PROVIDER || 'mock',
-          payload: data as any,
-          attempts: 0,
-          maxAttempts: 3,
+          payload: { ...data, queueJobId: job.id } as any
         },
       });
 
+      return job.id!;
+    } catch (error) {
+      throw new Error(`Failed to add transcode job: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Add transcription job to queue
+   */
+  async addTranscribeJob(data: TranscribeJobData, options?: AddJobOptions): Promise<string> {
+    try {
+      // Create processing job record
+      const processingJob = await createProcessingJob('transcribe', data);
+
       const job = await this.transcribeQueue.add('transcribe-audio', data, {
         jobId: options?.jobId || processingJob.id,
         delay: options?.delay,
@@ -115,8 +305,8 @@ export class QueueService {
       // Update processing job with queue job ID
       await prisma.processingJob.update({
         where: { id: processingJob.id },
-        data: { 
-          payload: { ...data, queueJobId: job.id } as any 
+        data: {
+          payload: { ...data, queueJobId: job.id } as any
         },
       });
 
@@ -129,24 +319,10 @@ export class QueueService {
   /**
    * Add summarization job to queue
    */
-  async addSummarizeJob(data: SummarizeJobData, options?: {
-    delay?: number;
-    priority?: number;
-    jobId?: string;
-  }): Promise<string> {
+  async addSummarizeJob(data: SummarizeJobData, options?: AddJobOptions): Promise<string> {
     try {
       // Create processing job record
-      const processingJob = await prisma.processingJob.create({
-        data: {
-          type: 'summarize',
-          status: 'pending',
-          noteId: data.noteId,
-          provider: process.env.LLM_PROVIDER || 'mock',
-          payload: data as any,
-          attempts: 0,
-          maxAttempts: 3,
-        },
-      });
+      const processingJob = await createProcessingJob('summarize', data);
 
       const job = await this.summarizeQueue.add('summarize-text', data, {
         jobId: options?.jobId || processingJob.id,
@@ -157,8 +333,8 @@ export class QueueService {
       // Update processing job with queue job ID
       await prisma.processingJob.update({
         where: { id: processingJob.id },
-        data: { 
-          payload: { ...data, queueJobId: job.id } as any 
+        data: {
+          payload: { ...data, queueJobId: job.id } as any
         },
       });
 
@@ -168,24 +344,35 @@ export class QueueService {
     }
   }
 
+  /**
+   * Add account export job to queue
+   */
+  async addExportJob(data: AccountExportJobData, options?: AddJobOptions): Promise<string> {
+    try {
+      const job = await this.exportQueue.add('export-account', data, {
+        jobId: options?.jobId || data.exportId,
+        delay: options?.delay,
+        priority: options?.priority || 20,
+      });
+
+      return job.id!;
+    } catch (error) {
+      throw new Error(`Failed to add export job: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   /**
    * Get job status
    */
-  async getJobStatus(queueName: 'transcribe' | 'summarize', jobId: string): Promise<{
-    status: string;
-    progress?: number;
-    error?: string;
-    result?: any;
-  }> {
-    const queue = queueName === 'transcribe' ? this.transcribeQueue : this.summarizeQueue;
-    const job = await queue.getJob(jobId);
+  async getJobStatus(queueName: QueueName, jobId: string): Promise<JobStatus> {
+    const job = await this.getQueue(queueName).getJob(jobId);
 
     if (!job) {
       return { status: 'not_found' };
     }
 
     const state = await job.getState();
-    
+
     return {
       status: state,
       progress: job.progress,
@@ -197,9 +384,8 @@ export class QueueService {
   /**
    * Cancel a job
    */
-  async cancelJob(queueName: 'transcribe' | 'summarize', jobId: string): Promise<boolean> {
-    const queue = queueName === 'transcribe' ? this.transcribeQueue : this.summarizeQueue;
-    const job = await queue.getJob(jobId);
+  async cancelJob(queueName: QueueName, jobId: string): Promise<boolean> {
+    const job = await this.getQueue(queueName).getJob(jobId);
 
     if (!job) {
       return false;
@@ -212,15 +398,9 @@ export class QueueService {
   /**
    * Get queue statistics
    */
-  async getQueueStats(queueName: 'transcribe' | 'summarize'): Promise<{
-    waiting: number;
-    active: number;
-    completed: number;
-    failed: number;
-    delayed: number;
-  }> {
-    const queue = queueName === 'transcribe' ? this.transcribeQueue : this.summarizeQueue;
-    
+  async getQueueStats(queueName: QueueName): Promise<QueueStats> {
+    const queue = this.getQueue(queueName);
+
     return {
       waiting: await queue.getWaiting().then(jobs => jobs.length),
       active: await queue.getActive().then(jobs => jobs.length),
@@ -233,55 +413,86 @@ export class QueueService {
   /**
    * Pause queue
    */
-  async pauseQueue(queueName: 'transcribe' | 'summarize'): Promise<void> {
-    const queue = queueName === 'transcribe' ? this.transcribeQueue : this.summarizeQueue;
-    await queue.pause();
+  async pauseQueue(queueName: QueueName): Promise<void> {
+    await this.getQueue(queueName).pause();
   }
 
   /**
    * Resume queue
    */
-  async resumeQueue(queueName: 'transcribe' | 'summarize'): Promise<void> {
-    const queue = queueName === 'transcribe' ? this.transcribeQueue : this.summarizeQueue;
-    await queue.resume();
+  async resumeQueue(queueName: QueueName): Promise<void> {
+    await this.getQueue(queueName).resume();
   }
 
   /**
    * Clean up old jobs
    */
-  async cleanOldJobs(queueName: 'transcribe' | 'summarize', olderThan: number = 24 * 60 * 60 * 1000): Promise<void> {
-    const queue = queueName === 'transcribe' ? this.transcribeQueue : this.summarizeQueue;
-    
+  async cleanOldJobs(queueName: QueueName, olderThan: number = 24 * 60 * 60 * 1000): Promise<void> {
+    const queue = this.getQueue(queueName);
+
     await queue.clean(olderThan, 10, 'completed');
     await queue.clean(olderThan, 10, 'failed');
   }
 
+  /**
+   * Create a worker for a queue. Workers get their own connection because
+   * BullMQ uses blocking Redis commands while waiting for jobs.
+   */
+  createWorker<Q extends QueueName>(
+    queueName: Q,
+    processor: JobProcessor<QueueJobDataMap[Q]>,
+    options: WorkerOptions
+  ): QueueWorker {
+    const worker = new Worker<QueueJobDataMap[Q]>(queueName, processor, {
+      connection: this.redis.duplicate(),
+      concurrency: options.concurrency,
+      limiter: options.limiter,
+    });
+
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private getQueue(queueName: QueueName): Queue<any> {
+    switch (queueName) {
+      case 'transcode':
+        return this.transcodeQueue;
+      case 'transcribe':
+        return this.transcribeQueue;
+      case 'summarize':
+        return this.summarizeQueue;
+      case 'export':
+        return this.exportQueue;
+    }
+  }
+
   /**
    * Setup event listeners for monitoring
    */
   private setupEventListeners(): void {
-    this.queueEvents.forEach((queueEvent, index) => {
-      const queueName = index === 0 ? 'transcribe' : 'summarize';
-
+    this.queueEvents.forEach(([queueName, queueEvent]) => {
       queueEvent.on('completed', async ({ jobId, returnvalue }) => {
         console.log(`✅ ${queueName} job ${jobId} completed`);
-        
+
         // Update processing job status
-        await this.updateProcessingJobStatus(jobId, 'completed', returnvalue);
+        await updateProcessingJobStatus(jobId, 'completed', returnvalue);
+        await this.publishJobEvent(queueName, jobId, 'completed');
       });
 
       queueEvent.on('failed', async ({ jobId, failedReason }) => {
         console.log(`❌ ${queueName} job ${jobId} failed: ${failedReason}`);
-        
+
         // Update processing job status
-        await this.updateProcessingJobStatus(jobId, 'failed', null, failedReason);
+        await updateProcessingJobStatus(jobId, 'failed', null, failedReason);
+        await this.publishJobEvent(queueName, jobId, 'failed', { error: failedReason });
       });
 
       queueEvent.on('active', async ({ jobId }) => {
         console.log(`🔄 ${queueName} job ${jobId} started`);
-        
+
         // Update processing job status
-        await this.updateProcessingJobStatus(jobId, 'processing');
+        await updateProcessingJobStatus(jobId, 'processing');
+        await this.publishJobEvent(queueName, jobId, 'active');
       });
 
       queueEvent.on('stalled', async ({ jobId }) => {
@@ -290,41 +501,29 @@ export class QueueService {
 
       queueEvent.on('progress', async ({ jobId, data }) => {
         console.log(`📊 ${queueName} job ${jobId} progress: ${data}%`);
+        await this.publishJobEvent(queueName, jobId, 'progress', { progress: data });
       });
     });
   }
 
   /**
-   * Update processing job status in database
+   * Forward a queue event to note subscribers. QueueEvents only carry the job ID,
+   * so the note is looked up from the job data.
    */
-  private async updateProcessingJobStatus(
-    jobId: string, 
-    status: 'pending' | 'processing' | 'completed' | 'failed',
-    result?: any,
-    error?: string
+  private async publishJobEvent(
+    queueName: NoteQueueName,
+    jobId: string,
+    type: JobEventType,
+    extra?: { progress?: number | object; error?: string }
   ): Promise<void> {
     try {
-      const updateData: any = {
-        status,
-        updatedAt: new Date(),
-      };
-
-      if (status === 'processing') {
-        updateData.startedAt = new Date();
-      } else if (status === 'completed') {
-        updateData.completedAt = new Date();
-        if (result) updateData.result = result;
-      } else if (status === 'failed') {
-        updateData.error = error;
-        updateData.attempts = { increment: 1 };
-      }
+      const job = await this.getQueue(queueName).getJob(jobId);
 
-      await prisma.processingJob.update({
-        where: { id: jobId },
-        data: updateData,
-      });
+      if (job) {
+        noteEventsService.publishJobEvent({ type, noteId: job.data.noteId, jobId, queueName, ...extra });
+      }
     } catch (err) {
-      console.error(`Failed to update processing job ${jobId}:`, err);
+      console.error(`Failed to publish event for job ${jobId}:`, err);
     }
   }
 
@@ -336,7 +535,7 @@ export class QueueService {
       const start = Date.now();
       await this.redis.ping();
       const responseTime = Date.now() - start;
-      
+
       return { status: 'ok', responseTime };
     } catch (error) {
       return { status: 'error' };
@@ -347,25 +546,555 @@ export class QueueService {
    * Close connections
    */
   async close(): Promise<void> {
+    await Promise.all(this.workers.map(worker => worker.close()));
+
     await Promise.all([
+      this.transcodeQueue.close(),
       this.transcribeQueue.close(),
       this.summarizeQueue.close(),
-      ...this.queueEvents.map(qe => qe.close()),
+      this.exportQueue.close(),
+      ...this.queueEvents.map(([, qe]) => qe.close()),
     ]);
-    
+
     await this.redis.quit();
   }
 }
 
+// =============================================
+// IN-MEMORY DRIVER
+// =============================================
+
+type MemoryJobState = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+
+class MemoryJob<T> implements QueueJob<T> {
+  state: MemoryJobState = 'waiting';
+  progress: number | object = 0;
+  attemptsMade = 0;
+  failedReason?: string;
+  returnvalue?: unknown;
+  finishedOn?: number;
+  timer?: NodeJS.Timeout;
+
+  constructor(
+    public id: string,
+    public name: string,
+    public data: T,
+    public priority: number,
+    private onProgress: (job: MemoryJob<T>) => void
+  ) {}
+
+  async updateProgress(progress: number | object): Promise<void> {
+    this.progress = progress;
+    this.onProgress(this);
+  }
+}
+
+class MemoryWorker<T> extends EventEmitter implements QueueWorker {
+  active = 0;
+  private running = true;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(
+    public processor: JobProcessor<T>,
+    public concurrency: number,
+    private onClose: (worker: MemoryWorker<T>) => void
+  ) {
+    super();
+  }
+
+  hasCapacity(): boolean {
+    return this.active < this.concurrency;
+  }
+
+  jobFinished(): void {
+    this.active--;
+    if (this.active === 0) {
+      this.idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Stop taking new jobs and wait for the ones in flight
+   */
+  async close(): Promise<void> {
+    this.running = false;
+    this.onClose(this);
+
+    if (this.active > 0) {
+      await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+    }
+  }
+}
+
+/**
+ * A single named queue held in process memory. Emits the same events as
+ * BullMQ's QueueEvents (active, progress, completed, failed) plus `retrying`.
+ */
+class MemoryQueue<T extends QueueJobData> extends EventEmitter {
+  private jobs = new Map<string, MemoryJob<T>>();
+  private waiting: MemoryJob<T>[] = [];
+  private finished: { completed: string[]; failed: string[] } = { completed: [], failed: [] };
+  private workers: MemoryWorker<T>[] = [];
+  private paused = false;
+
+  constructor(private jobOptions: JobOptions) {
+    super();
+  }
+
+  add(name: string, data: T, options: AddJobOptions & { jobId: string }): MemoryJob<T> {
+    const job = new MemoryJob<T>(
+      options.jobId,
+      name,
+      data,
+      options.priority ?? 0,
+      updated => this.emit('progress', { jobId: updated.id, noteId: jobNoteId(updated.data), data: updated.progress })
+    );
+    this.jobs.set(job.id, job);
+
+    if (options.delay && options.delay > 0) {
+      this.schedule(job, options.delay);
+    } else {
+      this.enqueue(job);
+    }
+
+    return job;
+  }
+
+  getJob(jobId: string): MemoryJob<T> | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  remove(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+
+    // Active jobs are owned by a worker and cannot be removed mid-flight
+    if (!job || job.state === 'active') {
+      return false;
+    }
+
+    if (job.timer) clearTimeout(job.timer);
+    this.waiting = this.waiting.filter(waitingJob => waitingJob.id !== jobId);
+    this.finished.completed = this.finished.completed.filter(id => id !== jobId);
+    this.finished.failed = this.finished.failed.filter(id => id !== jobId);
+    this.jobs.delete(jobId);
+    return true;
+  }
+
+  stats(): QueueStats {
+    const stats: QueueStats = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+    for (const job of this.jobs.values()) {
+      stats[job.state]++;
+    }
+    return stats;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.drain();
+  }
+
+  clean(olderThan: number): void {
+    const cutoff = Date.now() - olderThan;
+
+    for (const job of [...this.jobs.values()]) {
+      if ((job.state === 'completed' || job.state === 'failed') && (job.finishedOn ?? 0) <= cutoff) {
+        this.remove(job.id);
+      }
+    }
+  }
+
+  addWorker(processor: JobProcessor<T>, concurrency: number): MemoryWorker<T> {
+    const worker = new MemoryWorker<T>(processor, Math.max(1, concurrency), closed => {
+      this.workers = this.workers.filter(w => w !== closed);
+    });
+    this.workers.push(worker);
+
+    // Let the caller attach listeners before the first job starts
+    setImmediate(() => this.drain());
+    return worker;
+  }
+
+  async close(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (job.timer) clearTimeout(job.timer);
+    }
+    await Promise.all([...this.workers].map(worker => worker.close()));
+  }
+
+  private enqueue(job: MemoryJob<T>): void {
+    job.state = 'waiting';
+    job.timer = undefined;
+
+    // Lower priority number runs first, FIFO within the same priority
+    const index = this.waiting.findIndex(waitingJob => waitingJob.priority > job.priority);
+    if (index === -1) {
+      this.waiting.push(job);
+    } else {
+      this.waiting.splice(index, 0, job);
+    }
+
+    this.drain();
+  }
+
+  private schedule(job: MemoryJob<T>, delay: number): void {
+    job.state = 'delayed';
+    job.timer = setTimeout(() => this.enqueue(job), delay);
+  }
+
+  private drain(): void {
+    if (this.paused) return;
+
+    for (const worker of this.workers) {
+      while (worker.isRunning() && worker.hasCapacity() && this.waiting.length > 0) {
+        const job = this.waiting.shift()!;
+        void this.run(worker, job);
+      }
+    }
+  }
+
+  private async run(worker: MemoryWorker<T>, job: MemoryJob<T>): Promise<void> {
+    job.state = 'active';
+    worker.active++;
+    this.emit('active', { jobId: job.id, noteId: jobNoteId(job.data) });
+    worker.emit('active', job);
+
+    try {
+      const result = await worker.processor(job);
+
+      job.state = 'completed';
+      job.returnvalue = result;
+      job.failedReason = undefined;
+      job.finishedOn = Date.now();
+      this.retain('completed', job.id, this.jobOptions.removeOnComplete);
+
+      this.emit('completed', { jobId: job.id, noteId: jobNoteId(job.data), returnvalue: result });
+      worker.emit('completed', job, result);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      job.attemptsMade++;
+      job.failedReason = err.message;
+
+      if (job.attemptsMade < this.jobOptions.attempts) {
+        // Same formula as BullMQ's built-in exponential backoff
+        const delay = Math.round(Math.pow(2, job.attemptsMade - 1) * this.jobOptions.backoff.delay);
+        this.schedule(job, delay);
+        this.emit('retrying', { jobId: job.id, noteId: jobNoteId(job.data), failedReason: err.message, delay });
+      } else {
+        job.state = 'failed';
+        job.finishedOn = Date.now();
+        this.retain('failed', job.id, this.jobOptions.removeOnFail);
+        this.emit('failed', { jobId: job.id, noteId: jobNoteId(job.data), failedReason: err.message });
+      }
+
+      worker.emit('failed', job, err);
+    } finally {
+      worker.jobFinished();
+      this.drain();
+    }
+  }
+
+  /**
+   * Keep only the most recent finished jobs, like BullMQ's removeOnComplete/removeOnFail
+   */
+  private retain(state: 'completed' | 'failed', jobId: string, keep: number): void {
+    const list = this.finished[state];
+    list.push(jobId);
+
+    while (list.length > keep) {
+      const expiredId = list.shift()!;
+      this.jobs.delete(expiredId);
+    }
+  }
+}
+
+/**
+ * In-process queue service. Jobs live in memory and are processed by workers
+ * in the same process, so nothing survives a restart.
+ */
+export class MemoryQueueService implements QueueService {
+  name = 'memory';
+  private transcodeQueue: MemoryQueue<TranscodeJobData>;
+  private transcribeQueue: MemoryQueue<TranscribeJobData>;
+  private summarizeQueue: MemoryQueue<SummarizeJobData>;
+  private exportQueue: MemoryQueue<AccountExportJobData>;
+
+  constructor(defaultJobOptions: JobOptions) {
+    this.transcodeQueue = new MemoryQueue<TranscodeJobData>(defaultJobOptions);
+    this.transcribeQueue = new MemoryQueue<TranscribeJobData>(defaultJobOptions);
+    this.summarizeQueue = new MemoryQueue<SummarizeJobData>(defaultJobOptions);
+    this.exportQueue = new MemoryQueue<AccountExportJobData>(defaultJobOptions);
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Add transcoding job to queue
+   */
+  async addTranscodeJob(data: TranscodeJobData, options?: AddJobOptions): Promise<string> {
+    try {
+      const processingJob = await createProcessingJob('transcode', data);
+      const jobId = options?.jobId || processingJob.id;
+
+      this.transcodeQueue.add('transcode-audio', data, {
+        jobId,
+        delay: options?.delay,
+        priority: options?.priority || 10,
+      });
+
+      await prisma.processingJob.update({
+        where: { id: processingJob.id },
+        data: {
+          payload: { ...data, queueJobId: jobId } as any
+        },
+      });
+
+      return jobId;
+    } catch (error) {
+      throw new Error(`Failed to add transcode job: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Add transcription job to queue
+   */
+  async addTranscribeJob(data: TranscribeJobData, options?: AddJobOptions): Promise<string> {
+    try {
+      const processingJob = await createProcessingJob('transcribe', data);
+      const jobId = options?.jobId || processingJob.id;
+
+      this.transcribeQueue.add('transcribe-audio', data, {
+        jobId,
+        delay: options?.delay,
+        priority: options?.priority || 10,
+      });
+
+      await prisma.processingJob.update({
+        where: { id: processingJob.id },
+        data: {
+          payload: { ...data, queueJobId: jobId } as any
+        },
+      });
+
+      return jobId;
+    } catch (error) {
+      throw new Error(`Failed to add transcribe job: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Add summarization job to queue
+   */
+  async addSummarizeJob(data: SummarizeJobData, options?: AddJobOptions): Promise<string> {
+    try {
+      const processingJob = await createProcessingJob('summarize', data);
+      const jobId = options?.jobId || processingJob.id;
+
+      this.summarizeQueue.add('summarize-text', data, {
+        jobId,
+        delay: options?.delay,
+        priority: options?.priority || 5,
+      });
+
+      await prisma.processingJob.update({
+        where: { id: processingJob.id },
+        data: {
+          payload: { ...data, queueJobId: jobId } as any
+        },
+      });
+
+      return jobId;
+    } catch (error) {
+      throw new Error(`Failed to add summarize job: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Add account export job to queue
+   */
+  async addExportJob(data: AccountExportJobData, options?: AddJobOptions): Promise<string> {
+    const jobId = options?.jobId || data.exportId;
+
+    this.exportQueue.add('export-account', data, {
+      jobId,
+      delay: options?.delay,
+      priority: options?.priority || 20,
+    });
+
+    return jobId;
+  }
+
+  /**
+   * Get job status
+   */
+  async getJobStatus(queueName: QueueName, jobId: string): Promise<JobStatus> {
+    const job = this.getQueue(queueName).getJob(jobId);
+
+    if (!job) {
+      return { status: 'not_found' };
+    }
+
+    return {
+      status: job.state,
+      progress: job.progress,
+      error: job.failedReason,
+      result: job.returnvalue,
+    };
+  }
+
+  /**
+   * Cancel a job
+   */
+  async cancelJob(queueName: QueueName, jobId: string): Promise<boolean> {
+    return this.getQueue(queueName).remove(jobId);
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getQueueStats(queueName: QueueName): Promise<QueueStats> {
+    return this.getQueue(queueName).stats();
+  }
+
+  /**
+   * Pause queue
+   */
+  async pauseQueue(queueName: QueueName): Promise<void> {
+    this.getQueue(queueName).pause();
+  }
+
+  /**
+   * Resume queue
+   */
+  async resumeQueue(queueName: QueueName): Promise<void> {
+    this.getQueue(queueName).resume();
+  }
+
+  /**
+   * Clean up old jobs
+   */
+  async cleanOldJobs(queueName: QueueName, olderThan: number = 24 * 60 * 60 * 1000): Promise<void> {
+    this.getQueue(queueName).clean(olderThan);
+  }
+
+  /**
+   * Create a worker for a queue. The rate limiter option is BullMQ-only and ignored here.
+   */
+  createWorker<Q extends QueueName>(
+    queueName: Q,
+    processor: JobProcessor<QueueJobDataMap[Q]>,
+    options: WorkerOptions
+  ): QueueWorker {
+    const queue = this.getQueue(queueName) as MemoryQueue<QueueJobDataMap[Q]>;
+    return queue.addWorker(processor, options.concurrency);
+  }
+
+  /**
+   * Setup event listeners for monitoring
+   */
+  private setupEventListeners(): void {
+    const queues: Array<[NoteQueueName, MemoryQueue<any>]> = [
+      ['transcode', this.transcodeQueue],
+      ['transcribe', this.transcribeQueue],
+      ['summarize', this.summarizeQueue],
+    ];
+
+    queues.forEach(([queueName, queue]) => {
+      queue.on('completed', async ({ jobId, noteId, returnvalue }) => {
+        console.log(`✅ ${queueName} job ${jobId} completed`);
+        await updateProcessingJobStatus(jobId, 'completed', returnvalue);
+        noteEventsService.publishJobEvent({ type: 'completed', noteId, jobId, queueName });
+      });
+
+      queue.on('failed', async ({ jobId, noteId, failedReason }) => {
+        console.log(`❌ ${queueName} job ${jobId} failed: ${failedReason}`);
+        await updateProcessingJobStatus(jobId, 'failed', null, failedReason);
+        noteEventsService.publishJobEvent({ type: 'failed', noteId, jobId, queueName, error: failedReason });
+      });
+
+      queue.on('retrying', async ({ jobId, noteId, failedReason, delay }) => {
+        console.log(`🔁 ${queueName} job ${jobId} failed, retrying in ${delay}ms: ${failedReason}`);
+        await updateProcessingJobStatus(jobId, 'retrying', null, failedReason);
+        noteEventsService.publishJobEvent({ type: 'retrying', noteId, jobId, queueName, error: failedReason });
+      });
+
+      queue.on('active', async ({ jobId, noteId }) => {
+        console.log(`🔄 ${queueName} job ${jobId} started`);
+        await updateProcessingJobStatus(jobId, 'processing');
+        noteEventsService.publishJobEvent({ type: 'active', noteId, jobId, queueName });
+      });
+
+      queue.on('progress', async ({ jobId, noteId, data }) => {
+        console.log(`📊 ${queueName} job ${jobId} progress: ${data}%`);
+        noteEventsService.publishJobEvent({ type: 'progress', noteId, jobId, queueName, progress: data });
+      });
+    });
+  }
+
+  private getQueue(queueName: QueueName): MemoryQueue<any> {
+    switch (queueName) {
+      case 'transcode':
+        return this.transcodeQueue;
+      case 'transcribe':
+        return this.transcribeQueue;
+      case 'summarize':
+        return this.summarizeQueue;
+      case 'export':
+        return this.exportQueue;
+    }
+  }
+
+  /**
+   * Nothing to connect to, always healthy
+   */
+  async healthCheck(): Promise<{ status: string; responseTime?: number }> {
+    return { status: 'ok', responseTime: 0 };
+  }
+
+  /**
+   * Stop workers and pending timers
+   */
+  async close(): Promise<void> {
+    await Promise.all([
+      this.transcodeQueue.close(),
+      this.transcribeQueue.close(),
+      this.summarizeQueue.close(),
+      this.exportQueue.close(),
+    ]);
+  }
+}
+
+/**
+ * Queue driver selected by QUEUE_DRIVER (memory or redis)
+ */
+export function getQueueDriver(): 'memory' | 'redis' {
+  return process.env.QUEUE_DRIVER === 'redis' ? 'redis' : 'memory';
+}
+
 /**
  * Create queue service based on environment
  */
 export function createQueueService(): QueueService {
-  const queueDriver = process.env.QUEUE_DRIVER || 'memory';
-  
-  if (queueDriver === 'memory') {
-    // For development, create a mock that doesn't require Redis
+  const defaultJobOptions: JobOptions = {
+    removeOnComplete: 50, // Keep last 50 completed jobs
+    removeOnFail: 20,     // Keep last 20 failed jobs
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000, // Start with 2 seconds
+    },
+  };
+
+  if (getQueueDriver() === 'memory') {
     console.warn('⚠️ Using memory-based queue (development only). Jobs will not persist across restarts.');
+    return new MemoryQueueService(defaultJobOptions);
   }
 
   const config: QueueConfig = {
@@ -375,18 +1104,10 @@ export function createQueueService(): QueueService {
       password: process.env.REDIS_PASSWORD,
       db: parseInt(process.env.REDIS_DB || '0'),
     },
-    defaultJobOptions: {
-      removeOnComplete: 50, // Keep last 50 completed jobs
-      removeOnFail: 20,     // Keep last 20 failed jobs
-      attempts: 3,
-      backoff: {
-        type: 'exponential',
-        delay: 2000, // Start with 2 seconds
-      },
-    },
+    defaultJobOptions,
   };
 
-  return new QueueService(config);
+  return new BullMQQueueService(config);
 }
 
 // Export singleton instance
@@ -397,4 +1118,4 @@ export function getQueueService(): QueueService {
     queueService = createQueueService();
   }
   return queueService;
-}
\ No newline at end of file
+}
@@ -0,0 +1,172 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Spanish stemming on top of unaccent, so "reunion" matches "reunión"
+const SEARCH_CONFIG = Prisma.raw(`'spanish_unaccent'::regconfig`);
+
+const SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+const TITLE_SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+export type SearchField = 'title' | 'transcript' | 'summary' | 'actions';
+
+export interface SearchHighlight {
+  field: SearchField;
+  snippet: string;
+}
+
+export interface SearchMatch {
+  id: string;
+  rank: number;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchNotesParams {
+  userId: string;
+  query: string;
+  tag?: string;
+  limit: number;
+  cursor?: string;
+}
+
+interface SearchRow {
+  id: string;
+  rank: number;
+  title_snippet: string | null;
+  transcript_snippet: string | null;
+  summary_snippet: string | null;
+  actions_snippet: string | null;
+}
+
+/**
+ * Weighted document for a note: title (A), summary and actions (B), transcript (C)
+ */
+const noteDocumentSql = Prisma.sql`
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(notes.title, '')), 'A') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce((
+    SELECT s."tlDr" || ' ' || array_to_string(s.bullets, ' ') FROM summaries s WHERE s."noteId" = notes.id
+  ), '')), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce((
+    SELECT string_agg(a.text, ' ') FROM actions a WHERE a."noteId" = notes.id
+  ), '')), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce((
+    SELECT t.text FROM transcripts t WHERE t."noteId" = notes.id
+  ), '')), 'C')
+`;
+
+/**
+ * The search cursor is the offset of the next page in the ranked results.
+ * Anything else, like a date cursor from the plain list, starts over.
+ */
+export function parseSearchCursor(cursor?: string): number {
+  if (!cursor || !/^\d+$/.test(cursor)) {
+    return 0;
+  }
+
+  const offset = Number(cursor);
+  return Number.isSafeInteger(offset) ? offset : 0;
+}
+
+/**
+ * Full-text search over notes using a Postgres tsvector index
+ */
+export class SearchService {
+  /**
+   * Create the unaccent extension and the text search configuration used by the index.
+   * Safe to run on every startup; also backfills notes that were never indexed.
+   */
+  async ensureSearchIndex(): Promise<void> {
+    await prisma.$executeRaw`CREATE EXTENSION IF NOT EXISTS unaccent`;
+    await prisma.$executeRaw`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'spanish_unaccent') THEN
+          CREATE TEXT SEARCH CONFIGURATION spanish_unaccent (COPY = spanish);
+          ALTER TEXT SEARCH CONFIGURATION spanish_unaccent
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+        END IF;
+      END $$
+    `;
+
+    const backfilled = await prisma.$executeRaw`
+      UPDATE notes SET "searchVector" = ${noteDocumentSql} WHERE "searchVector" IS NULL
+    `;
+
+    if (backfilled > 0) {
+      console.log(`🔎 Indexed ${backfilled} notes for full-text search`);
+    }
+  }
+
+  /**
+   * Rebuild the search document of a note after its title, transcript, summary or actions change
+   */
+  async indexNote(noteId: string): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE notes SET "searchVector" = ${noteDocumentSql} WHERE notes.id = ${noteId}
+    `;
+  }
+
+  /**
+   * Relevance-ordered search with highlighted snippets for each matching field
+   */
+  async searchNotes(params: SearchNotesParams): Promise<{ items: SearchMatch[]; cursor: string | null }> {
+    const { userId, query, tag, limit } = params;
+    const offset = parseSearchCursor(params.cursor);
+
+    // Rank first, then build snippets only for the requested page
+    const rows = await prisma.$queryRaw<SearchRow[]>`
+      WITH q AS (SELECT websearch_to_tsquery(${SEARCH_CONFIG}, ${query}) AS query),
+      ranked AS (
+        SELECT notes.id, ts_rank_cd(notes."searchVector", q.query) AS rank, notes."createdAt"
+        FROM notes, q
+        WHERE notes."userId" = ${userId}
+          AND notes."deletedAt" IS NULL
+          AND notes."searchVector" @@ q.query
+          ${tag ? Prisma.sql`AND ${tag} = ANY(notes.tags)` : Prisma.empty}
+        ORDER BY rank DESC, notes."createdAt" DESC, notes.id
+        LIMIT ${limit + 1} OFFSET ${offset}
+      )
+      SELECT
+        ranked.id,
+        ranked.rank::float8 AS rank,
+        CASE WHEN to_tsvector(${SEARCH_CONFIG}, coalesce(n.title, '')) @@ q.query
+          THEN ts_headline(${SEARCH_CONFIG}, n.title, q.query, ${TITLE_SNIPPET_OPTIONS}) END AS title_snippet,
+        CASE WHEN to_tsvector(${SEARCH_CONFIG}, coalesce(t.text, '')) @@ q.query
+          THEN ts_headline(${SEARCH_CONFIG}, t.text, q.query, ${SNIPPET_OPTIONS}) END AS transcript_snippet,
+        CASE WHEN to_tsvector(${SEARCH_CONFIG}, coalesce(s."tlDr" || ' ' || array_to_string(s.bullets, ' '), '')) @@ q.query
+          THEN ts_headline(${SEARCH_CONFIG}, s."tlDr" || ' • ' || array_to_string(s.bullets, ' • '), q.query, ${SNIPPET_OPTIONS}) END AS summary_snippet,
+        CASE WHEN to_tsvector(${SEARCH_CONFIG}, coalesce(a.text, '')) @@ q.query
+          THEN ts_headline(${SEARCH_CONFIG}, a.text, q.query, ${SNIPPET_OPTIONS}) END AS actions_snippet
+      FROM ranked
+      CROSS JOIN q
+      JOIN notes n ON n.id = ranked.id
+      LEFT JOIN transcripts t ON t."noteId" = n.id
+      LEFT JOIN summaries s ON s."noteId" = n.id
+      LEFT JOIN LATERAL (
+        SELECT string_agg(actions.text, ' • ' ORDER BY actions."createdAt") AS text
+        FROM actions WHERE actions."noteId" = n.id
+      ) a ON true
+      ORDER BY ranked.rank DESC, ranked."createdAt" DESC, ranked.id
+    `;
+
+    const hasNextPage = rows.length > limit;
+    const page = hasNextPage ? rows.slice(0, limit) : rows;
+
+    const items = page.map(row => {
+      const highlights: SearchHighlight[] = [];
+      if (row.title_snippet) highlights.push({ field: 'title', snippet: row.title_snippet });
+      if (row.summary_snippet) highlights.push({ field: 'summary', snippet: row.summary_snippet });
+      if (row.actions_snippet) highlights.push({ field: 'actions', snippet: row.actions_snippet });
+      if (row.transcript_snippet) highlights.push({ field: 'transcript', snippet: row.transcript_snippet });
+
+      return { id: row.id, rank: Number(row.rank), highlights };
+    });
+
+    return {
+      items,
+      cursor: hasNextPage ? String(offset + limit) : null,
+    };
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,189 @@
+import { PrismaClient } from '@prisma/client';
+import { embeddingProvider, cosineSimilarity } from './embeddings/index.js';
+
+const prisma = new PrismaClient();
+
+// A chunk is closed once it reaches this many words
+const CHUNK_TARGET_WORDS = 80;
+
+// Passages scoring below this similarity are not considered matches
+const MIN_SIMILARITY = 0.2;
+
+// Passages returned per note unless the caller asks for more
+const MAX_PASSAGES_PER_NOTE = 3;
+
+// Chunks compared per query, newest first, so a large account can't load every vector at once
+const SCAN_BATCH_SIZE = 500;
+const MAX_SCANNED_CHUNKS = parseInt(process.env.SEMANTIC_SEARCH_MAX_CHUNKS || '20000');
+
+export interface TranscriptChunkInput {
+  text: string;
+  start: number | null;
+  end: number | null;
+}
+
+export interface SemanticPassage {
+  id: string;
+  text: string;
+  start: number | null;
+  end: number | null;
+  score: number;
+}
+
+export interface SemanticMatch {
+  noteId: string;
+  score: number;
+  passages: SemanticPassage[];
+}
+
+interface SegmentLike {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Split a transcript into passages of roughly CHUNK_TARGET_WORDS words.
+ * Segments are never split, so each chunk keeps the timestamps of the audio it covers;
+ * transcripts without segments are split on sentence boundaries instead.
+ */
+export function chunkTranscript(text: string, segments: SegmentLike[] = []): TranscriptChunkInput[] {
+  const units = segments.length > 0
+    ? segments.map(segment => ({ text: segment.text.trim(), start: segment.start, end: segment.end }))
+    : text.split(/(?<=[.!?])\s+/).map(sentence => ({ text: sentence.trim(), start: null, end: null }));
+
+  const chunks: TranscriptChunkInput[] = [];
+  let current: TranscriptChunkInput | null = null;
+  let words = 0;
+
+  for (const unit of units) {
+    if (!unit.text) continue;
+
+    if (!current) {
+      current = { ...unit };
+      words = 0;
+    } else {
+      current.text += ` ${unit.text}`;
+      current.end = unit.end;
+    }
+
+    words += countWords(unit.text);
+    if (words >= CHUNK_TARGET_WORDS) {
+      chunks.push(current);
+      current = null;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Embedding-based search over transcript passages
+ */
+export class SemanticSearchService {
+  /**
+   * Re-chunk and embed the transcript of a note, replacing any previous vectors
+   */
+  async indexNote(noteId: string): Promise<number> {
+    const transcript = await prisma.transcript.findUnique({
+      where: { noteId },
+      include: { segments: { orderBy: { position: 'asc' } } }
+    });
+
+    if (!transcript) {
+      return 0;
+    }
+
+    const chunks = chunkTranscript(transcript.text, transcript.segments);
+    const embeddings = chunks.length > 0
+      ? await embeddingProvider.embed(chunks.map(chunk => chunk.text))
+      : [];
+
+    await prisma.$transaction([
+      prisma.transcriptChunk.deleteMany({ where: { transcriptId: transcript.id } }),
+      prisma.transcriptChunk.createMany({
+        data: chunks.map((chunk, index) => ({
+          position: index,
+          text: chunk.text,
+          start: chunk.start,
+          end: chunk.end,
+          embedding: embeddings[index],
+          provider: embeddingProvider.name,
+          model: embeddingProvider.model,
+          transcriptId: transcript.id,
+        }))
+      })
+    ]);
+
+    return chunks.length;
+  }
+
+  /**
+   * Notes whose passages are closest to the query, best match first
+   */
+  async search(params: {
+    userId: string;
+    query: string;
+    limit: number;
+    noteId?: string;
+    passagesPerNote?: number;
+  }): Promise<SemanticMatch[]> {
+    const { userId, query, limit, noteId, passagesPerNote = MAX_PASSAGES_PER_NOTE } = params;
+    const [queryEmbedding] = await embeddingProvider.embed([query]);
+
+    const matches = new Map<string, SemanticPassage[]>();
+    let cursor: string | undefined;
+
+    for (let scanned = 0; scanned < MAX_SCANNED_CHUNKS;) {
+      // Only vectors from the active model can be compared with the query
+      const chunks = await prisma.transcriptChunk.findMany({
+        where: {
+          provider: embeddingProvider.name,
+          model: embeddingProvider.model,
+          transcript: { note: { userId, deletedAt: null }, ...(noteId && { noteId }) }
+        },
+        select: {
+          id: true,
+          text: true,
+          start: true,
+          end: true,
+          embedding: true,
+          transcript: { select: { noteId: true } }
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: Math.min(SCAN_BATCH_SIZE, MAX_SCANNED_CHUNKS - scanned),
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      for (const chunk of chunks) {
+        const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+        if (score < MIN_SIMILARITY) continue;
+
+        // Only the best passages of each note are kept while scanning
+        const passages = matches.get(chunk.transcript.noteId) ?? [];
+        passages.push({ id: chunk.id, text: chunk.text, start: chunk.start, end: chunk.end, score });
+        passages.sort((a, b) => b.score - a.score).splice(passagesPerNote);
+        matches.set(chunk.transcript.noteId, passages);
+      }
+
+      scanned += chunks.length;
+      if (chunks.length < SCAN_BATCH_SIZE) break;
+      cursor = chunks[chunks.length - 1].id;
+    }
+
+    return Array.from(matches.entries())
+      .map(([matchNoteId, passages]) => ({ noteId: matchNoteId, score: passages[0].score, passages }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+export const semanticSearchService = new SemanticSearchService();
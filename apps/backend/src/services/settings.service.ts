@@ -0,0 +1,142 @@
+import { PrismaClient } from '@prisma/client';
+import type { DigestFrequency, SummaryStyle } from '@notas-voz/schemas';
+
+const prisma = new PrismaClient();
+
+// Timezone for users who haven't set one
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'UTC';
+
+// Notification defaults, matching the column defaults
+export const DEFAULT_REMINDER_LEAD_HOURS = 24;
+export const DEFAULT_DIGEST_HOUR = 8;
+
+export interface SummaryPreferences {
+  style?: SummaryStyle;
+  templateId?: string;
+  customPrompt?: string;
+}
+
+/**
+ * Per-user settings and saved prompt templates
+ */
+export class SettingsService {
+  /**
+   * Settings of a user; users who never saved any get the defaults
+   */
+  async getSettings(userId: string) {
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+
+    return {
+      summaryStyle: settings?.summaryStyle ?? null,
+      promptTemplateId: settings?.promptTemplateId ?? null,
+      timezone: settings?.timezone ?? null,
+      remindersEnabled: settings?.remindersEnabled ?? true,
+      reminderLeadHours: settings?.reminderLeadHours ?? DEFAULT_REMINDER_LEAD_HOURS,
+      digestFrequency: settings?.digestFrequency ?? null,
+      digestHour: settings?.digestHour ?? DEFAULT_DIGEST_HOUR,
+    };
+  }
+
+  async updateSettings(userId: string, data: {
+    summaryStyle?: SummaryStyle | null;
+    promptTemplateId?: string | null;
+    timezone?: string | null;
+    remindersEnabled?: boolean;
+    reminderLeadHours?: number;
+    digestFrequency?: DigestFrequency | null;
+    digestHour?: number;
+  }) {
+    if (data.promptTemplateId) {
+      await this.getTemplate(userId, data.promptTemplateId);
+    }
+
+    const settings = await prisma.userSettings.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    return {
+      summaryStyle: settings.summaryStyle,
+      promptTemplateId: settings.promptTemplateId,
+      timezone: settings.timezone,
+      remindersEnabled: settings.remindersEnabled,
+      reminderLeadHours: settings.reminderLeadHours,
+      digestFrequency: settings.digestFrequency,
+      digestHour: settings.digestHour,
+    };
+  }
+
+  /**
+   * Timezone dates in a user's notes are read in
+   */
+  async getTimezone(userId: string): Promise<string> {
+    const { timezone } = await this.getSettings(userId);
+    return timezone ?? DEFAULT_TIMEZONE;
+  }
+
+  async listTemplates(userId: string) {
+    return prisma.promptTemplate.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' }
+    });
+  }
+
+  async getTemplate(userId: string, templateId: string) {
+    const template = await prisma.promptTemplate.findFirst({
+      where: { id: templateId, userId }
+    });
+
+    if (!template) {
+      throw new Error('TEMPLATE_NOT_FOUND');
+    }
+
+    return template;
+  }
+
+  async createTemplate(userId: string, data: { name: string; prompt: string }) {
+    return prisma.promptTemplate.create({
+      data: { ...data, userId }
+    });
+  }
+
+  async updateTemplate(userId: string, templateId: string, data: { name?: string; prompt?: string }) {
+    await this.getTemplate(userId, templateId);
+
+    return prisma.promptTemplate.update({
+      where: { id: templateId },
+      data
+    });
+  }
+
+  async deleteTemplate(userId: string, templateId: string) {
+    await this.getTemplate(userId, templateId);
+
+    // Settings pointing at the template fall back to the style (onDelete: SetNull)
+    await prisma.promptTemplate.delete({ where: { id: templateId } });
+  }
+
+  /**
+   * Style and prompt for a summarization. An explicit choice replaces the saved
+   * defaults entirely; a template, explicit or saved, wins over a style.
+   */
+  async resolveSummaryPreferences(
+    userId: string,
+    choice: { style?: SummaryStyle; templateId?: string } = {}
+  ): Promise<SummaryPreferences> {
+    const explicit = Boolean(choice.style || choice.templateId);
+    const settings = explicit ? null : await this.getSettings(userId);
+
+    const style = explicit ? choice.style : settings?.summaryStyle ?? undefined;
+    const templateId = explicit ? choice.templateId : settings?.promptTemplateId ?? undefined;
+
+    if (!templateId) {
+      return { style };
+    }
+
+    const template = await this.getTemplate(userId, templateId);
+    return { style, templateId, customPrompt: template.prompt };
+  }
+}
+
+export const settingsService = new SettingsService();
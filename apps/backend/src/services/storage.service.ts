@@ -1,18 +1,16 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { nanoid } from 'nanoid';
 import mimeTypes from 'mime-types';
 import crypto from 'crypto';
 import type { Readable } from 'stream';
+import {
+  defaultStorageDriver,
+  type SignedUrlMethod,
+  type StorageDriver,
+  type StoredObjectInfo,
+  type UploadedPart,
+} from './storage.js';
 
-export interface StorageConfig {
-  endpoint?: string;
-  region: string;
-  accessKeyId: string;
-  secretAccessKey: string;
-  bucket: string;
-  forcePathStyle?: boolean;
-}
+export type { UploadedPart } from './storage.js';
 
 export interface UploadOptions {
   contentType?: string;
@@ -29,25 +27,39 @@ export interface UploadResult {
 
 export interface SignedUrlOptions {
   expiresIn?: number; // seconds, default 3600 (1 hour)
-  operation?: 'getObject' | 'putObject';
+  method?: SignedUrlMethod; // default GET
+  contentType?: string; // Signed into PUT URLs; the upload must send the same Content-Type
+}
+
+export interface FileInfo {
+  size: number;
+  contentType: string;
+  lastModified: Date;
+  metadata: Record<string, string>;
 }
 
+const AUDIO_MIME_TYPES = [
+  'audio/mpeg',
+  'audio/wav',
+  'audio/mp4',
+  'audio/m4a',
+  'audio/x-m4a',
+  'audio/aac',
+  'audio/ogg',
+  'audio/webm',
+];
+
+const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB, the single request upload limit
+
+// Parts of a streamed upload; every part but the last must be at least 5MB
+const STREAM_PART_SIZE = 8 * 1024 * 1024;
+
 export class StorageService {
-  private s3Client: S3Client;
-  private bucket: string;
-
-  constructor(config: StorageConfig) {
-    this.bucket = config.bucket;
-    
-    this.s3Client = new S3Client({
-      endpoint: config.endpoint,
-      region: config.region,
-      credentials: {
-        accessKeyId: config.accessKeyId,
-        secretAccessKey: config.secretAccessKey,
-      },
-      forcePathStyle: config.forcePathStyle ?? true, // Needed for MinIO
-    });
+  constructor(private injectedDriver?: StorageDriver) {}
+
+  // Without an injected driver, the configured one is created when first needed
+  private get driver(): StorageDriver {
+    return this.injectedDriver ?? defaultStorageDriver();
   }
 
   /**
@@ -58,34 +70,20 @@ export class StorageService {
     originalName: string,
     options: UploadOptions = {}
   ): Promise<UploadResult> {
-    const extension = originalName.split('.').pop() || '';
     const contentType = options.contentType || mimeTypes.lookup(originalName) || 'application/octet-stream';
-    
-    // Generate unique key
-    const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-    const folder = options.folder || 'uploads';
-    const fileId = nanoid();
-    const key = `${folder}/${timestamp}/${fileId}.${extension}`;
+    const key = this.generateKey(originalName, options.folder);
 
     try {
-      const command = new PutObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-        Body: fileBuffer,
-        ContentType: contentType,
-        Metadata: {
-          'original-name': originalName,
-          'upload-timestamp': new Date().toISOString(),
-          ...options.metadata,
-        },
+      const result = await this.driver.putObject(key, fileBuffer, contentType, {
+        'original-name': originalName,
+        'upload-timestamp': new Date().toISOString(),
+        ...options.metadata,
       });
 
-      const result = await this.s3Client.send(command);
-
       return {
         key,
         url: await this.getPublicUrl(key),
-        etag: result.ETag,
+        etag: result.etag,
         size: fileBuffer.length,
       };
     } catch (error) {
@@ -94,7 +92,8 @@ export class StorageService {
   }
 
   /**
-   * Upload stream to storage
+   * Upload a stream of unknown length as a multipart upload, holding one
+   * part in memory at a time
    */
   async uploadStream(
     stream: Readable,
@@ -102,52 +101,111 @@ export class StorageService {
     contentType: string,
     options: UploadOptions = {}
   ): Promise<UploadResult> {
+    let uploadId: string | undefined;
+
     try {
-      const command = new PutObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-        Body: stream,
-        ContentType: contentType,
-        Metadata: options.metadata,
-      });
+      uploadId = await this.driver.createMultipartUpload(key, contentType, options.metadata);
 
-      const result = await this.s3Client.send(command);
+      const parts: UploadedPart[] = [];
+      let pending: Buffer[] = [];
+      let pendingSize = 0;
+      let size = 0;
+
+      const uploadPending = async () => {
+        parts.push(await this.driver.uploadPart(key, uploadId!, parts.length + 1, Buffer.concat(pending)));
+        pending = [];
+        pendingSize = 0;
+      };
+
+      for await (const chunk of stream) {
+        pending.push(chunk);
+        pendingSize += chunk.length;
+        size += chunk.length;
+
+        if (pendingSize >= STREAM_PART_SIZE) {
+          await uploadPending();
+        }
+      }
+
+      // The last part may be short; an empty stream still needs one part
+      if (pendingSize > 0 || parts.length === 0) {
+        await uploadPending();
+      }
+
+      const result = await this.driver.completeMultipartUpload(key, uploadId, parts);
 
       return {
         key,
         url: await this.getPublicUrl(key),
-        etag: result.ETag,
+        etag: result.etag,
+        size,
       };
     } catch (error) {
+      if (uploadId) {
+        await this.driver.abortMultipartUpload(key, uploadId).catch(() => undefined);
+      }
       throw new Error(`Failed to upload stream: ${error instanceof Error ? error.message : error}`);
     }
   }
 
   /**
-   * Download a file from storage
+   * Start a multipart upload, for files sent in chunks. Returns the upload id.
    */
-  async downloadFile(key: string): Promise<Buffer> {
+  async createMultipartUpload(key: string, contentType: string, options: UploadOptions = {}): Promise<string> {
     try {
-      const command = new GetObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      });
+      return await this.driver.createMultipartUpload(key, contentType, options.metadata);
+    } catch (error) {
+      throw new Error(`Failed to start multipart upload: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
-      const response = await this.s3Client.send(command);
-      
-      if (!response.Body) {
-        throw new Error('No file content received');
-      }
+  /**
+   * Store one part of a multipart upload. Every part but the last must be at least 5MB.
+   * Sending a part number again replaces it.
+   */
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<UploadedPart> {
+    try {
+      return await this.driver.uploadPart(key, uploadId, partNumber, body);
+    } catch (error) {
+      throw new Error(`Failed to upload part: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
-      // Convert stream to buffer
-      const chunks: Buffer[] = [];
-      const stream = response.Body as Readable;
-      
-      return new Promise((resolve, reject) => {
-        stream.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
-        stream.on('error', reject);
-        stream.on('end', () => resolve(Buffer.concat(chunks)));
-      });
+  /**
+   * Join the parts into the final object
+   */
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<UploadResult> {
+    try {
+      const result = await this.driver.completeMultipartUpload(key, uploadId, parts);
+
+      return {
+        key,
+        url: await this.getPublicUrl(key),
+        etag: result.etag,
+      };
+    } catch (error) {
+      throw new Error(`Failed to complete multipart upload: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Discard a multipart upload and the parts stored so far
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.driver.abortMultipartUpload(key, uploadId);
+    } catch (error) {
+      throw new Error(`Failed to abort multipart upload: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Download a file from storage
+   */
+  async downloadFile(key: string): Promise<Buffer> {
+    try {
+      const { buffer } = await this.driver.getObject(key);
+      return buffer;
     } catch (error) {
       throw new Error(`Failed to download file: ${error instanceof Error ? error.message : error}`);
     }
@@ -158,18 +216,7 @@ export class StorageService {
    */
   async getFileStream(key: string): Promise<Readable> {
     try {
-      const command = new GetObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      });
-
-      const response = await this.s3Client.send(command);
-      
-      if (!response.Body) {
-        throw new Error('No file content received');
-      }
-
-      return response.Body as Readable;
+      return await this.driver.getObjectStream(key);
     } catch (error) {
       throw new Error(`Failed to get file stream: ${error instanceof Error ? error.message : error}`);
     }
@@ -180,28 +227,31 @@ export class StorageService {
    */
   async deleteFile(key: string): Promise<void> {
     try {
-      const command = new DeleteObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      });
-
-      await this.s3Client.send(command);
+      await this.driver.deleteObject(key);
     } catch (error) {
       throw new Error(`Failed to delete file: ${error instanceof Error ? error.message : error}`);
     }
   }
 
+  /**
+   * Delete every file under a folder. Returns the number of files deleted.
+   */
+  async deleteFolder(folder: string): Promise<number> {
+    const prefix = folder.endsWith('/') ? folder : `${folder}/`;
+
+    try {
+      return await this.driver.deletePrefix(prefix);
+    } catch (error) {
+      throw new Error(`Failed to delete folder: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   /**
    * Check if file exists
    */
   async fileExists(key: string): Promise<boolean> {
     try {
-      const command = new HeadObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      });
-
-      await this.s3Client.send(command);
+      await this.driver.headObject(key);
       return true;
     } catch {
       return false;
@@ -211,45 +261,34 @@ export class StorageService {
   /**
    * Get file metadata
    */
-  async getFileMetadata(key: string): Promise<{
-    size: number;
-    contentType: string;
-    lastModified: Date;
-    etag: string;
-    metadata: Record<string, string>;
-  }> {
+  async getFileMetadata(key: string): Promise<StoredObjectInfo> {
     try {
-      const command = new HeadObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      });
-
-      const response = await this.s3Client.send(command);
-
-      return {
-        size: response.ContentLength || 0,
-        contentType: response.ContentType || 'application/octet-stream',
-        lastModified: response.LastModified || new Date(),
-        etag: response.ETag || '',
-        metadata: response.Metadata || {},
-      };
+      return await this.driver.headObject(key);
     } catch (error) {
       throw new Error(`Failed to get file metadata: ${error instanceof Error ? error.message : error}`);
     }
   }
 
+  /**
+   * Size, type and metadata of a file, or null when it can't be read
+   */
+  async getFileInfo(key: string): Promise<FileInfo | null> {
+    try {
+      const { size, contentType, lastModified, metadata } = await this.driver.headObject(key);
+      return { size, contentType, lastModified, metadata };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Generate signed URL for direct access
    */
   async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
-    const { expiresIn = 3600, operation = 'getObject' } = options;
+    const { expiresIn = 3600, method = 'GET', contentType } = options;
 
     try {
-      const command = operation === 'putObject'
-        ? new PutObjectCommand({ Bucket: this.bucket, Key: key })
-        : new GetObjectCommand({ Bucket: this.bucket, Key: key });
-
-      return await getSignedUrl(this.s3Client, command, { expiresIn });
+      return await this.driver.getSignedUrl(key, method, expiresIn, contentType);
     } catch (error) {
       throw new Error(`Failed to generate signed URL: ${error instanceof Error ? error.message : error}`);
     }
@@ -259,27 +298,32 @@ export class StorageService {
    * Get public URL (for public buckets)
    */
   async getPublicUrl(key: string): Promise<string> {
-    const endpoint = process.env.STORAGE_ENDPOINT || 'https://s3.amazonaws.com';
-    const cleanEndpoint = endpoint.replace(/\/$/, ''); // Remove trailing slash
-    return `${cleanEndpoint}/${this.bucket}/${key}`;
+    return this.driver.getPublicUrl(key);
   }
 
   /**
-   * Generate unique storage key
+   * Generate unique storage key. Only the extension of the name is kept, so
+   * a client's file name can't add folders to the key.
    */
   generateKey(originalName: string, folder = 'uploads'): string {
-    const extension = originalName.split('.').pop() || '';
+    const extension = /\.([a-zA-Z0-9]+)$/.exec(originalName)?.[1];
     const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
     const fileId = nanoid();
-    return `${folder}/${timestamp}/${fileId}.${extension}`;
+    return `${folder}/${timestamp}/${fileId}${extension ? `.${extension}` : ''}`;
+  }
+
+  /**
+   * Validate a file's content type, audio by default
+   */
+  validateFileType(contentType: string, allowedTypes: string[] = AUDIO_MIME_TYPES): boolean {
+    return Boolean(contentType) && allowedTypes.includes(contentType);
   }
 
   /**
-   * Validate file type
+   * Validate a file size, up to the single request upload limit by default
    */
-  validateFileType(filename: string, allowedTypes: string[]): boolean {
-    const mimeType = mimeTypes.lookup(filename);
-    return mimeType ? allowedTypes.includes(mimeType) : false;
+  validateFileSize(size: number, maxSize = MAX_FILE_SIZE): boolean {
+    return typeof size === 'number' && size > 0 && size <= maxSize;
   }
 
   /**
@@ -303,24 +347,5 @@ export class StorageService {
   }
 }
 
-// Factory function to create storage service based on environment
-export function createStorageService(): StorageService {
-  const config: StorageConfig = {
-    endpoint: process.env.STORAGE_ENDPOINT,
-    region: process.env.STORAGE_REGION || 'us-east-1',
-    accessKeyId: process.env.STORAGE_ACCESS_KEY || '',
-    secretAccessKey: process.env.STORAGE_SECRET_KEY || '',
-    bucket: process.env.STORAGE_BUCKET || 'notas-audio',
-    forcePathStyle: true, // Required for MinIO and local S3 compatible services
-  };
-
-  // Validate required environment variables
-  if (!config.accessKeyId || !config.secretAccessKey) {
-    throw new Error('Storage credentials not configured. Please set STORAGE_ACCESS_KEY and STORAGE_SECRET_KEY environment variables.');
-  }
-
-  return new StorageService(config);
-}
-
-// Export singleton instance
-export const storageService = createStorageService();
\ No newline at end of file
+// Export singleton instance, on the driver chosen by STORAGE_DRIVER
+export const storageService = new StorageService();
@@ -0,0 +1,521 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { nanoid } from 'nanoid';
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export interface S3StorageConfig {
+  endpoint?: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucket: string;
+  forcePathStyle?: boolean;
+}
+
+export interface LocalStorageConfig {
+  root: string;          // Directory that holds the files
+  baseUrl: string;       // Where the signed URL route is mounted
+  signingSecret: string;
+}
+
+// A type alias rather than an interface, so upload sessions can store parts as Prisma JSON
+export type UploadedPart = {
+  partNumber: number;
+  etag: string;
+};
+
+export interface StoredObject {
+  buffer: Buffer;
+  contentType: string;
+  contentLength: number;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string;
+  lastModified: Date;
+  etag: string;
+  metadata: Record<string, string>;
+}
+
+export type SignedUrlMethod = 'GET' | 'PUT';
+
+/**
+ * Where files live. Drivers throw on any failure, a missing key included;
+ * callers decide which failures they can live with.
+ */
+export interface StorageDriver {
+  name: string;
+  putObject(key: string, body: Buffer | Readable, contentType: string, metadata?: Record<string, string>): Promise<{ etag?: string }>;
+  getObject(key: string): Promise<StoredObject>;
+  getObjectStream(key: string): Promise<Readable>;
+  deleteObject(key: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<number>;
+  headObject(key: string): Promise<StoredObjectInfo>;
+  getSignedUrl(key: string, method: SignedUrlMethod, expiresIn: number, contentType?: string): Promise<string>;
+  getPublicUrl(key: string): string;
+  createMultipartUpload(key: string, contentType: string, metadata?: Record<string, string>): Promise<string>;
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<UploadedPart>;
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<{ etag?: string }>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+/**
+ * S3 compatible buckets (AWS S3, MinIO, R2...)
+ */
+export class S3StorageDriver implements StorageDriver {
+  name = 's3';
+  private s3Client: S3Client;
+  private bucket: string;
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket;
+
+    this.s3Client = new S3Client({
+      endpoint: config.endpoint,
+      region: config.region,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+      forcePathStyle: config.forcePathStyle ?? true, // Needed for MinIO
+    });
+  }
+
+  async putObject(key: string, body: Buffer | Readable, contentType: string, metadata?: Record<string, string>) {
+    const result = await this.s3Client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      Metadata: metadata,
+    }));
+
+    return { etag: result.ETag };
+  }
+
+  async getObject(key: string): Promise<StoredObject> {
+    const response = await this.s3Client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error('No file content received');
+    }
+
+    const buffer = Buffer.from(await response.Body.transformToByteArray());
+
+    return {
+      buffer,
+      contentType: response.ContentType || 'application/octet-stream',
+      contentLength: response.ContentLength ?? buffer.length,
+    };
+  }
+
+  async getObjectStream(key: string): Promise<Readable> {
+    const response = await this.s3Client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error('No file content received');
+    }
+
+    return response.Body as Readable;
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    let continuationToken: string | undefined;
+
+    do {
+      const listing = await this.s3Client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      const keys = (listing.Contents || []).map(object => ({ Key: object.Key! }));
+      if (keys.length > 0) {
+        // A listing page holds at most 1000 keys, the DeleteObjects limit
+        await this.s3Client.send(new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: keys, Quiet: true },
+        }));
+        deleted += keys.length;
+      }
+
+      continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return deleted;
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo> {
+    const response = await this.s3Client.send(new HeadObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+
+    return {
+      size: response.ContentLength || 0,
+      contentType: response.ContentType || 'application/octet-stream',
+      lastModified: response.LastModified || new Date(),
+      etag: response.ETag || '',
+      metadata: response.Metadata || {},
+    };
+  }
+
+  async getSignedUrl(key: string, method: SignedUrlMethod, expiresIn: number, contentType?: string): Promise<string> {
+    const command = method === 'PUT'
+      ? new PutObjectCommand({ Bucket: this.bucket, Key: key, ContentType: contentType })
+      : new GetObjectCommand({ Bucket: this.bucket, Key: key });
+
+    return getSignedUrl(this.s3Client, command, { expiresIn });
+  }
+
+  getPublicUrl(key: string): string {
+    const endpoint = process.env.STORAGE_ENDPOINT || 'https://s3.amazonaws.com';
+    const cleanEndpoint = endpoint.replace(/\/$/, ''); // Remove trailing slash
+    return `${cleanEndpoint}/${this.bucket}/${key}`;
+  }
+
+  async createMultipartUpload(key: string, contentType: string, metadata?: Record<string, string>): Promise<string> {
+    const result = await this.s3Client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: contentType,
+      Metadata: metadata,
+    }));
+
+    if (!result.UploadId) {
+      throw new Error('No upload id received');
+    }
+
+    return result.UploadId;
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<UploadedPart> {
+    const result = await this.s3Client.send(new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+    }));
+
+    return { partNumber, etag: result.ETag || '' };
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]) {
+    const result = await this.s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }));
+
+    return { etag: result.ETag };
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.s3Client.send(new AbortMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+    }));
+  }
+}
+
+/**
+ * Files on the API server's disk, for development without MinIO.
+ * Signed URLs point at the storage route, which checks them with verifySignature.
+ *
+ * Layout under the root: objects/<key>, meta/<key>.json (content type and
+ * metadata) and multipart/<uploadId>/<partNumber>.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  name = 'local';
+  private objectsDir: string;
+  private metaDir: string;
+  private multipartDir: string;
+
+  constructor(private config: LocalStorageConfig) {
+    const root = path.resolve(config.root);
+    this.objectsDir = path.join(root, 'objects');
+    this.metaDir = path.join(root, 'meta');
+    this.multipartDir = path.join(root, 'multipart');
+  }
+
+  async putObject(key: string, body: Buffer | Readable, contentType: string, metadata: Record<string, string> = {}) {
+    const file = this.objectPath(key);
+    const temp = `${file}.${nanoid()}.tmp`;
+    const hash = crypto.createHash('md5');
+
+    await mkdir(path.dirname(file), { recursive: true });
+
+    try {
+      await pipeline(
+        Buffer.isBuffer(body) ? Readable.from([body]) : body,
+        new Transform({
+          transform(chunk, _encoding, callback) {
+            hash.update(chunk);
+            callback(null, chunk);
+          },
+        }),
+        createWriteStream(temp)
+      );
+    } catch (error) {
+      await rm(temp, { force: true });
+      throw error;
+    }
+
+    // Readers never see a half written file
+    await rename(temp, file);
+
+    const etag = `"${hash.digest('hex')}"`;
+    await this.writeMeta(key, { contentType, etag, metadata });
+
+    return { etag };
+  }
+
+  async getObject(key: string): Promise<StoredObject> {
+    const buffer = await readFile(this.objectPath(key));
+    const meta = await this.readMeta(key);
+
+    return { buffer, contentType: meta.contentType, contentLength: buffer.length };
+  }
+
+  async getObjectStream(key: string): Promise<Readable> {
+    const file = this.objectPath(key);
+    // Fail here on a missing file rather than on the stream's first read
+    await stat(file);
+    return createReadStream(file);
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await rm(this.objectPath(key), { force: true });
+    await rm(this.metaPath(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    const folder = this.objectPath(prefix);
+
+    const entries = await readdir(folder, { recursive: true, withFileTypes: true }).catch(error => {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    });
+    const deleted = entries.filter(entry => entry.isFile()).length;
+
+    await rm(folder, { recursive: true, force: true });
+    await rm(this.resolveInside(this.metaDir, prefix), { recursive: true, force: true });
+
+    return deleted;
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo> {
+    const info = await stat(this.objectPath(key));
+    const meta = await this.readMeta(key);
+
+    return {
+      size: info.size,
+      contentType: meta.contentType,
+      lastModified: info.mtime,
+      etag: meta.etag,
+      metadata: meta.metadata,
+    };
+  }
+
+  async getSignedUrl(key: string, method: SignedUrlMethod, expiresIn: number, contentType?: string): Promise<string> {
+    this.objectPath(key); // Refuse to sign a key outside the root
+
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = this.sign(method, key, expires, contentType);
+
+    return `${this.getPublicUrl(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  getPublicUrl(key: string): string {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.config.baseUrl.replace(/\/$/, '')}/${encodedKey}`;
+  }
+
+  /**
+   * Check a signed URL. PUTs are signed with their content type, as on S3,
+   * so the upload must send the Content-Type it announced.
+   */
+  verifySignature(method: SignedUrlMethod, key: string, expires: number, signature: string, contentType?: string): boolean {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(method, key, expires, contentType));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  async createMultipartUpload(key: string, contentType: string, metadata: Record<string, string> = {}): Promise<string> {
+    this.objectPath(key); // Fail now rather than on completion
+
+    const uploadId = nanoid();
+    const folder = this.resolveInside(this.multipartDir, uploadId);
+
+    await mkdir(folder, { recursive: true });
+    await writeFile(path.join(folder, 'upload.json'), JSON.stringify({ key, contentType, metadata }));
+
+    return uploadId;
+  }
+
+  async uploadPart(_key: string, uploadId: string, partNumber: number, body: Buffer): Promise<UploadedPart> {
+    const folder = this.resolveInside(this.multipartDir, uploadId);
+
+    // Unknown or aborted upload
+    await stat(folder);
+    await writeFile(path.join(folder, String(partNumber)), body);
+
+    return { partNumber, etag: `"${crypto.createHash('md5').update(body).digest('hex')}"` };
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]) {
+    const folder = this.resolveInside(this.multipartDir, uploadId);
+    const upload = JSON.parse(await readFile(path.join(folder, 'upload.json'), 'utf8'));
+    const files = [...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map(part => path.join(folder, String(part.partNumber)));
+
+    async function* joinParts() {
+      for (const file of files) {
+        yield* createReadStream(file);
+      }
+    }
+
+    const result = await this.putObject(key, Readable.from(joinParts()), upload.contentType, upload.metadata);
+    await rm(folder, { recursive: true, force: true });
+
+    return result;
+  }
+
+  async abortMultipartUpload(_key: string, uploadId: string): Promise<void> {
+    await rm(this.resolveInside(this.multipartDir, uploadId), { recursive: true, force: true });
+  }
+
+  private sign(method: SignedUrlMethod, key: string, expires: number, contentType?: string): string {
+    return crypto
+      .createHmac('sha256', this.config.signingSecret)
+      .update([method, key, expires, contentType || ''].join('\n'))
+      .digest('hex');
+  }
+
+  private objectPath(key: string): string {
+    return this.resolveInside(this.objectsDir, key);
+  }
+
+  private metaPath(key: string): string {
+    return `${this.resolveInside(this.metaDir, key)}.json`;
+  }
+
+  // Keys come from URLs too; never let one climb out of the storage root
+  private resolveInside(folder: string, key: string): string {
+    const resolved = path.resolve(folder, key);
+    if (!resolved.startsWith(folder + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  private async readMeta(key: string): Promise<{ contentType: string; etag: string; metadata: Record<string, string> }> {
+    try {
+      return JSON.parse(await readFile(this.metaPath(key), 'utf8'));
+    } catch {
+      return { contentType: 'application/octet-stream', etag: '', metadata: {} };
+    }
+  }
+
+  private async writeMeta(key: string, meta: { contentType: string; etag: string; metadata: Record<string, string> }) {
+    const file = this.metaPath(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(meta));
+  }
+}
+
+/**
+ * Storage driver selected by STORAGE_DRIVER (s3 or local)
+ */
+export function getStorageDriver(): 's3' | 'local' {
+  return process.env.STORAGE_DRIVER === 'local' ? 'local' : 's3';
+}
+
+/**
+ * Factory function to create the storage driver based on environment
+ */
+export function createStorageDriver(): StorageDriver {
+  if (getStorageDriver() === 'local') {
+    const apiUrl = process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 4000}`;
+
+    return new LocalStorageDriver({
+      root: process.env.STORAGE_LOCAL_PATH || './storage',
+      baseUrl: `${apiUrl.replace(/\/$/, '')}/api/v1/storage`,
+      signingSecret: process.env.STORAGE_SIGNING_SECRET || 'default-storage-secret-change-in-production',
+    });
+  }
+
+  const config: S3StorageConfig = {
+    endpoint: process.env.STORAGE_ENDPOINT,
+    region: process.env.STORAGE_REGION || 'us-east-1',
+    accessKeyId: process.env.STORAGE_ACCESS_KEY || '',
+    secretAccessKey: process.env.STORAGE_SECRET_KEY || '',
+    bucket: process.env.STORAGE_BUCKET || 'notas-audio',
+    forcePathStyle: true, // Required for MinIO and local S3 compatible services
+  };
+
+  // Validate required environment variables
+  if (!config.accessKeyId || !config.secretAccessKey) {
+    throw new Error('Storage credentials not configured. Please set STORAGE_ACCESS_KEY and STORAGE_SECRET_KEY environment variables, or STORAGE_DRIVER=local.');
+  }
+
+  return new S3StorageDriver(config);
+}
+
+let defaultDriver: StorageDriver | undefined;
+
+/**
+ * The driver chosen by STORAGE_DRIVER, created on first use so that importing
+ * storage code needs no credentials
+ */
+export function defaultStorageDriver(): StorageDriver {
+  if (!defaultDriver) {
+    defaultDriver = createStorageDriver();
+  }
+  return defaultDriver;
+}
@@ -20,14 +20,25 @@ export interface STTProvider {
   transcribe(audioBuffer: Buffer, options?: TranscriptionOptions): Promise<TranscriptionResult>;
   transcribeStream(audioStream: Readable, options?: TranscriptionOptions): Promise<TranscriptionResult>;
   getSupportedFormats(): string[];
+  getPreferredFormat(): AudioFormat; // What uploads are transcoded to
   getMaxFileSize(): number; // in bytes
 }
 
+export interface AudioFormat {
+  contentType: string;
+  extension: string;
+  codec: string;       // ffmpeg encoder
+  sampleRate: number;
+  channels: number;
+  bitRate?: string;    // For lossy codecs, e.g. '32k'
+}
+
 export interface TranscriptionOptions {
   language?: string;
   model?: string;
   temperature?: number;
   prompt?: string;
+  contentType?: string; // Of the audio buffer; defaults to audio/mpeg
 }
 
 /**
@@ -106,7 +117,11 @@ export class MockSTTProvider implements STTProvider {
   }
 
   getSupportedFormats(): string[] {
-    return ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/ogg'];
+    return ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/webm'];
+  }
+
+  getPreferredFormat(): AudioFormat {
+    return { contentType: 'audio/wav', extension: 'wav', codec: 'pcm_s16le', sampleRate: 16000, channels: 1 };
   }
 
   getMaxFileSize(): number {
@@ -114,6 +129,17 @@ export class MockSTTProvider implements STTProvider {
   }
 }
 
+// File extensions Whisper accepts, by content type
+const OPENAI_FILE_EXTENSIONS: Record<string, string> = {
+  'audio/flac': 'flac',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+};
+
 // OpenAI Whisper STT Provider
 export class OpenAISTTProvider implements STTProvider {
   name = 'openai';
@@ -131,9 +157,10 @@ export class OpenAISTTProvider implements STTProvider {
     try {
       const formData = new FormData();
       
-      // Create a blob from buffer for the API
-      const audioBlob = new Blob([audioBuffer], { type: 'audio/mpeg' });
-      formData.append('file', audioBlob, 'audio.mp3');
+      // Whisper picks the decoder from the file name's extension
+      const contentType = options?.contentType || 'audio/mpeg';
+      const audioBlob = new Blob([audioBuffer], { type: contentType });
+      formData.append('file', audioBlob, `audio.${OPENAI_FILE_EXTENSIONS[contentType] || 'mp3'}`);
       formData.append('model', options?.model || process.env.OPENAI_STT_MODEL || 'whisper-1');
       
       if (options?.language) {
@@ -171,7 +198,9 @@ export class OpenAISTTProvider implements STTProvider {
         segments: data.segments?.map((segment: any) => ({
           start: segment.start,
           end: segment.end,
-          text: segment.text,
+          text: segment.text.trim(),
+          // Whisper reports average log probability per segment
+          confidence: typeof segment.avg_logprob === 'number' ? Math.exp(segment.avg_logprob) : undefined,
         })),
         metadata: {
           provider: 'openai',
@@ -215,6 +244,11 @@ export class OpenAISTTProvider implements STTProvider {
     ];
   }
 
+  getPreferredFormat(): AudioFormat {
+    // Mono 16kHz speech at 32kbps keeps close to two hours under the 25MB limit
+    return { contentType: 'audio/mpeg', extension: 'mp3', codec: 'libmp3lame', sampleRate: 16000, channels: 1, bitRate: '32k' };
+  }
+
   getMaxFileSize(): number {
     return 25 * 1024 * 1024; // 25MB - OpenAI's limit
   }
@@ -363,6 +397,10 @@ export class AssemblyAISTTProvider implements STTProvider {
     ];
   }
 
+  getPreferredFormat(): AudioFormat {
+    return { contentType: 'audio/flac', extension: 'flac', codec: 'flac', sampleRate: 16000, channels: 1 };
+  }
+
   getMaxFileSize(): number {
     return 5 * 1024 * 1024 * 1024; // 5GB - AssemblyAI's limit
   }
@@ -0,0 +1,280 @@
+import {
+  llmProvider,
+  LLMProvider,
+  ActionItem,
+  SummarizationOptions,
+  SummarizationResult,
+} from './llm/index.js';
+import { LLM_SUMMARY_LIMITS } from '@notas-voz/schemas';
+
+// Tokens kept free in the context window for the instructions and the model's answer
+const PROMPT_RESERVE_TOKENS = 1500;
+
+// Share of the context window a single chunk may fill
+const CONTEXT_USAGE = 0.75;
+
+// Reduce passes over partial summaries before giving up on shrinking them further
+const MAX_REDUCE_DEPTH = 3;
+
+// Bullets or actions sharing at least this share of words are treated as duplicates
+const DUPLICATE_SIMILARITY = 0.8;
+
+// Chunk actions resembling a merged action this much are taken as the merge pass rephrasing them
+const CHUNK_ACTION_SIMILARITY = 0.5;
+
+const PRIORITY_RANK = { low: 0, medium: 1, high: 2 };
+
+export interface SummarizeProgress {
+  completed: number;
+  total: number;
+}
+
+export interface LongSummarizationOptions extends SummarizationOptions {
+  onProgress?: (progress: SummarizeProgress) => void | Promise<void>;
+}
+
+/**
+ * Rough token count (~4 characters per token), same estimate the providers use
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split text into chunks of at most maxTokens, cutting on sentence boundaries.
+ * Sentences that don't fit on their own are cut on word boundaries.
+ */
+export function chunkText(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4;
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string) => {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${piece}` : piece;
+  };
+
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    const trimmed = sentence.trim();
+    if (!trimmed) continue;
+
+    if (trimmed.length <= maxChars) {
+      push(trimmed);
+      continue;
+    }
+
+    for (const word of trimmed.split(/\s+/)) {
+      push(word.slice(0, maxChars));
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function normalizeWords(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function isDuplicate(a: string[], b: string[], threshold = DUPLICATE_SIMILARITY): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter(word => setB.has(word)).length;
+  const union = new Set([...setA, ...setB]).size;
+
+  return union === 0 || shared / union >= threshold;
+}
+
+/**
+ * Drop bullets that repeat an earlier one (ignoring case, accents and punctuation)
+ */
+export function dedupeBullets(bullets: string[]): string[] {
+  const kept: { text: string; words: string[] }[] = [];
+
+  for (const bullet of bullets) {
+    const words = normalizeWords(bullet);
+    if (words.length === 0 || kept.some(item => isDuplicate(item.words, words))) continue;
+    kept.push({ text: bullet.trim(), words });
+  }
+
+  return kept.map(item => item.text);
+}
+
+/**
+ * Drop repeated actions; the copy that is kept takes the highest priority and earliest due date
+ */
+export function dedupeActions(actions: ActionItem[]): ActionItem[] {
+  const kept: { action: ActionItem; words: string[] }[] = [];
+
+  for (const action of actions) {
+    const words = normalizeWords(action.text);
+    if (words.length === 0) continue;
+
+    const existing = kept.find(item => isDuplicate(item.words, words));
+    if (!existing) {
+      kept.push({ action: { ...action, text: action.text.trim() }, words });
+      continue;
+    }
+
+    mergeInto(existing.action, action);
+  }
+
+  return kept.map(item => item.action);
+}
+
+function mergeInto(current: ActionItem, action: ActionItem) {
+  if (action.priority && (!current.priority || PRIORITY_RANK[action.priority] > PRIORITY_RANK[current.priority])) {
+    current.priority = action.priority;
+  }
+  if (action.dueSuggested && (!current.dueSuggested || action.dueSuggested < current.dueSuggested)) {
+    current.dueSuggested = action.dueSuggested;
+  }
+  current.category = current.category || action.category;
+}
+
+/**
+ * Combine the actions of the merge pass with those found in each chunk. The merge pass
+ * wins: a chunk action it rephrased only lends its priority and due date, and only
+ * actions it dropped are appended, up to the usual limit.
+ */
+export function mergeChunkActions(merged: ActionItem[], chunkActions: ActionItem[]): ActionItem[] {
+  const kept = dedupeActions(merged).map(action => ({ action, words: normalizeWords(action.text) }));
+  const dropped: ActionItem[] = [];
+
+  for (const action of chunkActions) {
+    const words = normalizeWords(action.text);
+    if (words.length === 0) continue;
+
+    const existing = kept.find(item => isDuplicate(item.words, words, CHUNK_ACTION_SIMILARITY));
+    if (existing) {
+      mergeInto(existing.action, action);
+    } else {
+      dropped.push(action);
+    }
+  }
+
+  return [...kept.map(item => item.action), ...dedupeActions(dropped)].slice(0, LLM_SUMMARY_LIMITS.actions);
+}
+
+function formatPartialSummaries(partials: SummarizationResult[]): string {
+  return partials
+    .map((partial, index) => {
+      const lines = [`Parte ${index + 1}: ${partial.tlDr}`, ...partial.bullets.map(bullet => `- ${bullet}`)];
+      if (partial.actions.length > 0) {
+        lines.push('Acciones:', ...partial.actions.map(action => `- ${action.text}`));
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+function sumMetadata(results: SummarizationResult[], key: string): number {
+  return results.reduce((sum, result) => sum + (Number(result.metadata?.[key]) || 0), 0);
+}
+
+/**
+ * Summarization that fits any transcript into the provider's context window:
+ * short texts go in one call, long ones are summarized per chunk (map) and the
+ * partial summaries are then summarized together (reduce).
+ */
+export class SummarizationService {
+  constructor(private provider: LLMProvider = llmProvider) {}
+
+  /**
+   * Largest chunk, in tokens, that fits in one summarize call
+   */
+  getChunkTokens(options?: SummarizationOptions): number {
+    const outputTokens = options?.maxTokens || 1000;
+    const available = Math.floor(this.provider.getMaxTokens() * CONTEXT_USAGE) - PROMPT_RESERVE_TOKENS - outputTokens;
+    return Math.max(available, 500);
+  }
+
+  async summarize(text: string, options: LongSummarizationOptions = {}): Promise<SummarizationResult> {
+    const { onProgress, ...summarizeOptions } = options;
+    const chunkTokens = this.getChunkTokens(summarizeOptions);
+
+    if (estimateTokens(text) <= chunkTokens) {
+      const result = await this.provider.summarize(text, summarizeOptions);
+      await onProgress?.({ completed: 1, total: 1 });
+      return result;
+    }
+
+    const chunks = chunkText(text, chunkTokens);
+    // One extra step for the merge pass
+    const total = chunks.length + 1;
+
+    console.log(`🧩 Summarizing ${chunks.length} chunks of up to ${chunkTokens} tokens`);
+
+    const partials: SummarizationResult[] = [];
+    for (const chunk of chunks) {
+      partials.push(await this.provider.summarize(chunk, summarizeOptions));
+      await onProgress?.({ completed: partials.length, total });
+    }
+
+    const merged = await this.reduce(partials, summarizeOptions, 1);
+    await onProgress?.({ completed: total, total });
+
+    // Keep validation problems of the chunks next to those of the merge pass
+    const chunkFailures = partials.flatMap(partial => partial.metadata?.validation?.failures ?? []);
+
+    return {
+      tlDr: merged.tlDr,
+      bullets: dedupeBullets(merged.bullets),
+      // Actions found in each chunk are kept even if the merge pass drops them
+      actions: mergeChunkActions(merged.actions, partials.flatMap(partial => partial.actions)),
+      metadata: {
+        ...merged.metadata,
+        strategy: 'map-reduce',
+        chunks: chunks.length,
+        inputTokens: sumMetadata([...partials, merged], 'inputTokens'),
+        outputTokens: sumMetadata([...partials, merged], 'outputTokens'),
+        ...(chunkFailures.length > 0 && { chunkValidationFailures: chunkFailures }),
+      }
+    };
+  }
+
+  private async reduce(
+    partials: SummarizationResult[],
+    options: SummarizationOptions,
+    depth: number
+  ): Promise<SummarizationResult> {
+    const combined = formatPartialSummaries(partials);
+    const chunkTokens = this.getChunkTokens(options);
+
+    if (estimateTokens(combined) <= chunkTokens || depth >= MAX_REDUCE_DEPTH) {
+      return this.provider.summarize(combined, options);
+    }
+
+    // Too many partial summaries for one call: merge them in groups first
+    const groups: SummarizationResult[][] = [];
+    let group: SummarizationResult[] = [];
+    for (const partial of partials) {
+      group.push(partial);
+      if (estimateTokens(formatPartialSummaries(group)) > chunkTokens && group.length > 1) {
+        groups.push(group.slice(0, -1));
+        group = [partial];
+      }
+    }
+    groups.push(group);
+
+    const merged: SummarizationResult[] = [];
+    for (const items of groups) {
+      merged.push(await this.provider.summarize(formatPartialSummaries(items), options));
+    }
+
+    return this.reduce(merged, options, depth + 1);
+  }
+}
+
+export const summarizationService = new SummarizationService();
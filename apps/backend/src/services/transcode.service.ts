@@ -0,0 +1,155 @@
+import { spawn } from 'child_process';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { AudioFormat } from './stt/index.js';
+
+// Off by default with the mock STT provider, so a local setup runs without ffmpeg
+export const TRANSCODE_ENABLED = process.env.TRANSCODE_ENABLED
+  ? process.env.TRANSCODE_ENABLED !== 'false'
+  : (process.env.STT_PROVIDER || 'mock') !== 'mock';
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+const TRANSCODE_TIMEOUT_MS = parseInt(process.env.TRANSCODE_TIMEOUT_MS || String(10 * 60 * 1000));
+
+// Single pass EBU R128 normalization, with the levels usual for speech
+const LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+
+export interface AudioProbe {
+  durationSeconds: number | null;
+  codec: string | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+export interface PreparedAudio<T> {
+  output: T; // What `store` returned for the converted file
+  contentType: string;
+  probe: AudioProbe;
+}
+
+/**
+ * Turns uploads into what the STT provider handles best with ffmpeg:
+ * probes the original, converts it to the provider's format and normalizes loudness
+ */
+export class TranscodeService {
+  /**
+   * Probe the upload and convert it, handing the converted file to `store` as a
+   * stream before the temp files go. Recordings from the browser's MediaRecorder
+   * carry no duration in their header, so it is then read from the converted file.
+   */
+  async prepare<T>(
+    input: Readable,
+    format: AudioFormat,
+    store: (output: Readable) => Promise<T>
+  ): Promise<PreparedAudio<T>> {
+    return this.withWorkDir(async (dir) => {
+      const inputPath = path.join(dir, 'input');
+      const outputPath = path.join(dir, `output.${format.extension}`);
+      // Recordings can be long; neither copy is held in memory
+      await pipeline(input, createWriteStream(inputPath));
+
+      const probe = await this.probeFile(inputPath);
+
+      await this.run(FFMPEG_PATH, [
+        '-hide_banner', '-nostdin', '-y',
+        '-i', inputPath,
+        '-map', '0:a:0', '-vn',
+        '-af', LOUDNORM_FILTER,
+        '-ac', String(format.channels),
+        '-ar', String(format.sampleRate),
+        '-c:a', format.codec,
+        ...(format.bitRate ? ['-b:a', format.bitRate] : []),
+        outputPath,
+      ]);
+
+      if (probe.durationSeconds === null) {
+        probe.durationSeconds = (await this.probeFile(outputPath)).durationSeconds;
+      }
+
+      return {
+        output: await store(createReadStream(outputPath)),
+        contentType: format.contentType,
+        probe,
+      };
+    });
+  }
+
+  // Duration, codec, sample rate and channels of the first audio stream
+  private async probeFile(file: string): Promise<AudioProbe> {
+    const output = await this.run(FFPROBE_PATH, [
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      '-select_streams', 'a:0',
+      file,
+    ]);
+
+    const { streams = [], format = {} } = JSON.parse(output.toString('utf8'));
+    const stream = streams[0];
+
+    if (!stream) {
+      throw new Error('No audio stream found');
+    }
+
+    return {
+      durationSeconds: toNumber(format.duration) ?? toNumber(stream.duration),
+      codec: stream.codec_name || null,
+      sampleRate: toNumber(stream.sample_rate),
+      channels: toNumber(stream.channels),
+    };
+  }
+
+  // Work on temp files: MP4 keeps its index at the end, so it can't be read from a pipe
+  private async withWorkDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'notas-audio-'));
+    try {
+      return await fn(dir);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private run(command: string, args: string[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      let stderr = '';
+
+      const timer = setTimeout(() => child.kill('SIGKILL'), TRANSCODE_TIMEOUT_MS);
+
+      child.stdout.on('data', (chunk) => stdout.push(chunk));
+      child.stderr.on('data', (chunk) => {
+        // ffmpeg can be chatty; the end holds the error
+        stderr = (stderr + chunk).slice(-2000);
+      });
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        reject(error.code === 'ENOENT'
+          ? new Error(`${command} not found. Install ffmpeg or set TRANSCODE_ENABLED=false.`)
+          : error);
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(stdout));
+        } else {
+          reject(new Error(`${path.basename(command)} failed (${signal || `exit ${code}`}): ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : null;
+}
+
+export const transcodeService = new TranscodeService();
@@ -0,0 +1,319 @@
+import { PrismaClient } from '@prisma/client';
+import type { TranscriptionResult } from './stt/index.js';
+
+const prisma = new PrismaClient();
+
+// Beyond this many edits the diff falls back to replacing the whole text
+const MAX_DIFF_EDITS = 2000;
+
+export type RevisionSource = 'stt' | 'edit' | 'restore';
+
+export interface DiffChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+interface TokenOp {
+  type: DiffChange['type'];
+  aIndex: number;
+  bIndex: number;
+}
+
+interface SegmentText {
+  text: string;
+}
+
+export function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Myers diff over token arrays. Common prefix and suffix are stripped first,
+ * which keeps typical small corrections cheap on long transcripts.
+ */
+function diffTokens(a: string[], b: string[]): TokenOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: TokenOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: 'equal', aIndex: i, bIndex: i });
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  for (const op of myers(midA, midB)) {
+    ops.push({ type: op.type, aIndex: op.aIndex + prefix, bIndex: op.bIndex + prefix });
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    ops.push({ type: 'equal', aIndex: a.length - i, bIndex: b.length - i });
+  }
+
+  return ops;
+}
+
+function myers(a: string[], b: string[]): TokenOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_DIFF_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, offset, n, m);
+      }
+    }
+  }
+
+  // Too many changes to diff precisely: report a full replacement
+  return [
+    ...a.map((_, index) => ({ type: 'delete' as const, aIndex: index, bIndex: -1 })),
+    ...b.map((_, index) => ({ type: 'insert' as const, aIndex: -1, bIndex: index })),
+  ];
+}
+
+function backtrack(trace: Int32Array[], offset: number, n: number, m: number): TokenOp[] {
+  const ops: TokenOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', aIndex: x - 1, bIndex: y - 1 });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', aIndex: -1, bIndex: y - 1 });
+      } else {
+        ops.push({ type: 'delete', aIndex: x - 1, bIndex: -1 });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Word-level diff between two texts, with consecutive tokens of the same kind merged
+ */
+export function diffWords(oldText: string, newText: string): DiffChange[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  const changes: DiffChange[] = [];
+
+  for (const op of diffTokens(a, b)) {
+    const token = op.type === 'insert' ? b[op.bIndex] : a[op.aIndex];
+    const last = changes[changes.length - 1];
+
+    if (last && last.type === op.type) {
+      last.text += ` ${token}`;
+    } else {
+      changes.push({ type: op.type, text: token });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Redistribute an edited transcript over the existing segments so timestamps
+ * keep pointing at the right words. Replaced words are spread over the segments
+ * of the words they replace; pure insertions fill the emptied segments between their
+ * neighbours, if any, and otherwise join the preceding segment.
+ * Returns one text per segment; a segment whose words were all removed gets ''.
+ */
+export function realignSegments(segments: SegmentText[], newText: string): string[] {
+  const oldTokens = segments.flatMap((segment, index) =>
+    tokenize(segment.text).map(token => ({ token, segment: index }))
+  );
+  const newTokens = tokenize(newText);
+  const buckets: string[][] = segments.map(() => []);
+
+  if (buckets.length === 0) {
+    return [];
+  }
+
+  let current = -1;
+  let deleted: number[] = [];
+  let inserted: string[] = [];
+
+  // Assign a run of deletions/insertions between two unchanged words
+  const flushHunk = (next = segments.length) => {
+    let targets = deleted;
+    if (targets.length === 0) {
+      // With nothing deleted, the segments between both words have no text left
+      targets = Array.from({ length: Math.max(next - current - 1, 0) }, (_, index) => current + 1 + index);
+    }
+    if (targets.length === 0) {
+      targets = [Math.max(current, 0)];
+    }
+
+    inserted.forEach((token, index) => {
+      buckets[targets[Math.floor((index * targets.length) / inserted.length)]].push(token);
+    });
+    if (deleted.length > 0) current = deleted[deleted.length - 1];
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const op of diffTokens(oldTokens.map(t => t.token), newTokens)) {
+    if (op.type === 'insert') {
+      inserted.push(newTokens[op.bIndex]);
+    } else if (op.type === 'delete') {
+      deleted.push(oldTokens[op.aIndex].segment);
+    } else {
+      flushHunk(oldTokens[op.aIndex].segment);
+      current = oldTokens[op.aIndex].segment;
+      buckets[current].push(newTokens[op.bIndex]);
+    }
+  }
+  flushHunk();
+
+  return buckets.map(tokens => tokens.join(' '));
+}
+
+/**
+ * Transcript editing with revision history
+ */
+export class TranscriptService {
+  /**
+   * Save what the STT provider returned as the note's transcript: its text as
+   * revision 1 and its timed segments in the provider's order
+   */
+  async createFromStt(noteId: string, provider: string, result: TranscriptionResult) {
+    return prisma.transcript.create({
+      data: {
+        text: result.text,
+        language: result.language,
+        confidence: result.confidence,
+        provider,
+        noteId,
+        metadata: result.metadata,
+        segments: {
+          create: (result.segments || []).map((segment, index) => ({
+            position: index,
+            start: segment.start,
+            end: segment.end,
+            text: segment.text,
+            confidence: segment.confidence,
+          }))
+        },
+        revisions: {
+          create: {
+            version: 1,
+            text: result.text,
+            source: 'stt',
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Replace the transcript text, recording the change as a new revision.
+   * Transcripts created before revisions existed get their current text saved as version 1 first.
+   */
+  async updateText(params: {
+    transcriptId: string;
+    text: string;
+    authorId: string;
+    source: Exclude<RevisionSource, 'stt'>;
+    restoredFromVersion?: number;
+  }) {
+    const { transcriptId, text, authorId, source, restoredFromVersion } = params;
+
+    return prisma.$transaction(async tx => {
+      const transcript = await tx.transcript.findUniqueOrThrow({
+        where: { id: transcriptId },
+        include: {
+          segments: { orderBy: { position: 'asc' } },
+          revisions: { orderBy: { version: 'desc' }, take: 1 }
+        }
+      });
+
+      let latestVersion = transcript.revisions[0]?.version ?? 0;
+
+      if (latestVersion === 0) {
+        await tx.transcriptRevision.create({
+          data: {
+            transcriptId,
+            version: 1,
+            text: transcript.text,
+            source: 'stt',
+            createdAt: transcript.createdAt,
+          }
+        });
+        latestVersion = 1;
+      }
+
+      const revision = await tx.transcriptRevision.create({
+        data: {
+          transcriptId,
+          version: latestVersion + 1,
+          text,
+          source,
+          restoredFromVersion,
+          authorId,
+        }
+      });
+
+      // Keep segment timestamps aligned with the corrected words. Emptied segments stay
+      // with no text, so restoring an older revision can fill their timestamps again.
+      const segmentTexts = realignSegments(transcript.segments, text);
+      for (const [index, segment] of transcript.segments.entries()) {
+        if (segmentTexts[index] !== segment.text) {
+          await tx.transcriptSegment.update({
+            where: { id: segment.id },
+            data: { text: segmentTexts[index] }
+          });
+        }
+      }
+
+      await tx.transcript.update({
+        where: { id: transcriptId },
+        data: { text }
+      });
+
+      return revision;
+    });
+  }
+}
+
+export const transcriptService = new TranscriptService();
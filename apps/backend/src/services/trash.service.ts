@@ -0,0 +1,174 @@
+import { PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { storageService } from './storage.service.js';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a note stays in the trash before it is deleted for good
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+
+// How often the scheduler looks for notes past their retention
+const PURGE_INTERVAL_MS = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10);
+
+// Notes removed per scheduler run, so one run stays short
+const PURGE_BATCH_SIZE = 100;
+
+export function trashPurgeDate(deletedAt: Date, retentionDays = TRASH_RETENTION_DAYS): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Soft delete for notes: deleted notes go to the trash, where they can be
+ * restored until a scheduler in the worker process purges them
+ */
+export class TrashService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(intervalMs = PURGE_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.runOnce(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.purgeExpired(now);
+    } catch (error) {
+      console.error('❌ Trash purge run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async trashNote(userId: string, noteId: string, correlationId?: string): Promise<Date> {
+    const note = await prisma.note.findFirst({
+      where: { id: noteId, userId, deletedAt: null }
+    });
+
+    if (!note) {
+      throw new Error('NOTE_NOT_FOUND');
+    }
+
+    const deletedAt = new Date();
+
+    await prisma.note.update({
+      where: { id: noteId },
+      data: { deletedAt }
+    });
+
+    await prisma.auditEvent.create({
+      data: {
+        type: 'note_trashed',
+        userId,
+        noteId,
+        correlationId: correlationId || nanoid(),
+      }
+    });
+
+    return deletedAt;
+  }
+
+  async restoreNote(userId: string, noteId: string, correlationId?: string): Promise<void> {
+    const note = await prisma.note.findFirst({
+      where: { id: noteId, userId, deletedAt: { not: null } }
+    });
+
+    if (!note) {
+      throw new Error('NOTE_NOT_FOUND');
+    }
+
+    await prisma.note.update({
+      where: { id: noteId },
+      data: { deletedAt: null }
+    });
+
+    await prisma.auditEvent.create({
+      data: {
+        type: 'note_restored',
+        userId,
+        noteId,
+        correlationId: correlationId || nanoid(),
+      }
+    });
+  }
+
+  /**
+   * Delete a note in the trash right away, without waiting for the purge
+   */
+  async deleteNote(userId: string, noteId: string, correlationId?: string): Promise<void> {
+    const note = await prisma.note.findFirst({
+      where: { id: noteId, userId, deletedAt: { not: null } },
+      include: { media: true }
+    });
+
+    if (!note) {
+      throw new Error('NOTE_NOT_FOUND');
+    }
+
+    await this.removeNote(note, correlationId);
+  }
+
+  /**
+   * Delete every note past its retention. Returns the number deleted;
+   * a note whose files fail to delete stays in the trash for the next run.
+   */
+  async purgeExpired(now = new Date()): Promise<number> {
+    const notes = await prisma.note.findMany({
+      where: { deletedAt: { lte: new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS) } },
+      include: { media: true },
+      orderBy: { deletedAt: 'asc' },
+      take: PURGE_BATCH_SIZE
+    });
+
+    let purged = 0;
+    for (const note of notes) {
+      try {
+        await this.removeNote(note);
+        purged++;
+      } catch (error) {
+        console.error(`❌ Failed to purge note ${note.id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+
+  private async removeNote(
+    note: { id: string; userId: string; media: { storageKey: string }[] },
+    correlationId?: string
+  ): Promise<void> {
+    // Files go first, so the note is only gone once its audio is
+    for (const media of note.media) {
+      await storageService.deleteFile(media.storageKey);
+    }
+
+    // Cascade deletes transcript, summary, actions and media records
+    await prisma.note.delete({
+      where: { id: note.id }
+    });
+
+    // The note no longer exists, so its id goes in the metadata
+    await prisma.auditEvent.create({
+      data: {
+        type: 'note_deleted',
+        userId: note.userId,
+        correlationId: correlationId || nanoid(),
+        metadata: { noteId: note.id, files: note.media.length }
+      }
+    });
+  }
+}
+
+export const trashService = new TrashService();
@@ -0,0 +1,514 @@
+import { PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import type { CreateUploadSessionRequest, DirectUploadResponse, UploadSession } from '@notas-voz/schemas';
+import { storageService, UploadedPart } from './storage.service.js';
+import { detectAudioType, isCompatibleAudioType, AUDIO_SNIFF_BYTES } from './audio-type.js';
+
+const prisma = new PrismaClient();
+
+const MB = 1024 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Storage rejects multipart parts under 5MB, except for the last one
+const MIN_CHUNK_SIZE = 5 * MB;
+
+// Bytes per chunk; small enough to resend cheaply when a mobile connection drops
+export const UPLOAD_CHUNK_SIZE = Math.max(
+  MIN_CHUNK_SIZE,
+  parseInt(process.env.UPLOAD_CHUNK_SIZE_MB || '8', 10) * MB
+);
+
+// Largest file accepted; sizes are stored as 32-bit integers
+export const UPLOAD_MAX_SIZE = Math.min(
+  parseInt(process.env.UPLOAD_MAX_SIZE_MB || '2000', 10) * MB,
+  2 ** 31 - 1
+);
+
+// Storage multipart uploads hold at most this many parts
+const MAX_PARTS = 10000;
+
+// An upload session expires after this long without receiving a chunk
+const SESSION_TTL_HOURS = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '24', 10);
+
+// How often the scheduler aborts expired sessions
+const CLEANUP_INTERVAL_MS = parseInt(process.env.UPLOAD_SESSION_CLEANUP_INTERVAL_MS || '3600000', 10);
+
+// Lifetime in seconds of presigned direct upload URLs. Storage only checks it
+// when the PUT starts, so a slow upload may outlast it.
+const DIRECT_UPLOAD_URL_EXPIRES_IN = parseInt(process.env.DIRECT_UPLOAD_URL_EXPIRES_IN || '3600', 10);
+
+// Sessions aborted per scheduler run, so one run stays short
+const CLEANUP_BATCH_SIZE = 100;
+
+export const UPLOAD_AUDIO_MIME_TYPES = [
+  'audio/mpeg',
+  'audio/wav',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/aac',
+  'audio/ogg',
+  'audio/webm',
+  'audio/flac',
+];
+
+type UploadSessionRecord = {
+  id: string;
+  noteId: string;
+  userId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  offset: number;
+  chunkSize: number;
+  method: 'chunked' | 'direct';
+  storageKey: string;
+  storageUploadId: string | null;
+  parts: unknown;
+  detectedType: string | null;
+  status: 'active' | 'completing' | 'completed' | 'aborted';
+  expiresAt: Date;
+};
+
+/**
+ * Bytes the chunk starting at `offset` must have: a full chunk, or whatever is left
+ */
+export function expectedChunkLength(size: number, chunkSize: number, offset: number): number {
+  return Math.min(chunkSize, size - offset);
+}
+
+type CompletedFile = { size: number; url: string; detectedType: string | null };
+
+function sessionExpiry(from = new Date()): Date {
+  return new Date(from.getTime() + SESSION_TTL_HOURS * HOUR_MS);
+}
+
+/**
+ * Audio uploads that don't go through a single multipart request. Chunked
+ * uploads send the file in fixed-size chunks, each one stored right away as a
+ * part of a storage multipart upload, and can ask for the current offset to
+ * carry on after a dropped connection. Direct uploads PUT the file straight to
+ * storage with a presigned URL, so the bytes never reach the API.
+ */
+export class UploadService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(intervalMs = CLEANUP_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.runOnce(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.abortExpired(now);
+    } catch (error) {
+      console.error('❌ Upload session cleanup failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async createSession(
+    userId: string,
+    noteId: string,
+    data: CreateUploadSessionRequest
+  ): Promise<UploadSession> {
+    const storageKey = await this.prepareUpload(userId, noteId, data);
+    const storageUploadId = await storageService.createMultipartUpload(storageKey, data.contentType, {
+      metadata: { noteId, userId }
+    });
+
+    const session = await this.openSession(userId, noteId, data, {
+      method: 'chunked',
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      storageKey,
+      storageUploadId
+    });
+
+    return this.formatSession(session);
+  }
+
+  /**
+   * Start an upload that goes straight to storage. The client PUTs the whole
+   * file to the returned URL, with the announced Content-Type, and then
+   * completes the session like a chunked one.
+   */
+  async createDirectUpload(
+    userId: string,
+    noteId: string,
+    data: CreateUploadSessionRequest
+  ): Promise<DirectUploadResponse> {
+    const storageKey = await this.prepareUpload(userId, noteId, data);
+
+    const uploadUrl = await storageService.getSignedUrl(storageKey, {
+      method: 'PUT',
+      contentType: data.contentType,
+      expiresIn: DIRECT_UPLOAD_URL_EXPIRES_IN
+    });
+
+    // The whole file is a single chunk
+    const session = await this.openSession(userId, noteId, data, {
+      method: 'direct',
+      chunkSize: data.size,
+      storageKey,
+      storageUploadId: null
+    });
+
+    return {
+      upload: this.formatSession(session),
+      key: storageKey,
+      uploadUrl,
+      uploadUrlExpiresAt: new Date(Date.now() + DIRECT_UPLOAD_URL_EXPIRES_IN * 1000).toISOString(),
+    };
+  }
+
+  async getSession(userId: string, noteId: string, sessionId: string): Promise<UploadSession> {
+    return this.formatSession(await this.findActive(userId, noteId, sessionId));
+  }
+
+  /**
+   * Store the chunk starting at `offset`. Chunks must arrive in order; a client
+   * that lost track of the offset gets UPLOAD_OFFSET_MISMATCH and asks again.
+   */
+  async appendChunk(
+    userId: string,
+    noteId: string,
+    sessionId: string,
+    offset: number,
+    chunk: Buffer
+  ): Promise<UploadSession> {
+    const session = await this.findActive(userId, noteId, sessionId, 'chunked');
+
+    if (offset !== session.offset) {
+      throw new Error('UPLOAD_OFFSET_MISMATCH');
+    }
+
+    if (chunk.length === 0 || chunk.length !== expectedChunkLength(session.size, session.chunkSize, offset)) {
+      throw new Error('UPLOAD_CHUNK_INVALID');
+    }
+
+    // The first chunk holds the file header
+    const detectedType = offset === 0 ? await this.checkContent(session, chunk) : session.detectedType;
+
+    const partNumber = offset / session.chunkSize + 1;
+    const part = await storageService.uploadPart(session.storageKey, session.storageUploadId!, partNumber, chunk);
+
+    const parts = (session.parts as UploadedPart[]).filter(stored => stored.partNumber !== partNumber);
+    const newOffset = offset + chunk.length;
+
+    // Matching on the offset makes a concurrent retry of the same chunk lose cleanly
+    const { count } = await prisma.uploadSession.updateMany({
+      where: { id: session.id, offset, status: 'active' },
+      data: {
+        offset: newOffset,
+        parts: [...parts, part],
+        detectedType,
+        expiresAt: sessionExpiry()
+      }
+    });
+
+    if (count === 0) {
+      throw new Error('UPLOAD_OFFSET_MISMATCH');
+    }
+
+    return this.formatSession({ ...session, offset: newOffset, expiresAt: sessionExpiry() });
+  }
+
+  /**
+   * Attach the uploaded audio to the note: chunked uploads get their parts
+   * assembled, direct ones are checked against what storage received
+   */
+  async completeSession(userId: string, noteId: string, sessionId: string, correlationId?: string) {
+    const session = await this.findActive(userId, noteId, sessionId);
+
+    // Only one request gets to attach the file; a retry racing it finds nothing to complete
+    const { count } = await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: 'active' },
+      data: { status: 'completing' }
+    });
+
+    if (count === 0) {
+      throw new Error('UPLOAD_NOT_FOUND');
+    }
+
+    let file: CompletedFile;
+    try {
+      file = session.method === 'direct'
+        ? await this.checkDirectUpload(session)
+        : await this.assembleChunks(session);
+    } catch (error) {
+      // Hand the session back so the client can finish the upload and try again,
+      // unless the check aborted it
+      await prisma.uploadSession.updateMany({
+        where: { id: session.id, status: 'completing' },
+        data: { status: 'active' }
+      });
+      throw error;
+    }
+
+    const [, media, note] = await prisma.$transaction([
+      prisma.uploadSession.update({
+        where: { id: session.id },
+        data: { status: 'completed', offset: file.size }
+      }),
+      prisma.media.create({
+        data: {
+          filename: session.storageKey.split('/').pop() || session.filename,
+          originalName: session.filename,
+          size: file.size,
+          contentType: session.contentType,
+          detectedType: file.detectedType,
+          storageKey: session.storageKey,
+          storageUrl: file.url,
+          noteId
+        }
+      }),
+      prisma.note.update({
+        where: { id: noteId },
+        data: { status: 'uploaded' },
+        include: {
+          transcript: true,
+          summary: true,
+          actions: {
+            orderBy: { createdAt: 'asc' }
+          }
+        }
+      })
+    ]);
+
+    await prisma.auditEvent.create({
+      data: {
+        type: 'media_uploaded',
+        userId,
+        noteId,
+        correlationId: correlationId || nanoid(),
+        metadata: { uploadSessionId: session.id, method: session.method, size: file.size }
+      }
+    });
+
+    return { media, note };
+  }
+
+  async abortSession(userId: string, noteId: string, sessionId: string): Promise<void> {
+    const session = await this.findActive(userId, noteId, sessionId);
+    await this.abort(session);
+  }
+
+  /**
+   * Abort sessions nobody has sent a chunk to within the TTL. Returns the
+   * number aborted; one whose storage upload fails to abort is retried later.
+   */
+  async abortExpired(now = new Date()): Promise<number> {
+    const sessions = await prisma.uploadSession.findMany({
+      where: { status: 'active', expiresAt: { lte: now } },
+      orderBy: { expiresAt: 'asc' },
+      take: CLEANUP_BATCH_SIZE
+    });
+
+    let aborted = 0;
+    for (const session of sessions) {
+      try {
+        await this.abort(session);
+        aborted++;
+      } catch (error) {
+        console.error(`❌ Failed to abort upload session ${session.id}:`, error);
+      }
+    }
+
+    return aborted;
+  }
+
+  /**
+   * Check the note and file, replace any unfinished upload for the note and
+   * return the storage key for the new one
+   */
+  private async prepareUpload(userId: string, noteId: string, data: CreateUploadSessionRequest): Promise<string> {
+    const note = await prisma.note.findFirst({
+      where: { id: noteId, userId, deletedAt: null }
+    });
+
+    if (!note) {
+      throw new Error('NOTE_NOT_FOUND');
+    }
+
+    if (!UPLOAD_AUDIO_MIME_TYPES.includes(data.contentType)) {
+      throw new Error('UNSUPPORTED_MEDIA_TYPE');
+    }
+
+    if (data.size > UPLOAD_MAX_SIZE || Math.ceil(data.size / UPLOAD_CHUNK_SIZE) > MAX_PARTS) {
+      throw new Error('FILE_TOO_LARGE');
+    }
+
+    // A new upload replaces any unfinished one for the same note
+    const previous = await prisma.uploadSession.findMany({
+      where: { noteId, status: 'active' }
+    });
+    for (const session of previous) {
+      await this.abort(session);
+    }
+
+    return storageService.generateKey(data.filename, `audio/${userId}`);
+  }
+
+  private async openSession(
+    userId: string,
+    noteId: string,
+    data: CreateUploadSessionRequest,
+    storage: Pick<UploadSessionRecord, 'method' | 'chunkSize' | 'storageKey' | 'storageUploadId'>
+  ): Promise<UploadSessionRecord> {
+    const session = await prisma.uploadSession.create({
+      data: {
+        filename: data.filename,
+        contentType: data.contentType,
+        size: data.size,
+        ...storage,
+        noteId,
+        userId,
+        expiresAt: sessionExpiry()
+      }
+    });
+
+    await prisma.note.update({
+      where: { id: noteId },
+      data: { status: 'uploading' }
+    });
+
+    return session;
+  }
+
+  private async assembleChunks(session: UploadSessionRecord): Promise<CompletedFile> {
+    if (session.offset !== session.size) {
+      throw new Error('UPLOAD_INCOMPLETE');
+    }
+
+    const result = await storageService.completeMultipartUpload(
+      session.storageKey,
+      session.storageUploadId!,
+      session.parts as UploadedPart[]
+    );
+
+    return { size: session.size, url: result.url, detectedType: session.detectedType };
+  }
+
+  private async checkDirectUpload(session: UploadSessionRecord): Promise<CompletedFile> {
+    // Until the client's PUT finishes there is no object to look at
+    const object = await storageService.getFileMetadata(session.storageKey).catch(() => null);
+
+    if (!object) {
+      throw new Error('UPLOAD_INCOMPLETE');
+    }
+
+    // A presigned URL can't cap the size, so an oversized file is only caught here
+    if (object.size > UPLOAD_MAX_SIZE) {
+      await this.abort(session);
+      throw new Error('FILE_TOO_LARGE');
+    }
+
+    const detectedType = await this.checkContent(session, await this.readHeader(session.storageKey));
+
+    return { size: object.size, url: await storageService.getPublicUrl(session.storageKey), detectedType };
+  }
+
+  /**
+   * Type the file's bytes show; a file that isn't audio of the declared
+   * type aborts the upload
+   */
+  private async checkContent(session: UploadSessionRecord, header: Buffer): Promise<string> {
+    const detected = detectAudioType(header);
+
+    if (!detected || !isCompatibleAudioType(session.contentType, detected)) {
+      await this.abort(session);
+      throw new Error('AUDIO_CONTENT_INVALID');
+    }
+
+    return detected;
+  }
+
+  private async readHeader(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    // Leaving the loop early closes the stream, so only the start is downloaded
+    for await (const chunk of await storageService.getFileStream(key)) {
+      chunks.push(Buffer.from(chunk));
+      length += chunk.length;
+      if (length >= AUDIO_SNIFF_BYTES) {
+        break;
+      }
+    }
+
+    return Buffer.concat(chunks).subarray(0, AUDIO_SNIFF_BYTES);
+  }
+
+  private async findActive(
+    userId: string,
+    noteId: string,
+    sessionId: string,
+    method?: UploadSessionRecord['method']
+  ): Promise<UploadSessionRecord> {
+    const session = await prisma.uploadSession.findFirst({
+      where: {
+        id: sessionId,
+        noteId,
+        userId,
+        method,
+        status: 'active',
+        expiresAt: { gt: new Date() },
+        note: { deletedAt: null }
+      }
+    });
+
+    if (!session) {
+      throw new Error('UPLOAD_NOT_FOUND');
+    }
+
+    return session;
+  }
+
+  private async abort(session: UploadSessionRecord): Promise<void> {
+    // Frees whatever already reached the bucket
+    if (session.method === 'direct') {
+      await storageService.deleteFile(session.storageKey);
+    } else {
+      await storageService.abortMultipartUpload(session.storageKey, session.storageUploadId!);
+    }
+
+    await prisma.uploadSession.update({
+      where: { id: session.id },
+      data: { status: 'aborted' }
+    });
+
+    // The note goes back to waiting for audio, unless something else moved it on
+    await prisma.note.updateMany({
+      where: { id: session.noteId, status: 'uploading' },
+      data: { status: 'idle' }
+    });
+  }
+
+  private formatSession(session: UploadSessionRecord): UploadSession {
+    return {
+      id: session.id,
+      noteId: session.noteId,
+      filename: session.filename,
+      contentType: session.contentType,
+      size: session.size,
+      offset: session.offset,
+      chunkSize: session.chunkSize,
+      method: session.method,
+      status: session.status,
+      expiresAt: session.expiresAt.toISOString(),
+    };
+  }
+}
+
+export const uploadService = new UploadService();
@@ -1,12 +1,31 @@
-import { Worker, Job } from 'bullmq';
-import { Redis } from 'ioredis';
 import { PrismaClient } from '@prisma/client';
 import { nanoid } from 'nanoid';
 
 import { sttProvider } from '../services/stt/index.js';
 import { llmProvider } from '../services/llm/index.js';
+import { summarizationService } from '../services/summarization.service.js';
+import { settingsService } from '../services/settings.service.js';
+import { extractActionDueDates } from '../services/due-dates.js';
 import { storageService } from '../services/storage.service.js';
-import { getQueueService, TranscribeJobData, SummarizeJobData } from '../services/queue.service.js';
+import { transcodeService, TRANSCODE_ENABLED } from '../services/transcode.service.js';
+import { searchService } from '../services/search.service.js';
+import { transcriptService } from '../services/transcript.service.js';
+import { semanticSearchService } from '../services/semantic-search.service.js';
+import { notificationService } from '../services/notifications.service.js';
+import { accountDeletionService } from '../services/account-deletion.service.js';
+import { trashService } from '../services/trash.service.js';
+import { uploadService } from '../services/upload.service.js';
+import { accountExportService } from '../services/account-export.service.js';
+import {
+  getQueueService,
+  getQueueDriver,
+  QueueJob,
+  QueueWorker,
+  TranscodeJobData,
+  TranscribeJobData,
+  SummarizeJobData,
+  AccountExportJobData,
+} from '../services/queue.service.js';
 
 const prisma = new PrismaClient();
 
@@ -14,28 +33,27 @@ const prisma = new PrismaClient();
  * Worker manager for handling background job processing
  */
 export class WorkerManager {
-  private redis: Redis;
-  private transcribeWorker: Worker<TranscribeJobData>;
-  private summarizeWorker: Worker<SummarizeJobData>;
+  private transcodeWorker: QueueWorker;
+  private transcribeWorker: QueueWorker;
+  private summarizeWorker: QueueWorker;
+  private exportWorker: QueueWorker;
   private queueService = getQueueService();
 
   constructor() {
-    // Initialize Redis connection for workers
-    this.redis = new Redis({
-      host: process.env.REDIS_HOST || 'localhost',
-      port: parseInt(process.env.REDIS_PORT || '6379'),
-      password: process.env.REDIS_PASSWORD,
-      db: parseInt(process.env.REDIS_DB || '0'),
-      retryDelayOnFailover: 100,
-      maxRetriesPerRequest: 3,
-    });
+    // Initialize workers on whichever queue driver is configured.
+    // ffmpeg is CPU bound, so transcoding runs fewer jobs at once than the API-bound stages.
+    this.transcodeWorker = this.queueService.createWorker(
+      'transcode',
+      this.processTranscodeJob.bind(this),
+      {
+        concurrency: parseInt(process.env.TRANSCODE_CONCURRENCY || '1'),
+      }
+    );
 
-    // Initialize workers
-    this.transcribeWorker = new Worker<TranscribeJobData>(
+    this.transcribeWorker = this.queueService.createWorker(
       'transcribe',
       this.processTranscribeJob.bind(this),
       {
-        connection: this.redis,
         concurrency: parseInt(process.env.TRANSCRIBE_CONCURRENCY || '2'),
         limiter: {
           max: 10, // Max 10 jobs per duration
@@ -44,11 +62,10 @@ export class WorkerManager {
       }
     );
 
-    this.summarizeWorker = new Worker<SummarizeJobData>(
+    this.summarizeWorker = this.queueService.createWorker(
       'summarize',
       this.processSummarizeJob.bind(this),
       {
-        connection: this.redis,
         concurrency: parseInt(process.env.SUMMARIZE_CONCURRENCY || '3'),
         limiter: {
           max: 15, // Max 15 jobs per duration
@@ -57,14 +74,115 @@ export class WorkerManager {
       }
     );
 
+    // Exports read every audio file of an account, so they run one at a time
+    this.exportWorker = this.queueService.createWorker(
+      'export',
+      this.processExportJob.bind(this),
+      {
+        concurrency: parseInt(process.env.EXPORT_CONCURRENCY || '1'),
+      }
+    );
+
     this.setupWorkerEventListeners();
+
+    // Action reminders and digests run next to the queue workers
+    notificationService.start();
+
+    // Accounts past their deletion grace period and old notes in the trash are purged here as well
+    accountDeletionService.start();
+    trashService.start();
+    uploadService.start();
   }
 
   /**
-   * Process transcription job
+   * Process transcoding job: convert the upload to the STT provider's preferred format
+   * with normalized loudness, store the copy next to the upload and queue its transcription
    */
-  private async processTranscribeJob(job: Job<TranscribeJobData>): Promise<void> {
+  private async processTranscodeJob(job: QueueJob<TranscodeJobData>): Promise<void> {
     const { noteId, mediaId, storageKey, userId, options } = job.data;
+
+    try {
+      console.log(`🎛️ Starting transcoding for note ${noteId}`);
+
+      await job.updateProgress(10);
+
+      const media = await prisma.media.findUnique({
+        where: { id: mediaId }
+      });
+
+      if (!media) {
+        throw new Error('MEDIA_NOT_FOUND');
+      }
+
+      console.log(`📥 Downloading audio file: ${storageKey}`);
+      const audioStream = await storageService.getFileStream(storageKey);
+
+      await job.updateProgress(30);
+
+      const format = sttProvider.getPreferredFormat();
+      // Stored in the user's folder, so account deletion also removes copies left by failed transcriptions
+      const copyKey = storageService.generateKey(`transcoded.${format.extension}`, `audio/${userId}/transcoded`);
+
+      console.log(`🎛️ Transcoding ${media.contentType} audio to ${format.contentType}`);
+      const prepared = await transcodeService.prepare(audioStream, format, (output) =>
+        storageService.uploadStream(output, copyKey, format.contentType, {
+          metadata: { noteId, mediaId },
+        })
+      );
+
+      await job.updateProgress(80);
+
+      // Keep what the probe found out about the upload
+      await prisma.media.update({
+        where: { id: mediaId },
+        data: prepared.probe
+      });
+
+      await job.updateProgress(90);
+
+      await this.queueService.addTranscribeJob({
+        noteId,
+        mediaId,
+        storageKey: prepared.output.key,
+        userId,
+        contentType: prepared.contentType,
+        options,
+      });
+
+      await job.updateProgress(100);
+
+      console.log(`🎉 Transcoding completed for note ${noteId}`);
+
+    } catch (error) {
+      console.error(`❌ Transcoding failed for note ${noteId}:`, error);
+
+      await prisma.note.update({
+        where: { id: noteId },
+        data: { status: 'error' }
+      });
+
+      await prisma.auditEvent.create({
+        data: {
+          type: 'transcription_failed',
+          userId,
+          noteId,
+          correlationId: nanoid(),
+          metadata: {
+            stage: 'transcode',
+            error: error instanceof Error ? error.message : String(error)
+          }
+        }
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Process transcription job
+   */
+  private async processTranscribeJob(job: QueueJob<TranscribeJobData>): Promise<void> {
+    const { noteId, mediaId, storageKey, userId, contentType, options } = job.data;
     
     try {
       console.log(`🎤 Starting transcription for note ${noteId}`);
@@ -96,28 +214,32 @@ export class WorkerManager {
       
       await job.updateProgress(30);
 
+      const media = await prisma.media.findUnique({
+        where: { id: mediaId }
+      });
+
+      if (!media) {
+        throw new Error('MEDIA_NOT_FOUND');
+      }
+
+      await job.updateProgress(40);
+
       // Transcribe audio
       console.log(`🔄 Transcribing audio with ${sttProvider.name} provider`);
       const transcriptionResult = await sttProvider.transcribe(audioBuffer, {
         language: options?.language || 'es',
         model: options?.model,
+        contentType: contentType || media.contentType,
       });
 
       await job.updateProgress(70);
 
       // Save transcript to database
-      const transcript = await prisma.transcript.create({
-        data: {
-          text: transcriptionResult.text,
-          language: transcriptionResult.language,
-          confidence: transcriptionResult.confidence,
-          provider: sttProvider.name,
-          noteId,
-          metadata: transcriptionResult.metadata,
-        }
-      });
+      const transcript = await transcriptService.createFromStt(noteId, sttProvider.name, transcriptionResult);
 
       console.log(`✅ Transcript created with ID: ${transcript.id}`);
+
+      await searchService.indexNote(noteId);
       
       await job.updateProgress(80);
 
@@ -139,8 +261,9 @@ export class WorkerManager {
 
       await job.updateProgress(90);
 
-      // Automatically trigger summarization
+      // Automatically trigger summarization with the user's default style
       console.log(`🤖 Queuing summarization job for note ${noteId}`);
+      const preferences = await settingsService.resolveSummaryPreferences(userId);
       await this.queueService.addSummarizeJob({
         noteId,
         transcriptId: transcript.id,
@@ -148,9 +271,17 @@ export class WorkerManager {
         userId,
         options: {
           language: options?.language,
+          ...preferences,
         }
       });
 
+      // The transcoded copy is only needed until the transcript is saved
+      if (contentType) {
+        await storageService.deleteFile(storageKey).catch(error => {
+          console.error(`Failed to delete transcoded audio ${storageKey}:`, error);
+        });
+      }
+
       await job.updateProgress(100);
       
       console.log(`🎉 Transcription completed for note ${noteId}`);
@@ -184,7 +315,7 @@ export class WorkerManager {
   /**
    * Process summarization job
    */
-  private async processSummarizeJob(job: Job<SummarizeJobData>): Promise<void> {
+  private async processSummarizeJob(job: QueueJob<SummarizeJobData>): Promise<void> {
     const { noteId, transcriptId, transcriptText, userId, options } = job.data;
     
     try {
@@ -207,36 +338,67 @@ export class WorkerManager {
 
       // Generate summary using LLM
       console.log(`🔄 Generating summary with ${llmProvider.name} provider`);
-      const summarizationResult = await llmProvider.summarize(transcriptText, {
+      const summarizationResult = await summarizationService.summarize(transcriptText, {
         language: options?.language || 'español',
         model: options?.model,
+        style: options?.style,
+        customPrompt: options?.customPrompt,
+        // Long transcripts are summarized in chunks: spread them over 20-60%
+        onProgress: ({ completed, total }) => job.updateProgress(20 + Math.round((completed / total) * 40)),
       });
 
       await job.updateProgress(60);
 
-      // Save summary to database
-      const summary = await prisma.summary.create({
-        data: {
-          tlDr: summarizationResult.tlDr,
-          bullets: summarizationResult.bullets,
-          provider: llmProvider.name,
-          noteId,
-          metadata: summarizationResult.metadata,
-        }
+      // Save summary to database (re-summarizing an edited transcript replaces it)
+      const summaryData = {
+        tlDr: summarizationResult.tlDr,
+        bullets: summarizationResult.bullets,
+        provider: llmProvider.name,
+        style: options?.style ?? null,
+        metadata: {
+          ...summarizationResult.metadata,
+          ...(options?.templateId && { templateId: options.templateId }),
+        },
+      };
+      const summary = await prisma.summary.upsert({
+        where: { noteId },
+        create: { ...summaryData, noteId },
+        update: summaryData,
       });
 
-      console.log(`✅ Summary created with ID: ${summary.id}`);
+      console.log(`✅ Summary saved with ID: ${summary.id}`);
       
       await job.updateProgress(80);
 
-      // Save actions to database
-      const actionsData = summarizationResult.actions.map(action => ({
-        text: action.text,
-        done: false,
-        dueSuggested: action.dueSuggested,
-        noteId,
-        userId,
-      }));
+      // Save actions to database, skipping ones the note already has
+      const existingActions = await prisma.action.findMany({
+        where: { noteId },
+        select: { text: true }
+      });
+      const existingTexts = new Set(existingActions.map(action => action.text.trim().toLowerCase()));
+
+      // Due dates come from the wording ("para el viernes"), read from the day the note was recorded
+      const recording = await prisma.note.findUnique({
+        where: { id: noteId },
+        select: { createdAt: true, media: { select: { createdAt: true }, orderBy: { createdAt: 'asc' }, take: 1 } }
+      });
+      const actions = extractActionDueDates(summarizationResult.actions, transcriptText, {
+        reference: recording?.media[0]?.createdAt ?? recording?.createdAt ?? new Date(),
+        timezone: await settingsService.getTimezone(userId),
+      });
+
+      const actionsData = actions
+        .filter(action => !existingTexts.has(action.text.trim().toLowerCase()))
+        .map(action => ({
+          text: action.text,
+          done: false,
+          dueSuggested: action.dueSuggested ?? null,
+          dueConfidence: action.dueConfidence ?? null,
+          priority: action.priority ?? 'medium',
+          category: action.category ?? null,
+          noteId,
+          userId,
+        }));
 
       if (actionsData.length > 0) {
         await prisma.action.createMany({
@@ -245,8 +407,18 @@ export class WorkerManager {
         console.log(`✅ Created ${actionsData.length} actions`);
       }
 
+      await searchService.indexNote(noteId);
+
       await job.updateProgress(90);
 
+      // Embed transcript passages for semantic search; a failure here doesn't fail the note
+      try {
+        const chunkCount = await semanticSearchService.indexNote(noteId);
+        console.log(`✅ Embedded ${chunkCount} transcript chunks`);
+      } catch (error) {
+        console.error(`⚠️ Embedding failed for note ${noteId}:`, error);
+      }
+
       // Update note status to ready
       await prisma.note.update({
         where: { id: noteId },
@@ -293,10 +465,39 @@ export class WorkerManager {
     }
   }
 
+  /**
+   * Process account export job
+   */
+  private async processExportJob(job: QueueJob<AccountExportJobData>): Promise<void> {
+    const { exportId, userId } = job.data;
+
+    try {
+      console.log(`📦 Starting account export ${exportId} for user ${userId}`);
+      await accountExportService.processExport(exportId);
+      console.log(`🎉 Account export ${exportId} completed`);
+    } catch (error) {
+      console.error(`❌ Account export ${exportId} failed:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Setup worker event listeners
    */
   private setupWorkerEventListeners(): void {
+    // Transcode worker events
+    this.transcodeWorker.on('completed', (job) => {
+      console.log(`✅ Transcode job ${job.id} completed`);
+    });
+
+    this.transcodeWorker.on('failed', (job, err) => {
+      console.log(`❌ Transcode job ${job?.id} failed:`, err.message);
+    });
+
+    this.transcodeWorker.on('active', (job) => {
+      console.log(`🔄 Transcode job ${job.id} started processing`);
+    });
+
     // Transcribe worker events
     this.transcribeWorker.on('completed', (job) => {
       console.log(`✅ Transcribe job ${job.id} completed`);
@@ -331,7 +532,20 @@ export class WorkerManager {
       console.log(`⏸️ Summarize job ${jobId} stalled`);
     });
 
+    // Export worker events
+    this.exportWorker.on('completed', (job) => {
+      console.log(`✅ Export job ${job.id} completed`);
+    });
+
+    this.exportWorker.on('failed', (job, err) => {
+      console.log(`❌ Export job ${job?.id} failed:`, err.message);
+    });
+
     // Generic error handling
+    this.transcodeWorker.on('error', (err) => {
+      console.error('❌ Transcode worker error:', err);
+    });
+
     this.transcribeWorker.on('error', (err) => {
       console.error('❌ Transcribe worker error:', err);
     });
@@ -339,12 +553,22 @@ export class WorkerManager {
     this.summarizeWorker.on('error', (err) => {
       console.error('❌ Summarize worker error:', err);
     });
+
+    this.exportWorker.on('error', (err) => {
+      console.error('❌ Export worker error:', err);
+    });
   }
 
   /**
    * Get worker statistics
    */
   async getWorkerStats(): Promise<{
+    transcode: {
+      active: number;
+      waiting: number;
+      completed: number;
+      failed: number;
+    };
     transcribe: {
       active: number;
       waiting: number;
@@ -357,13 +581,27 @@ export class WorkerManager {
       completed: number;
       failed: number;
     };
+    export: {
+      active: number;
+      waiting: number;
+      completed: number;
+      failed: number;
+    };
   }> {
-    const [transcribeStats, summarizeStats] = await Promise.all([
+    const [transcodeStats, transcribeStats, summarizeStats, exportStats] = await Promise.all([
+      this.queueService.getQueueStats('transcode'),
       this.queueService.getQueueStats('transcribe'),
       this.queueService.getQueueStats('summarize'),
+      this.queueService.getQueueStats('export'),
     ]);
 
     return {
+      transcode: {
+        active: transcodeStats.active,
+        waiting: transcodeStats.waiting,
+        completed: transcodeStats.completed,
+        failed: transcodeStats.failed,
+      },
       transcribe: {
         active: transcribeStats.active,
         waiting: transcribeStats.waiting,
@@ -376,6 +614,12 @@ export class WorkerManager {
         completed: summarizeStats.completed,
         failed: summarizeStats.failed,
       },
+      export: {
+        active: exportStats.active,
+        waiting: exportStats.waiting,
+        completed: exportStats.completed,
+        failed: exportStats.failed,
+      },
     };
   }
 
@@ -384,13 +628,20 @@ export class WorkerManager {
    */
   async shutdown(): Promise<void> {
     console.log('🛑 Shutting down workers...');
+
+    notificationService.stop();
+    accountDeletionService.stop();
+    trashService.stop();
+    uploadService.stop();
     
     await Promise.all([
+      this.transcodeWorker.close(),
       this.transcribeWorker.close(),
       this.summarizeWorker.close(),
+      this.exportWorker.close(),
     ]);
 
-    await this.redis.quit();
+    await this.queueService.close();
     await prisma.$disconnect();
 
     console.log('✅ Workers shut down successfully');
@@ -400,15 +651,17 @@ export class WorkerManager {
    * Health check for workers
    */
   async healthCheck(): Promise<{
-    redis: { status: string; responseTime?: number };
+    queue: { driver: string; status: string; responseTime?: number };
     database: { status: string; responseTime?: number };
     workers: {
+      transcode: { status: string; processing: number };
       transcribe: { status: string; processing: number };
       summarize: { status: string; processing: number };
+      export: { status: string; processing: number };
     };
   }> {
-    // Check Redis connection
-    const redisHealth = await this.queueService.healthCheck();
+    // Check queue backend connection
+    const queueHealth = await this.queueService.healthCheck();
 
     // Check database connection
     let databaseHealth;
@@ -425,9 +678,13 @@ export class WorkerManager {
     const stats = await this.getWorkerStats();
 
     return {
-      redis: redisHealth,
+      queue: { driver: this.queueService.name, ...queueHealth },
       database: databaseHealth,
       workers: {
+        transcode: {
+          status: this.transcodeWorker.isRunning() ? 'running' : 'stopped',
+          processing: stats.transcode.active,
+        },
         transcribe: {
           status: this.transcribeWorker.isRunning() ? 'running' : 'stopped',
           processing: stats.transcribe.active,
@@ -436,6 +693,10 @@ export class WorkerManager {
           status: this.summarizeWorker.isRunning() ? 'running' : 'stopped',
           processing: stats.summarize.active,
         },
+        export: {
+          status: this.exportWorker.isRunning() ? 'running' : 'stopped',
+          processing: stats.export.active,
+        },
       },
     };
   }
@@ -444,6 +705,12 @@ export class WorkerManager {
 // Main worker process
 async function startWorkers() {
   console.log('🚀 Starting background workers...');
+
+  if (getQueueDriver() === 'memory') {
+    console.warn('⚠️ QUEUE_DRIVER=memory: jobs are only visible to this process. The API server runs its own workers in this mode.');
+  }
+
+  await searchService.ensureSearchIndex();
   
   const workerManager = new WorkerManager();
 
@@ -465,17 +732,20 @@ async function startWorkers() {
   }
 
   console.log('✅ Workers started successfully');
+  console.log(`   - Transcode worker: ${TRANSCODE_ENABLED ? 'Running' : 'Disabled'}`);
   console.log('   - Transcription worker: Running');
   console.log('   - Summarization worker: Running');
+  console.log('   - Account export worker: Running');
+  console.log('   - Action notifications: Running');
+  console.log('   - Account purge: Running');
+  console.log('   - Trash purge: Running');
+  console.log('   - Upload session cleanup: Running');
   console.log('   - Press Ctrl+C to shutdown');
 
   // Keep the process alive
   process.stdin.resume();
 }
 
-// Export for use in main application
-export { WorkerManager };
-
 // Start workers if this file is run directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   startWorkers().catch((error) => {
@@ -0,0 +1,250 @@
+'use client';
+
+import { useRef, useState, type FormEvent } from 'react';
+import { AlertCircle, Archive, CheckCircle, Download, Loader2, Trash2, Upload } from 'lucide-react';
+import { type AccountExport, type AccountExportStatus } from '@notas-voz/sdk';
+import { useAccountExports, useDeleteAccount, useImportAccountArchive, useRequestAccountExport } from '@/hooks/use-account';
+import { cn, formatDate, formatFileSize } from '@/lib/utils';
+
+const BUTTON_CLASS_NAME =
+  'inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+const EXPORT_STATUS_LABELS: Record<AccountExportStatus, string> = {
+  pending: 'En cola',
+  processing: 'Preparando',
+  completed: 'Lista',
+  failed: 'Error',
+};
+
+const EXPORT_STATUS_STYLES: Record<AccountExportStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  processing: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+function ExportRow({ accountExport }: { accountExport: AccountExport }) {
+  const isRunning = accountExport.status === 'pending' || accountExport.status === 'processing';
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 py-3">
+      <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium', EXPORT_STATUS_STYLES[accountExport.status])}>
+        {isRunning && <Loader2 className="h-3 w-3 animate-spin" />}
+        {EXPORT_STATUS_LABELS[accountExport.status]}
+      </span>
+      <span className="text-sm text-gray-700">{formatDate(accountExport.createdAt)}</span>
+      {accountExport.size != null && (
+        <span className="text-xs text-gray-500">{formatFileSize(accountExport.size)}</span>
+      )}
+      {accountExport.status === 'failed' && accountExport.error && (
+        <span className="text-xs text-red-600">{accountExport.error}</span>
+      )}
+
+      <div className="ml-auto">
+        {accountExport.url ? (
+          <a href={accountExport.url} className={BUTTON_CLASS_NAME}>
+            <Download className="h-4 w-4" />
+            Descargar ZIP
+          </a>
+        ) : accountExport.status === 'completed' && (
+          <span className="text-xs text-gray-500">El enlace caducó; pide una exportación nueva</span>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function AccountExportSection() {
+  const { data, isLoading } = useAccountExports();
+  const requestExport = useRequestAccountExport();
+
+  const exports = data?.items ?? [];
+  const isRunning = exports.some(item => item.status === 'pending' || item.status === 'processing');
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Archive className="h-4 w-4 text-gray-500" />
+        <div className="flex-1">
+          <h2 className="text-sm font-medium text-gray-900">Exportar mis datos</h2>
+          <p className="text-xs text-gray-500">
+            Un ZIP con todas tus notas en JSON y Markdown, transcripciones, resúmenes, acciones, etiquetas y el audio original
+          </p>
+        </div>
+        <button
+          onClick={() => requestExport.mutate()}
+          disabled={requestExport.isPending || isRunning}
+          className={BUTTON_CLASS_NAME}
+        >
+          {requestExport.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Archive className="h-4 w-4" />}
+          Exportar cuenta
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : exports.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-100 border-t border-gray-100">
+          {exports.map(item => (
+            <ExportRow key={item.id} accountExport={item} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function AccountImportSection() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<File | null>(null);
+  const importArchive = useImportAccountArchive();
+
+  const handleImport = () => {
+    if (!archive) return;
+    importArchive.mutate(archive, {
+      onSuccess: () => {
+        setArchive(null);
+        if (inputRef.current) inputRef.current.value = '';
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Upload className="h-4 w-4 text-gray-500" />
+        <div>
+          <h2 className="text-sm font-medium text-gray-900">Importar una exportación</h2>
+          <p className="text-xs text-gray-500">
+            Las notas del ZIP se añaden a tu cuenta como notas nuevas; no se modifica nada de lo que ya tienes
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".zip,application/zip"
+          onChange={(e) => setArchive(e.target.files?.[0] ?? null)}
+          className="text-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:border file:border-gray-300 file:rounded-lg file:bg-white file:text-sm file:font-medium file:text-gray-700 hover:file:bg-gray-50"
+          aria-label="Archivo de exportación"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!archive || importArchive.isPending}
+          className={BUTTON_CLASS_NAME}
+        >
+          {importArchive.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          Importar
+        </button>
+      </div>
+
+      {importArchive.data && (
+        <p className="flex items-center gap-2 mt-3 text-sm text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          {importArchive.data.notes} notas, {importArchive.data.actions} acciones y {importArchive.data.media} audios importados
+        </p>
+      )}
+      {importArchive.isError && (
+        <p className="flex items-center gap-2 mt-3 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          No se pudo importar el archivo
+        </p>
+      )}
+    </div>
+  );
+}
+
+function AccountDeletionSection() {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const deleteAccount = useDeleteAccount();
+
+  const handleDelete = (e: FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    deleteAccount.mutate(password);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-red-200 p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Trash2 className="h-4 w-4 text-red-500" />
+        <div className="flex-1">
+          <h2 className="text-sm font-medium text-gray-900">Eliminar cuenta</h2>
+          <p className="text-xs text-gray-500">
+            Se borran tus notas, acciones y audios pasado el periodo de gracia. Si vuelves a iniciar sesión antes, el borrado se cancela
+          </p>
+        </div>
+        {!isConfirming && (
+          <button
+            onClick={() => setIsConfirming(true)}
+            className="inline-flex items-center gap-2 px-3 py-2 border border-red-300 rounded-lg text-sm font-medium text-red-700 hover:bg-red-50 focus:ring-2 focus:ring-red-500"
+          >
+            <Trash2 className="h-4 w-4" />
+            Eliminar cuenta
+          </button>
+        )}
+      </div>
+
+      {isConfirming && (
+        <form onSubmit={handleDelete} className="flex flex-wrap items-center gap-3 mt-3">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Tu contraseña"
+            autoComplete="current-password"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            aria-label="Contraseña"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!password || deleteAccount.isPending}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-red-600 rounded-lg text-sm font-medium text-white hover:bg-red-700 focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+          >
+            {deleteAccount.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Confirmar borrado
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsConfirming(false);
+              setPassword('');
+            }}
+            className={BUTTON_CLASS_NAME}
+          >
+            Cancelar
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default function AccountPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Mi cuenta</h1>
+        <p className="text-gray-600 mt-1">
+          Descarga una copia de tus datos, trae notas de otra cuenta o elimina la cuenta
+        </p>
+      </div>
+
+      {/* Export */}
+      <AccountExportSection />
+
+      {/* Import */}
+      <AccountImportSection />
+
+      {/* Deletion */}
+      <AccountDeletionSection />
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Inbox, Calendar, Tag, FileText, AlertCircle } from 'lucide-react';
+import { type ActionPriority, type ActionSort, type ActionWithNote } from '@notas-voz/sdk';
+import { useActionsInbox, useUpdateAction } from '@/hooks/use-actions';
+import {
+  ACTION_PRIORITY_LABELS,
+  ACTION_PRIORITY_STYLES,
+  ACTION_SORT_LABELS,
+  LOW_DUE_CONFIDENCE,
+} from '@/components/notes/actions-checklist';
+import { NotificationPreferences } from '@/components/notes/notification-preferences';
+import { CalendarFeed } from '@/components/notes/calendar-feed';
+import { cn, formatDate } from '@/lib/utils';
+
+const SELECT_CLASS_NAME =
+  'text-sm border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Los campos de fecha son días locales; el rango incluye el día completo
+function toDueBound(day: string, endOfDay: boolean) {
+  if (!day) return undefined;
+  return new Date(`${day}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString();
+}
+
+function InboxAction({ action }: { action: ActionWithNote }) {
+  const updateAction = useUpdateAction(action.note.id);
+  const isOverdue = !!action.due_suggested && new Date(action.due_suggested) < new Date();
+
+  return (
+    <div className="flex items-start gap-3 p-4 bg-white rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors">
+      <button
+        onClick={() => updateAction.mutate({ actionId: action.id, update: { done: true } })}
+        disabled={updateAction.isPending}
+        className="flex-shrink-0 mt-0.5 w-5 h-5 rounded border-2 border-gray-300 hover:border-gray-400 transition-all focus:ring-2 focus:ring-blue-500 cursor-pointer"
+        aria-label="Marcar como completada"
+      />
+
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-900">{action.text}</p>
+
+        <div className="flex flex-wrap items-center gap-2 mt-1">
+          <span className={cn('inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium', ACTION_PRIORITY_STYLES[action.priority])}>
+            {ACTION_PRIORITY_LABELS[action.priority]}
+          </span>
+          {action.category && (
+            <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+              <Tag className="h-3 w-3" />
+              {action.category}
+            </span>
+          )}
+          {action.due_suggested && (
+            <span className={cn('inline-flex items-center gap-1 text-xs', isOverdue ? 'text-red-600' : 'text-gray-500')}>
+              {isOverdue ? <AlertCircle className="h-3 w-3" /> : <Calendar className="h-3 w-3" />}
+              {isOverdue ? 'Venció' : 'Vence'}: {formatDate(action.due_suggested)}
+              {action.due_confidence != null && action.due_confidence < LOW_DUE_CONFIDENCE && ' (aprox.)'}
+            </span>
+          )}
+          <Link
+            href={`/dashboard/notes/${action.note.id}`}
+            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+          >
+            <FileText className="h-3 w-3" />
+            {action.note.title || 'Nota sin título'}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function InboxPage() {
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [priority, setPriority] = useState<ActionPriority | ''>('');
+  const [tag, setTag] = useState('');
+  const [dueFrom, setDueFrom] = useState('');
+  const [dueTo, setDueTo] = useState('');
+  const [sort, setSort] = useState<ActionSort>('due');
+
+  // La bandeja solo muestra acciones pendientes
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useActionsInbox({
+    done: false,
+    overdue: overdueOnly || undefined,
+    priority: priority || undefined,
+    tag: tag || undefined,
+    dueFrom: toDueBound(dueFrom, false),
+    dueTo: toDueBound(dueTo, true),
+    sort,
+  });
+
+  const actions = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+
+  // Etiquetas de las notas cargadas, manteniendo la seleccionada
+  const availableTags = useMemo(() => {
+    const allTags = actions.flatMap(action => action.note.tags);
+    return Array.from(new Set(tag ? [...allTags, tag] : allTags)).sort();
+  }, [actions, tag]);
+
+  const hasFilters = overdueOnly || !!priority || !!tag || !!dueFrom || !!dueTo;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Bandeja de acciones</h1>
+        <p className="text-gray-600 mt-1">
+          Todas las acciones pendientes de tus notas en un solo lugar
+        </p>
+      </div>
+
+      {/* Notifications */}
+      <NotificationPreferences />
+
+      {/* Calendar */}
+      <CalendarFeed />
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={overdueOnly}
+            onChange={(e) => setOverdueOnly(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Solo vencidas
+        </label>
+        <select
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as ActionPriority | '')}
+          className={SELECT_CLASS_NAME}
+          aria-label="Filtrar por prioridad"
+        >
+          <option value="">Todas las prioridades</option>
+          {(Object.keys(ACTION_PRIORITY_LABELS) as ActionPriority[]).map((option) => (
+            <option key={option} value={option}>
+              {ACTION_PRIORITY_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          className={SELECT_CLASS_NAME}
+          aria-label="Filtrar por etiqueta de la nota"
+        >
+          <option value="">Todas las etiquetas</option>
+          {availableTags.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          Desde
+          <input
+            type="date"
+            value={dueFrom}
+            onChange={(e) => setDueFrom(e.target.value)}
+            className={SELECT_CLASS_NAME}
+          />
+        </label>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          Hasta
+          <input
+            type="date"
+            value={dueTo}
+            onChange={(e) => setDueTo(e.target.value)}
+            className={SELECT_CLASS_NAME}
+          />
+        </label>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as ActionSort)}
+          className={SELECT_CLASS_NAME}
+          aria-label="Ordenar acciones"
+        >
+          {(Object.keys(ACTION_SORT_LABELS) as ActionSort[]).map((option) => (
+            <option key={option} value={option}>
+              {ACTION_SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Actions */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-2" />
+            <p className="text-gray-600">Cargando acciones...</p>
+          </div>
+        </div>
+      ) : isError ? (
+        <div className="text-center py-12">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+            <h3 className="text-lg font-semibold text-red-800 mb-2">
+              Error al cargar las acciones
+            </h3>
+            <p className="text-red-600">
+              {error?.message || 'Ocurrió un error inesperado'}
+            </p>
+          </div>
+        </div>
+      ) : actions.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 rounded-lg p-8 max-w-md mx-auto">
+            <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              {hasFilters ? 'No hay acciones con estos filtros' : 'No tienes acciones pendientes'}
+            </h3>
+            <p className="text-gray-600">
+              {hasFilters
+                ? 'Intenta ajustar los filtros'
+                : 'Las acciones extraídas de tus notas aparecerán aquí'
+              }
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {actions.map((action) => (
+            <InboxAction key={action.id} action={action} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {hasNextPage && (
+        <div className="text-center py-6">
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Cargar más acciones
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
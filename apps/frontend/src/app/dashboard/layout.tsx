@@ -3,8 +3,9 @@
 import { useAuth } from '@/providers/auth-provider';
 import { useRouter } from 'next/navigation';
 import { useEffect, ReactNode } from 'react';
-import { Mic, LogOut, User, Plus } from 'lucide-react';
+import { Mic, LogOut, User, Plus, Inbox, Trash2 } from 'lucide-react';
 import Link from 'next/link';
+import { useSyncTimezone } from '@/hooks/use-settings';
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -14,6 +15,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const { isAuthenticated, isLoading, user, logout } = useAuth();
   const router = useRouter();
 
+  useSyncTimezone();
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       router.replace('/login');
@@ -59,6 +62,24 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
             {/* Actions */}
             <div className="flex items-center space-x-4">
+              {/* Actions Inbox */}
+              <Link
+                href="/dashboard/inbox"
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Inbox className="h-4 w-4" />
+                Bandeja
+              </Link>
+
+              {/* Trash */}
+              <Link
+                href="/dashboard/trash"
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+                Papelera
+              </Link>
+
               {/* New Note Button */}
               <Link
                 href="/dashboard/notes/new"
@@ -71,10 +92,14 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
               {/* User Menu */}
               <div className="relative">
                 <div className="flex items-center space-x-3">
-                  <div className="flex items-center space-x-2 text-sm text-gray-700">
+                  <Link
+                    href="/dashboard/account"
+                    className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="Mi cuenta"
+                  >
                     <User className="h-4 w-4" />
                     <span>{user?.name || user?.email}</span>
-                  </div>
+                  </Link>
                   
                   <button
                     onClick={handleLogout}
@@ -1,11 +1,29 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { useNote, useUpdateNote, useSummarizeNote } from '@/hooks/use-notes';
+import {
+  useNote,
+  useUpdateNote,
+  useDeleteNote,
+  useSummarizeNote,
+  useNoteEvents,
+  useNoteAudio,
+  PROCESSING_STATUSES,
+} from '@/hooks/use-notes';
 import { ActionsChecklist } from '@/components/notes/actions-checklist';
+import {
+  AudioPlayer,
+  TranscriptSegments,
+  type AudioPlayerHandle,
+} from '@/components/notes/transcript-player';
+import { TranscriptHistory } from '@/components/notes/transcript-history';
+import { SummaryStylePicker } from '@/components/notes/summary-style-picker';
+import { useUpdateTranscript } from '@/hooks/use-transcript';
 import { NoteStatusChip } from '@/components/notes/note-status-chip';
+import { ExportMenu } from '@/components/notes/export-menu';
 import { formatDate } from '@/lib/utils';
+import { type SummarizeNoteRequest } from '@notas-voz/sdk';
 import { 
   ArrowLeft, 
   Edit2, 
@@ -13,14 +31,16 @@ import {
   X, 
   RefreshCw, 
   FileText, 
-  Brain, 
-  Play, 
-  Pause,
-  Volume2,
-  Download
+  Brain,
+  Trash2
 } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
-import { toast } from 'react-hot-toast';
+
+const PROGRESS_LABELS = {
+  transcode: 'Preparando audio...',
+  transcribe: 'Transcribiendo audio...',
+  summarize: 'Generando resumen...',
+};
 
 export default function NoteDetailPage() {
   const params = useParams();
@@ -31,10 +51,22 @@ export default function NoteDetailPage() {
   const [isEditingTranscript, setIsEditingTranscript] = useState(false);
   const [editingTitle, setEditingTitle] = useState('');
   const [editingTranscript, setEditingTranscript] = useState('');
+  const [resummarize, setResummarize] = useState(false);
+  const [summaryChoice, setSummaryChoice] = useState<SummarizeNoteRequest>({});
+  const [currentTime, setCurrentTime] = useState(0);
+  const playerRef = useRef<AudioPlayerHandle>(null);
 
   const { data: note, isLoading, error } = useNote(noteId);
   const updateNote = useUpdateNote();
+  const deleteNote = useDeleteNote();
   const summarizeNote = useSummarizeNote();
+  const updateTranscript = useUpdateTranscript(noteId);
+  const { progress } = useNoteEvents(noteId, {
+    enabled: !!note && PROCESSING_STATUSES.includes(note.status),
+  });
+  const { data: audio } = useNoteAudio(noteId, {
+    enabled: !!note && note.status !== 'idle' && note.status !== 'uploading',
+  });
 
   if (isLoading) {
     return (
@@ -69,7 +101,8 @@ export default function NoteDetailPage() {
   }
 
   // Get latest transcript and summary
-  const latestTranscript = note.transcripts?.[note.transcripts.length - 1];
+  const latestTranscript = note.transcript ?? note.transcripts?.[note.transcripts.length - 1];
+  const transcriptSegments = latestTranscript?.segments ?? [];
   const latestSummary = note.summaries?.[note.summaries.length - 1];
 
   // Get note status
@@ -110,18 +143,13 @@ export default function NoteDetailPage() {
 
   const handleSaveTranscript = async () => {
     if (!editingTranscript.trim()) return;
-    
-    // Note: This would require a specific endpoint to update transcript
-    // For now, we'll update the note description as a workaround
+
     try {
-      await updateNote.mutateAsync({
-        id: noteId,
-        update: {
-          description: editingTranscript.trim(),
-        },
+      await updateTranscript.mutateAsync({
+        text: editingTranscript.trim(),
+        resummarize,
       });
       setIsEditingTranscript(false);
-      toast.success('Contenido actualizado');
     } catch (error) {
       // Error handled by hook
     }
@@ -129,7 +157,7 @@ export default function NoteDetailPage() {
 
   const handleRegenerateSummary = async () => {
     try {
-      await summarizeNote.mutateAsync(noteId);
+      await summarizeNote.mutateAsync({ id: noteId, ...summaryChoice });
     } catch (error) {
       // Error handled by hook
     }
@@ -140,9 +168,16 @@ export default function NoteDetailPage() {
     setEditingTitle(note.title || 'Nota sin título');
   };
 
+  const handleDelete = () => {
+    deleteNote.mutate(noteId, {
+      onSuccess: () => router.push('/dashboard'),
+    });
+  };
+
   const startEditingTranscript = () => {
     setIsEditingTranscript(true);
-    setEditingTranscript(latestTranscript?.text || note.description || '');
+    setEditingTranscript(latestTranscript?.text || '');
+    setResummarize(false);
   };
 
   return (
@@ -214,33 +249,48 @@ export default function NoteDetailPage() {
             )}
           </p>
         </div>
+
+        <ExportMenu
+          noteId={noteId}
+          title={note.title}
+          hasSegments={transcriptSegments.length > 0}
+        />
+
+        <button
+          onClick={handleDelete}
+          disabled={deleteNote.isPending}
+          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+          aria-label="Mover a la papelera"
+          title="Mover a la papelera"
+        >
+          {deleteNote.isPending ? <Loader2 className="h-5 w-5 animate-spin" /> : <Trash2 className="h-5 w-5" />}
+        </button>
       </div>
 
-      {/* Audio Player */}
-      {note.mediaFiles && note.mediaFiles.length > 0 && (
-        <div className="bg-white rounded-lg border border-gray-200 p-4">
-          <div className="flex items-center gap-4">
-            <button className="p-3 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors">
-              <Play className="h-5 w-5" />
-            </button>
-            <div className="flex-1">
-              <div className="h-2 bg-gray-200 rounded-full">
-                <div className="h-2 bg-blue-600 rounded-full" style={{ width: '25%' }} />
-              </div>
-            </div>
-            <div className="text-sm text-gray-600">
-              0:45 / 3:20
-            </div>
-            <button className="p-2 text-gray-600 hover:text-gray-800">
-              <Volume2 className="h-4 w-4" />
-            </button>
-            <button className="p-2 text-gray-600 hover:text-gray-800">
-              <Download className="h-4 w-4" />
-            </button>
+      {/* Processing progress */}
+      {progress && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <div className="flex items-center justify-between text-sm text-blue-800 mb-2">
+            <span className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {PROGRESS_LABELS[progress.stage]}
+            </span>
+            <span>{progress.progress}%</span>
+          </div>
+          <div className="h-2 bg-blue-100 rounded-full">
+            <div
+              className="h-2 bg-blue-600 rounded-full transition-all"
+              style={{ width: `${progress.progress}%` }}
+            />
           </div>
         </div>
       )}
 
+      {/* Audio Player */}
+      {audio?.url && (
+        <AudioPlayer ref={playerRef} src={audio.url} onTimeUpdate={setCurrentTime} />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -252,7 +302,7 @@ export default function NoteDetailPage() {
                 <h2 className="text-lg font-semibold text-gray-900">Transcripción</h2>
               </div>
               
-              {!isEditingTranscript && (
+              {!isEditingTranscript && latestTranscript && (
                 <button
                   onClick={startEditingTranscript}
                   className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-50 rounded-lg transition-colors"
@@ -271,10 +321,19 @@ export default function NoteDetailPage() {
                   className="w-full h-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
                   placeholder="Edita el contenido de la transcripción..."
                 />
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={resummarize}
+                    onChange={(e) => setResummarize(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Regenerar resumen con el texto corregido
+                </label>
                 <div className="flex gap-2">
                   <button
                     onClick={handleSaveTranscript}
-                    disabled={updateNote.isPending}
+                    disabled={updateTranscript.isPending}
                     className="inline-flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
                   >
                     <Save className="h-3 w-3" />
@@ -291,7 +350,13 @@ export default function NoteDetailPage() {
               </div>
             ) : (
               <div className="prose max-w-none">
-                {latestTranscript?.text || note.description ? (
+                {transcriptSegments.length > 0 ? (
+                  <TranscriptSegments
+                    segments={transcriptSegments}
+                    currentTime={currentTime}
+                    onSeek={(time) => playerRef.current?.seek(time)}
+                  />
+                ) : latestTranscript?.text || note.description ? (
                   <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
                     {latestTranscript?.text || note.description}
                   </p>
@@ -303,6 +368,10 @@ export default function NoteDetailPage() {
                 )}
               </div>
             )}
+
+            {latestTranscript && !isEditingTranscript && (
+              <TranscriptHistory noteId={noteId} className="mt-6" />
+            )}
           </div>
 
           {/* Summary */}
@@ -323,6 +392,14 @@ export default function NoteDetailPage() {
               </button>
             </div>
 
+            {latestTranscript && (
+              <SummaryStylePicker
+                value={summaryChoice}
+                onChange={setSummaryChoice}
+                className="mb-4"
+              />
+            )}
+
             {latestSummary ? (
               <div className="space-y-4">
                 <div className="bg-blue-50 p-4 rounded-lg">
@@ -7,6 +7,8 @@ import { FileUpload } from '@/components/upload/file-upload';
 import { AudioRecorder } from '@/components/upload/audio-recorder';
 import { ArrowLeft, Upload, Mic, FileText } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { ApiError } from '@notas-voz/sdk';
+import { formatFileSize } from '@/lib/utils';
 
 type UploadMethod = 'file' | 'recording';
 type Step = 'method' | 'upload' | 'processing';
@@ -17,6 +19,8 @@ export default function NewNotePage() {
   const [step, setStep] = useState<Step>('method');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [uploadId, setUploadId] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [noteTitle, setNoteTitle] = useState('');
@@ -34,6 +38,7 @@ export default function NewNotePage() {
   const handleFileSelect = (file: File) => {
     setSelectedFile(file);
     setUploadError(null);
+    setUploadId(null);
     
     // Auto-generate title from filename
     if (!noteTitle) {
@@ -50,6 +55,7 @@ export default function NewNotePage() {
     
     setSelectedFile(file);
     setUploadError(null);
+    setUploadId(null);
     
     // Auto-generate title if empty
     if (!noteTitle) {
@@ -67,49 +73,48 @@ export default function NewNotePage() {
       setStep('processing');
       setUploadError(null);
 
-      // Create note first
-      toast.loading('Creando nota...', { id: 'upload-process' });
-      const note = await createNote.mutateAsync({
-        title: noteTitle || 'Nueva nota',
-        description: `Nota con archivo de audio: ${selectedFile.name}`,
-      });
-
-      setCreatedNoteId(note.id);
-
-      // Upload audio file
-      toast.loading('Subiendo archivo...', { id: 'upload-process' });
-      
-      // Simulate upload progress (since the SDK doesn't support progress tracking yet)
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
+      // Create note first, unless a failed attempt already did
+      let noteId = createdNoteId;
+      if (!noteId) {
+        toast.loading('Creando nota...', { id: 'upload-process' });
+        const note = await createNote.mutateAsync({
+          title: noteTitle || 'Nueva nota',
+          description: `Nota con archivo de audio: ${selectedFile.name}`,
         });
-      }, 200);
+        noteId = note.id;
+        setCreatedNoteId(note.id);
+      }
+
+      // Upload audio file, resuming the previous attempt if there was one
+      toast.loading(uploadId ? 'Reanudando subida...' : 'Subiendo archivo...', { id: 'upload-process' });
 
       await uploadAudio.mutateAsync({
-        id: note.id,
+        id: noteId,
         file: selectedFile,
+        uploadId: uploadId ?? undefined,
+        onProgress: (progress) => {
+          setUploadId(progress.uploadId);
+          setUploadedBytes(progress.uploadedBytes);
+          setUploadProgress(Math.round((progress.uploadedBytes / progress.totalBytes) * 100));
+        },
       });
 
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-
       // Start transcription
       toast.loading('Iniciando transcripción...', { id: 'upload-process' });
-      await transcribeNote.mutateAsync(note.id);
+      await transcribeNote.mutateAsync(noteId);
 
       toast.success('¡Audio subido y transcripción iniciada!', { id: 'upload-process' });
       
       // Redirect to note detail
-      router.push(`/dashboard/notes/${note.id}`);
+      router.push(`/dashboard/notes/${noteId}`);
 
     } catch (error) {
       console.error('Upload error:', error);
-      setUploadError('Error al subir el archivo. Intenta nuevamente.');
+      // An upload that expired or was cancelled can't be resumed
+      if (error instanceof ApiError && error.code === 'UPLOAD_NOT_FOUND') {
+        setUploadId(null);
+      }
+      setUploadError('Error al subir el archivo. Intenta nuevamente; la subida continuará donde se quedó.');
       toast.error('Error al procesar el audio', { id: 'upload-process' });
       setIsUploading(false);
       setStep('upload');
@@ -185,7 +190,7 @@ export default function NewNotePage() {
               Sube un archivo de audio existente desde tu dispositivo
             </p>
             <div className="mt-3 text-xs text-gray-500">
-              Formatos: MP3, WAV, M4A, WebM • Max: 50MB
+              Formatos: MP3, WAV, M4A, WebM • Max: 2 GB
             </div>
           </button>
 
@@ -199,7 +204,7 @@ export default function NewNotePage() {
               Graba directamente usando el micrófono de tu dispositivo
             </p>
             <div className="mt-3 text-xs text-gray-500">
-              Duración máxima: 5 minutos
+              Duración máxima: 3 horas
             </div>
           </button>
         </div>
@@ -234,15 +239,16 @@ export default function NewNotePage() {
                 onUploadError={setUploadError}
                 isUploading={isUploading}
                 progress={uploadProgress}
+                uploadedBytes={uploadedBytes}
                 error={uploadError}
                 accept="audio/*"
-                maxSize={50 * 1024 * 1024} // 50MB
+                maxSize={2000 * 1024 * 1024} // 2000MB, the server limit
               />
             ) : (
               <AudioRecorder
                 onRecordingComplete={handleRecordingComplete}
                 onRecordingError={setUploadError}
-                maxDuration={300} // 5 minutes
+                maxDuration={3 * 60 * 60} // 3 hours
               />
             )}
           </div>
@@ -292,9 +298,9 @@ export default function NewNotePage() {
             </div>
 
             <p className="text-sm text-gray-600">
-              {uploadProgress < 50 && 'Subiendo archivo...'}
-              {uploadProgress >= 50 && uploadProgress < 90 && 'Procesando audio...'}
-              {uploadProgress >= 90 && 'Iniciando transcripción...'}
+              {uploadProgress < 100 && selectedFile
+                ? `Subiendo archivo... ${formatFileSize(uploadedBytes)} de ${formatFileSize(selectedFile.size)} (${uploadProgress}%)`
+                : 'Iniciando transcripción...'}
             </p>
 
             {/* Selected file info */}
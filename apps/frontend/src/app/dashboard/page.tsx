@@ -73,7 +73,8 @@ export default function DashboardPage() {
           onTagFilter={setSelectedTag}
           selectedTag={selectedTag}
           availableTags={availableTags}
-          placeholder="Buscar en transcripciones, títulos y resúmenes..."
+          placeholder="Buscar en transcripciones, títulos, resúmenes y acciones..."
+          resultCount={searchQuery ? notes.length : undefined}
         />
       </div>
 
@@ -0,0 +1,134 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { type TrashedNote } from '@notas-voz/sdk';
+import { useDeleteNotePermanently, useRestoreNote, useTrash } from '@/hooks/use-trash';
+import { formatDate } from '@/lib/utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysLeft(purgeAt: string) {
+  return Math.max(0, Math.ceil((new Date(purgeAt).getTime() - Date.now()) / DAY_MS));
+}
+
+function TrashItem({ note }: { note: TrashedNote }) {
+  const restoreNote = useRestoreNote();
+  const deleteNote = useDeleteNotePermanently();
+  const days = daysLeft(note.purgeAt);
+  const isPending = restoreNote.isPending || deleteNote.isPending;
+
+  const handleDelete = () => {
+    if (window.confirm('La nota y su audio se borrarán para siempre. ¿Continuar?')) {
+      deleteNote.mutate(note.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-4 bg-white rounded-lg border border-gray-200">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">{note.title || 'Nota sin título'}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          Eliminada: {formatDate(note.deletedAt)} •{' '}
+          {days === 0 ? 'Se borrará hoy' : `Se borrará en ${days} ${days === 1 ? 'día' : 'días'}`}
+        </p>
+      </div>
+
+      <button
+        onClick={() => restoreNote.mutate(note.id)}
+        disabled={isPending}
+        className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {restoreNote.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+        Restaurar
+      </button>
+      <button
+        onClick={handleDelete}
+        disabled={isPending}
+        className="inline-flex items-center gap-2 px-3 py-2 border border-red-300 rounded-lg text-sm font-medium text-red-700 hover:bg-red-50 focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+      >
+        {deleteNote.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+        Eliminar definitivamente
+      </button>
+    </div>
+  );
+}
+
+export default function TrashPage() {
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useTrash();
+
+  const notes = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Papelera</h1>
+        <p className="text-gray-600 mt-1">
+          Las notas eliminadas se pueden restaurar hasta que se borran definitivamente
+        </p>
+      </div>
+
+      {/* Notes */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-2" />
+            <p className="text-gray-600">Cargando papelera...</p>
+          </div>
+        </div>
+      ) : isError ? (
+        <div className="text-center py-12">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+            <h3 className="text-lg font-semibold text-red-800 mb-2">
+              Error al cargar la papelera
+            </h3>
+            <p className="text-red-600">
+              {error?.message || 'Ocurrió un error inesperado'}
+            </p>
+          </div>
+        </div>
+      ) : notes.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 rounded-lg p-8 max-w-md mx-auto">
+            <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              La papelera está vacía
+            </h3>
+            <p className="text-gray-600">
+              Las notas que elimines aparecerán aquí
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {notes.map((note) => (
+            <TrashItem key={note.id} note={note} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {hasNextPage && (
+        <div className="text-center py-6">
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Cargar más notas
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
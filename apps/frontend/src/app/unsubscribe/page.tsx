@@ -0,0 +1,86 @@
+'use client';
+
+import Link from 'next/link';
+import { useMutation } from '@tanstack/react-query';
+import { MailX, CheckCircle, Loader2 } from 'lucide-react';
+import { ApiError, type NotificationList } from '@notas-voz/sdk';
+import { useAuth } from '@/providers/auth-provider';
+import { getErrorInfo } from '@/lib/error-catalog';
+
+const LIST_LABELS: Record<NotificationList, string> = {
+  reminders: 'los recordatorios de acciones',
+  digest: 'el resumen periódico de acciones',
+};
+
+interface UnsubscribePageProps {
+  searchParams: { token?: string; list?: string };
+}
+
+// La baja se confirma con un clic para que los lectores de correo que abren
+// los enlaces por adelantado no la registren solos
+export default function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { client } = useAuth();
+  const token = searchParams.token;
+  const list = searchParams.list === 'digest' ? 'digest' : 'reminders';
+
+  const unsubscribe = useMutation({
+    mutationFn: async () => client.unsubscribe({ token: token!, list }),
+  });
+
+  const errorMessage = unsubscribe.error instanceof ApiError
+    ? getErrorInfo(unsubscribe.error.code).message
+    : 'No se pudo completar la baja. Inténtalo de nuevo.';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full text-center">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          {unsubscribe.isSuccess ? (
+            <>
+              <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                Baja confirmada
+              </h1>
+              <p className="text-gray-600 mb-6">
+                Ya no recibirás {LIST_LABELS[list]}. Puedes volver a activarlos desde la bandeja de acciones.
+              </p>
+            </>
+          ) : (
+            <>
+              <MailX className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                Darse de baja
+              </h1>
+              <p className="text-gray-600 mb-6">
+                {token
+                  ? `¿Quieres dejar de recibir ${LIST_LABELS[list]} por email?`
+                  : 'El enlace para darte de baja no es válido.'}
+              </p>
+
+              {unsubscribe.isError && (
+                <p className="text-sm text-red-600 mb-4">{errorMessage}</p>
+              )}
+
+              {token && (
+                <button
+                  onClick={() => unsubscribe.mutate()}
+                  disabled={unsubscribe.isPending}
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors w-full justify-center disabled:opacity-50"
+                >
+                  {unsubscribe.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Darme de baja
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="mt-6 text-sm">
+          <Link href="/dashboard/inbox" className="text-blue-600 hover:text-blue-800">
+            Ir a la bandeja de acciones
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,57 @@
 'use client';
 
-import { useState } from 'react';
-import { Plus, Check, X, Edit2, Trash2, Calendar, AlertCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Plus, Check, X, Edit2, Trash2, Calendar, AlertCircle, Tag } from 'lucide-react';
+import { type Action, type ActionPriority, type ActionSort } from '@notas-voz/sdk';
 import { useCreateAction, useUpdateAction, useDeleteAction } from '@/hooks/use-actions';
-import { formatDate } from '@/lib/utils';
-
-interface Action {
-  id: string;
-  description: string;
-  done: boolean;
-  dueDate?: string;
-  createdAt: string;
-  updatedAt: string;
+import { cn, formatDate } from '@/lib/utils';
+
+export const ACTION_PRIORITY_LABELS: Record<ActionPriority, string> = {
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja',
+};
+
+export const ACTION_PRIORITY_STYLES: Record<ActionPriority, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+// Por debajo de esta confianza la fecha sugerida se marca como aproximada
+export const LOW_DUE_CONFIDENCE = 0.7;
+
+const PRIORITY_RANK: Record<ActionPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export const ACTION_SORT_LABELS: Record<ActionSort, string> = {
+  createdAt: 'Orden de creación',
+  priority: 'Prioridad',
+  due: 'Fecha de vencimiento',
+};
+
+// Mismo criterio que GET /notes/:id/actions: alta primero y sin fecha al final
+function sortActions(actions: Action[], sort: ActionSort) {
+  const sorted = [...actions];
+  if (sort === 'priority') {
+    sorted.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+  } else if (sort === 'due') {
+    sorted.sort((a, b) => {
+      if (!a.due_suggested) return b.due_suggested ? 1 : 0;
+      if (!b.due_suggested) return -1;
+      return a.due_suggested.localeCompare(b.due_suggested);
+    });
+  }
+  return sorted;
+}
+
+interface ActionDraft {
+  text: string;
+  priority: ActionPriority;
+  category: string;
 }
 
+const EMPTY_DRAFT: ActionDraft = { text: '', priority: 'medium', category: '' };
+
 interface ActionsChecklistProps {
   noteId: string;
   actions: Action[];
@@ -23,8 +61,11 @@ interface ActionsChecklistProps {
 export function ActionsChecklist({ noteId, actions, isEditable = true }: ActionsChecklistProps) {
   const [isAddingAction, setIsAddingAction] = useState(false);
   const [editingAction, setEditingAction] = useState<string | null>(null);
-  const [newActionText, setNewActionText] = useState('');
-  const [editActionText, setEditActionText] = useState('');
+  const [newAction, setNewAction] = useState<ActionDraft>(EMPTY_DRAFT);
+  const [editAction, setEditAction] = useState<ActionDraft>(EMPTY_DRAFT);
+  const [priorityFilter, setPriorityFilter] = useState<ActionPriority | ''>('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [sort, setSort] = useState<ActionSort>('createdAt');
 
   const createAction = useCreateAction(noteId);
   const updateAction = useUpdateAction(noteId);
@@ -34,14 +75,32 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
   const totalActions = actions.length;
   const completionPercentage = totalActions > 0 ? (completedActions / totalActions) * 100 : 0;
 
+  const categories = useMemo(
+    () => Array.from(new Set(actions.map(action => action.category).filter((category): category is string => !!category))).sort(),
+    [actions]
+  );
+
+  const visibleActions = useMemo(
+    () => sortActions(
+      actions.filter(action =>
+        (!priorityFilter || action.priority === priorityFilter) &&
+        (!categoryFilter || action.category === categoryFilter)
+      ),
+      sort
+    ),
+    [actions, priorityFilter, categoryFilter, sort]
+  );
+
   const handleAddAction = async () => {
-    if (!newActionText.trim()) return;
+    if (!newAction.text.trim()) return;
 
     try {
       await createAction.mutateAsync({
-        description: newActionText.trim(),
+        text: newAction.text.trim(),
+        priority: newAction.priority,
+        category: newAction.category.trim() || undefined,
       });
-      setNewActionText('');
+      setNewAction(EMPTY_DRAFT);
       setIsAddingAction(false);
     } catch (error) {
       // Error is handled by the hook
@@ -62,17 +121,19 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
   };
 
   const handleEditAction = async (actionId: string) => {
-    if (!editActionText.trim()) return;
+    if (!editAction.text.trim()) return;
 
     try {
       await updateAction.mutateAsync({
         actionId,
         update: {
-          description: editActionText.trim(),
+          text: editAction.text.trim(),
+          priority: editAction.priority,
+          category: editAction.category.trim() || null,
         },
       });
       setEditingAction(null);
-      setEditActionText('');
+      setEditAction(EMPTY_DRAFT);
     } catch (error) {
       // Error is handled by the hook
     }
@@ -90,14 +151,63 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
 
   const startEditing = (action: Action) => {
     setEditingAction(action.id);
-    setEditActionText(action.description);
+    setEditAction({ text: action.text, priority: action.priority, category: action.category || '' });
   };
 
   const cancelEditing = () => {
     setEditingAction(null);
-    setEditActionText('');
+    setEditAction(EMPTY_DRAFT);
   };
 
+  const renderDraftFields = (
+    draft: ActionDraft,
+    onChange: (draft: ActionDraft) => void,
+    onSubmit: () => void,
+    onCancel: () => void,
+    placeholder: string
+  ) => (
+    <>
+      <input
+        type="text"
+        value={draft.text}
+        onChange={(e) => onChange({ ...draft, text: e.target.value })}
+        onKeyPress={(e) => {
+          if (e.key === 'Enter') {
+            onSubmit();
+          } else if (e.key === 'Escape') {
+            onCancel();
+          }
+        }}
+        className="block w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        placeholder={placeholder}
+        autoFocus
+      />
+      <div className="flex gap-2">
+        <select
+          value={draft.priority}
+          onChange={(e) => onChange({ ...draft, priority: e.target.value as ActionPriority })}
+          className="text-xs border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          aria-label="Prioridad"
+        >
+          {(Object.keys(ACTION_PRIORITY_LABELS) as ActionPriority[]).map((priority) => (
+            <option key={priority} value={priority}>
+              Prioridad {ACTION_PRIORITY_LABELS[priority].toLowerCase()}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.category}
+          onChange={(e) => onChange({ ...draft, category: e.target.value })}
+          list={`action-categories-${noteId}`}
+          maxLength={50}
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Categoría (opcional)"
+        />
+      </div>
+    </>
+  );
+
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-6">
       <div className="flex items-center justify-between mb-4">
@@ -107,14 +217,14 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
             {completedActions} de {totalActions} completadas
           </p>
         </div>
-        
+
         {totalActions > 0 && (
           <div className="text-right">
             <div className="text-2xl font-bold text-gray-900">
               {Math.round(completionPercentage)}%
             </div>
             <div className="w-20 h-2 bg-gray-200 rounded-full">
-              <div 
+              <div
                 className="h-2 bg-green-600 rounded-full transition-all duration-300"
                 style={{ width: `${completionPercentage}%` }}
               />
@@ -123,14 +233,66 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
         )}
       </div>
 
+      <datalist id={`action-categories-${noteId}`}>
+        {categories.map((category) => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
+
+      {/* Filters */}
+      {totalActions > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <select
+            value={priorityFilter}
+            onChange={(e) => setPriorityFilter(e.target.value as ActionPriority | '')}
+            className="text-xs border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            aria-label="Filtrar por prioridad"
+          >
+            <option value="">Todas las prioridades</option>
+            {(Object.keys(ACTION_PRIORITY_LABELS) as ActionPriority[]).map((priority) => (
+              <option key={priority} value={priority}>
+                {ACTION_PRIORITY_LABELS[priority]}
+              </option>
+            ))}
+          </select>
+          {categories.length > 0 && (
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              className="text-xs border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              aria-label="Filtrar por categoría"
+            >
+              <option value="">Todas las categorías</option>
+              {categories.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ActionSort)}
+            className="text-xs border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            aria-label="Ordenar acciones"
+          >
+            {(Object.keys(ACTION_SORT_LABELS) as ActionSort[]).map((option) => (
+              <option key={option} value={option}>
+                {ACTION_SORT_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Actions List */}
       <div className="space-y-3">
-        {actions.map((action) => (
-          <div 
-            key={action.id} 
+        {visibleActions.map((action) => (
+          <div
+            key={action.id}
             className={`group flex items-start gap-3 p-3 rounded-lg border transition-colors ${
-              action.done 
-                ? 'bg-green-50 border-green-200' 
+              action.done
+                ? 'bg-green-50 border-green-200'
                 : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
             }`}
           >
@@ -152,25 +314,17 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
             <div className="flex-1 min-w-0">
               {editingAction === action.id ? (
                 <div className="space-y-2">
-                  <input
-                    type="text"
-                    value={editActionText}
-                    onChange={(e) => setEditActionText(e.target.value)}
-                    onKeyPress={(e) => {
-                      if (e.key === 'Enter') {
-                        handleEditAction(action.id);
-                      } else if (e.key === 'Escape') {
-                        cancelEditing();
-                      }
-                    }}
-                    className="block w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Descripción de la acción..."
-                    autoFocus
-                  />
+                  {renderDraftFields(
+                    editAction,
+                    setEditAction,
+                    () => handleEditAction(action.id),
+                    cancelEditing,
+                    'Descripción de la acción...'
+                  )}
                   <div className="flex gap-2">
                     <button
                       onClick={() => handleEditAction(action.id)}
-                      disabled={updateAction.isPending || !editActionText.trim()}
+                      disabled={updateAction.isPending || !editAction.text.trim()}
                       className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
                     >
                       <Check className="h-3 w-3" />
@@ -187,22 +341,39 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
                 </div>
               ) : (
                 <div>
-                  <p 
+                  <p
                     className={`text-sm ${
-                      action.done 
-                        ? 'line-through text-gray-600' 
+                      action.done
+                        ? 'line-through text-gray-600'
                         : 'text-gray-900'
                     }`}
                   >
-                    {action.description}
+                    {action.text}
                   </p>
-                  
-                  {action.dueDate && (
-                    <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
-                      <Calendar className="h-3 w-3" />
-                      Vence: {formatDate(action.dueDate)}
-                    </div>
-                  )}
+
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    <span className={cn('inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium', ACTION_PRIORITY_STYLES[action.priority])}>
+                      {ACTION_PRIORITY_LABELS[action.priority]}
+                    </span>
+                    {action.category && (
+                      <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+                        <Tag className="h-3 w-3" />
+                        {action.category}
+                      </span>
+                    )}
+                    {action.due_suggested && (
+                      <span
+                        className="inline-flex items-center gap-1 text-xs text-gray-500"
+                        title={action.due_confidence != null
+                          ? `Fecha leída de la transcripción (confianza ${Math.round(action.due_confidence * 100)}%)`
+                          : undefined}
+                      >
+                        <Calendar className="h-3 w-3" />
+                        Vence: {formatDate(action.due_suggested)}
+                        {action.due_confidence != null && action.due_confidence < LOW_DUE_CONFIDENCE && ' (aprox.)'}
+                      </span>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
@@ -230,31 +401,31 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
           </div>
         ))}
 
+        {totalActions > 0 && visibleActions.length === 0 && (
+          <p className="text-sm text-gray-600 text-center py-4">
+            Ninguna acción coincide con los filtros
+          </p>
+        )}
+
         {/* Add new action */}
         {isEditable && (
           <div>
             {isAddingAction ? (
               <div className="space-y-2">
-                <input
-                  type="text"
-                  value={newActionText}
-                  onChange={(e) => setNewActionText(e.target.value)}
-                  onKeyPress={(e) => {
-                    if (e.key === 'Enter') {
-                      handleAddAction();
-                    } else if (e.key === 'Escape') {
-                      setIsAddingAction(false);
-                      setNewActionText('');
-                    }
-                  }}
-                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                  placeholder="Descripción de la nueva acción..."
-                  autoFocus
-                />
+                {renderDraftFields(
+                  newAction,
+                  setNewAction,
+                  handleAddAction,
+                  () => {
+                    setIsAddingAction(false);
+                    setNewAction(EMPTY_DRAFT);
+                  },
+                  'Descripción de la nueva acción...'
+                )}
                 <div className="flex gap-2">
                   <button
                     onClick={handleAddAction}
-                    disabled={createAction.isPending || !newActionText.trim()}
+                    disabled={createAction.isPending || !newAction.text.trim()}
                     className="inline-flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
                   >
                     <Plus className="h-4 w-4" />
@@ -263,7 +434,7 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
                   <button
                     onClick={() => {
                       setIsAddingAction(false);
-                      setNewActionText('');
+                      setNewAction(EMPTY_DRAFT);
                     }}
                     className="inline-flex items-center gap-1 px-3 py-2 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700"
                   >
@@ -305,4 +476,4 @@ export function ActionsChecklist({ noteId, actions, isEditable = true }: Actions
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { CalendarDays, Copy, Download, Link2Off, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { type CalendarEntryType } from '@notas-voz/sdk';
+import {
+  useCalendarFeed,
+  useExportActionsCalendar,
+  useRevokeCalendarFeed,
+  useRotateCalendarFeed,
+} from '@/hooks/use-actions';
+
+const ENTRY_TYPE_LABELS: Record<CalendarEntryType, string> = {
+  event: 'Como eventos',
+  todo: 'Como tareas',
+};
+
+const SELECT_CLASS_NAME =
+  'text-sm border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const BUTTON_CLASS_NAME =
+  'inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+// El tipo elegido viaja en la URL del feed para que cada app reciba el formato que entiende
+function withEntryType(url: string, type: CalendarEntryType) {
+  return type === 'event' ? url : `${url}?type=${type}`;
+}
+
+export function CalendarFeed() {
+  const [type, setType] = useState<CalendarEntryType>('event');
+  const { data: feed } = useCalendarFeed();
+  const exportCalendar = useExportActionsCalendar();
+  const rotateFeed = useRotateCalendarFeed();
+  const revokeFeed = useRevokeCalendarFeed();
+
+  const feedUrl = feed?.url ? withEntryType(feed.url, type) : null;
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Enlace copiado');
+    } catch {
+      toast.error('No se pudo copiar el enlace');
+    }
+  };
+
+  const regenerateFeed = () => {
+    if (feed?.url && !window.confirm('El enlace actual dejará de funcionar en los calendarios suscritos. ¿Continuar?')) {
+      return;
+    }
+    rotateFeed.mutate();
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <CalendarDays className="h-4 w-4 text-gray-500" />
+        <h2 className="text-sm font-medium text-gray-900">Calendario</h2>
+        <span className="text-xs text-gray-500">Acciones con fecha, incluidas las completadas</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as CalendarEntryType)}
+          className={SELECT_CLASS_NAME}
+          aria-label="Formato del calendario"
+        >
+          {(Object.keys(ENTRY_TYPE_LABELS) as CalendarEntryType[]).map((option) => (
+            <option key={option} value={option}>
+              {ENTRY_TYPE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => exportCalendar.mutate(type)}
+          disabled={exportCalendar.isPending}
+          className={BUTTON_CLASS_NAME}
+        >
+          {exportCalendar.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Descargar .ics
+        </button>
+        <button
+          onClick={regenerateFeed}
+          disabled={rotateFeed.isPending}
+          className={BUTTON_CLASS_NAME}
+        >
+          {rotateFeed.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          {feed?.url ? 'Regenerar enlace' : 'Crear enlace de suscripción'}
+        </button>
+      </div>
+
+      {feedUrl && (
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <input
+            type="text"
+            value={feedUrl}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-[16rem] text-sm text-gray-700 bg-gray-50 border border-gray-300 rounded-lg px-3 py-2"
+            aria-label="Enlace de suscripción al calendario"
+          />
+          <button onClick={copyFeedUrl} className={BUTTON_CLASS_NAME}>
+            <Copy className="h-4 w-4" />
+            Copiar
+          </button>
+          <a href={feedUrl.replace(/^https?:/, 'webcal:')} className={BUTTON_CLASS_NAME}>
+            <CalendarDays className="h-4 w-4" />
+            Abrir en el calendario
+          </a>
+          <button
+            onClick={() => revokeFeed.mutate()}
+            disabled={revokeFeed.isPending}
+            className={BUTTON_CLASS_NAME}
+          >
+            <Link2Off className="h-4 w-4" />
+            Desactivar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download, Loader2 } from 'lucide-react';
+import { type NoteExportFormat } from '@notas-voz/sdk';
+import { useExportNote } from '@/hooks/use-notes';
+
+const EXPORT_OPTIONS: Array<{ format: NoteExportFormat; label: string; subtitles?: boolean }> = [
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'pdf', label: 'PDF (.pdf)' },
+  { format: 'docx', label: 'Word (.docx)' },
+  { format: 'srt', label: 'Subtítulos SRT (.srt)', subtitles: true },
+  { format: 'vtt', label: 'Subtítulos WebVTT (.vtt)', subtitles: true },
+];
+
+interface ExportMenuProps {
+  noteId: string;
+  title?: string | null;
+  hasSegments: boolean; // Los subtítulos necesitan los tiempos de la transcripción
+}
+
+export function ExportMenu({ noteId, title, hasSegments }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const exportNote = useExportNote(noteId, title);
+
+  // Cerrar al hacer clic fuera o con Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [isOpen]);
+
+  const handleExport = (format: NoteExportFormat) => {
+    setIsOpen(false);
+    exportNote.mutate(format);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={exportNote.isPending}
+        className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {exportNote.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        Exportar
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-10 mt-2 w-56 bg-white rounded-lg border border-gray-200 shadow-lg py-1"
+        >
+          {EXPORT_OPTIONS.map(({ format, label, subtitles }) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => handleExport(format)}
+              disabled={subtitles && !hasSegments}
+              title={subtitles && !hasSegments ? 'La nota no tiene transcripción con tiempos' : undefined}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-white disabled:cursor-not-allowed"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Fragment } from 'react';
+
+interface HighlightedSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+// El backend marca los términos encontrados con <mark></mark>; se renderizan
+// como nodos de React para no interpretar HTML del contenido de la nota
+export function HighlightedSnippet({ snippet, className }: HighlightedSnippetProps) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) => (
+        <Fragment key={index}>
+          {index % 2 === 1 ? (
+            <mark className="bg-yellow-100 text-gray-900 rounded px-0.5">{part}</mark>
+          ) : (
+            part
+          )}
+        </Fragment>
+      ))}
+    </span>
+  );
+}
@@ -4,6 +4,14 @@ import { NoteStatusChip } from './note-status-chip';
 import { MoreVertical, Play, Pause, Volume2 } from 'lucide-react';
 import { useState } from 'react';
 import { type Note } from '@notas-voz/sdk';
+import { HighlightedSnippet } from './highlighted-snippet';
+
+const HIGHLIGHT_LABELS = {
+  title: 'Título',
+  transcript: 'Transcripción',
+  summary: 'Resumen',
+  actions: 'Acciones',
+} as const;
 
 interface NoteCardProps {
   note: Note;
@@ -36,6 +44,7 @@ export function NoteCard({ note }: NoteCardProps) {
   };
 
   const chipStatus = getChipStatus(note);
+  const titleHighlight = note.search?.highlights.find((highlight) => highlight.field === 'title');
 
   const togglePlay = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -75,7 +84,11 @@ export function NoteCard({ note }: NoteCardProps) {
         <div className="flex items-start justify-between mb-3">
           <div className="flex-1 min-w-0">
             <h3 className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600 transition-colors">
-              {note.title || 'Nota sin título'}
+              {titleHighlight ? (
+                <HighlightedSnippet snippet={titleHighlight.snippet} />
+              ) : (
+                note.title || 'Nota sin título'
+              )}
             </h3>
             <p className="text-xs text-gray-500 mt-1">
               {formatDate(note.createdAt)}
@@ -98,12 +111,27 @@ export function NoteCard({ note }: NoteCardProps) {
           </div>
         </div>
 
-        {/* Content preview */}
-        <div className="mb-3">
-          <p className="text-sm text-gray-600 line-clamp-3">
-            {getPreviewText()}
-          </p>
-        </div>
+        {/* Content preview, or the matching fragments when this is a search result */}
+        {note.search && note.search.highlights.length > 0 ? (
+          <div className="mb-3 space-y-1.5">
+            {note.search.highlights
+              .filter((highlight) => highlight.field !== 'title')
+              .map((highlight) => (
+                <p key={highlight.field} className="text-sm text-gray-600 line-clamp-2">
+                  <span className="text-xs font-medium text-gray-500 mr-1">
+                    {HIGHLIGHT_LABELS[highlight.field]}:
+                  </span>
+                  <HighlightedSnippet snippet={highlight.snippet} />
+                </p>
+              ))}
+          </div>
+        ) : (
+          <div className="mb-3">
+            <p className="text-sm text-gray-600 line-clamp-3">
+              {getPreviewText()}
+            </p>
+          </div>
+        )}
 
         {/* Tags */}
         {note.tags && note.tags.length > 0 && (
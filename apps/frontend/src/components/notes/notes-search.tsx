@@ -10,6 +10,7 @@ interface NotesSearchProps {
   selectedTag?: string;
   availableTags?: string[];
   placeholder?: string;
+  resultCount?: number;
 }
 
 export function NotesSearch({
@@ -17,7 +18,8 @@ export function NotesSearch({
   onTagFilter,
   selectedTag,
   availableTags = [],
-  placeholder = "Buscar en notas..."
+  placeholder = "Buscar en notas...",
+  resultCount
 }: NotesSearchProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [showTagFilter, setShowTagFilter] = useState(false);
@@ -148,6 +150,11 @@ export function NotesSearch({
           {selectedTag && (
             <span> en tag <span className="font-medium">"{selectedTag}"</span></span>
           )}
+          {resultCount !== undefined && (
+            <span>
+              {' '}• {resultCount} {resultCount === 1 ? 'resultado' : 'resultados'}, ordenados por relevancia
+            </span>
+          )}
         </div>
       )}
     </div>
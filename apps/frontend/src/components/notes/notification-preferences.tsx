@@ -0,0 +1,95 @@
+'use client';
+
+import { Bell } from 'lucide-react';
+import { type DigestFrequency } from '@notas-voz/sdk';
+import { useSettings, useUpdateSettings } from '@/hooks/use-settings';
+
+const REMINDER_LEAD_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 1, label: '1 hora antes' },
+  { hours: 3, label: '3 horas antes' },
+  { hours: 24, label: '1 día antes' },
+  { hours: 48, label: '2 días antes' },
+  { hours: 168, label: '1 semana antes' },
+];
+
+const DIGEST_LABELS: Record<DigestFrequency, string> = {
+  daily: 'Resumen diario',
+  weekly: 'Resumen semanal (lunes)',
+};
+
+const SELECT_CLASS_NAME =
+  'text-sm border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+
+export function NotificationPreferences() {
+  const { data: settings } = useSettings();
+  const updateSettings = useUpdateSettings();
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Bell className="h-4 w-4 text-gray-500" />
+        <h2 className="text-sm font-medium text-gray-900">Avisos por email</h2>
+        {settings.timezone && (
+          <span className="text-xs text-gray-500">Horario de {settings.timezone}</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.remindersEnabled}
+            onChange={(e) => updateSettings.mutate({ remindersEnabled: e.target.checked })}
+            disabled={updateSettings.isPending}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Recordatorios
+        </label>
+        <select
+          value={settings.reminderLeadHours}
+          onChange={(e) => updateSettings.mutate({ reminderLeadHours: Number(e.target.value) })}
+          disabled={!settings.remindersEnabled || updateSettings.isPending}
+          className={SELECT_CLASS_NAME}
+          aria-label="Antelación de los recordatorios"
+        >
+          {REMINDER_LEAD_OPTIONS.map(({ hours, label }) => (
+            <option key={hours} value={hours}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={settings.digestFrequency ?? ''}
+          onChange={(e) => updateSettings.mutate({ digestFrequency: (e.target.value || null) as DigestFrequency | null })}
+          disabled={updateSettings.isPending}
+          className={SELECT_CLASS_NAME}
+          aria-label="Resumen de acciones"
+        >
+          <option value="">Sin resumen</option>
+          {(Object.keys(DIGEST_LABELS) as DigestFrequency[]).map((frequency) => (
+            <option key={frequency} value={frequency}>
+              {DIGEST_LABELS[frequency]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={settings.digestHour}
+          onChange={(e) => updateSettings.mutate({ digestHour: Number(e.target.value) })}
+          disabled={!settings.digestFrequency || updateSettings.isPending}
+          className={SELECT_CLASS_NAME}
+          aria-label="Hora del resumen"
+        >
+          {Array.from({ length: 24 }, (_, hour) => (
+            <option key={hour} value={hour}>
+              {`${String(hour).padStart(2, '0')}:00`}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
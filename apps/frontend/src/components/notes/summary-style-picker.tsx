@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { type SummarizeNoteRequest, type SummaryStyle } from '@notas-voz/sdk';
+import { usePromptTemplates, useCreatePromptTemplate } from '@/hooks/use-settings';
+import { cn } from '@/lib/utils';
+
+export const SUMMARY_STYLE_LABELS: Record<SummaryStyle, string> = {
+  minutes: 'Acta de reunión',
+  lecture: 'Apuntes de clase',
+  interview: 'Entrevista',
+  journal: 'Diario personal',
+  standup: 'Standup',
+};
+
+interface SummaryStylePickerProps {
+  value: SummarizeNoteRequest;
+  onChange: (value: SummarizeNoteRequest) => void;
+  className?: string;
+}
+
+// El select codifica la elección como "style:<estilo>" o "template:<id>";
+// vacío significa usar las preferencias guardadas del usuario
+export function SummaryStylePicker({ value, onChange, className }: SummaryStylePickerProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [prompt, setPrompt] = useState('');
+
+  const { data: templates } = usePromptTemplates();
+  const createTemplate = useCreatePromptTemplate();
+
+  const selected = value.templateId
+    ? `template:${value.templateId}`
+    : value.style
+      ? `style:${value.style}`
+      : '';
+
+  const handleSelect = (option: string) => {
+    const [kind, id] = option.split(':');
+    onChange({
+      style: kind === 'style' ? (id as SummaryStyle) : undefined,
+      templateId: kind === 'template' ? id : undefined,
+      saveAsDefault: option ? value.saveAsDefault : false,
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      const template = await createTemplate.mutateAsync({ name, prompt });
+      onChange({ templateId: template.id, saveAsDefault: value.saveAsDefault });
+      setIsCreating(false);
+      setName('');
+      setPrompt('');
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <select
+          value={selected}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 text-sm border border-gray-300 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          aria-label="Estilo del resumen"
+        >
+          <option value="">Estilo predeterminado</option>
+          <optgroup label="Estilos">
+            {(Object.keys(SUMMARY_STYLE_LABELS) as SummaryStyle[]).map((style) => (
+              <option key={style} value={`style:${style}`}>
+                {SUMMARY_STYLE_LABELS[style]}
+              </option>
+            ))}
+          </optgroup>
+          {templates && templates.items.length > 0 && (
+            <optgroup label="Mis plantillas">
+              {templates.items.map((template) => (
+                <option key={template.id} value={`template:${template.id}`}>
+                  {template.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => setIsCreating(!isCreating)}
+          className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-lg"
+          aria-label={isCreating ? 'Cancelar plantilla' : 'Nueva plantilla'}
+          title={isCreating ? 'Cancelar' : 'Nueva plantilla'}
+        >
+          {isCreating ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+        </button>
+      </div>
+
+      {selected && (
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={!!value.saveAsDefault}
+            onChange={(e) => onChange({ ...value, saveAsDefault: e.target.checked })}
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Usar como predeterminado
+        </label>
+      )}
+
+      {isCreating && (
+        <div className="space-y-2 border border-gray-200 rounded-lg p-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nombre de la plantilla"
+            maxLength={80}
+            className="w-full text-sm border border-gray-300 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Instrucciones para el resumen, p. ej. 'Resume en tono formal y destaca los riesgos'"
+            rows={3}
+            maxLength={4000}
+            className="w-full text-sm border border-gray-300 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || !prompt.trim() || createTemplate.isPending}
+            className="px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            Guardar plantilla
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { type TranscriptRevision } from '@notas-voz/sdk';
+import {
+  useTranscriptRevisions,
+  useTranscriptDiff,
+  useRestoreTranscriptRevision,
+} from '@/hooks/use-transcript';
+import { cn, formatDate } from '@/lib/utils';
+
+const SOURCE_LABELS: Record<TranscriptRevision['source'], string> = {
+  stt: 'Transcripción automática',
+  edit: 'Edición manual',
+  restore: 'Restauración',
+};
+
+interface TranscriptHistoryProps {
+  noteId: string;
+  className?: string;
+}
+
+export function TranscriptHistory({ noteId, className }: TranscriptHistoryProps) {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  const { data, isLoading } = useTranscriptRevisions(noteId);
+  const restoreRevision = useRestoreTranscriptRevision(noteId);
+
+  const revisions = data?.items ?? [];
+  const latestVersion = revisions[0]?.version;
+
+  // Diff de la revisión seleccionada contra la anterior
+  const { data: diff, isLoading: isDiffLoading } = useTranscriptDiff(
+    noteId,
+    { from: (selectedVersion ?? 1) - 1, to: selectedVersion ?? undefined },
+    { enabled: selectedVersion !== null && selectedVersion > 1 }
+  );
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center gap-2 text-sm text-gray-500', className)}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Cargando historial...
+      </div>
+    );
+  }
+
+  if (revisions.length < 2) {
+    return null;
+  }
+
+  const handleRestore = async (revision: TranscriptRevision) => {
+    try {
+      await restoreRevision.mutateAsync({ revisionId: revision.id });
+      setSelectedVersion(null);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <History className="h-4 w-4" />
+        Historial de cambios
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {revisions.map((revision) => (
+          <li key={revision.id}>
+            <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <button
+                type="button"
+                onClick={() =>
+                  setSelectedVersion(selectedVersion === revision.version ? null : revision.version)
+                }
+                className="flex-1 text-left hover:text-blue-700"
+              >
+                <span className="font-medium">v{revision.version}</span>
+                <span className="text-gray-600">
+                  {' '}• {SOURCE_LABELS[revision.source]}
+                  {revision.restoredFromVersion && ` de v${revision.restoredFromVersion}`}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {formatDate(revision.createdAt)}
+                  {revision.author && ` • ${revision.author.email}`}
+                </span>
+              </button>
+              {revision.version !== latestVersion && (
+                <button
+                  type="button"
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoreRevision.isPending}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:text-gray-800 hover:bg-gray-50 rounded disabled:opacity-50"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Restaurar
+                </button>
+              )}
+            </div>
+
+            {selectedVersion === revision.version && revision.version > 1 && (
+              <div className="px-3 pb-3 text-sm">
+                {isDiffLoading || !diff ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-500 mb-1">
+                      +{diff.stats.added} / -{diff.stats.removed} palabras respecto a v{diff.from}
+                    </p>
+                    <p className="leading-relaxed text-gray-700 bg-gray-50 rounded p-2">
+                      {diff.changes.map((change, index) => (
+                        <span
+                          key={index}
+                          className={cn(
+                            change.type === 'insert' && 'bg-green-100 text-green-800',
+                            change.type === 'delete' && 'bg-red-100 text-red-800 line-through'
+                          )}
+                        >
+                          {change.text}{' '}
+                        </span>
+                      ))}
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { Fragment, forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Play, Pause, Volume2, VolumeX, Download } from 'lucide-react';
+import { type TranscriptSegment } from '@notas-voz/sdk';
+import { cn, formatDuration } from '@/lib/utils';
+
+export interface AudioPlayerHandle {
+  seek: (time: number) => void;
+}
+
+interface AudioPlayerProps {
+  src: string;
+  onTimeUpdate?: (time: number) => void;
+  className?: string;
+}
+
+function formatTime(seconds: number) {
+  return formatDuration(Math.floor(Number.isFinite(seconds) ? seconds : 0));
+}
+
+export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
+  function AudioPlayer({ src, onTimeUpdate, className }, ref) {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [isMuted, setIsMuted] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+
+    useImperativeHandle(ref, () => ({
+      seek: (time: number) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+
+        audio.currentTime = time;
+        setCurrentTime(time);
+        onTimeUpdate?.(time);
+        audio.play().catch(() => {
+          // El navegador puede bloquear la reproducción automática
+        });
+      },
+    }));
+
+    const togglePlay = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      if (audio.paused) {
+        audio.play().catch(() => {});
+      } else {
+        audio.pause();
+      }
+    };
+
+    const toggleMute = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      audio.muted = !audio.muted;
+      setIsMuted(audio.muted);
+    };
+
+    const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const audio = audioRef.current;
+      if (!audio || !duration) return;
+
+      const rect = e.currentTarget.getBoundingClientRect();
+      const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+      audio.currentTime = ratio * duration;
+    };
+
+    const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+
+    return (
+      <div className={cn('bg-white rounded-lg border border-gray-200 p-4', className)}>
+        <audio
+          ref={audioRef}
+          src={src}
+          preload="metadata"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+          onTimeUpdate={(e) => {
+            setCurrentTime(e.currentTarget.currentTime);
+            onTimeUpdate?.(e.currentTarget.currentTime);
+          }}
+        />
+
+        <div className="flex items-center gap-4">
+          <button
+            onClick={togglePlay}
+            className="p-3 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors"
+            aria-label={isPlaying ? 'Pausar' : 'Reproducir'}
+          >
+            {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+          </button>
+          <div className="flex-1">
+            <div
+              className="h-2 bg-gray-200 rounded-full cursor-pointer"
+              onClick={handleProgressClick}
+              role="slider"
+              aria-label="Progreso del audio"
+              aria-valuemin={0}
+              aria-valuemax={Math.floor(duration)}
+              aria-valuenow={Math.floor(currentTime)}
+            >
+              <div className="h-2 bg-blue-600 rounded-full" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+          <div className="text-sm text-gray-600 tabular-nums">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </div>
+          <button
+            onClick={toggleMute}
+            className="p-2 text-gray-600 hover:text-gray-800"
+            aria-label={isMuted ? 'Activar sonido' : 'Silenciar'}
+          >
+            {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+          </button>
+          <a
+            href={src}
+            download
+            className="p-2 text-gray-600 hover:text-gray-800"
+            aria-label="Descargar audio"
+          >
+            <Download className="h-4 w-4" />
+          </a>
+        </div>
+      </div>
+    );
+  }
+);
+
+interface TranscriptSegmentsProps {
+  segments: TranscriptSegment[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+export function TranscriptSegments({ segments: allSegments, currentTime, onSeek }: TranscriptSegmentsProps) {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Los segmentos cuyo texto se borró al editar se conservan vacíos
+  const segments = allSegments.filter((segment) => segment.text);
+
+  const activeIndex = segments.findIndex(
+    (segment) => currentTime >= segment.start && currentTime < segment.end
+  );
+
+  // Mantener visible el segmento que se está reproduciendo
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  return (
+    <p className="text-gray-700 leading-relaxed">
+      {segments.map((segment, index) => (
+        <Fragment key={segment.id}>
+          <button
+            ref={index === activeIndex ? activeRef : undefined}
+            type="button"
+            onClick={() => onSeek(segment.start)}
+            title={`Ir a ${formatTime(segment.start)}`}
+            className={cn(
+              'inline text-left rounded px-0.5 transition-colors hover:bg-blue-50',
+              index === activeIndex && 'bg-yellow-100 hover:bg-yellow-100'
+            )}
+          >
+            {segment.text}
+          </button>{' '}
+        </Fragment>
+      ))}
+    </p>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useCallback, useState } from 'react';
 import { Upload, X, File, AlertCircle, CheckCircle } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { cn, formatFileSize } from '@/lib/utils';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
@@ -14,6 +14,7 @@ interface FileUploadProps {
   maxSize?: number; // in bytes
   isUploading?: boolean;
   progress?: number;
+  uploadedBytes?: number; // Bytes confirmed by the server so far
   error?: string;
   disabled?: boolean;
 }
@@ -28,6 +29,7 @@ export function FileUpload({
   maxSize = 50 * 1024 * 1024, // 50MB default
   isUploading = false,
   progress = 0,
+  uploadedBytes,
   error,
   disabled = false,
 }: FileUploadProps) {
@@ -104,14 +106,6 @@ export function FileUpload({
     setSelectedFile(null);
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   return (
     <div className="w-full space-y-4">
       {/* Upload Zone */}
@@ -150,7 +144,9 @@ export function FileUpload({
                   Subiendo archivo...
                 </p>
                 <p className="text-xs text-gray-600">
-                  {progress}% completado
+                  {uploadedBytes !== undefined && selectedFile
+                    ? `${formatFileSize(uploadedBytes)} de ${formatFileSize(selectedFile.size)} • ${progress}% completado`
+                    : `${progress}% completado`}
                 </p>
               </div>
             </div>
@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/providers/auth-provider';
+import { toast } from 'react-hot-toast';
+import { ApiError, type AccountDeletionResponse, type AccountExport, type AccountImportResponse } from '@notas-voz/sdk';
+import { getErrorInfo } from '@/lib/error-catalog';
+import { formatDate } from '@/lib/utils';
+import { notesQueryKeys } from './use-notes';
+import { actionsQueryKeys } from './use-actions';
+
+// Keys para el cache de React Query
+export const accountQueryKeys = {
+  all: ['account'] as const,
+  exports: () => [...accountQueryKeys.all, 'exports'] as const,
+};
+
+function isRunning(accountExport: AccountExport) {
+  return accountExport.status === 'pending' || accountExport.status === 'processing';
+}
+
+// Hook para listar las exportaciones; consulta cada pocos segundos mientras alguna está en curso
+export function useAccountExports() {
+  const { client, isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: accountQueryKeys.exports(),
+    queryFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.listAccountExports();
+    },
+    enabled: isAuthenticated,
+    refetchInterval: (query) => (query.state.data?.items.some(isRunning) ? 3000 : false),
+  });
+}
+
+// Hook para pedir una exportación de la cuenta
+export function useRequestAccountExport() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.requestAccountExport();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accountQueryKeys.exports() });
+      toast.success('Preparando la exportación. Te avisaremos aquí cuando esté lista.');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al iniciar la exportación');
+      }
+    },
+  });
+}
+
+// Hook para importar un ZIP de exportación en la cuenta
+export function useImportAccountArchive() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (archive: File) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.importAccountArchive(archive);
+    },
+    onSuccess: (result: AccountImportResponse) => {
+      queryClient.invalidateQueries({ queryKey: notesQueryKeys.all });
+      queryClient.invalidateQueries({ queryKey: actionsQueryKeys.all });
+      toast.success(`${result.notes} notas importadas`);
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al importar el archivo');
+      }
+    },
+  });
+}
+
+// Hook para programar el borrado de la cuenta; cierra la sesión al terminar
+export function useDeleteAccount() {
+  const { client, isAuthenticated, logout } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (password: string) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.deleteAccount({ password });
+    },
+    onSuccess: async (result: AccountDeletionResponse) => {
+      toast.success(`Tu cuenta se borrará el ${formatDate(result.deletionScheduledAt)}. Inicia sesión antes para cancelarlo.`);
+      await logout();
+      queryClient.clear();
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al eliminar la cuenta');
+      }
+    },
+  });
+}
@@ -1,10 +1,44 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/providers/auth-provider';
 import { toast } from 'react-hot-toast';
-import { ApiError, type CreateActionRequest, type UpdateActionRequest } from '@notas-voz/sdk';
+import {
+  ApiError,
+  type ActionInboxOptions,
+  type CalendarEntryType,
+  type CalendarFeedResponse,
+  type CreateActionRequest,
+  type UpdateActionRequest,
+} from '@notas-voz/sdk';
 import { getErrorInfo } from '@/lib/error-catalog';
+import { downloadBlob } from '@/lib/utils';
 import { notesQueryKeys } from './use-notes';
 
+// Keys para el cache de React Query
+export const actionsQueryKeys = {
+  all: ['actions'] as const,
+  inbox: (filters: Omit<ActionInboxOptions, 'cursor'>) => [...actionsQueryKeys.all, 'inbox', filters] as const,
+  calendarFeed: () => [...actionsQueryKeys.all, 'calendar-feed'] as const,
+};
+
+// Hook para listar las acciones de todas las notas, paginadas por cursor
+export function useActionsInbox(options: Omit<ActionInboxOptions, 'cursor'> = {}) {
+  const { client, isAuthenticated } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: actionsQueryKeys.inbox(options),
+    queryFn: async ({ pageParam }) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.listActions({ ...options, cursor: pageParam });
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor ?? undefined,
+    enabled: isAuthenticated,
+    staleTime: 60 * 1000, // 1 minuto
+  });
+}
+
 // Hook para crear una acción
 export function useCreateAction(noteId: string) {
   const { client, isAuthenticated } = useAuth();
@@ -21,6 +55,7 @@ export function useCreateAction(noteId: string) {
       // Invalidar la nota para que se refresque con las nuevas acciones
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.detail(noteId) });
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: actionsQueryKeys.all });
       
       toast.success('Acción añadida exitosamente');
     },
@@ -51,6 +86,7 @@ export function useUpdateAction(noteId: string) {
       // Invalidar la nota para que se refresque
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.detail(noteId) });
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: actionsQueryKeys.all });
       
       toast.success('Acción actualizada exitosamente');
     },
@@ -81,6 +117,7 @@ export function useDeleteAction(noteId: string) {
       // Invalidar la nota para que se refresque
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.detail(noteId) });
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: actionsQueryKeys.all });
       
       toast.success('Acción eliminada exitosamente');
     },
@@ -93,4 +130,96 @@ export function useDeleteAction(noteId: string) {
       }
     },
   });
-}
\ No newline at end of file
+}
+// Hook para descargar las acciones con fecha como archivo .ics
+export function useExportActionsCalendar() {
+  const { client, isAuthenticated } = useAuth();
+
+  return useMutation({
+    mutationFn: async (type: CalendarEntryType) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.exportActionsCalendar(type);
+    },
+    onSuccess: (calendar) => {
+      downloadBlob(calendar, 'acciones.ics');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al exportar el calendario');
+      }
+    },
+  });
+}
+
+// Hook para obtener la URL del feed de calendario
+export function useCalendarFeed() {
+  const { client, isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: actionsQueryKeys.calendarFeed(),
+    queryFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.getCalendarFeed();
+    },
+    enabled: isAuthenticated,
+    staleTime: Infinity, // Solo cambia con las mutaciones de abajo
+  });
+}
+
+// Hook para activar el feed o regenerar su URL
+export function useRotateCalendarFeed() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.rotateCalendarFeed();
+    },
+    onSuccess: (feed: CalendarFeedResponse) => {
+      queryClient.setQueryData(actionsQueryKeys.calendarFeed(), feed);
+      toast.success('Enlace del calendario generado');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al generar el enlace del calendario');
+      }
+    },
+  });
+}
+
+// Hook para desactivar el feed; las suscripciones dejan de actualizarse
+export function useRevokeCalendarFeed() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.revokeCalendarFeed();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(actionsQueryKeys.calendarFeed(), { url: null });
+      toast.success('Enlace del calendario desactivado');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al desactivar el enlace del calendario');
+      }
+    },
+  });
+}
@@ -1,8 +1,20 @@
+import { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/providers/auth-provider';
 import { toast } from 'react-hot-toast';
-import { ApiError, type Note, type CreateNoteRequest, type UpdateNoteRequest } from '@notas-voz/sdk';
+import {
+  ApiError,
+  type Note,
+  type NoteEvent,
+  type CreateNoteRequest,
+  type UpdateNoteRequest,
+  type SummarizeNoteRequest,
+  type NoteExportFormat,
+  type UploadProgress,
+} from '@notas-voz/sdk';
 import { getErrorInfo } from '@/lib/error-catalog';
+import { downloadBlob } from '@/lib/utils';
+import { settingsQueryKeys } from './use-settings';
 
 // Keys para el cache de React Query
 export const notesQueryKeys = {
@@ -12,6 +24,8 @@ export const notesQueryKeys = {
     [...notesQueryKeys.lists(), filters] as const,
   details: () => [...notesQueryKeys.all, 'detail'] as const,
   detail: (id: string) => [...notesQueryKeys.details(), id] as const,
+  audio: (id: string) => [...notesQueryKeys.detail(id), 'audio'] as const,
+  trash: () => [...notesQueryKeys.all, 'trash'] as const,
 };
 
 interface UseNotesOptions {
@@ -54,6 +68,59 @@ export function useNote(id: string) {
   });
 }
 
+// Hook para obtener la URL de reproducción del audio de una nota
+export function useNoteAudio(id: string, options: { enabled?: boolean } = {}) {
+  const { client, isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: notesQueryKeys.audio(id),
+    queryFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.getNoteAudio(id);
+    },
+    enabled: isAuthenticated && !!id && (options.enabled ?? true),
+    staleTime: 50 * 60 * 1000, // 50 minutos, la URL firmada expira a la hora
+    retry: false,
+  });
+}
+
+// Nombre de archivo a partir del título, sin acentos ni caracteres especiales
+function exportFilename(title: string | null | undefined, format: NoteExportFormat) {
+  const base = (title || 'nota')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return `${base || 'nota'}.${format}`;
+}
+
+// Hook para descargar una nota en otro formato
+export function useExportNote(id: string, title?: string | null) {
+  const { client, isAuthenticated } = useAuth();
+
+  return useMutation({
+    mutationFn: async (format: NoteExportFormat) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.exportNote(id, format);
+    },
+    onSuccess: (file, format) => {
+      downloadBlob(file, exportFilename(title, format));
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al exportar la nota');
+      }
+    },
+  });
+}
+
 // Hook para crear una nota
 export function useCreateNote() {
   const { client, isAuthenticated } = useAuth();
@@ -118,7 +185,7 @@ export function useUpdateNote() {
   });
 }
 
-// Hook para eliminar una nota
+// Hook para mover una nota a la papelera
 export function useDeleteNote() {
   const { client, isAuthenticated } = useAuth();
   const queryClient = useQueryClient();
@@ -136,8 +203,9 @@ export function useDeleteNote() {
       
       // Invalidar las listas para que se refresquen
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: notesQueryKeys.trash() });
       
-      toast.success('Nota eliminada exitosamente');
+      toast.success('Nota movida a la papelera');
     },
     onError: (error) => {
       if (error instanceof ApiError) {
@@ -150,17 +218,22 @@ export function useDeleteNote() {
   });
 }
 
-// Hook para subir audio a una nota
+// Hook para subir audio a una nota en fragmentos reanudables
 export function useUploadAudio() {
   const { client, isAuthenticated } = useAuth();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, file }: { id: string; file: File }) => {
+    mutationFn: async ({ id, file, uploadId, onProgress }: {
+      id: string;
+      file: File;
+      uploadId?: string; // Reanuda una subida interrumpida
+      onProgress?: (progress: UploadProgress) => void;
+    }) => {
       if (!isAuthenticated) {
         throw new Error('No authenticated');
       }
-      return client.uploadAudioToNote(id, file);
+      return client.uploadAudioResumable(id, file, { uploadId, onProgress });
     },
     onSuccess: (_, { id }) => {
       // Invalidar la nota para que se refresque con el nuevo estado
@@ -216,16 +289,19 @@ export function useSummarizeNote() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: async ({ id, ...options }: { id: string } & SummarizeNoteRequest) => {
       if (!isAuthenticated) {
         throw new Error('No authenticated');
       }
-      return client.summarizeNote(id);
+      return client.summarizeNote(id, options);
     },
-    onSuccess: (updatedNote: Note) => {
+    onSuccess: (updatedNote: Note, { saveAsDefault }) => {
       // Actualizar el cache
       queryClient.setQueryData(notesQueryKeys.detail(updatedNote.id), updatedNote);
       queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+      if (saveAsDefault) {
+        queryClient.invalidateQueries({ queryKey: settingsQueryKeys.all });
+      }
       
       toast.success('Resumen generado exitosamente');
     },
@@ -246,4 +322,74 @@ export function useSummarizeNote() {
       }
     },
   });
-}
\ No newline at end of file
+}
+// Estados en los que la nota se está procesando en segundo plano
+export const PROCESSING_STATUSES = ['uploaded', 'transcribing', 'summarizing'];
+
+interface NoteProcessingProgress {
+  stage: 'transcode' | 'transcribe' | 'summarize';
+  progress: number;
+}
+
+// Hook para escuchar eventos de procesamiento (SSE) y mantener el cache actualizado
+export function useNoteEvents(id: string, options: { enabled?: boolean } = {}) {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<NoteProcessingProgress | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  const enabled = isAuthenticated && !!id && (options.enabled ?? true);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleEvent = (event: NoteEvent) => {
+      switch (event.event) {
+        case 'status':
+          queryClient.setQueryData(notesQueryKeys.detail(id), (old: Note | undefined) =>
+            old ? { ...old, status: event.data.status } : old
+          );
+          queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+          break;
+
+        case 'progress':
+          if (typeof event.data.progress === 'number') {
+            setProgress({ stage: event.data.stage, progress: event.data.progress });
+          }
+          break;
+
+        case 'completed':
+          // El evento final trae la nota completa con transcripción y resumen
+          queryClient.setQueryData(notesQueryKeys.detail(id), event.data);
+          queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+          setProgress(null);
+          toast.success('Nota procesada exitosamente');
+          break;
+
+        case 'failed':
+          queryClient.invalidateQueries({ queryKey: notesQueryKeys.detail(id) });
+          queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+          setProgress(null);
+          toast.error(event.data.message || 'Error al procesar la nota');
+          break;
+      }
+    };
+
+    setIsConnected(true);
+    const subscription = client.subscribeToNoteEvents(id, {
+      onEvent: handleEvent,
+      onError: (error) => {
+        const errorInfo = getErrorInfo(error.code);
+        toast.error(errorInfo.message);
+      },
+      onClose: () => setIsConnected(false),
+    });
+
+    return () => {
+      subscription.close();
+      setIsConnected(false);
+    };
+  }, [client, enabled, id, queryClient]);
+
+  return { progress, isConnected };
+}
@@ -0,0 +1,122 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/providers/auth-provider';
+import { toast } from 'react-hot-toast';
+import {
+  ApiError,
+  type UserSettings,
+  type UpdateUserSettingsRequest,
+  type CreatePromptTemplateRequest,
+} from '@notas-voz/sdk';
+import { getErrorInfo } from '@/lib/error-catalog';
+
+// Keys para el cache de React Query
+export const settingsQueryKeys = {
+  all: ['settings'] as const,
+  templates: () => [...settingsQueryKeys.all, 'prompt-templates'] as const,
+};
+
+// Hook para obtener la configuración del usuario
+export function useSettings() {
+  const { client, isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: settingsQueryKeys.all,
+    queryFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.getSettings();
+    },
+    enabled: isAuthenticated,
+  });
+}
+
+// Hook para actualizar la configuración del usuario
+export function useUpdateSettings() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateUserSettingsRequest) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.updateSettings(data);
+    },
+    onSuccess: (settings: UserSettings) => {
+      queryClient.setQueryData(settingsQueryKeys.all, settings);
+      toast.success('Preferencias guardadas');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al guardar las preferencias');
+      }
+    },
+  });
+}
+
+// Guarda la zona horaria del navegador si el usuario no tiene una, para que
+// fechas como "el viernes" se lean en su hora local
+export function useSyncTimezone() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: settings } = useSettings();
+
+  useEffect(() => {
+    if (!isAuthenticated || !settings || settings.timezone) return;
+
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timezone) return;
+
+    client.updateSettings({ timezone })
+      .then((updated) => queryClient.setQueryData(settingsQueryKeys.all, updated))
+      .catch(() => {
+        // Se vuelve a intentar en la próxima carga
+      });
+  }, [client, isAuthenticated, queryClient, settings]);
+}
+
+// Hook para listar las plantillas de resumen del usuario
+export function usePromptTemplates() {
+  const { client, isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: settingsQueryKeys.templates(),
+    queryFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.listPromptTemplates();
+    },
+    enabled: isAuthenticated,
+  });
+}
+
+// Hook para guardar una plantilla de resumen
+export function useCreatePromptTemplate() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreatePromptTemplateRequest) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.createPromptTemplate(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: settingsQueryKeys.templates() });
+      toast.success('Plantilla guardada');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al guardar la plantilla');
+      }
+    },
+  });
+}
@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/providers/auth-provider';
+import { toast } from 'react-hot-toast';
+import { ApiError, type Note, type UpdateTranscriptRequest } from '@notas-voz/sdk';
+import { getErrorInfo } from '@/lib/error-catalog';
+import { notesQueryKeys } from './use-notes';
+
+// Keys para el cache de React Query
+export const transcriptQueryKeys = {
+  revisions: (noteId: string) => [...notesQueryKeys.detail(noteId), 'revisions'] as const,
+  diff: (noteId: string, versions: { from?: number; to?: number }) =>
+    [...transcriptQueryKeys.revisions(noteId), 'diff', versions] as const,
+};
+
+// Hook para editar la transcripción de una nota
+export function useUpdateTranscript(noteId: string) {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (update: UpdateTranscriptRequest) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.updateTranscript(noteId, update);
+    },
+    onSuccess: (updatedNote: Note, { resummarize }) => {
+      queryClient.setQueryData(notesQueryKeys.detail(noteId), updatedNote);
+      queryClient.invalidateQueries({ queryKey: transcriptQueryKeys.revisions(noteId) });
+      queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+
+      toast.success(resummarize ? 'Transcripción guardada, regenerando resumen' : 'Transcripción guardada');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        const errorInfo = getErrorInfo(error.code);
+        toast.error(errorInfo.message);
+      } else {
+        toast.error('Error al guardar la transcripción');
+      }
+    },
+  });
+}
+
+// Hook para listar las revisiones de la transcripción
+export function useTranscriptRevisions(noteId: string, options: { enabled?: boolean } = {}) {
+  const { client, isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: transcriptQueryKeys.revisions(noteId),
+    queryFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.listTranscriptRevisions(noteId);
+    },
+    enabled: isAuthenticated && !!noteId && (options.enabled ?? true),
+  });
+}
+
+// Hook para comparar dos revisiones
+export function useTranscriptDiff(
+  noteId: string,
+  versions: { from?: number; to?: number },
+  options: { enabled?: boolean } = {}
+) {
+  const { client, isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: transcriptQueryKeys.diff(noteId, versions),
+    queryFn: async () => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.diffTranscriptRevisions(noteId, versions);
+    },
+    enabled: isAuthenticated && !!noteId && (options.enabled ?? true),
+    staleTime: Infinity, // Las revisiones no cambian
+  });
+}
+
+// Hook para restaurar una revisión anterior
+export function useRestoreTranscriptRevision(noteId: string) {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ revisionId, resummarize }: { revisionId: string; resummarize?: boolean }) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.restoreTranscriptRevision(noteId, revisionId, { resummarize });
+    },
+    onSuccess: (updatedNote: Note) => {
+      queryClient.setQueryData(notesQueryKeys.detail(noteId), updatedNote);
+      queryClient.invalidateQueries({ queryKey: transcriptQueryKeys.revisions(noteId) });
+      queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+
+      toast.success('Revisión restaurada');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        const errorInfo = getErrorInfo(error.code);
+        toast.error(errorInfo.message);
+      } else {
+        toast.error('Error al restaurar la revisión');
+      }
+    },
+  });
+}
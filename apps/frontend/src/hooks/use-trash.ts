@@ -0,0 +1,80 @@
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/providers/auth-provider';
+import { toast } from 'react-hot-toast';
+import { ApiError } from '@notas-voz/sdk';
+import { getErrorInfo } from '@/lib/error-catalog';
+import { notesQueryKeys } from './use-notes';
+import { actionsQueryKeys } from './use-actions';
+
+// Hook para listar las notas de la papelera, paginadas por cursor
+export function useTrash() {
+  const { client, isAuthenticated } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: notesQueryKeys.trash(),
+    queryFn: async ({ pageParam }) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.listTrash({ cursor: pageParam });
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor ?? undefined,
+    enabled: isAuthenticated,
+  });
+}
+
+// Hook para restaurar una nota de la papelera
+export function useRestoreNote() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.restoreNote(id);
+    },
+    onSuccess: (note) => {
+      queryClient.setQueryData(notesQueryKeys.detail(note.id), note);
+      queryClient.invalidateQueries({ queryKey: notesQueryKeys.trash() });
+      queryClient.invalidateQueries({ queryKey: notesQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: actionsQueryKeys.all });
+      toast.success('Nota restaurada');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al restaurar la nota');
+      }
+    },
+  });
+}
+
+// Hook para eliminar definitivamente una nota de la papelera
+export function useDeleteNotePermanently() {
+  const { client, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!isAuthenticated) {
+        throw new Error('No authenticated');
+      }
+      return client.deleteNotePermanently(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesQueryKeys.trash() });
+      toast.success('Nota eliminada definitivamente');
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        toast.error(getErrorInfo(error.code).message);
+      } else {
+        toast.error('Error al eliminar la nota');
+      }
+    },
+  });
+}
@@ -73,6 +73,90 @@ export const ERROR_CATALOG: Record<ErrorCode, ErrorInfo> = {
     canRetry: false,
     retryable: false,
   },
+  AUDIO_CONTENT_INVALID: {
+    title: 'El archivo no es audio válido',
+    message: 'El contenido del archivo no coincide con su formato o no es audio. Sube una grabación MP3, WAV, M4A, AAC, OGG, WebM o FLAC.',
+    canRetry: false,
+    retryable: false,
+  },
+  MEDIA_NOT_FOUND: {
+    title: 'Audio no encontrado',
+    message: 'Esta nota no tiene un archivo de audio asociado.',
+    canRetry: false,
+    retryable: false,
+  },
+  TRANSCRIPT_NOT_FOUND: {
+    title: 'Transcripción no encontrada',
+    message: 'Esta nota todavía no tiene una transcripción.',
+    canRetry: false,
+    retryable: false,
+  },
+  REVISION_NOT_FOUND: {
+    title: 'Revisión no encontrada',
+    message: 'La revisión solicitada no existe para esta transcripción.',
+    canRetry: false,
+    retryable: false,
+  },
+  TEMPLATE_NOT_FOUND: {
+    title: 'Plantilla no encontrada',
+    message: 'La plantilla de resumen no existe o fue eliminada.',
+    canRetry: false,
+    retryable: false,
+  },
+  UNSUBSCRIBE_TOKEN_INVALID: {
+    title: 'Enlace no válido',
+    message: 'El enlace para darte de baja no es válido. Puedes cambiar tus avisos desde la bandeja de acciones.',
+    canRetry: false,
+    retryable: false,
+  },
+  CALENDAR_FEED_NOT_FOUND: {
+    title: 'Calendario no encontrado',
+    message: 'El enlace del calendario fue revocado o regenerado. Copia el enlace nuevo desde la bandeja de acciones.',
+    canRetry: false,
+    retryable: false,
+  },
+  EXPORT_NOT_FOUND: {
+    title: 'Exportación no encontrada',
+    message: 'La exportación no existe o pertenece a otra cuenta.',
+    canRetry: false,
+    retryable: false,
+  },
+  IMPORT_ARCHIVE_INVALID: {
+    title: 'Archivo no válido',
+    message: 'El archivo no es una exportación de Notas de Voz o está dañado. Sube el ZIP tal como se descargó.',
+    canRetry: false,
+    retryable: false,
+  },
+  UPLOAD_NOT_FOUND: {
+    title: 'Subida no encontrada',
+    message: 'La subida caducó o fue cancelada. Vuelve a seleccionar el archivo para empezar de nuevo.',
+    canRetry: false,
+    retryable: false,
+  },
+  UPLOAD_OFFSET_MISMATCH: {
+    title: 'Subida desincronizada',
+    message: 'El servidor recibió una parte distinta de la esperada. La subida continuará desde el último punto guardado.',
+    canRetry: true,
+    retryable: true,
+  },
+  UPLOAD_CHUNK_INVALID: {
+    title: 'Fragmento no válido',
+    message: 'Una parte del archivo no tiene el tamaño esperado. Vuelve a intentar la subida.',
+    canRetry: true,
+    retryable: false,
+  },
+  UPLOAD_INCOMPLETE: {
+    title: 'Subida incompleta',
+    message: 'Todavía faltan partes del archivo por subir. Reanuda la subida para terminarla.',
+    canRetry: true,
+    retryable: true,
+  },
+  SIGNED_URL_INVALID: {
+    title: 'Enlace caducado',
+    message: 'El enlace del archivo caducó o no es válido. Vuelve a abrirlo desde la nota.',
+    canRetry: true,
+    retryable: false,
+  },
   UPLOAD_FAILED: {
     title: 'Error de subida',
     message: 'No se pudo subir el archivo. Verifica tu conexión e intenta nuevamente.',
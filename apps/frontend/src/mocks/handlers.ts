@@ -546,6 +546,38 @@ export const handlers = [
   }),
 
   // Actions endpoints
+  http.get('/api/v1/actions', async ({ request }) => {
+    await delay(300);
+
+    if (!currentUser) {
+      return HttpResponse.json(
+        { error: { code: 'AUTH_TOKEN_INVALID', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const done = url.searchParams.get('done');
+    const tag = url.searchParams.get('tag') || '';
+
+    const items = mockNotes
+      .filter(note => note.userId === currentUser!.id && (!tag || note.tags?.includes(tag)))
+      .flatMap(note => (note.actions || []).map((action: any) => ({
+        id: action.id,
+        text: action.description,
+        done: action.done,
+        due_suggested: action.dueDate,
+        due_confidence: null,
+        priority: action.priority || 'medium',
+        category: action.category ?? null,
+        createdAt: action.createdAt,
+        note: { id: note.id, title: note.title, tags: note.tags || [] },
+      })))
+      .filter(action => done === null || String(action.done) === done);
+
+    return HttpResponse.json({ items, cursor: null });
+  }),
+
   http.post('/api/v1/notes/:noteId/actions', async ({ params, request }) => {
     await delay(300);
     
@@ -564,6 +596,8 @@ export const handlers = [
       description: body.description,
       done: body.done || false,
       dueDate: body.dueDate,
+      priority: body.priority || 'medium',
+      category: body.category ?? null,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -589,6 +623,8 @@ export const handlers = [
       description: body.description || 'Updated action',
       done: body.done ?? false,
       dueDate: body.dueDate,
+      priority: body.priority || 'medium',
+      category: body.category ?? null,
       createdAt: '2024-01-01T00:00:00Z',
       updatedAt: new Date().toISOString(),
     };
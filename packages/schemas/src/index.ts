@@ -9,7 +9,21 @@ export const ErrorCodeSchema = z.enum([
   'AUTH_TOKEN_EXPIRED',
   'FILE_TOO_LARGE',
   'UNSUPPORTED_MEDIA_TYPE',
+  'AUDIO_CONTENT_INVALID',
   'NOTE_NOT_FOUND',
+  'MEDIA_NOT_FOUND',
+  'TRANSCRIPT_NOT_FOUND',
+  'REVISION_NOT_FOUND',
+  'TEMPLATE_NOT_FOUND',
+  'UNSUBSCRIBE_TOKEN_INVALID',
+  'CALENDAR_FEED_NOT_FOUND',
+  'EXPORT_NOT_FOUND',
+  'IMPORT_ARCHIVE_INVALID',
+  'UPLOAD_NOT_FOUND',
+  'UPLOAD_OFFSET_MISMATCH',
+  'UPLOAD_CHUNK_INVALID',
+  'UPLOAD_INCOMPLETE',
+  'SIGNED_URL_INVALID',
   'LLM_FAILURE',
   'STT_FAILURE',
   'RATE_LIMITED',
@@ -53,6 +67,14 @@ export const ResetConfirmRequestSchema = z.object({
   newPassword: z.string().min(6),
 });
 
+export const DeleteAccountRequestSchema = z.object({
+  password: z.string().min(1), // Re-entered to confirm
+});
+
+export const AccountDeletionResponseSchema = z.object({
+  deletionScheduledAt: z.string().datetime(), // Logging in before this date cancels the deletion
+});
+
 // ==============================================
 // TOKEN SCHEMAS
 // ==============================================
@@ -84,26 +106,55 @@ export const NoteStatusSchema = z.enum([
   'error'
 ]);
 
+export const ActionPrioritySchema = z.enum(['low', 'medium', 'high']);
+
+export const ActionSortSchema = z.enum(['priority', 'due', 'createdAt']);
+
 export const ActionSchema = z.object({
   id: z.string(),
   text: z.string(),
   done: z.boolean(),
   due_suggested: z.string().datetime().optional(),
+  due_confidence: z.number().min(0).max(1).nullable(), // Null when the date was set by hand
+  priority: ActionPrioritySchema,
+  category: z.string().nullable(),
   createdAt: z.string().datetime(),
 });
 
+export const TranscriptSegmentSchema = z.object({
+  id: z.string(),
+  start: z.number().min(0),
+  end: z.number().min(0),
+  text: z.string(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
 export const TranscriptSchema = z.object({
   id: z.string(),
   text: z.string(),
   language: z.string(),
   confidence: z.number().min(0).max(1),
+  segments: z.array(TranscriptSegmentSchema).optional(),
 });
 
+export const SummaryStyleSchema = z.enum(['minutes', 'lecture', 'interview', 'journal', 'standup']);
+
 export const SummarySchema = z.object({
   id: z.string(),
   tl_dr: z.string(),
   bullets: z.array(z.string()),
   actions: z.array(ActionSchema),
+  style: SummaryStyleSchema.nullable().optional(),
+});
+
+export const SearchHighlightSchema = z.object({
+  field: z.enum(['title', 'transcript', 'summary', 'actions']),
+  snippet: z.string(), // Matched terms wrapped in <mark></mark>
+});
+
+export const NoteSearchMatchSchema = z.object({
+  rank: z.number(),
+  highlights: z.array(SearchHighlightSchema),
 });
 
 export const NoteSchema = z.object({
@@ -115,6 +166,68 @@ export const NoteSchema = z.object({
   transcript: TranscriptSchema.nullable().optional(),
   summary: SummarySchema.nullable().optional(),
   actions: z.array(ActionSchema),
+  search: NoteSearchMatchSchema.optional(), // Only present in search results
+});
+
+export const TranscriptRevisionSourceSchema = z.enum(['stt', 'edit', 'restore']);
+
+export const TranscriptRevisionSchema = z.object({
+  id: z.string(),
+  version: z.number().int().min(1),
+  source: TranscriptRevisionSourceSchema,
+  restoredFromVersion: z.number().int().nullable().optional(),
+  author: z.object({
+    id: z.string(),
+    email: z.string().email(),
+  }).nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const TranscriptDiffChangeSchema = z.object({
+  type: z.enum(['equal', 'insert', 'delete']),
+  text: z.string(),
+});
+
+export const TranscriptDiffSchema = z.object({
+  from: z.number().int().min(1),
+  to: z.number().int().min(1),
+  changes: z.array(TranscriptDiffChangeSchema),
+  stats: z.object({
+    added: z.number().int(),
+    removed: z.number().int(),
+  }),
+});
+
+// ==============================================
+// SETTINGS SCHEMAS
+// ==============================================
+
+export const PromptTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prompt: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const DigestFrequencySchema = z.enum(['daily', 'weekly']);
+
+export const NotificationListSchema = z.enum(['reminders', 'digest']);
+
+export const CalendarEntryTypeSchema = z.enum(['event', 'todo']);
+
+export const NoteExportFormatSchema = z.enum(['md', 'pdf', 'docx', 'srt', 'vtt']);
+
+export const AccountExportStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+
+export const UserSettingsSchema = z.object({
+  summaryStyle: SummaryStyleSchema.nullable(),
+  promptTemplateId: z.string().nullable(),
+  timezone: z.string().nullable(),
+  remindersEnabled: z.boolean(),
+  reminderLeadHours: z.number().int(), // Hours before the due date
+  digestFrequency: DigestFrequencySchema.nullable(), // Weekly digests go out on Mondays
+  digestHour: z.number().int(), // Local hour, in the user's timezone
 });
 
 // ==============================================
@@ -128,6 +241,24 @@ export const MediaSchema = z.object({
   contentType: z.string(),
 });
 
+export const UploadSessionStatusSchema = z.enum(['active', 'completing', 'completed', 'aborted']);
+
+export const UploadMethodSchema = z.enum(['chunked', 'direct']);
+
+// Resumable upload: chunks are sent in order, each starting at the current offset
+export const UploadSessionSchema = z.object({
+  id: z.string(),
+  noteId: z.string(),
+  filename: z.string(),
+  contentType: z.string(),
+  size: z.number().int(), // Total bytes of the file
+  offset: z.number().int(), // Bytes received so far; the next chunk starts here
+  chunkSize: z.number().int(), // Every chunk but the last must be exactly this size
+  method: UploadMethodSchema,
+  status: UploadSessionStatusSchema,
+  expiresAt: z.string().datetime(),
+});
+
 // ==============================================
 // PAGINATION SCHEMAS
 // ==============================================
@@ -151,15 +282,76 @@ export const UpdateNoteRequestSchema = z.object({
   tags: z.array(z.string()).optional(),
 });
 
+export const UpdateTranscriptRequestSchema = z.object({
+  text: z.string().trim().min(1),
+  resummarize: z.boolean().optional(),
+});
+
+export const RestoreTranscriptRevisionRequestSchema = z.object({
+  resummarize: z.boolean().optional(),
+});
+
+export const CreateUploadSessionRequestSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  contentType: z.string().min(1),
+  size: z.number().int().positive(),
+});
+
+export const SummarizeNoteRequestSchema = z.object({
+  style: SummaryStyleSchema.optional(),
+  templateId: z.string().optional(), // Takes precedence over the style
+  saveAsDefault: z.boolean().optional(),
+});
+
+// IANA names such as "Europe/Madrid", as understood by Intl
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const UpdateUserSettingsRequestSchema = z.object({
+  summaryStyle: SummaryStyleSchema.nullable().optional(),
+  promptTemplateId: z.string().nullable().optional(),
+  timezone: z.string().refine(isTimeZone, 'Invalid IANA timezone').nullable().optional(),
+  remindersEnabled: z.boolean().optional(),
+  reminderLeadHours: z.number().int().min(1).max(168).optional(),
+  digestFrequency: DigestFrequencySchema.nullable().optional(),
+  digestHour: z.number().int().min(0).max(23).optional(),
+});
+
+export const UnsubscribeRequestSchema = z.object({
+  token: z.string().min(1),
+  list: NotificationListSchema,
+});
+
+export const CreatePromptTemplateRequestSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  prompt: z.string().trim().min(1).max(4000),
+});
+
+export const UpdatePromptTemplateRequestSchema = CreatePromptTemplateRequestSchema.partial();
+
+export const AskRequestSchema = z.object({
+  question: z.string().trim().min(1).max(1000),
+});
+
 export const CreateActionRequestSchema = z.object({
   text: z.string(),
   due_suggested: z.string().datetime().optional(),
+  priority: ActionPrioritySchema.optional(),
+  category: z.string().trim().min(1).max(50).nullable().optional(),
 });
 
 export const UpdateActionRequestSchema = z.object({
   text: z.string().optional(),
   done: z.boolean().optional(),
   due_suggested: z.string().datetime().optional(),
+  priority: ActionPrioritySchema.optional(),
+  category: z.string().trim().min(1).max(50).nullable().optional(), // null clears it
 });
 
 // ==============================================
@@ -169,12 +361,177 @@ export const UpdateActionRequestSchema = z.object({
 export const NoteResponseSchema = NoteSchema;
 export const NotesListResponseSchema = CursorPaginationSchema;
 export const ActionResponseSchema = ActionSchema;
+export const ActionsListResponseSchema = z.object({
+  items: z.array(ActionSchema),
+});
+
+export const ActionWithNoteSchema = ActionSchema.extend({
+  note: z.object({
+    id: z.string(),
+    title: z.string().nullable(),
+    tags: z.array(z.string()),
+  }),
+});
+
+export const ActionsPageResponseSchema = z.object({
+  items: z.array(ActionWithNoteSchema),
+  cursor: z.string().nullable(),
+});
+
+export const TrashedNoteSchema = NoteSchema.extend({
+  deletedAt: z.string().datetime(),
+  purgeAt: z.string().datetime(), // Deleted for good after this date
+});
+
+export const TrashListResponseSchema = z.object({
+  items: z.array(TrashedNoteSchema),
+  cursor: z.string().nullable(),
+});
+
+export const CalendarFeedResponseSchema = z.object({
+  url: z.string().url().nullable(), // null while the feed is off
+});
+
+export const AccountExportSchema = z.object({
+  id: z.string(),
+  status: AccountExportStatusSchema,
+  size: z.number().int().nullable(), // Archive size in bytes, once completed
+  error: z.string().nullable(),
+  url: z.string().url().nullable(), // Download link while the archive is available
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+  expiresAt: z.string().datetime().nullable(),
+});
+
+export const AccountExportsResponseSchema = z.object({
+  items: z.array(AccountExportSchema),
+});
+
+export const AccountImportResponseSchema = z.object({
+  notes: z.number().int(),
+  actions: z.number().int(),
+  media: z.number().int(),
+  idMap: z.record(z.string()), // Note ID in the archive -> ID of the imported note
+});
 
 export const UploadResponseSchema = z.object({
   media: MediaSchema,
   note: NoteSchema,
 });
 
+// The client PUTs the file to uploadUrl with the same Content-Type, then completes the upload
+export const DirectUploadResponseSchema = z.object({
+  upload: UploadSessionSchema,
+  key: z.string(),
+  uploadUrl: z.string().url(),
+  uploadUrlExpiresAt: z.string().datetime(),
+});
+
+export const SemanticSearchPassageSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  start: z.number().nullable(), // Seconds from the start of the audio
+  end: z.number().nullable(),
+  score: z.number(),
+});
+
+export const SemanticSearchResultSchema = z.object({
+  note: NoteSchema,
+  score: z.number(),
+  passages: z.array(SemanticSearchPassageSchema),
+});
+
+export const SemanticSearchResponseSchema = z.object({
+  items: z.array(SemanticSearchResultSchema),
+});
+
+export const AskCitationSchema = z.object({
+  index: z.number().int().min(1), // Number of the [n] marker in the answer
+  noteId: z.string(),
+  noteTitle: z.string().nullable(),
+  text: z.string(),
+  start: z.number().nullable(), // Seconds from the start of the audio
+  end: z.number().nullable(),
+});
+
+export const AskResponseSchema = z.object({
+  answer: z.string(),
+  citations: z.array(AskCitationSchema),
+});
+
+export const TranscriptRevisionsResponseSchema = z.object({
+  items: z.array(TranscriptRevisionSchema),
+});
+
+export const PromptTemplatesResponseSchema = z.object({
+  items: z.array(PromptTemplateSchema),
+});
+
+export const NoteAudioResponseSchema = z.object({
+  url: z.string().url(),
+  contentType: z.string(),
+  expiresAt: z.string().datetime(),
+});
+
+// ==============================================
+// LLM OUTPUT SCHEMAS
+// ==============================================
+
+// Structured output the summarization prompt asks the model for
+export const LLM_SUMMARY_LIMITS = {
+  bullets: 5,
+  actions: 10,
+} as const;
+
+export const LLMSummaryActionSchema = z.object({
+  text: z.string().trim().min(1),
+  priority: ActionPrioritySchema.nullish(),
+  category: z.string().trim().min(1).nullish(),
+});
+
+export const LLMSummaryOutputSchema = z.object({
+  tlDr: z.string().trim().min(1),
+  bullets: z.array(z.string().trim().min(1)).max(LLM_SUMMARY_LIMITS.bullets),
+  actions: z.array(LLMSummaryActionSchema).max(LLM_SUMMARY_LIMITS.actions),
+});
+
+// ==============================================
+// NOTE EVENTS (SSE)
+// ==============================================
+
+export const ProcessingStageSchema = z.enum(['transcode', 'transcribe', 'summarize']);
+
+export const NoteStatusEventSchema = z.object({
+  id: z.string(),
+  status: NoteStatusSchema,
+});
+
+export const NoteProgressEventSchema = z.object({
+  jobId: z.string(),
+  stage: ProcessingStageSchema,
+  progress: z.union([z.number(), z.record(z.unknown())]).optional(),
+});
+
+export const NoteJobEventSchema = z.object({
+  jobId: z.string(),
+  stage: ProcessingStageSchema,
+  type: z.enum(['active', 'completed', 'failed', 'retrying']),
+  error: z.string().optional(),
+});
+
+export const NoteFailedEventSchema = z.object({
+  code: z.string().optional(),
+  message: z.string(),
+});
+
+export const NoteEventSchema = z.discriminatedUnion('event', [
+  z.object({ event: z.literal('status'), data: NoteStatusEventSchema }),
+  z.object({ event: z.literal('progress'), data: NoteProgressEventSchema }),
+  z.object({ event: z.literal('job'), data: NoteJobEventSchema }),
+  z.object({ event: z.literal('completed'), data: NoteSchema }),
+  z.object({ event: z.literal('failed'), data: NoteFailedEventSchema }),
+]);
+
 // ==============================================
 // TYPESCRIPT TYPES
 // ==============================================
@@ -186,24 +543,81 @@ export type LoginRequest = z.infer<typeof LoginRequestSchema>;
 export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
 export type ResetRequest = z.infer<typeof ResetRequestSchema>;
 export type ResetConfirmRequest = z.infer<typeof ResetConfirmRequestSchema>;
+export type DeleteAccountRequest = z.infer<typeof DeleteAccountRequestSchema>;
+export type AccountDeletionResponse = z.infer<typeof AccountDeletionResponseSchema>;
 export type TokenPair = z.infer<typeof TokenPairSchema>;
 export type AuthResponse = z.infer<typeof AuthResponseSchema>;
 export type TokenResponse = z.infer<typeof TokenResponseSchema>;
 export type NoteStatus = z.infer<typeof NoteStatusSchema>;
+export type ActionPriority = z.infer<typeof ActionPrioritySchema>;
+export type ActionSort = z.infer<typeof ActionSortSchema>;
 export type Action = z.infer<typeof ActionSchema>;
+export type TranscriptSegment = z.infer<typeof TranscriptSegmentSchema>;
 export type Transcript = z.infer<typeof TranscriptSchema>;
+export type TranscriptRevisionSource = z.infer<typeof TranscriptRevisionSourceSchema>;
+export type TranscriptRevision = z.infer<typeof TranscriptRevisionSchema>;
+export type TranscriptDiffChange = z.infer<typeof TranscriptDiffChangeSchema>;
+export type TranscriptDiff = z.infer<typeof TranscriptDiffSchema>;
+export type SummaryStyle = z.infer<typeof SummaryStyleSchema>;
 export type Summary = z.infer<typeof SummarySchema>;
+export type SearchHighlight = z.infer<typeof SearchHighlightSchema>;
+export type NoteSearchMatch = z.infer<typeof NoteSearchMatchSchema>;
 export type Note = z.infer<typeof NoteSchema>;
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+export type DigestFrequency = z.infer<typeof DigestFrequencySchema>;
+export type NotificationList = z.infer<typeof NotificationListSchema>;
+export type CalendarEntryType = z.infer<typeof CalendarEntryTypeSchema>;
+export type NoteExportFormat = z.infer<typeof NoteExportFormatSchema>;
+export type AccountExportStatus = z.infer<typeof AccountExportStatusSchema>;
+export type UserSettings = z.infer<typeof UserSettingsSchema>;
 export type Media = z.infer<typeof MediaSchema>;
+export type UploadSessionStatus = z.infer<typeof UploadSessionStatusSchema>;
+export type UploadMethod = z.infer<typeof UploadMethodSchema>;
+export type UploadSession = z.infer<typeof UploadSessionSchema>;
 export type CursorPagination = z.infer<typeof CursorPaginationSchema>;
 export type CreateNoteRequest = z.infer<typeof CreateNoteRequestSchema>;
 export type UpdateNoteRequest = z.infer<typeof UpdateNoteRequestSchema>;
+export type UpdateTranscriptRequest = z.infer<typeof UpdateTranscriptRequestSchema>;
+export type RestoreTranscriptRevisionRequest = z.infer<typeof RestoreTranscriptRevisionRequestSchema>;
 export type CreateActionRequest = z.infer<typeof CreateActionRequestSchema>;
 export type UpdateActionRequest = z.infer<typeof UpdateActionRequestSchema>;
 export type NoteResponse = z.infer<typeof NoteResponseSchema>;
 export type NotesListResponse = z.infer<typeof NotesListResponseSchema>;
+export type TrashedNote = z.infer<typeof TrashedNoteSchema>;
+export type TrashListResponse = z.infer<typeof TrashListResponseSchema>;
+export type SemanticSearchPassage = z.infer<typeof SemanticSearchPassageSchema>;
+export type SemanticSearchResult = z.infer<typeof SemanticSearchResultSchema>;
+export type SemanticSearchResponse = z.infer<typeof SemanticSearchResponseSchema>;
+export type CreateUploadSessionRequest = z.infer<typeof CreateUploadSessionRequestSchema>;
+export type SummarizeNoteRequest = z.infer<typeof SummarizeNoteRequestSchema>;
+export type UpdateUserSettingsRequest = z.infer<typeof UpdateUserSettingsRequestSchema>;
+export type UnsubscribeRequest = z.infer<typeof UnsubscribeRequestSchema>;
+export type CreatePromptTemplateRequest = z.infer<typeof CreatePromptTemplateRequestSchema>;
+export type UpdatePromptTemplateRequest = z.infer<typeof UpdatePromptTemplateRequestSchema>;
+export type AskRequest = z.infer<typeof AskRequestSchema>;
+export type AskCitation = z.infer<typeof AskCitationSchema>;
+export type AskResponse = z.infer<typeof AskResponseSchema>;
 export type ActionResponse = z.infer<typeof ActionResponseSchema>;
+export type ActionsListResponse = z.infer<typeof ActionsListResponseSchema>;
+export type ActionWithNote = z.infer<typeof ActionWithNoteSchema>;
+export type ActionsPageResponse = z.infer<typeof ActionsPageResponseSchema>;
+export type CalendarFeedResponse = z.infer<typeof CalendarFeedResponseSchema>;
+export type AccountExport = z.infer<typeof AccountExportSchema>;
+export type AccountExportsResponse = z.infer<typeof AccountExportsResponseSchema>;
+export type AccountImportResponse = z.infer<typeof AccountImportResponseSchema>;
 export type UploadResponse = z.infer<typeof UploadResponseSchema>;
+export type DirectUploadResponse = z.infer<typeof DirectUploadResponseSchema>;
+export type PromptTemplatesResponse = z.infer<typeof PromptTemplatesResponseSchema>;
+export type TranscriptRevisionsResponse = z.infer<typeof TranscriptRevisionsResponseSchema>;
+export type NoteAudioResponse = z.infer<typeof NoteAudioResponseSchema>;
+export type LLMSummaryAction = z.infer<typeof LLMSummaryActionSchema>;
+export type LLMSummaryOutput = z.infer<typeof LLMSummaryOutputSchema>;
+export type ProcessingStage = z.infer<typeof ProcessingStageSchema>;
+export type NoteStatusEvent = z.infer<typeof NoteStatusEventSchema>;
+export type NoteProgressEvent = z.infer<typeof NoteProgressEventSchema>;
+export type NoteJobEvent = z.infer<typeof NoteJobEventSchema>;
+export type NoteFailedEvent = z.infer<typeof NoteFailedEventSchema>;
+export type NoteEvent = z.infer<typeof NoteEventSchema>;
 
 // ==============================================
 // VALIDATION UTILITIES
@@ -254,7 +668,21 @@ export const ERROR_CODES = {
   AUTH_TOKEN_EXPIRED: 'AUTH_TOKEN_EXPIRED',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
   UNSUPPORTED_MEDIA_TYPE: 'UNSUPPORTED_MEDIA_TYPE',
+  AUDIO_CONTENT_INVALID: 'AUDIO_CONTENT_INVALID',
   NOTE_NOT_FOUND: 'NOTE_NOT_FOUND',
+  MEDIA_NOT_FOUND: 'MEDIA_NOT_FOUND',
+  TRANSCRIPT_NOT_FOUND: 'TRANSCRIPT_NOT_FOUND',
+  REVISION_NOT_FOUND: 'REVISION_NOT_FOUND',
+  TEMPLATE_NOT_FOUND: 'TEMPLATE_NOT_FOUND',
+  UNSUBSCRIBE_TOKEN_INVALID: 'UNSUBSCRIBE_TOKEN_INVALID',
+  CALENDAR_FEED_NOT_FOUND: 'CALENDAR_FEED_NOT_FOUND',
+  EXPORT_NOT_FOUND: 'EXPORT_NOT_FOUND',
+  IMPORT_ARCHIVE_INVALID: 'IMPORT_ARCHIVE_INVALID',
+  UPLOAD_NOT_FOUND: 'UPLOAD_NOT_FOUND',
+  UPLOAD_OFFSET_MISMATCH: 'UPLOAD_OFFSET_MISMATCH',
+  UPLOAD_CHUNK_INVALID: 'UPLOAD_CHUNK_INVALID',
+  UPLOAD_INCOMPLETE: 'UPLOAD_INCOMPLETE',
+  SIGNED_URL_INVALID: 'SIGNED_URL_INVALID',
   LLM_FAILURE: 'LLM_FAILURE',
   STT_FAILURE: 'STT_FAILURE',
   RATE_LIMITED: 'RATE_LIMITED',
@@ -1,23 +1,66 @@
 import type {
   Note,
+  SearchHighlight,
+  TranscriptSegment,
   User,
   LoginRequest,
   RegisterRequest,
   ResetRequest,
   ResetConfirmRequest,
+  DeleteAccountRequest,
+  AccountDeletionResponse,
   CreateNoteRequest,
   UpdateNoteRequest,
+  Action,
+  ActionPriority,
+  ActionSort,
   CreateActionRequest,
   UpdateActionRequest,
   NotesListResponse,
+  TrashedNote,
+  TrashListResponse,
+  SemanticSearchResponse,
   NoteResponse,
   AuthResponse,
   TokenResponse,
   ActionResponse,
+  ActionsListResponse,
+  ActionsPageResponse,
+  ActionWithNote,
+  CalendarEntryType,
+  CalendarFeedResponse,
+  NoteExportFormat,
   UploadResponse,
+  DirectUploadResponse,
+  UploadSession,
+  CreateUploadSessionRequest,
+  NoteAudioResponse,
+  UpdateTranscriptRequest,
+  RestoreTranscriptRevisionRequest,
+  TranscriptRevision,
+  TranscriptRevisionsResponse,
+  TranscriptDiff,
+  AskRequest,
+  AskResponse,
+  SummaryStyle,
+  SummarizeNoteRequest,
+  UserSettings,
+  UpdateUserSettingsRequest,
+  DigestFrequency,
+  NotificationList,
+  UnsubscribeRequest,
+  PromptTemplate,
+  PromptTemplatesResponse,
+  CreatePromptTemplateRequest,
+  UpdatePromptTemplateRequest,
+  AccountExport,
+  AccountExportStatus,
+  AccountExportsResponse,
+  AccountImportResponse,
   ApiError as ApiErrorType,
   ErrorCode,
   CursorPagination,
+  NoteEvent,
 } from '@notas-voz/schemas';
 
 // ==============================================
@@ -37,6 +80,46 @@ export interface PaginationOptions {
   tag?: string;
 }
 
+export interface ActionListOptions {
+  priority?: ActionPriority;
+  category?: string;
+  done?: boolean;
+  sort?: ActionSort;
+  order?: 'asc' | 'desc';
+}
+
+export interface ActionInboxOptions extends ActionListOptions {
+  overdue?: boolean;
+  dueFrom?: string;
+  dueTo?: string;
+  tag?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface UploadProgress {
+  uploadId: string;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+export interface ResumableUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  uploadId?: string; // Resume this upload session instead of starting a new one
+  maxRetries?: number; // Consecutive failures tolerated per chunk
+}
+
+export interface NoteEventHandlers {
+  onEvent: (event: NoteEvent) => void;
+  onError?: (error: ApiError) => void;
+  onClose?: () => void;
+}
+
+export interface NoteEventSubscription {
+  close: () => void;
+}
+
 // ==============================================
 // MAIN API CLIENT
 // ==============================================
@@ -100,6 +183,15 @@ export class NotasVozApiClient {
     });
   }
 
+  async deleteAccount(data: DeleteAccountRequest): Promise<AccountDeletionResponse> {
+    return this.request('/auth/account', {
+      method: 'DELETE',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+      credentials: 'include',
+    });
+  }
+
   // ==============================================
   // NOTES ENDPOINTS
   // ==============================================
@@ -119,6 +211,16 @@ export class NotasVozApiClient {
     });
   }
 
+  async semanticSearchNotes(query: string, options: { limit?: number } = {}): Promise<SemanticSearchResponse> {
+    const params = new URLSearchParams({ q: query });
+    if (options.limit) params.append('limit', String(options.limit));
+
+    return this.request(`/notes/search/semantic?${params.toString()}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
   async createNote(data: CreateNoteRequest = {}): Promise<Note> {
     return this.request('/notes', {
       method: 'POST',
@@ -142,6 +244,7 @@ export class NotasVozApiClient {
     });
   }
 
+  // Moves the note to the trash
   async deleteNote(id: string): Promise<void> {
     await this.request(`/notes/${id}`, {
       method: 'DELETE',
@@ -149,6 +252,34 @@ export class NotasVozApiClient {
     });
   }
 
+  async listTrash(options: { cursor?: string; limit?: number } = {}): Promise<TrashListResponse> {
+    const params = new URLSearchParams();
+    if (options.cursor) params.append('cursor', options.cursor);
+    if (options.limit) params.append('limit', String(options.limit));
+
+    const queryString = params.toString();
+    const url = queryString ? `/notes/trash?${queryString}` : '/notes/trash';
+
+    return this.request(url, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async restoreNote(id: string): Promise<Note> {
+    return this.request(`/notes/trash/${id}/restore`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async deleteNotePermanently(id: string): Promise<void> {
+    await this.request(`/notes/trash/${id}`, {
+      method: 'DELETE',
+      headers: this.authHeaders(),
+    });
+  }
+
   async uploadAudioToNote(id: string, audioFile: File): Promise<UploadResponse> {
     const formData = new FormData();
     formData.append('audio', audioFile);
@@ -160,6 +291,177 @@ export class NotasVozApiClient {
     });
   }
 
+  // ==============================================
+  // RESUMABLE UPLOADS
+  // ==============================================
+
+  async createUploadSession(noteId: string, data: CreateUploadSessionRequest): Promise<UploadSession> {
+    return this.request(`/notes/${noteId}/uploads`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async createDirectUpload(noteId: string, data: CreateUploadSessionRequest): Promise<DirectUploadResponse> {
+    return this.request(`/notes/${noteId}/uploads/direct`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getUploadSession(noteId: string, uploadId: string): Promise<UploadSession> {
+    return this.request(`/notes/${noteId}/uploads/${uploadId}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async uploadChunk(
+    noteId: string,
+    uploadId: string,
+    offset: number,
+    chunk: Blob,
+    signal?: AbortSignal
+  ): Promise<UploadSession> {
+    return this.request(`/notes/${noteId}/uploads/${uploadId}?offset=${offset}`, {
+      method: 'PUT',
+      headers: {
+        ...this.authHeadersNoContentType(),
+        'Content-Type': 'application/octet-stream',
+      },
+      body: chunk,
+      // A chunk on a slow connection takes longer than the default timeout
+      signal: anySignal([AbortSignal.timeout(CHUNK_TIMEOUT_MS), ...(signal ? [signal] : [])]),
+    });
+  }
+
+  async completeUpload(noteId: string, uploadId: string): Promise<UploadResponse> {
+    return this.request(`/notes/${noteId}/uploads/${uploadId}/complete`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async abortUpload(noteId: string, uploadId: string): Promise<void> {
+    await this.request(`/notes/${noteId}/uploads/${uploadId}`, {
+      method: 'DELETE',
+      headers: this.authHeaders(),
+    });
+  }
+
+  /**
+   * Upload an audio file in chunks. A chunk that fails is retried with backoff,
+   * after asking the server how many bytes it already has, so dropped
+   * connections only cost the chunk in flight. Pass `uploadId` to resume an
+   * upload started earlier, e.g. after the page was reloaded.
+   */
+  async uploadAudioResumable(
+    noteId: string,
+    file: Blob & { name?: string },
+    options: ResumableUploadOptions = {}
+  ): Promise<UploadResponse> {
+    const { onProgress, signal, maxRetries = 5 } = options;
+
+    let session = options.uploadId
+      ? await this.getUploadSession(noteId, options.uploadId)
+      : await this.createUploadSession(noteId, {
+          filename: file.name || 'audio',
+          contentType: file.type,
+          size: file.size,
+        });
+
+    const report = () => onProgress?.({
+      uploadId: session.id,
+      uploadedBytes: session.offset,
+      totalBytes: session.size,
+    });
+    report();
+
+    let failures = 0;
+    while (session.offset < session.size) {
+      signal?.throwIfAborted();
+
+      const chunk = file.slice(session.offset, Math.min(session.offset + session.chunkSize, session.size));
+
+      try {
+        session = await this.uploadChunk(noteId, session.id, session.offset, chunk, signal);
+        failures = 0;
+        report();
+      } catch (error) {
+        signal?.throwIfAborted();
+
+        // Other client errors won't go away by sending the chunk again
+        if (error instanceof ApiError && error.isClientError() &&
+            !error.isRateLimitError() && error.code !== 'UPLOAD_OFFSET_MISMATCH') {
+          throw error;
+        }
+
+        if (++failures > maxRetries) {
+          throw error;
+        }
+
+        await delay(Math.min(RETRY_BASE_DELAY_MS * 2 ** (failures - 1), RETRY_MAX_DELAY_MS), signal);
+
+        // The chunk may have been stored before the connection dropped
+        const current = session;
+        session = await this.getUploadSession(noteId, current.id).catch(() => current);
+        report();
+      }
+    }
+
+    return this.completeUpload(noteId, session.id);
+  }
+
+  /**
+   * Upload an audio file with a single PUT straight to storage, then attach it
+   * to the note. The bytes never go through the API.
+   */
+  async uploadAudioDirect(
+    noteId: string,
+    file: Blob & { name?: string },
+    options: { signal?: AbortSignal } = {}
+  ): Promise<UploadResponse> {
+    const { upload, uploadUrl } = await this.createDirectUpload(noteId, {
+      filename: file.name || 'audio',
+      contentType: file.type,
+      size: file.size,
+    });
+
+    // The URL is presigned, so it takes no auth headers; Content-Type is part of the signature
+    const response = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': upload.contentType },
+      body: file,
+      signal: options.signal,
+    }).catch(async (error) => {
+      await this.abortUpload(noteId, upload.id).catch(() => {});
+      throw error;
+    });
+
+    if (!response.ok) {
+      await this.abortUpload(noteId, upload.id).catch(() => {});
+      throw new ApiError(response.status, 'INTERNAL_ERROR', `Storage rejected the upload (${response.status})`);
+    }
+
+    return this.completeUpload(noteId, upload.id);
+  }
+
+  async getNoteAudio(id: string): Promise<NoteAudioResponse> {
+    return this.request(`/notes/${id}/audio`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async exportNote(id: string, format: NoteExportFormat = 'md'): Promise<Blob> {
+    return this.requestBlob(`/notes/${id}/export?format=${format}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
   // ==============================================
   // PROCESSING ENDPOINTS
   // ==============================================
@@ -171,10 +473,143 @@ export class NotasVozApiClient {
     });
   }
 
-  async summarizeNote(id: string): Promise<Note> {
+  async summarizeNote(id: string, options: SummarizeNoteRequest = {}): Promise<Note> {
     return this.request(`/notes/${id}/summarize`, {
       method: 'POST',
       headers: this.authHeaders(),
+      body: JSON.stringify(options),
+    });
+  }
+
+  /**
+   * Subscribe to processing events of a note (SSE). Uses fetch instead of
+   * EventSource so the bearer token can be sent in the Authorization header.
+   */
+  subscribeToNoteEvents(id: string, handlers: NoteEventHandlers): NoteEventSubscription {
+    const controller = new AbortController();
+
+    const run = async () => {
+      const response = await fetch(`${this.baseUrl}/notes/${id}/events`, {
+        method: 'GET',
+        headers: {
+          ...this.authHeadersNoContentType(),
+          Accept: 'text/event-stream',
+        },
+        credentials: this.withCredentials ? 'include' : 'same-origin',
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: response.statusText || 'Unknown error'
+          }
+        })) as ApiErrorType;
+
+        throw new ApiError(response.status, errorData.error.code, errorData.error.message);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const event = parseServerSentEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (event) handlers.onEvent(event);
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+    };
+
+    run()
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        handlers.onError?.(
+          error instanceof ApiError
+            ? error
+            : new ApiError(0, 'INTERNAL_ERROR', error instanceof Error ? error.message : String(error))
+        );
+      })
+      .finally(() => handlers.onClose?.());
+
+    return {
+      close: () => controller.abort(),
+    };
+  }
+
+  // ==============================================
+  // ASK ENDPOINTS
+  // ==============================================
+
+  async askNote(id: string, data: AskRequest): Promise<AskResponse> {
+    return this.request(`/notes/${id}/ask`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async askLibrary(data: AskRequest): Promise<AskResponse> {
+    return this.request('/ask', {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+    });
+  }
+
+  // ==============================================
+  // TRANSCRIPT ENDPOINTS
+  // ==============================================
+
+  async updateTranscript(id: string, update: UpdateTranscriptRequest): Promise<Note> {
+    return this.request(`/notes/${id}/transcript`, {
+      method: 'PATCH',
+      headers: this.authHeaders(),
+      body: JSON.stringify(update),
+    });
+  }
+
+  async listTranscriptRevisions(id: string): Promise<TranscriptRevisionsResponse> {
+    return this.request(`/notes/${id}/transcript/revisions`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async diffTranscriptRevisions(
+    id: string,
+    versions: { from?: number; to?: number } = {}
+  ): Promise<TranscriptDiff> {
+    const params = new URLSearchParams();
+    if (versions.from) params.set('from', String(versions.from));
+    if (versions.to) params.set('to', String(versions.to));
+
+    const query = params.toString();
+    return this.request(`/notes/${id}/transcript/diff${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async restoreTranscriptRevision(
+    id: string,
+    revisionId: string,
+    options: RestoreTranscriptRevisionRequest = {}
+  ): Promise<Note> {
+    return this.request(`/notes/${id}/transcript/revisions/${revisionId}/restore`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: JSON.stringify(options),
     });
   }
 
@@ -182,6 +617,42 @@ export class NotasVozApiClient {
   // ACTIONS ENDPOINTS
   // ==============================================
 
+  async listActions(options: ActionInboxOptions = {}): Promise<ActionsPageResponse> {
+    const params = new URLSearchParams();
+    if (options.priority) params.set('priority', options.priority);
+    if (options.category) params.set('category', options.category);
+    if (options.done !== undefined) params.set('done', String(options.done));
+    if (options.overdue !== undefined) params.set('overdue', String(options.overdue));
+    if (options.dueFrom) params.set('dueFrom', options.dueFrom);
+    if (options.dueTo) params.set('dueTo', options.dueTo);
+    if (options.tag) params.set('tag', options.tag);
+    if (options.sort) params.set('sort', options.sort);
+    if (options.order) params.set('order', options.order);
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const query = params.toString();
+    return this.request(`/actions${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async listNoteActions(noteId: string, options: ActionListOptions = {}): Promise<ActionsListResponse> {
+    const params = new URLSearchParams();
+    if (options.priority) params.set('priority', options.priority);
+    if (options.category) params.set('category', options.category);
+    if (options.done !== undefined) params.set('done', String(options.done));
+    if (options.sort) params.set('sort', options.sort);
+    if (options.order) params.set('order', options.order);
+
+    const query = params.toString();
+    return this.request(`/notes/${noteId}/actions${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
   async createAction(noteId: string, data: CreateActionRequest): Promise<ActionResponse> {
     return this.request(`/notes/${noteId}/actions`, {
       method: 'POST',
@@ -205,6 +676,126 @@ export class NotasVozApiClient {
     });
   }
 
+  async exportActionsCalendar(type: CalendarEntryType = 'event'): Promise<Blob> {
+    return this.requestBlob(`/actions/export.ics?type=${type}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async getCalendarFeed(): Promise<CalendarFeedResponse> {
+    return this.request('/actions/feed', {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async rotateCalendarFeed(): Promise<CalendarFeedResponse> {
+    return this.request('/actions/feed', {
+      method: 'POST',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async revokeCalendarFeed(): Promise<void> {
+    await this.request('/actions/feed', {
+      method: 'DELETE',
+      headers: this.authHeaders(),
+    });
+  }
+
+  // ==============================================
+  // SETTINGS ENDPOINTS
+  // ==============================================
+
+  async getSettings(): Promise<UserSettings> {
+    return this.request('/settings', {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async updateSettings(data: UpdateUserSettingsRequest): Promise<UserSettings> {
+    return this.request('/settings', {
+      method: 'PATCH',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async unsubscribe(data: UnsubscribeRequest): Promise<void> {
+    await this.request('/settings/unsubscribe', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async listPromptTemplates(): Promise<PromptTemplatesResponse> {
+    return this.request('/settings/prompt-templates', {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async createPromptTemplate(data: CreatePromptTemplateRequest): Promise<PromptTemplate> {
+    return this.request('/settings/prompt-templates', {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updatePromptTemplate(id: string, data: UpdatePromptTemplateRequest): Promise<PromptTemplate> {
+    return this.request(`/settings/prompt-templates/${id}`, {
+      method: 'PATCH',
+      headers: this.authHeaders(),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deletePromptTemplate(id: string): Promise<void> {
+    await this.request(`/settings/prompt-templates/${id}`, {
+      method: 'DELETE',
+      headers: this.authHeaders(),
+    });
+  }
+
+  // ==============================================
+  // ACCOUNT ENDPOINTS
+  // ==============================================
+
+  async requestAccountExport(): Promise<AccountExport> {
+    return this.request('/account/exports', {
+      method: 'POST',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async listAccountExports(): Promise<AccountExportsResponse> {
+    return this.request('/account/exports', {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async getAccountExport(id: string): Promise<AccountExport> {
+    return this.request(`/account/exports/${id}`, {
+      method: 'GET',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async importAccountArchive(archive: File): Promise<AccountImportResponse> {
+    const formData = new FormData();
+    formData.append('archive', archive);
+
+    return this.request('/account/import', {
+      method: 'POST',
+      headers: this.authHeadersNoContentType(),
+      body: formData,
+    });
+  }
+
   // ==============================================
   // UTILITY METHODS
   // ==============================================
@@ -250,6 +841,23 @@ export class NotasVozApiClient {
   }
 
   private async request(endpoint: string, init: RequestInit): Promise<any> {
+    const response = await this.send(endpoint, init);
+
+    // Handle 204 No Content responses
+    if (response.status === 204) {
+      return undefined;
+    }
+
+    return response.json();
+  }
+
+  // File downloads, such as calendar or note exports
+  private async requestBlob(endpoint: string, init: RequestInit): Promise<Blob> {
+    const response = await this.send(endpoint, init);
+    return response.blob();
+  }
+
+  private async send(endpoint: string, init: RequestInit): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
     
     const requestInit: RequestInit = {
@@ -261,18 +869,13 @@ export class NotasVozApiClient {
       credentials: this.withCredentials ? 'include' : 'same-origin',
     };
 
-    // Add timeout if supported
-    if (typeof AbortSignal.timeout === 'function') {
+    // Add timeout if supported, unless the caller brings its own signal
+    if (!init.signal && typeof AbortSignal.timeout === 'function') {
       requestInit.signal = AbortSignal.timeout(this.timeout);
     }
 
     const response = await fetch(url, requestInit);
 
-    // Handle 204 No Content responses
-    if (response.status === 204) {
-      return undefined;
-    }
-
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({
         error: {
@@ -288,7 +891,7 @@ export class NotasVozApiClient {
       );
     }
 
-    return response.json();
+    return response;
   }
 }
 
@@ -323,6 +926,74 @@ export class ApiError extends Error {
   }
 }
 
+// ==============================================
+// UPLOAD UTILITIES
+// ==============================================
+
+// Time allowed for a single chunk request
+const CHUNK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Backoff between chunk retries: 1s, 2s, 4s... up to 30s
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Aborts as soon as any of the signals does
+const anySignal = (signals: AbortSignal[]): AbortSignal => {
+  const controller = new AbortController();
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+
+  return controller.signal;
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// ==============================================
+// SSE PARSING
+// ==============================================
+
+const parseServerSentEvent = (chunk: string): NoteEvent | null => {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of chunk.split('\n')) {
+    // Lines starting with ':' are keep-alive comments
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) } as NoteEvent;
+  } catch {
+    return null;
+  }
+};
+
 // ==============================================
 // FACTORY FUNCTION
 // ==============================================
@@ -337,24 +1008,67 @@ export const createApiClient = (config: ApiClientConfig): NotasVozApiClient => {
 
 export type {
   Note,
+  SearchHighlight,
+  TranscriptSegment,
   User,
   LoginRequest,
   RegisterRequest,
   ResetRequest,
   ResetConfirmRequest,
+  DeleteAccountRequest,
+  AccountDeletionResponse,
   CreateNoteRequest,
   UpdateNoteRequest,
+  Action,
+  ActionPriority,
+  ActionSort,
   CreateActionRequest,
   UpdateActionRequest,
   NotesListResponse,
+  TrashedNote,
+  TrashListResponse,
+  SemanticSearchResponse,
   NoteResponse,
   AuthResponse,
   TokenResponse,
   ActionResponse,
+  ActionsListResponse,
+  ActionsPageResponse,
+  ActionWithNote,
+  CalendarEntryType,
+  CalendarFeedResponse,
+  NoteExportFormat,
   UploadResponse,
+  DirectUploadResponse,
+  UploadSession,
+  CreateUploadSessionRequest,
+  NoteAudioResponse,
+  UpdateTranscriptRequest,
+  RestoreTranscriptRevisionRequest,
+  TranscriptRevision,
+  TranscriptRevisionsResponse,
+  TranscriptDiff,
+  AskRequest,
+  AskResponse,
+  SummaryStyle,
+  SummarizeNoteRequest,
+  UserSettings,
+  UpdateUserSettingsRequest,
+  DigestFrequency,
+  NotificationList,
+  UnsubscribeRequest,
+  PromptTemplate,
+  PromptTemplatesResponse,
+  CreatePromptTemplateRequest,
+  UpdatePromptTemplateRequest,
+  AccountExport,
+  AccountExportStatus,
+  AccountExportsResponse,
+  AccountImportResponse,
   ApiErrorType,
   ErrorCode,
   CursorPagination,
+  NoteEvent,
   ApiClientConfig,
   PaginationOptions,
 };